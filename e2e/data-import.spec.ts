@@ -0,0 +1,135 @@
+import { test, expect, type Page } from '@playwright/test';
+import { TestHelpers } from './helpers/test-helpers';
+
+const ORDERS_CSV = [
+  'Order ID,Customer Name,Amount,Paid,Order Date',
+  '1,Alice,19.99,true,2024-01-15',
+  '2,Bob,5.00,false,2024-02-01',
+  '3,Carol,42.50,true,2024-03-10',
+].join('\n');
+
+function csvFile(name: string, content: string) {
+  return { name, mimeType: 'text/csv', buffer: Buffer.from(content) };
+}
+
+test.describe('Data Sources - File Import', () => {
+  // Imported data sources are deleted after each test
+  let createdIds: string[];
+
+  test.beforeEach(async ({ page }) => {
+    const helpers = new TestHelpers(page);
+    await helpers.login();
+    createdIds = [];
+  });
+
+  test.afterEach(async ({ page }) => {
+    for (const id of createdIds) {
+      await page.request.delete(`/api/data-sources/${id}`);
+    }
+  });
+
+  async function importFile(page: Page, file: ReturnType<typeof csvFile>, options: Record<string, unknown>) {
+    const response = await page.request.post('/api/data-sources/upload', {
+      multipart: { file, action: 'import', options: JSON.stringify(options) },
+    });
+    const body = await response.json();
+    if (body.success && body.data.createdDataSource) {
+      createdIds.push(body.data.dataSource.id);
+    }
+    return { response, body };
+  }
+
+  test('previews a CSV file with inferred columns', async ({ page }) => {
+    const response = await page.request.post('/api/data-sources/upload', {
+      multipart: { file: csvFile('Orders 2024.csv', ORDERS_CSV), action: 'preview' },
+    });
+    const body = await response.json();
+
+    expect(response.ok()).toBe(true);
+    expect(body.data.format).toBe('csv');
+    expect(body.data.tableName).toBe('orders_2024');
+    expect(body.data.rowCount).toBe(3);
+    expect(body.data.columns.map((c: { name: string; type: string }) => [c.name, c.type])).toEqual([
+      ['order_id', 'integer'],
+      ['customer_name', 'text'],
+      ['amount', 'real'],
+      ['paid', 'boolean'],
+      ['order_date', 'date'],
+    ]);
+  });
+
+  test('imports a CSV file into a new data source', async ({ page }) => {
+    const helpers = new TestHelpers(page);
+    // Named to sort after the sample data source, which other tests select first
+    const dataSourceName = `Test Import ${Date.now()}`;
+
+    const { response, body } = await importFile(page, csvFile('orders.csv', ORDERS_CSV), {
+      tableName: 'orders',
+      mode: 'create',
+      dataSourceName,
+    });
+
+    expect(response.status()).toBe(201);
+    expect(body.data.createdDataSource).toBe(true);
+    expect(body.data.rowCount).toBe(3);
+    expect(body.data.warnings).toEqual([]);
+
+    const dataSourceId = await helpers.getDataSourceId(dataSourceName);
+    const query = await page.request.post('/api/sql/execute', {
+      data: { sql: 'SELECT customer_name, amount FROM orders WHERE paid = 1 ORDER BY order_id', dataSourceId },
+    });
+    const result = await query.json();
+
+    expect(result.success).toBe(true);
+    expect(result.data.rows).toEqual([
+      { customer_name: 'Alice', amount: 19.99 },
+      { customer_name: 'Carol', amount: 42.5 },
+    ]);
+  });
+
+  test('appends to an imported table and adds new columns', async ({ page }) => {
+    const created = await importFile(page, csvFile('orders.csv', ORDERS_CSV), {
+      tableName: 'orders',
+      mode: 'create',
+      dataSourceName: `Test Import ${Date.now()}`,
+    });
+    const dataSourceId = created.body.data.dataSource.id;
+
+    const { response, body } = await importFile(
+      page,
+      csvFile('more-orders.csv', 'Order ID,Customer Name,Amount,Region\n4,Dan,7.25,EU'),
+      { tableName: 'orders', mode: 'append', dataSourceId }
+    );
+
+    expect(response.status()).toBe(200);
+    expect(body.data.createdDataSource).toBe(false);
+    expect(body.data.addedColumns).toEqual(['region']);
+
+    const query = await page.request.post('/api/sql/execute', {
+      data: { sql: 'SELECT COUNT(*) AS total FROM orders', dataSourceId },
+    });
+    const result = await query.json();
+    expect(Number(result.data.rows[0].total)).toBe(4);
+  });
+
+  test('rejects an invalid table name', async ({ page }) => {
+    const { response, body } = await importFile(page, csvFile('orders.csv', ORDERS_CSV), {
+      tableName: '1 orders',
+      mode: 'create',
+      dataSourceName: `Test Import ${Date.now()}`,
+    });
+
+    expect(response.status()).toBe(400);
+    expect(body.error.code).toBe('INVALID_INPUT');
+  });
+
+  test('rejects an unsupported file type', async ({ page }) => {
+    const response = await page.request.post('/api/data-sources/upload', {
+      multipart: { file: { name: 'notes.txt', mimeType: 'text/plain', buffer: Buffer.from('hello') } },
+    });
+    const body = await response.json();
+
+    expect(response.status()).toBe(400);
+    expect(body.error.code).toBe('INVALID_FILE');
+  });
+});
@@ -269,6 +269,22 @@ export class TestHelpers {
     await this.page.waitForTimeout(500);
   }
 
+  /**
+   * Get the ID of a data source by name, or of the first one
+   * (uses the logged-in session's cookies)
+   */
+  async getDataSourceId(dataSourceName?: string): Promise<string> {
+    const response = await this.page.request.get('/api/data-sources');
+    const body = await response.json();
+    const items: Array<{ id: string; name: string }> = body.data?.items ?? [];
+    const dataSource = dataSourceName ? items.find((item) => item.name === dataSourceName) : items[0];
+
+    if (!dataSource) {
+      throw new Error(`Data source not found: ${dataSourceName ?? 'none available'}`);
+    }
+    return dataSource.id;
+  }
+
   /**
    * Retry a function with delay
    */
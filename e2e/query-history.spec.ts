@@ -0,0 +1,84 @@
+import { test, expect, type Page } from '@playwright/test';
+import { TestHelpers } from './helpers/test-helpers';
+
+test.describe('SQL Editor - Query History', () => {
+  let dataSourceId: string;
+  // Unique per test so searches only match this run's entries
+  let marker: string;
+
+  test.beforeEach(async ({ page }) => {
+    const helpers = new TestHelpers(page);
+    await helpers.login();
+    dataSourceId = await helpers.getDataSourceId();
+    marker = `e2e_history_${Date.now()}`;
+  });
+
+  async function execute(page: Page, sql: string) {
+    await page.request.post('/api/sql/execute', { data: { sql, dataSourceId } });
+  }
+
+  async function searchHistory(page: Page, params: Record<string, string>) {
+    const query = new URLSearchParams({ search: marker, ...params });
+    const response = await page.request.get(`/api/sql/history?${query}`);
+    expect(response.ok()).toBe(true);
+    const body = await response.json();
+    return body.data.items as Array<{ sql_text: string; status: string; created_at: string }>;
+  }
+
+  test('records executions and finds them by SQL text', async ({ page }) => {
+    await execute(page, `SELECT 1 AS ${marker}`);
+
+    const items = await searchHistory(page, {});
+    expect(items).toHaveLength(1);
+    expect(items[0].sql_text).toContain(marker);
+    expect(items[0].status).toBe('success');
+  });
+
+  test('filters by status', async ({ page }) => {
+    await execute(page, `SELECT 1 AS ${marker}`);
+    await execute(page, `SELECT * FROM ${marker}_missing_table`);
+
+    const errors = await searchHistory(page, { status: 'error' });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].sql_text).toContain('missing_table');
+
+    const successes = await searchHistory(page, { status: 'success' });
+    expect(successes).toHaveLength(1);
+    expect(successes[0].sql_text).not.toContain('missing_table');
+  });
+
+  test('filters by date range', async ({ page }) => {
+    const minuteBefore = new Date(Date.now() - 60_000).toISOString();
+    await execute(page, `SELECT 1 AS ${marker}`);
+    const minuteAfter = new Date(Date.now() + 60_000).toISOString();
+
+    expect(await searchHistory(page, { from: minuteBefore })).toHaveLength(1);
+    expect(await searchHistory(page, { from: minuteBefore, to: minuteAfter })).toHaveLength(1);
+    expect(await searchHistory(page, { from: minuteAfter })).toHaveLength(0);
+    expect(await searchHistory(page, { to: minuteBefore })).toHaveLength(0);
+  });
+
+  test('rejects an unknown status', async ({ page }) => {
+    const response = await page.request.get('/api/sql/history?status=finished');
+    const body = await response.json();
+
+    expect(response.status()).toBe(400);
+    expect(body.error.code).toBe('INVALID_INPUT');
+  });
+
+  test('searches history from the editor', async ({ page }) => {
+    const helpers = new TestHelpers(page);
+    await execute(page, `SELECT 1 AS ${marker}`);
+
+    await helpers.navigateToPage('SQL Editor');
+    await helpers.waitForLoading();
+    await helpers.switchTab('History');
+
+    await page.getByPlaceholder('Search SQL...').fill(marker);
+    await helpers.waitForLoading();
+
+    await expect(page.getByText(marker).first()).toBeVisible({ timeout: 10000 });
+
+    await helpers.screenshot('sql-editor-history-search');
+  });
+});
@@ -0,0 +1,85 @@
+import { test, expect, type Page } from '@playwright/test';
+import { TestHelpers } from './helpers/test-helpers';
+
+test.describe('SQL Editor - Result Cache', () => {
+  let dataSourceId: string;
+  // Unique per test so each starts without a cached result
+  let marker: string;
+
+  test.beforeEach(async ({ page }) => {
+    const helpers = new TestHelpers(page);
+    await helpers.login();
+    dataSourceId = await helpers.getDataSourceId();
+    marker = `e2e_cache_${Date.now()}`;
+  });
+
+  async function execute(page: Page, options: Record<string, unknown>) {
+    const response = await page.request.post('/api/sql/execute', { data: { dataSourceId, ...options } });
+    expect(response.ok()).toBe(true);
+    const body = await response.json();
+    return body.data as { rows: Record<string, unknown>[]; cache: { status: string; cachedAt?: string } };
+  }
+
+  test('serves a repeated ad-hoc query from the cache when asked', async ({ page }) => {
+    const sql = `SELECT '${marker}' AS marker, COUNT(*) AS total FROM users`;
+
+    const first = await execute(page, { sql, useCache: true });
+    expect(first.cache.status).toBe('miss');
+
+    const second = await execute(page, { sql, useCache: true });
+    expect(second.cache.status).toBe('hit');
+    expect(second.cache.cachedAt).toBe(first.cache.cachedAt);
+    expect(second.rows).toEqual(first.rows);
+  });
+
+  test('bypasses the cache for ad-hoc queries by default', async ({ page }) => {
+    const sql = `SELECT '${marker}' AS marker`;
+
+    await execute(page, { sql, useCache: true });
+    const result = await execute(page, { sql });
+
+    expect(result.cache.status).toBe('bypass');
+  });
+
+  test('re-runs the query when a refresh is requested', async ({ page }) => {
+    const sql = `SELECT '${marker}' AS marker`;
+
+    await execute(page, { sql, useCache: true });
+    const refreshed = await execute(page, { sql, useCache: true, refreshCache: true });
+
+    expect(refreshed.cache.status).toBe('miss');
+  });
+
+  test('caches saved queries and drops their results on invalidation', async ({ page }) => {
+    const created = await page.request.post('/api/queries', {
+      data: { name: `E2E cache ${marker}`, dataSourceId, sqlContent: `SELECT '${marker}' AS marker` },
+    });
+    const savedQueryId = (await created.json()).data.id as string;
+
+    try {
+      const sql = `SELECT '${marker}' AS marker`;
+      expect((await execute(page, { sql, savedQueryId })).cache.status).toBe('miss');
+      expect((await execute(page, { sql, savedQueryId })).cache.status).toBe('hit');
+
+      const invalidated = await page.request.delete(`/api/queries/${savedQueryId}/cache`);
+      expect(invalidated.ok()).toBe(true);
+
+      expect((await execute(page, { sql, savedQueryId })).cache.status).toBe('miss');
+    } finally {
+      await page.request.delete(`/api/queries/${savedQueryId}`);
+    }
+  });
+
+  test('drops a data source\'s cached results when an admin clears them', async ({ page }) => {
+    const sql = `SELECT '${marker}' AS marker`;
+
+    await execute(page, { sql, useCache: true });
+    expect((await execute(page, { sql, useCache: true })).cache.status).toBe('hit');
+
+    const cleared = await page.request.delete(`/api/admin/cache?dataSourceId=${dataSourceId}`);
+    expect(cleared.ok()).toBe(true);
+    expect((await cleared.json()).data.removed).toBeGreaterThan(0);
+
+    expect((await execute(page, { sql, useCache: true })).cache.status).toBe('miss');
+  });
+});
@@ -0,0 +1,96 @@
+import { test, expect, type Page } from '@playwright/test';
+import { TestHelpers } from './helpers/test-helpers';
+
+const ORDERS_CSV = ['Order ID,Customer Name,Amount', '1,Alice,19.99', '2,Bob,5.00'].join('\n');
+
+function csvFile(name: string, content: string) {
+  return { name, mimeType: 'text/csv', buffer: Buffer.from(content) };
+}
+
+interface SchemaListing {
+  tables: Array<{ name: string; columns: Array<{ name: string }> }>;
+  cache: { status: string; fingerprint: string | null; refreshedAt: string | null };
+}
+
+test.describe('SQL Editor - Schema Cache', () => {
+  // A fresh imported data source per test, so refreshes elsewhere cannot interfere
+  let dataSourceId: string;
+
+  test.beforeEach(async ({ page }) => {
+    const helpers = new TestHelpers(page);
+    await helpers.login();
+
+    const response = await page.request.post('/api/data-sources/upload', {
+      multipart: {
+        file: csvFile('orders.csv', ORDERS_CSV),
+        action: 'import',
+        // Named to sort after the sample data source, which other tests select first
+        options: JSON.stringify({ tableName: 'orders', mode: 'create', dataSourceName: `Test Import ${Date.now()}` }),
+      },
+    });
+    expect(response.status()).toBe(201);
+    dataSourceId = (await response.json()).data.dataSource.id;
+  });
+
+  test.afterEach(async ({ page }) => {
+    await page.request.delete(`/api/data-sources/${dataSourceId}`);
+  });
+
+  async function getSchema(page: Page, refresh = false): Promise<SchemaListing> {
+    const response = await page.request.get(`/api/sql/schema/${dataSourceId}${refresh ? '?refresh=true' : ''}`);
+    expect(response.ok()).toBe(true);
+    return (await response.json()).data;
+  }
+
+  function columnNames(listing: SchemaListing, table: string) {
+    return listing.tables.find((t) => t.name === table)?.columns.map((c) => c.name);
+  }
+
+  test('serves the listing from the cache', async ({ page }) => {
+    const first = await getSchema(page);
+    const second = await getSchema(page);
+
+    expect(first.cache.status).toBe('ready');
+    expect(first.cache.fingerprint).toBeTruthy();
+    expect(columnNames(first, 'orders')).toEqual(['order_id', 'customer_name', 'amount']);
+    expect(second.cache).toMatchObject({
+      fingerprint: first.cache.fingerprint,
+      refreshedAt: first.cache.refreshedAt,
+    });
+  });
+
+  test('refreshes the cache on request and keeps the fingerprint of an unchanged schema', async ({ page }) => {
+    const cached = await getSchema(page);
+    const refreshed = await getSchema(page, true);
+
+    expect(refreshed.cache.status).toBe('ready');
+    expect(refreshed.cache.fingerprint).toBe(cached.cache.fingerprint);
+    expect(Date.parse(refreshed.cache.refreshedAt!)).toBeGreaterThan(Date.parse(cached.cache.refreshedAt!));
+  });
+
+  test('picks up a changed table with a new fingerprint', async ({ page }) => {
+    const before = await getSchema(page);
+
+    const appended = await page.request.post('/api/data-sources/upload', {
+      multipart: {
+        file: csvFile('more-orders.csv', 'Order ID,Customer Name,Amount,Region\n3,Carol,42.50,EU'),
+        action: 'import',
+        options: JSON.stringify({ tableName: 'orders', mode: 'append', dataSourceId }),
+      },
+    });
+    expect(appended.ok()).toBe(true);
+
+    const after = await getSchema(page, true);
+
+    expect(after.cache.fingerprint).not.toBe(before.cache.fingerprint);
+    expect(columnNames(after, 'orders')).toEqual(['order_id', 'customer_name', 'amount', 'region']);
+  });
+
+  test('queues a background refresh', async ({ page }) => {
+    const response = await page.request.post(`/api/sql/schema/${dataSourceId}/refresh`);
+    const body = await response.json();
+
+    expect(response.ok()).toBe(true);
+    expect(typeof body.data.queued).toBe('boolean');
+  });
+});
@@ -0,0 +1,115 @@
+import { test, expect, type Page } from '@playwright/test';
+import { TestHelpers } from './helpers/test-helpers';
+
+const ORDERS_CSV = ['Order ID,Customer Name,Amount', '1,Alice,19.99', '2,Bob,5.00'].join('\n');
+// The same table without the amount column
+const ORDERS_WITHOUT_AMOUNT_CSV = ['Order ID,Customer Name', '1,Alice', '2,Bob'].join('\n');
+
+function csvFile(name: string, content: string) {
+  return { name, mimeType: 'text/csv', buffer: Buffer.from(content) };
+}
+
+test.describe('Data Sources - Schema Drift', () => {
+  // A fresh imported data source per test, deleted afterwards with its saved queries
+  let dataSourceId: string;
+  let queryIds: string[];
+
+  test.beforeEach(async ({ page }) => {
+    const helpers = new TestHelpers(page);
+    await helpers.login();
+    queryIds = [];
+
+    const response = await page.request.post('/api/data-sources/upload', {
+      multipart: {
+        file: csvFile('orders.csv', ORDERS_CSV),
+        action: 'import',
+        // Named to sort after the sample data source, which other tests select first
+        options: JSON.stringify({ tableName: 'orders', mode: 'create', dataSourceName: `Test Import ${Date.now()}` }),
+      },
+    });
+    expect(response.status()).toBe(201);
+    dataSourceId = (await response.json()).data.dataSource.id;
+  });
+
+  test.afterEach(async ({ page }) => {
+    for (const id of queryIds) {
+      await page.request.delete(`/api/queries/${id}`);
+    }
+    await page.request.delete(`/api/data-sources/${dataSourceId}`);
+  });
+
+  async function saveQuery(page: Page, name: string, sqlContent: string) {
+    const response = await page.request.post('/api/queries', { data: { name, dataSourceId, sqlContent } });
+    expect(response.ok()).toBe(true);
+    const id = (await response.json()).data.id as string;
+    queryIds.push(id);
+    return id;
+  }
+
+  // Refreshing the schema cache records a snapshot whenever the schema changed
+  async function refreshSchema(page: Page) {
+    const response = await page.request.get(`/api/sql/schema/${dataSourceId}?refresh=true`);
+    expect(response.ok()).toBe(true);
+  }
+
+  async function replaceOrders(page: Page, content: string) {
+    const response = await page.request.post('/api/data-sources/upload', {
+      multipart: {
+        file: csvFile('orders.csv', content),
+        action: 'import',
+        options: JSON.stringify({ tableName: 'orders', mode: 'replace', dataSourceId }),
+      },
+    });
+    expect(response.ok()).toBe(true);
+  }
+
+  async function getDrift(page: Page) {
+    const response = await page.request.get(`/api/data-sources/${dataSourceId}/schema-drift`);
+    expect(response.ok()).toBe(true);
+    return (await response.json()).data;
+  }
+
+  test('reports no drift for an unchanged schema', async ({ page }) => {
+    await refreshSchema(page);
+    await refreshSchema(page);
+
+    const drift = await getDrift(page);
+    expect(drift.changes).toEqual([]);
+    expect(drift.detectedAt).toBeNull();
+    expect(drift.snapshots).toHaveLength(1);
+  });
+
+  test('detects a removed column and the saved queries reading it', async ({ page }) => {
+    await refreshSchema(page);
+    const affectedId = await saveQuery(page, `E2E drift amount ${Date.now()}`, 'SELECT customer_name, amount FROM orders');
+    await saveQuery(page, `E2E drift names ${Date.now()}`, 'SELECT customer_name FROM orders');
+
+    await replaceOrders(page, ORDERS_WITHOUT_AMOUNT_CSV);
+    await refreshSchema(page);
+
+    const drift = await getDrift(page);
+    expect(drift.changes).toHaveLength(1);
+    expect(drift.changes[0]).toMatchObject({ name: 'orders', kind: 'table', change: 'changed' });
+    expect(drift.changes[0].columns).toEqual([expect.objectContaining({ name: 'amount', change: 'removed' })]);
+    expect(drift.detectedAt).not.toBeNull();
+    expect(drift.impact.queries).toEqual([
+      expect.objectContaining({ id: affectedId, references: ['orders.amount'] }),
+    ]);
+  });
+
+  test('clears the drift once acknowledged', async ({ page }) => {
+    await refreshSchema(page);
+    await replaceOrders(page, ORDERS_WITHOUT_AMOUNT_CSV);
+    await refreshSchema(page);
+    expect((await getDrift(page)).changes).toHaveLength(1);
+
+    const response = await page.request.post(`/api/data-sources/${dataSourceId}/schema-drift/acknowledge`);
+    const body = await response.json();
+    expect(response.ok()).toBe(true);
+    expect(body.data.acknowledged).toBe(1);
+
+    const drift = await getDrift(page);
+    expect(drift.changes).toEqual([]);
+    expect(drift.impact.queries).toEqual([]);
+  });
+});
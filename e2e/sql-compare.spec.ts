@@ -0,0 +1,74 @@
+import { test, expect, type Page } from '@playwright/test';
+import { TestHelpers } from './helpers/test-helpers';
+
+// One row more than the default MAX_COMPARE_ROWS (50000) fetches per side,
+// with `v` given by the expression for rows past that limit
+function sequenceSql(valuePastLimit: string) {
+  return (
+    'WITH RECURSIVE seq(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM seq WHERE n < 50001) ' +
+    `SELECT n, CASE WHEN n > 50000 THEN ${valuePastLimit} ELSE n END AS v FROM seq ORDER BY n`
+  );
+}
+
+test.describe('SQL Editor - Result Comparison', () => {
+  let dataSourceId: string;
+
+  test.beforeEach(async ({ page }) => {
+    const helpers = new TestHelpers(page);
+    await helpers.login();
+    dataSourceId = await helpers.getDataSourceId();
+  });
+
+  async function compare(page: Page, baseSql: string, targetSql: string, options: Record<string, unknown> = {}) {
+    const response = await page.request.post('/api/sql/compare', {
+      data: {
+        base: { sql: baseSql, dataSourceId },
+        target: { sql: targetSql, dataSourceId },
+        ...options,
+      },
+    });
+    return { response, body: await response.json() };
+  }
+
+  test('treats numbers within the tolerance as equal', async ({ page }) => {
+    const { response, body } = await compare(page, 'SELECT 1 AS id, 10.0 AS v', 'SELECT 1 AS id, 10.05 AS v', {
+      keyColumns: ['id'],
+      tolerance: 0.1,
+    });
+
+    expect(response.ok()).toBe(true);
+    expect(body.data.identical).toBe(true);
+    expect(body.data.summary).toEqual({ added: 0, removed: 0, changed: 0, unchanged: 1 });
+  });
+
+  test('reports numbers outside the tolerance as changed', async ({ page }) => {
+    const { response, body } = await compare(page, 'SELECT 1 AS id, 10.0 AS v', 'SELECT 1 AS id, 10.05 AS v', {
+      keyColumns: ['id'],
+    });
+
+    expect(response.ok()).toBe(true);
+    expect(body.data.identical).toBe(false);
+    expect(body.data.summary.changed).toBe(1);
+    expect(body.data.rows[0].key).toEqual({ id: 1 });
+    expect(body.data.rows[0].changes[0].column).toBe('v');
+    expect(body.data.rows[0].changes[0].delta).toBeCloseTo(0.05);
+  });
+
+  test('does not call a truncated comparison identical', async ({ page }) => {
+    // The sides only differ past the row limit, so the compared rows all match
+    const { response, body } = await compare(page, sequenceSql('n'), sequenceSql('-n'), { keyColumns: ['n'] });
+
+    expect(response.ok()).toBe(true);
+    expect(body.data.base.truncated).toBe(true);
+    expect(body.data.target.truncated).toBe(true);
+    expect(body.data.summary.changed).toBe(0);
+    expect(body.data.identical).toBe(false);
+  });
+
+  test('rejects an invalid timeout', async ({ page }) => {
+    const { response, body } = await compare(page, 'SELECT 1 AS id', 'SELECT 1 AS id', { timeout: 0 });
+
+    expect(response.status()).toBe(400);
+    expect(body.error.code).toBe('INVALID_INPUT');
+  });
+});
@@ -0,0 +1,71 @@
+import { test, expect, type Page } from '@playwright/test';
+import { TestHelpers } from './helpers/test-helpers';
+
+// 25 numbered rows, independent of the sample data
+const SEQUENCE_SQL =
+  'WITH RECURSIVE seq(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM seq WHERE n < 25) SELECT n FROM seq ORDER BY n';
+
+test.describe('SQL Editor - Server-side Pagination', () => {
+  let dataSourceId: string;
+
+  test.beforeEach(async ({ page }) => {
+    const helpers = new TestHelpers(page);
+    await helpers.login();
+    dataSourceId = await helpers.getDataSourceId();
+  });
+
+  async function fetchPage(page: Page, sql: string, limit: number, offset: number) {
+    const response = await page.request.post('/api/sql/execute', {
+      data: { sql, dataSourceId, limit, offset },
+    });
+    expect(response.ok()).toBe(true);
+    const body = await response.json();
+    return {
+      values: (body.data.rows as Array<{ n: number }>).map((row) => row.n),
+      pagination: body.data.pagination,
+    };
+  }
+
+  test('returns the first page and reports more rows', async ({ page }) => {
+    const { values, pagination } = await fetchPage(page, SEQUENCE_SQL, 10, 0);
+
+    expect(values).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(pagination).toMatchObject({ limit: 10, offset: 0, hasMore: true, serverSide: true });
+  });
+
+  test('returns a middle page starting at the offset', async ({ page }) => {
+    const { values, pagination } = await fetchPage(page, SEQUENCE_SQL, 10, 10);
+
+    expect(values[0]).toBe(11);
+    expect(values).toHaveLength(10);
+    expect(pagination.hasMore).toBe(true);
+  });
+
+  test('reports no more rows on a page ending exactly at the last row', async ({ page }) => {
+    const { values, pagination } = await fetchPage(page, SEQUENCE_SQL, 5, 20);
+
+    expect(values).toEqual([21, 22, 23, 24, 25]);
+    expect(pagination.hasMore).toBe(false);
+  });
+
+  test('returns a short last page', async ({ page }) => {
+    const { values, pagination } = await fetchPage(page, SEQUENCE_SQL, 10, 20);
+
+    expect(values).toEqual([21, 22, 23, 24, 25]);
+    expect(pagination.hasMore).toBe(false);
+  });
+
+  test("pages within the query's own LIMIT", async ({ page }) => {
+    const { values, pagination } = await fetchPage(page, `${SEQUENCE_SQL} LIMIT 12`, 10, 10);
+
+    expect(values).toEqual([11, 12]);
+    expect(pagination.hasMore).toBe(false);
+  });
+
+  test('pages a query ending in a semicolon', async ({ page }) => {
+    const { values, pagination } = await fetchPage(page, `${SEQUENCE_SQL};`, 10, 0);
+
+    expect(values).toHaveLength(10);
+    expect(pagination.hasMore).toBe(true);
+  });
+});
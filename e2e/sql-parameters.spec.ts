@@ -0,0 +1,87 @@
+import { test, expect } from '@playwright/test';
+import { TestHelpers } from './helpers/test-helpers';
+
+test.describe('SQL Editor - Query Parameters', () => {
+  let dataSourceId: string;
+
+  test.beforeEach(async ({ page }) => {
+    const helpers = new TestHelpers(page);
+    await helpers.login();
+    dataSourceId = await helpers.getDataSourceId();
+  });
+
+  test('binds a named parameter', async ({ page }) => {
+    const response = await page.request.post('/api/sql/execute', {
+      data: {
+        sql: 'SELECT id, name FROM users WHERE id = :userId',
+        dataSourceId,
+        parametersSchema: [{ name: 'userId', type: 'number' }],
+        parameters: { userId: 1 },
+      },
+    });
+    const body = await response.json();
+
+    expect(response.ok()).toBe(true);
+    expect(body.success).toBe(true);
+    expect(body.data.rows).toHaveLength(1);
+    expect(body.data.rows[0].id).toBe(1);
+  });
+
+  test('treats parameter values as data, not SQL', async ({ page }) => {
+    const response = await page.request.post('/api/sql/execute', {
+      data: {
+        sql: 'SELECT id FROM users WHERE name = :name',
+        dataSourceId,
+        parameters: { name: "' OR '1'='1" },
+      },
+    });
+    const body = await response.json();
+
+    expect(body.success).toBe(true);
+    expect(body.data.rows).toHaveLength(0);
+  });
+
+  test('uses the default value of a missing parameter', async ({ page }) => {
+    const response = await page.request.post('/api/sql/execute', {
+      data: {
+        sql: 'SELECT id FROM users WHERE id = :userId',
+        dataSourceId,
+        parametersSchema: [{ name: 'userId', type: 'number', defaultValue: 1 }],
+      },
+    });
+    const body = await response.json();
+
+    expect(body.success).toBe(true);
+    expect(body.data.rows).toHaveLength(1);
+  });
+
+  test('rejects a missing required parameter', async ({ page }) => {
+    const response = await page.request.post('/api/sql/execute', {
+      data: {
+        sql: 'SELECT id FROM users WHERE id = :userId',
+        dataSourceId,
+        parametersSchema: [{ name: 'userId', type: 'number', required: true }],
+      },
+    });
+    const body = await response.json();
+
+    expect(response.status()).toBe(400);
+    expect(body.error.code).toBe('INVALID_PARAMETERS');
+    expect(body.error.details.errors[0].parameter).toBe('userId');
+  });
+
+  test('rejects a value of the wrong type', async ({ page }) => {
+    const response = await page.request.post('/api/sql/execute', {
+      data: {
+        sql: 'SELECT id FROM users WHERE id = :userId',
+        dataSourceId,
+        parametersSchema: [{ name: 'userId', type: 'number' }],
+        parameters: { userId: 'not a number' },
+      },
+    });
+    const body = await response.json();
+
+    expect(response.status()).toBe(400);
+    expect(body.error.code).toBe('INVALID_PARAMETERS');
+  });
+});
@@ -0,0 +1,78 @@
+import { test, expect, type Page } from '@playwright/test';
+import { TestHelpers } from './helpers/test-helpers';
+
+test.describe('SQL Editor - Read-only Enforcement', () => {
+  let dataSourceId: string;
+
+  test.beforeEach(async ({ page }) => {
+    const helpers = new TestHelpers(page);
+    await helpers.login();
+    dataSourceId = await helpers.getDataSourceId();
+  });
+
+  async function countUsers(page: Page): Promise<number> {
+    const response = await page.request.post('/api/sql/execute', {
+      data: { sql: 'SELECT COUNT(*) AS total FROM users', dataSourceId },
+    });
+    const body = await response.json();
+    return Number(body.data.rows[0].total);
+  }
+
+  test('rejects INSERT without changing data', async ({ page }) => {
+    const before = await countUsers(page);
+
+    const response = await page.request.post('/api/sql/execute', {
+      data: {
+        sql: "INSERT INTO users (name, email) VALUES ('e2e', 'e2e@example.com')",
+        dataSourceId,
+      },
+    });
+    const body = await response.json();
+
+    expect(response.status()).toBe(403);
+    expect(body.error.code).toBe('FORBIDDEN');
+    expect(body.error.details.reason).toContain('INSERT');
+    expect(await countUsers(page)).toBe(before);
+  });
+
+  test('rejects DROP TABLE', async ({ page }) => {
+    const response = await page.request.post('/api/sql/execute', {
+      data: { sql: 'DROP TABLE users', dataSourceId },
+    });
+    const body = await response.json();
+
+    expect(response.status()).toBe(403);
+    expect(body.error.code).toBe('FORBIDDEN');
+  });
+
+  test('rejects a script with a write after a SELECT', async ({ page }) => {
+    const response = await page.request.post('/api/sql/execute', {
+      data: {
+        sql: 'SELECT id FROM users LIMIT 1;\nDELETE FROM users;',
+        dataSourceId,
+      },
+    });
+    const body = await response.json();
+
+    expect(response.status()).toBe(403);
+    expect(body.error.code).toBe('FORBIDDEN');
+    expect(body.error.details.statementIndex).toBe(1);
+    expect(body.error.details.line).toBe(2);
+  });
+
+  test('shows the rejection in the editor', async ({ page }) => {
+    const helpers = new TestHelpers(page);
+
+    await helpers.navigateToPage('SQL Editor');
+    await helpers.waitForLoading();
+    await helpers.selectDataSource();
+
+    await helpers.typeInMonacoEditor('DELETE FROM users');
+    await helpers.clickButton('Run');
+    await helpers.waitForLoading();
+
+    await expect(page.getByText(/Only read-only queries are allowed/).first()).toBeVisible({ timeout: 10000 });
+
+    await helpers.screenshot('sql-editor-read-only-rejected');
+  });
+});
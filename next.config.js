@@ -1,7 +1,12 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  // Virtual scrolling settings are read by the results grid in the browser
+  env: {
+    VIRTUAL_SCROLL_THRESHOLD: process.env.VIRTUAL_SCROLL_THRESHOLD || '',
+    ENABLE_VIRTUAL_SCROLLING: process.env.ENABLE_VIRTUAL_SCROLLING || '',
+  },
   experimental: {
-    serverComponentsExternalPackages: ['better-sqlite3', 'knex'],
+    serverComponentsExternalPackages: ['better-sqlite3', 'knex', '@duckdb/node-api'],
   },
   webpack: (config, { isServer }) => {
     if (!isServer) {
@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RefreshCw, Square } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDateTime, truncate } from '@/lib/utils';
+import type { RunningQuery } from '@/lib/sql/execution-registry';
+
+function formatElapsed(startedAt: string, now: number): string {
+  const seconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export default function RunningQueriesPage() {
+  const queryClient = useQueryClient();
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick the elapsed-time column between refetches
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { data: runningQueries, isLoading, error, refetch } = useQuery<RunningQuery[]>({
+    queryKey: ['running-queries'],
+    queryFn: async () => {
+      const res = await fetch('/api/admin/running-queries');
+      const data = await res.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to load running queries');
+      }
+      return data.data;
+    },
+    refetchInterval: 3000,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (query: RunningQuery) => {
+      const res = await fetch(`/api/sql/execute/${query.executionId}?userId=${encodeURIComponent(query.userId)}`, {
+        method: 'DELETE',
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      if (data.success) {
+        toast.success(data.data.cancelled ? 'Cancellation requested' : data.data.message);
+        queryClient.invalidateQueries({ queryKey: ['running-queries'] });
+      } else {
+        toast.error(data.error?.message || 'Failed to cancel query');
+      }
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Running Queries</h1>
+          <p className="text-muted-foreground">
+            SQL editor queries currently executing across all users
+          </p>
+        </div>
+
+        <Button variant="outline" onClick={() => refetch()}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>In-flight Executions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading...</div>
+          ) : error ? (
+            <div className="text-center py-8 text-destructive">
+              {error instanceof Error ? error.message : 'Failed to load running queries'}
+            </div>
+          ) : runningQueries?.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No queries are running</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Data Source</TableHead>
+                  <TableHead>SQL</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Elapsed</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[100px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runningQueries?.map((query) => (
+                  <TableRow key={`${query.userId}:${query.executionId}`}>
+                    <TableCell>{query.userEmail}</TableCell>
+                    <TableCell>
+                      {query.dataSourceName}
+                      <span className="ml-1 text-xs text-muted-foreground">({query.clientType})</span>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs max-w-[400px]" title={query.sql}>
+                      {truncate(query.sql, 120)}
+                    </TableCell>
+                    <TableCell>{formatDateTime(query.startedAt)}</TableCell>
+                    <TableCell>{formatElapsed(query.startedAt, now)}</TableCell>
+                    <TableCell>
+                      <Badge variant={query.status === 'running' ? 'default' : 'secondary'}>
+                        {query.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => cancelMutation.mutate(query)}
+                        disabled={query.status !== 'running' || cancelMutation.isPending}
+                      >
+                        <Square className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
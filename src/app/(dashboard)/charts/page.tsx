@@ -31,6 +31,7 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { SavedQueryPicker } from '@/components/queries/saved-query-picker';
 import {
   Select,
   SelectContent,
@@ -51,7 +52,7 @@ import {
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatDateTime } from '@/lib/utils';
-import type { ChartDefinition, SavedQuery, ChartType } from '@/types/database';
+import type { ChartDefinition, ChartType } from '@/types/database';
 
 const chartTypeIcons: Record<ChartType, React.ReactNode> = {
   bar: <BarChart3 className="h-4 w-4" />,
@@ -78,14 +79,6 @@ export default function ChartsPage() {
     },
   });
 
-  const { data: queries } = useQuery<SavedQuery[]>({
-    queryKey: ['queries'],
-    queryFn: async () => {
-      const res = await fetch('/api/queries');
-      const data = await res.json();
-      return data.data?.items || [];
-    },
-  });
 
   const createMutation = useMutation({
     mutationFn: async () => {
@@ -182,19 +175,8 @@ export default function ChartsPage() {
                 </Select>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="query">Data Source Query</Label>
-                <Select value={selectedQueryId} onValueChange={setSelectedQueryId}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a query" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {queries?.map((query) => (
-                      <SelectItem key={query.id} value={query.id}>
-                        {query.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <Label>Data Source Query</Label>
+                <SavedQueryPicker value={selectedQueryId} onChange={setSelectedQueryId} />
               </div>
             </div>
             <DialogFooter>
@@ -1,18 +1,23 @@
 'use client';
 
+import { useRef } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useParams } from 'next/navigation';
 import { ChartRenderer } from '@/components/charts/chart-renderer';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Breadcrumb } from '@/components/layout/breadcrumb';
 import { RefreshCw, Settings, Download } from 'lucide-react';
 import { toast } from 'sonner';
+import { formatDateTime } from '@/lib/utils';
 import type { ChartDefinition, ChartConfig, DataMapping } from '@/types/database';
 
 export default function ChartViewerPage() {
   const params = useParams();
   const chartId = params.id as string;
+  // Set by the Refresh button so the next fetch skips the result cache
+  const bypassCacheRef = useRef(false);
 
   const { data: chart, isLoading: isLoadingChart } = useQuery<ChartDefinition>({
     queryKey: ['chart', chartId],
@@ -26,7 +31,9 @@ export default function ChartViewerPage() {
   const { data: chartData, isLoading: isLoadingData, refetch } = useQuery({
     queryKey: ['chart-data', chartId],
     queryFn: async () => {
-      const res = await fetch(`/api/charts/${chartId}/data`);
+      const refresh = bypassCacheRef.current;
+      bypassCacheRef.current = false;
+      const res = await fetch(`/api/charts/${chartId}/data${refresh ? '?refresh=true' : ''}`);
       const data = await res.json();
       return data.data;
     },
@@ -82,7 +89,19 @@ export default function ChartViewerPage() {
         </div>
 
         <div className="flex items-center gap-2">
-          <Button variant="outline" size="sm" onClick={() => refetch()}>
+          {chartData?.cache?.status === 'hit' && (
+            <Badge variant="outline" title={`Cached until ${formatDateTime(chartData.cache.expiresAt)}`}>
+              Cached {formatDateTime(chartData.cache.cachedAt)}
+            </Badge>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              bypassCacheRef.current = true;
+              refetch();
+            }}
+          >
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
@@ -114,6 +133,7 @@ export default function ChartViewerPage() {
               chartType={chart.chart_type}
               chartConfig={chartConfig}
               dataMapping={dataMapping}
+              columns={chartData?.columns}
               height={400}
             />
           )}
@@ -20,7 +20,6 @@ import {
   DialogFooter,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -43,10 +42,14 @@ import {
   MoreVertical,
   AlertCircle,
   AlertTriangle,
+  FileUp,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatDateTime } from '@/lib/utils';
+import { ImportFileDialog } from '@/components/data-sources/import-file-dialog';
+import { SchemaDriftDialog } from '@/components/data-sources/schema-drift-dialog';
 import type { DataSource, DatabaseClientType } from '@/types/database';
+import type { SchemaDriftSummary } from '@/types/api';
 
 const databaseTypes: { value: DatabaseClientType; label: string }[] = [
   { value: 'pg', label: 'PostgreSQL' },
@@ -54,11 +57,19 @@ const databaseTypes: { value: DatabaseClientType; label: string }[] = [
   { value: 'mssql', label: 'SQL Server' },
   { value: 'sqlite3', label: 'SQLite' },
   { value: 'oracledb', label: 'Oracle' },
+  { value: 'duckdb', label: 'DuckDB' },
 ];
 
+// Client types whose database is a file uploaded to data/uploads
+const DATABASE_FILE_EXTENSIONS: Partial<Record<DatabaseClientType, string[]>> = {
+  sqlite3: ['.db', '.sqlite', '.sqlite3'],
+  duckdb: ['.duckdb', '.db'],
+};
+
 export default function DataSourcesPage() {
   const queryClient = useQueryClient();
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingDataSource, setEditingDataSource] = useState<DataSource | null>(null);
   const [newDSName, setNewDSName] = useState('');
@@ -81,6 +92,13 @@ export default function DataSourcesPage() {
   const [dataSourceToDelete, setDataSourceToDelete] = useState<DataSource | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [usageInfo, setUsageInfo] = useState<{ queries: number; reports: number; charts: number } | null>(null);
+  const [driftDataSource, setDriftDataSource] = useState<DataSource | null>(null);
+
+  const fileExtensions = DATABASE_FILE_EXTENSIONS[newDSType];
+  const isFileDatabase = !!fileExtensions;
+  // DuckDB runs in memory when no database file is given
+  const requiresFile = newDSType === 'sqlite3';
+  const fileTypeLabel = `${databaseTypes.find((t) => t.value === newDSType)?.label} database file (${fileExtensions?.join(', ')})`;
 
   const { data: dataSources, isLoading } = useQuery<DataSource[]>({
     queryKey: ['data-sources'],
@@ -91,11 +109,22 @@ export default function DataSourcesPage() {
     },
   });
 
+  // Unacknowledged schema changes, keyed by data source
+  const { data: schemaDrift } = useQuery<Map<string, SchemaDriftSummary>>({
+    queryKey: ['schema-drift'],
+    queryFn: async () => {
+      const res = await fetch('/api/data-sources/schema-drift');
+      const data = await res.json();
+      const summaries: SchemaDriftSummary[] = data.data || [];
+      return new Map(summaries.map((summary) => [summary.dataSourceId, summary]));
+    },
+  });
+
   const createMutation = useMutation({
     mutationFn: async () => {
-      // For SQLite, use the uploaded filename
-      if (newDSType === 'sqlite3') {
-        if (!newDSFileName) {
+      // For SQLite and DuckDB, use the uploaded filename
+      if (isFileDatabase) {
+        if (!newDSFileName && requiresFile) {
           throw new Error('Please upload a SQLite database file');
         }
 
@@ -107,7 +136,7 @@ export default function DataSourcesPage() {
             description: newDSDescription,
             clientType: newDSType,
             connectionConfig: {
-              filename: newDSFileName, // Just the filename, server will prepend data/uploads/
+              filename: newDSFileName || undefined, // Just the filename, server will prepend data/uploads/
             },
           }),
         });
@@ -150,9 +179,9 @@ export default function DataSourcesPage() {
     setConnectionTestResult(null);
 
     try {
-      // For SQLite, use the uploaded filename
-      if (newDSType === 'sqlite3') {
-        if (!newDSFileName) {
+      // For SQLite and DuckDB, use the uploaded filename
+      if (isFileDatabase) {
+        if (!newDSFileName && requiresFile) {
           setConnectionTestResult({ success: false, message: 'Please upload a SQLite database file' });
           setTestingConnection(false);
           return;
@@ -164,7 +193,7 @@ export default function DataSourcesPage() {
           body: JSON.stringify({
             clientType: newDSType,
             connectionConfig: {
-              filename: newDSFileName, // Just the filename, server will prepend data/uploads/
+              filename: newDSFileName || undefined, // Just the filename, server will prepend data/uploads/
             },
           }),
         });
@@ -220,8 +249,8 @@ export default function DataSourcesPage() {
 
   const handleFileUpload = async (file: File) => {
     // Validate file type
-    if (!file.name.endsWith('.db') && !file.name.endsWith('.sqlite') && !file.name.endsWith('.sqlite3')) {
-      toast.error('Please select a valid SQLite database file (.db, .sqlite, .sqlite3)');
+    if (!fileExtensions?.some((ext) => file.name.endsWith(ext))) {
+      toast.error(`Please select a valid ${fileTypeLabel}`);
       return;
     }
 
@@ -270,10 +299,8 @@ export default function DataSourcesPage() {
     e.stopPropagation();
 
     const file = e.dataTransfer.files?.[0];
-    if (file && (file.name.endsWith('.db') || file.name.endsWith('.sqlite') || file.name.endsWith('.sqlite3'))) {
+    if (file) {
       handleFileUpload(file);
-    } else if (file) {
-      toast.error('Please select a valid SQLite database file (.db, .sqlite, .sqlite3)');
     }
   };
 
@@ -309,9 +336,9 @@ export default function DataSourcesPage() {
     mutationFn: async () => {
       if (!editingDataSource) throw new Error('No data source selected');
 
-      // For SQLite, use the uploaded filename
-      if (newDSType === 'sqlite3') {
-        if (!newDSFileName) {
+      // For SQLite and DuckDB, use the uploaded filename
+      if (isFileDatabase) {
+        if (!newDSFileName && requiresFile) {
           throw new Error('Please upload a SQLite database file');
         }
 
@@ -323,7 +350,7 @@ export default function DataSourcesPage() {
             description: newDSDescription,
             clientType: newDSType,
             connectionConfig: {
-              filename: newDSFileName, // Just the filename, server will prepend data/uploads/
+              filename: newDSFileName || undefined, // Just the filename, server will prepend data/uploads/
             },
           }),
         });
@@ -420,13 +447,36 @@ export default function DataSourcesPage() {
           </p>
         </div>
 
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setImportDialogOpen(true)}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Import File
+          </Button>
+          <Button onClick={() => setCreateDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Data Source
+          </Button>
+        </div>
+
+        {driftDataSource && (
+          <SchemaDriftDialog
+            open={!!driftDataSource}
+            onOpenChange={(open) => !open && setDriftDataSource(null)}
+            dataSource={driftDataSource}
+            onAcknowledged={() => queryClient.invalidateQueries({ queryKey: ['schema-drift'] })}
+          />
+        )}
+
+        {importDialogOpen && (
+          <ImportFileDialog
+            open={importDialogOpen}
+            onOpenChange={setImportDialogOpen}
+            dataSources={(dataSources || []).filter((ds) => ds.client_type === 'sqlite3')}
+            onImported={() => queryClient.invalidateQueries({ queryKey: ['data-sources'] })}
+          />
+        )}
+
         <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              New Data Source
-            </Button>
-          </DialogTrigger>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
               <DialogTitle>Add Data Source</DialogTitle>
@@ -472,10 +522,16 @@ export default function DataSourcesPage() {
                 />
               </div>
 
-              {newDSType === 'sqlite3' ? (
-                // SQLite file upload to server
+              {isFileDatabase ? (
+                // SQLite / DuckDB file upload to server
                 <div className="space-y-3">
-                  <Label>Database File</Label>
+                  <Label>Database File{newDSType === 'duckdb' && ' (optional)'}</Label>
+                  {newDSType === 'duckdb' && (
+                    <p className="text-xs text-muted-foreground">
+                      Without a file, DuckDB runs in memory. Queries can read uploaded files directly, e.g.{' '}
+                      <code className="bg-muted px-1 py-0.5 rounded">read_parquet(&apos;data/uploads/sales.parquet&apos;)</code>
+                    </p>
+                  )}
 
                   {/* File upload zone */}
                   <div
@@ -497,7 +553,7 @@ export default function DataSourcesPage() {
                       <>
                         <FolderOpen className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
                         <p className="text-sm font-medium">
-                          {newDSFileName || 'Click to browse or drag & drop SQLite file'}
+                          {newDSFileName || `Click to browse or drag & drop ${newDSType === 'duckdb' ? 'DuckDB' : 'SQLite'} file`}
                         </p>
                         <p className="text-xs text-muted-foreground mt-1">
                           File will be uploaded to: <code className="bg-muted px-1 py-0.5 rounded">data/uploads/</code>
@@ -507,7 +563,7 @@ export default function DataSourcesPage() {
                     <Input
                       ref={fileInputRef}
                       type="file"
-                      accept=".db,.sqlite,.sqlite3"
+                      accept={fileExtensions?.join(',')}
                       onChange={handleFileSelect}
                       className="hidden"
                       disabled={uploadingFile}
@@ -668,10 +724,16 @@ export default function DataSourcesPage() {
                 />
               </div>
 
-              {newDSType === 'sqlite3' ? (
-                // SQLite file upload for edit dialog
+              {isFileDatabase ? (
+                // SQLite / DuckDB file upload for edit dialog
                 <div className="space-y-3">
-                  <Label>Database File</Label>
+                  <Label>Database File{newDSType === 'duckdb' && ' (optional)'}</Label>
+                  {newDSType === 'duckdb' && (
+                    <p className="text-xs text-muted-foreground">
+                      Without a file, DuckDB runs in memory. Queries can read uploaded files directly, e.g.{' '}
+                      <code className="bg-muted px-1 py-0.5 rounded">read_parquet(&apos;data/uploads/sales.parquet&apos;)</code>
+                    </p>
+                  )}
 
                   {/* File upload zone for edit */}
                   <div
@@ -703,7 +765,7 @@ export default function DataSourcesPage() {
                     <Input
                       ref={fileInputRef}
                       type="file"
-                      accept=".db,.sqlite,.sqlite3"
+                      accept={fileExtensions?.join(',')}
                       onChange={handleFileSelect}
                       className="hidden"
                       disabled={uploadingFile}
@@ -925,9 +987,14 @@ export default function DataSourcesPage() {
                       {ds.description || '-'}
                     </TableCell>
                     <TableCell>
-                      <Badge variant={ds.is_active ? 'default' : 'secondary'}>
-                        {ds.is_active ? 'Active' : 'No Connection'}
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={ds.is_active ? 'default' : 'secondary'}>
+                          {ds.is_active ? 'Active' : 'No Connection'}
+                        </Badge>
+                        {schemaDrift?.has(ds.id) && (
+                          <SchemaDriftBadge summary={schemaDrift.get(ds.id)!} onClick={() => setDriftDataSource(ds)} />
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell className="text-muted-foreground">
                       {formatDateTime(ds.created_at)}
@@ -963,3 +1030,21 @@ export default function DataSourcesPage() {
     </div>
   );
 }
+
+function SchemaDriftBadge({ summary, onClick }: { summary: SchemaDriftSummary; onClick: () => void }) {
+  const affected = summary.affectedQueries;
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={`Schema changed since ${formatDateTime(summary.detectedAt)}`}
+    >
+      <Badge variant={affected > 0 ? 'destructive' : 'warning'} className="cursor-pointer">
+        <AlertTriangle className="h-3 w-3 mr-1" />
+        {affected > 0
+          ? `Schema drift: ${affected} quer${affected === 1 ? 'y' : 'ies'} affected`
+          : `Schema drift: ${summary.changeCount} change${summary.changeCount === 1 ? '' : 's'}`}
+      </Badge>
+    </button>
+  );
+}
@@ -9,6 +9,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Breadcrumb } from '@/components/layout/breadcrumb';
+import { SavedQueryPicker } from '@/components/queries/saved-query-picker';
 import {
   Select,
   SelectContent,
@@ -44,7 +45,7 @@ import {
 import { CSS } from '@dnd-kit/utilities';
 import { GripVertical, Save, Eye, Trash, Plus } from 'lucide-react';
 import { toast } from 'sonner';
-import type { ReportDefinition, SavedQuery, ColumnDefinition, FormatterType } from '@/types/database';
+import type { ReportDefinition, ColumnDefinition, FormatterType } from '@/types/database';
 
 interface SortableColumnRowProps {
   column: ColumnDefinition;
@@ -174,14 +175,6 @@ export default function ReportEditorPage() {
     },
   });
 
-  const { data: queries } = useQuery<SavedQuery[]>({
-    queryKey: ['queries'],
-    queryFn: async () => {
-      const res = await fetch('/api/queries');
-      const data = await res.json();
-      return data.data?.items || [];
-    },
-  });
 
   useEffect(() => {
     if (report) {
@@ -324,19 +317,8 @@ export default function ReportEditorPage() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="query">Data Source Query</Label>
-                  <Select value={selectedQueryId} onValueChange={setSelectedQueryId}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select a query" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {queries?.map((query) => (
-                        <SelectItem key={query.id} value={query.id}>
-                          {query.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <Label>Data Source Query</Label>
+                  <SavedQueryPicker value={selectedQueryId} onChange={setSelectedQueryId} />
                 </div>
               </div>
               <div className="space-y-2">
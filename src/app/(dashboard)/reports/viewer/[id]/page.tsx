@@ -10,7 +10,9 @@ import { Breadcrumb } from '@/components/layout/breadcrumb';
 import { Download, RefreshCw, Settings } from 'lucide-react';
 import { toast } from 'sonner';
 import type { ColumnDef } from '@tanstack/react-table';
+import { formatValue, formatterForCategory } from '@/lib/utils';
 import type { ReportDefinition, ColumnDefinition } from '@/types/database';
+import type { ColumnInfo } from '@/types/api';
 
 export default function ReportViewerPage() {
   const params = useParams();
@@ -37,6 +39,8 @@ export default function ReportViewerPage() {
     enabled: !!reportId,
   });
 
+  const resultColumns: ColumnInfo[] | undefined = reportData?.columns;
+
   const columns: ColumnDef<Record<string, unknown>>[] = useMemo(() => {
     if (!report?.column_config) return [];
 
@@ -44,21 +48,27 @@ export default function ReportViewerPage() {
       const columnConfig: ColumnDefinition[] = JSON.parse(report.column_config);
       return columnConfig
         .filter((col) => col.visible)
-        .map((col) => ({
-          accessorKey: col.field,
-          header: col.header,
-          cell: ({ getValue }) => {
-            const value = getValue();
-            if (value === null || value === undefined) {
-              return <span className="text-muted-foreground">-</span>;
-            }
-            return String(value);
-          },
-        }));
+        .map((col) => {
+          // Columns without a formatter are formatted by their database type
+          const formatter = col.formatter ?? {
+            type: formatterForCategory(resultColumns?.find((c) => c.name === col.field)?.category),
+          };
+          return {
+            accessorKey: col.field,
+            header: col.header,
+            cell: ({ getValue }) => {
+              const value = getValue();
+              if (value === null || value === undefined) {
+                return <span className="text-muted-foreground">-</span>;
+              }
+              return formatValue(value, formatter);
+            },
+          };
+        });
     } catch {
       return [];
     }
-  }, [report?.column_config]);
+  }, [report?.column_config, resultColumns]);
 
   const handleExport = async (format: 'csv' | 'xlsx' | 'pdf') => {
     try {
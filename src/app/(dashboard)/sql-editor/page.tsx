@@ -1,11 +1,20 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import { useQuery, useMutation } from '@tanstack/react-query';
-import { MonacoSQLEditor } from '@/components/sql-editor/monaco-editor';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { MonacoSQLEditor, type CursorPosition, type MonacoSQLEditorHandle } from '@/components/sql-editor/monaco-editor';
+import { EditorTabsBar, describeTabResult } from '@/components/sql-editor/editor-tabs-bar';
+import { CompareDialog } from '@/components/sql-editor/compare-dialog';
+import { CompareResults } from '@/components/sql-editor/compare-results';
 import { SchemaBrowser } from '@/components/sql-editor/schema-browser';
 import { QueryResults } from '@/components/sql-editor/query-results';
 import { ValidationPanel } from '@/components/sql-editor/validation-panel';
+import { ParameterDialog } from '@/components/sql-editor/parameter-dialog';
+import { FormatterSettingsDialog } from '@/components/sql-editor/formatter-settings-dialog';
+import { SnippetPicker } from '@/components/sql-editor/snippet-picker';
+import { QueryHistoryPanel } from '@/components/sql-editor/query-history-panel';
+import { QueryVersionsPanel } from '@/components/sql-editor/query-versions-panel';
+import { QueryPlanViewer } from '@/components/sql-editor/query-plan-viewer';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -23,6 +32,7 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   Dialog,
   DialogContent,
@@ -32,27 +42,102 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import { Play, Save, FileText, Database, Code, AlertCircle, AlertTriangle } from 'lucide-react';
+import { Play, Save, FileText, Database, Code, AlertCircle, AlertTriangle, Square, GitCompare, GitCompareArrows, ListTree, Settings2 } from 'lucide-react';
 import { toast } from 'sonner';
-import type { DataSource } from '@/types/database';
-import type { SchemaInfo, SQLExecutionResponse } from '@/types/api';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  DataSource,
+  QueryFolder,
+  QueryHistoryEntry,
+  QueryParameter,
+  SavedQueryWithTags,
+  SQLSnippet,
+} from '@/types/database';
+import type {
+  ApiError,
+  ResultCompareResponse,
+  ResultCompareSource,
+  SchemaInfo,
+  SchemaListing,
+  SchemaRefreshResult,
+  SQLExecutionResponse,
+  SQLEditorTabResult,
+  SQLExplainResponse,
+  SQLFormatterPreferences,
+  SQLValidationResponse,
+  TableInfo,
+  ViewInfo,
+} from '@/types/api';
 import type { SQLValidationResult } from '@/lib/sql/validator';
+import { buildParametersSchema, extractParameterNames, parseParametersSchema } from '@/lib/sql/parameters';
+import { readResultStream } from '@/lib/sql/result-stream-reader';
+import { useEditorTabs } from '@/lib/hooks/use-editor-tabs';
 
 export default function SQLEditorPage() {
-  const [sqlContent, setSqlContent] = useState('SELECT * FROM users LIMIT 10;');
+  // Filled from the active editor tab once the tabs have loaded
+  const [sqlContent, setSqlContent] = useState('');
   const [selectedDataSource, setSelectedDataSource] = useState<string>('');
   const [queryResult, setQueryResult] = useState<SQLExecutionResponse | null>(null);
-  const [validation, setValidation] = useState<SQLValidationResult | null>(null);
+  const [validation, setValidation] = useState<
+    (SQLValidationResult & Pick<SQLValidationResponse, 'estimatedCost' | 'plan'>) | null
+  >(null);
+  const [queryPlan, setQueryPlan] = useState<SQLExplainResponse | null>(null);
+  // Background validation of the editor content, shown inline in the editor
+  const [liveValidation, setLiveValidation] = useState<SQLValidationResponse | null>(null);
   const [executionError, setExecutionError] = useState<string | null>(null);
   const [schemaError, setSchemaError] = useState<string | null>(null);
   const [schemaWarning, setSchemaWarning] = useState<string | null>(null);
   const [schemaLogs, setSchemaLogs] = useState<string[]>([]);
+  // Tables whose columns the schema browser loaded, merged into the listing
+  const [loadedSchemaObjects, setLoadedSchemaObjects] = useState<Map<string, TableInfo | ViewInfo>>(new Map());
+  // Set while a requested schema refresh has not reached the listing yet
+  const [pendingSchemaRefresh, setPendingSchemaRefresh] = useState<{
+    refreshedAt: string | null;
+    error?: string;
+    requestedAt: number;
+  } | null>(null);
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [queryName, setQueryName] = useState('');
   const [queryDescription, setQueryDescription] = useState('');
+  const [changeSummary, setChangeSummary] = useState('');
+  // Result cache TTL in seconds; blank uses the server default
+  const [cacheTtl, setCacheTtl] = useState('');
+  // Library folder ('none' for the top level) and comma-separated tags
+  const [queryFolderId, setQueryFolderId] = useState('none');
+  const [queryTags, setQueryTags] = useState('');
+  const [newFolderName, setNewFolderName] = useState('');
+  // Saved query open in the editor; saving updates it and creates a version
+  const [savedQuery, setSavedQuery] = useState<SavedQueryWithTags | null>(null);
+  const [versionsOpen, setVersionsOpen] = useState(false);
   const [pageOffset, setPageOffset] = useState(0);
+  const [parameterDialogOpen, setParameterDialogOpen] = useState(false);
+  const [parameterDefinitions, setParameterDefinitions] = useState<QueryParameter[]>([]);
+  const [parameterValues, setParameterValues] = useState<Record<string, unknown>>({});
+  const [formatterDialogOpen, setFormatterDialogOpen] = useState(false);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [comparison, setComparison] = useState<ResultCompareResponse | null>(null);
+  const [compareError, setCompareError] = useState<string | null>(null);
+  const editorRef = useRef<MonacoSQLEditorHandle>(null);
+  // Id of the execution in flight, used to cancel it server-side
+  const executionIdRef = useRef<string | null>(null);
+  // SQL of the last run, which may be a selection of the editor content; paging re-runs it
+  const runSqlRef = useRef('');
+  const [streamResults, setStreamResults] = useState(false);
+  const [activeTab, setActiveTab] = useState('results');
+  const queryClient = useQueryClient();
+
+  // Server-persisted editor tabs; edits to the loaded tab are autosaved
+  const editorTabs = useEditorTabs();
+  const { tabs, activeTab: activeEditorTab, updateTab, selectTab, createTab, closeTab, setShared } = editorTabs;
+  const [loadedTabId, setLoadedTabId] = useState<string | null>(null);
+  const loadedTabIdRef = useRef<string | null>(null);
+  // Cursor to restore once the loaded tab's content is in the editor
+  const restoreCursorRef = useRef<CursorPosition | null>(null);
+  // Tab that started the running query, which records its result summary
+  const runTabIdRef = useRef<string | null>(null);
 
   const PAGE_SIZE = 100;
+  const LIVE_VALIDATION_DELAY = 500;
 
   // Fetch data sources (only active ones)
   const { data: dataSources, isLoading: isLoadingDataSources } = useQuery<DataSource[]>({
@@ -76,7 +161,7 @@ export default function SQLEditorPage() {
   }, [dataSources, isLoadingDataSources]);
 
   // Fetch schema for selected data source
-  const { data: schema, isLoading: isLoadingSchema, error: schemaQueryError } = useQuery<{ tables: any[], views: any[], logs?: string[] }>({
+  const { data: schema, isLoading: isLoadingSchema, error: schemaQueryError } = useQuery<SchemaListing>({
     queryKey: ['schema', selectedDataSource],
     queryFn: async () => {
       const res = await fetch(`/api/sql/schema/${selectedDataSource}`);
@@ -111,8 +196,57 @@ export default function SQLEditorPage() {
     retry: false,
     staleTime: 300000, // Cache for 5 minutes
     gcTime: 600000, // Keep in cache for 10 minutes
+    refetchInterval: pendingSchemaRefresh ? 3000 : false,
+  });
+
+  useEffect(() => {
+    setLoadedSchemaObjects(new Map());
+    setPendingSchemaRefresh(null);
+  }, [selectedDataSource]);
+
+  const handleSchemaObjectLoaded = useCallback((object: TableInfo | ViewInfo) => {
+    setLoadedSchemaObjects((prev) => new Map(prev).set(`${object.schema ?? ''}.${object.name}`, object));
+  }, []);
+
+  // Refreshes run in a background job; the listing is polled until it changes
+  const refreshSchemaMutation = useMutation({
+    mutationFn: async (): Promise<SchemaRefreshResult> => {
+      const res = await fetch(`/api/sql/schema/${selectedDataSource}/refresh`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to refresh schema');
+      }
+      return data.data;
+    },
+    onSuccess: () => {
+      setPendingSchemaRefresh({
+        refreshedAt: schema?.cache?.refreshedAt ?? null,
+        error: schema?.cache?.error,
+        requestedAt: Date.now(),
+      });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
   });
 
+  useEffect(() => {
+    if (!pendingSchemaRefresh || !schema?.cache) return;
+    const { cache } = schema;
+    if (cache.refreshedAt !== pendingSchemaRefresh.refreshedAt && cache.status === 'ready') {
+      setPendingSchemaRefresh(null);
+      setLoadedSchemaObjects(new Map());
+      queryClient.invalidateQueries({ queryKey: ['schema-object', selectedDataSource] });
+      toast.success('Schema refreshed');
+    } else if (cache.status === 'failed' && cache.error !== pendingSchemaRefresh.error) {
+      setPendingSchemaRefresh(null);
+      toast.error(`Schema refresh failed: ${cache.error}`);
+    } else if (Date.now() - pendingSchemaRefresh.requestedAt > 120000) {
+      setPendingSchemaRefresh(null);
+      toast.warning('The schema refresh is taking long; the schema browser shows the previous schema until it completes');
+    }
+  }, [schema, pendingSchemaRefresh, queryClient, selectedDataSource]);
+
   // Handle schema query errors
   useEffect(() => {
     if (schemaQueryError) {
@@ -122,37 +256,305 @@ export default function SQLEditorPage() {
     }
   }, [schemaQueryError]);
 
+  // Autosave the editor content and data source to the loaded tab
+  useEffect(() => {
+    if (loadedTabIdRef.current) {
+      updateTab(loadedTabIdRef.current, { sqlContent, dataSourceId: selectedDataSource || null });
+    }
+  }, [sqlContent, selectedDataSource, updateTab]);
+
+  // Load a tab into the editor when it becomes active
+  useEffect(() => {
+    if (!activeEditorTab || activeEditorTab.id === loadedTabIdRef.current) return;
+    const tabId = activeEditorTab.id;
+
+    loadedTabIdRef.current = tabId;
+    restoreCursorRef.current =
+      activeEditorTab.cursor_line != null && activeEditorTab.cursor_column != null
+        ? { lineNumber: activeEditorTab.cursor_line, column: activeEditorTab.cursor_column }
+        : null;
+    setLoadedTabId(tabId);
+    setSqlContent(activeEditorTab.sql_content);
+    setSelectedDataSource(activeEditorTab.data_source_id ?? '');
+    setQueryResult(null);
+    setExecutionError(null);
+    setValidation(null);
+    setQueryPlan(null);
+    setComparison(null);
+    setCompareError(null);
+    setPageOffset(0);
+    runSqlRef.current = '';
+    setSavedQuery(null);
+    setParameterDefinitions([]);
+    setParameterValues({});
+
+    if (activeEditorTab.saved_query_id) {
+      fetch(`/api/queries/${activeEditorTab.saved_query_id}`)
+        .then((res) => res.json())
+        .then((data) => {
+          // Ignore the answer if another tab was opened meanwhile
+          if (data.success && loadedTabIdRef.current === tabId) {
+            setSavedQuery(data.data);
+            setParameterDefinitions(parseParametersSchema(data.data.parameters_schema));
+          }
+        })
+        .catch(() => {
+          // The tab still works as plain SQL without its saved query
+        });
+    }
+  }, [activeEditorTab]);
+
+  useEffect(() => {
+    const cursor = restoreCursorRef.current;
+    restoreCursorRef.current = null;
+    if (cursor) {
+      editorRef.current?.setCursor(cursor);
+    }
+  }, [loadedTabId]);
+
+  const handleCursorChange = useCallback(
+    (cursor: CursorPosition) => {
+      if (loadedTabIdRef.current) {
+        updateTab(loadedTabIdRef.current, { cursor });
+      }
+    },
+    [updateTab]
+  );
+
+  // Sets the saved query open in the loaded tab, naming the tab after it
+  const attachSavedQuery = useCallback(
+    (query: SavedQueryWithTags | null) => {
+      setSavedQuery(query);
+      if (loadedTabIdRef.current) {
+        updateTab(loadedTabIdRef.current, { savedQueryId: query?.id ?? null, ...(query && { name: query.name }) });
+      }
+    },
+    [updateTab]
+  );
+
+  const applySavedQuery = useCallback((query: SavedQueryWithTags) => {
+    attachSavedQuery(query);
+    setSqlContent(query.sql_content);
+    setSelectedDataSource(query.data_source_id);
+    setParameterDefinitions(parseParametersSchema(query.parameters_schema));
+  }, [attachSavedQuery]);
+
+  // Open a saved query passed as ?queryId= in its own tab, reusing one that already has it
+  const queryParamHandledRef = useRef(false);
+  useEffect(() => {
+    if (editorTabs.isLoading || queryParamHandledRef.current) return;
+    queryParamHandledRef.current = true;
+    const queryId = new URLSearchParams(window.location.search).get('queryId');
+    if (!queryId) return;
+
+    const existing = tabs.find((tab) => tab.saved_query_id === queryId);
+    if (existing) {
+      selectTab(existing.id);
+      return;
+    }
+
+    fetch(`/api/queries/${queryId}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          void createTab({
+            name: data.data.name,
+            sqlContent: data.data.sql_content,
+            dataSourceId: data.data.data_source_id,
+            savedQueryId: data.data.id,
+          });
+        } else {
+          toast.error(data.error?.message || 'Failed to load saved query');
+        }
+      })
+      .catch(() => toast.error('Failed to load saved query'));
+  }, [editorTabs.isLoading, tabs, selectTab, createTab]);
+
+  const recordLastResult = useCallback(
+    (result: SQLEditorTabResult) => {
+      if (runTabIdRef.current) {
+        updateTab(runTabIdRef.current, { lastResult: result });
+      }
+    },
+    [updateTab]
+  );
+
+  const lastResult = useMemo<SQLEditorTabResult | null>(() => {
+    if (!activeEditorTab?.last_result) return null;
+    try {
+      return JSON.parse(activeEditorTab.last_result);
+    } catch {
+      return null;
+    }
+  }, [activeEditorTab?.last_result]);
+
   // Validate SQL mutation
   const validateMutation = useMutation({
     mutationFn: async (sql: string) => {
       const res = await fetch('/api/sql/validate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sql, dataSourceId: selectedDataSource }),
+        body: JSON.stringify({
+          sql,
+          dataSourceId: selectedDataSource,
+          explain: !!selectedDataSource,
+          parameters: parameterValues,
+          parametersSchema: parameterDefinitions,
+        }),
       });
       return res.json();
     },
     onSuccess: (data) => {
       setValidation(data.data);
+      if (data.data?.plan) {
+        setQueryPlan({ plan: data.data.plan, estimatedCost: data.data.estimatedCost });
+      }
+    },
+  });
+
+  // Validate in the background once typing pauses; a newer edit aborts the pending request
+  useEffect(() => {
+    if (!sqlContent.trim()) {
+      setLiveValidation(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch('/api/sql/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sql: sqlContent, dataSourceId: selectedDataSource }),
+        signal: controller.signal,
+      })
+        .then((res) => res.json())
+        .then((data) => {
+          if (data.success) {
+            setLiveValidation(data.data);
+          }
+        })
+        .catch(() => {
+          // Aborted or offline; the markers refresh on the next edit
+        });
+    }, LIVE_VALIDATION_DELAY);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [sqlContent, selectedDataSource]);
+
+  // Explain SQL mutation: fetches the query plan without running the query
+  const explainMutation = useMutation({
+    mutationFn: async (sql: string) => {
+      const res = await fetch('/api/sql/explain', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sql,
+          dataSourceId: selectedDataSource,
+          parameters: parameterValues,
+          parametersSchema: parameterDefinitions,
+        }),
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      if (data.success) {
+        setQueryPlan(data.data);
+        setActiveTab('plan');
+      } else {
+        toast.error(data.error?.message || 'Failed to explain query');
+      }
     },
   });
 
   // Execute SQL mutation
   const executeMutation = useMutation({
-    mutationFn: async ({ sql, offset = 0 }: { sql: string; offset?: number }) => {
+    mutationFn: async ({
+      sql,
+      offset = 0,
+      parameters = parameterValues,
+      parametersSchema = parameterDefinitions,
+      dataSourceId = selectedDataSource,
+    }: {
+      sql: string;
+      offset?: number;
+      dataSourceId?: string;
+      parameters?: Record<string, unknown>;
+      parametersSchema?: QueryParameter[];
+    }) => {
+      const executionId = uuidv4();
+      executionIdRef.current = executionId;
+      runTabIdRef.current = loadedTabIdRef.current;
       const res = await fetch('/api/sql/execute', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           sql,
-          dataSourceId: selectedDataSource,
+          dataSourceId,
+          parameters,
+          parametersSchema,
           limit: PAGE_SIZE,
           offset,
+          executionId,
+          stream: streamResults,
         }),
       });
-      return res.json();
+
+      // Validation errors are still plain JSON responses
+      if (!res.headers.get('Content-Type')?.includes('application/x-ndjson')) {
+        return res.json();
+      }
+
+      // Render streamed rows as they arrive
+      const streamed: SQLExecutionResponse = { executionId, columns: [], rows: [], rowCount: 0, executionTime: 0 };
+      let streamError: ApiError | undefined;
+      setExecutionError(null);
+      setQueryResult(null);
+
+      await readResultStream(res, (message) => {
+        switch (message.type) {
+          case 'columns':
+            streamed.columns = message.columns;
+            break;
+          case 'rows':
+            streamed.rows = streamed.rows.concat(message.rows);
+            streamed.rowCount = streamed.rows.length;
+            setQueryResult({ ...streamed });
+            break;
+          case 'end':
+            streamed.executionTime = message.executionTime;
+            streamed.truncated = message.truncated;
+            break;
+          case 'error':
+            streamError = message.error;
+            break;
+        }
+      });
+
+      return streamError
+        ? { success: false, error: streamError, data: streamed }
+        : { success: true, data: streamed };
+    },
+    onSettled: () => {
+      executionIdRef.current = null;
+      queryClient.invalidateQueries({ queryKey: ['query-history'] });
     },
     onSuccess: (data) => {
+      const executedAt = new Date().toISOString();
+      if (data.success) {
+        recordLastResult({
+          executedAt,
+          rowCount: data.data.rowCount,
+          executionTime: data.data.executionTime,
+          columns: data.data.columns.map((column: { name: string }) => column.name),
+          truncated: data.data.truncated,
+        });
+      } else {
+        recordLastResult({ executedAt, error: data.error?.message || 'Query execution failed' });
+      }
+
       if (data.success) {
         setQueryResult(data.data);
         setExecutionError(null);
@@ -160,66 +562,333 @@ export default function SQLEditorPage() {
         if (pageOffset === 0) {
           toast.success('Query executed successfully');
         }
+      } else if (data.error?.code === 'QUERY_CANCELLED') {
+        toast.info('Query cancelled');
+        // Keep rows that were already streamed before the cancel
+        if (data.data?.rows?.length) {
+          setQueryResult(data.data);
+          setExecutionError(null);
+        } else {
+          setExecutionError(data.error.message);
+          setQueryResult(null);
+        }
       } else {
         setExecutionError(data.error?.message || 'Query execution failed');
         setQueryResult(null);
       }
     },
     onError: (error) => {
-      setExecutionError(error instanceof Error ? error.message : 'Unknown error');
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      recordLastResult({ executedAt: new Date().toISOString(), error: message });
+      setExecutionError(message);
       setQueryResult(null);
     },
   });
 
-  // Save query mutation
-  const saveQueryMutation = useMutation({
+  // The user's formatting preferences, applied by the editor's format command
+  const { data: formatterPreferences } = useQuery<SQLFormatterPreferences>({
+    queryKey: ['sql-formatter-preferences'],
+    queryFn: async () => {
+      const res = await fetch('/api/sql/formatter-preferences');
+      const data = await res.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to load formatter preferences');
+      }
+      return data.data;
+    },
+    staleTime: Infinity,
+  });
+
+  const saveFormatterMutation = useMutation({
+    mutationFn: async (preferences: SQLFormatterPreferences) => {
+      const res = await fetch('/api/sql/formatter-preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(preferences),
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      if (data.success) {
+        toast.success('Formatting preferences saved');
+        queryClient.setQueryData(['sql-formatter-preferences'], data.data);
+        setFormatterDialogOpen(false);
+      } else {
+        toast.error(data.error?.message || 'Failed to save formatting preferences');
+      }
+    },
+  });
+
+  // Snippets for completion and the toolbar picker, limited to the selected data source
+  const { data: snippets } = useQuery<SQLSnippet[]>({
+    queryKey: ['sql-snippets', selectedDataSource],
+    queryFn: async () => {
+      const params = selectedDataSource ? `?dataSourceId=${selectedDataSource}` : '';
+      const res = await fetch(`/api/sql/snippets${params}`);
+      const data = await res.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to load snippets');
+      }
+      return data.data;
+    },
+    staleTime: 60000,
+  });
+
+  // Folders offered when saving, labelled with their full path
+  const { data: folderOptions } = useQuery<QueryFolder[], Error, { id: string; path: string }[]>({
+    queryKey: ['query-folders'],
+    queryFn: async () => {
+      const res = await fetch('/api/queries/folders');
+      const data = await res.json();
+      return data.data || [];
+    },
+    enabled: saveDialogOpen,
+    select: (folders) => {
+      const byId = new Map(folders.map((folder) => [folder.id, folder]));
+      const pathOf = (folder: QueryFolder): string => {
+        const parent = folder.parent_id ? byId.get(folder.parent_id) : undefined;
+        return parent ? `${pathOf(parent)} / ${folder.name}` : folder.name;
+      };
+      return folders
+        .map((folder) => ({ id: folder.id, path: pathOf(folder) }))
+        .sort((a, b) => a.path.localeCompare(b.path));
+    },
+  });
+
+  // Creates a folder inside the selected one and selects it
+  const createFolderMutation = useMutation({
     mutationFn: async () => {
-      const res = await fetch('/api/queries', {
+      const res = await fetch('/api/queries/folders', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          name: queryName,
-          description: queryDescription,
-          dataSourceId: selectedDataSource,
-          sqlContent,
-        }),
+        body: JSON.stringify({ name: newFolderName, parentId: queryFolderId === 'none' ? null : queryFolderId }),
       });
       return res.json();
     },
+    onSuccess: (data) => {
+      if (data.success) {
+        queryClient.invalidateQueries({ queryKey: ['query-folders'] });
+        setQueryFolderId(data.data.id);
+        setNewFolderName('');
+      } else {
+        toast.error(data.error?.message || 'Failed to create folder');
+      }
+    },
+  });
+
+  // Save query mutation: updates the open saved query, or creates a new one
+  const saveQueryMutation = useMutation({
+    mutationFn: async ({ asNew }: { asNew: boolean }) => {
+      const body = {
+        name: queryName,
+        description: queryDescription,
+        dataSourceId: selectedDataSource,
+        sqlContent,
+        parametersSchema: buildParametersSchema(sqlContent, parameterDefinitions),
+        cacheTtl: cacheTtl.trim() === '' ? null : Number(cacheTtl),
+        folderId: queryFolderId === 'none' ? null : queryFolderId,
+        tags: queryTags.split(',').map((tag) => tag.trim()).filter(Boolean),
+      };
+      const res = savedQuery && !asNew
+        ? await fetch(`/api/queries/${savedQuery.id}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...body, changeSummary: changeSummary || undefined }),
+          })
+        : await fetch('/api/queries', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+          });
+      return res.json();
+    },
     onSuccess: (data) => {
       if (data.success) {
         toast.success('Query saved successfully');
+        attachSavedQuery(data.data);
+        queryClient.invalidateQueries({ queryKey: ['query-versions', data.data.id] });
+        queryClient.invalidateQueries({ queryKey: ['queries'] });
+        queryClient.invalidateQueries({ queryKey: ['query-tags'] });
         setSaveDialogOpen(false);
-        setQueryName('');
-        setQueryDescription('');
+        setChangeSummary('');
       } else {
         toast.error(data.error?.message || 'Failed to save query');
       }
     },
   });
 
-  const handleExecute = useCallback(() => {
+  const handleSaveDialogChange = useCallback(
+    (open: boolean) => {
+      if (open) {
+        setQueryName(savedQuery?.name ?? '');
+        setQueryDescription(savedQuery?.description ?? '');
+        setCacheTtl(savedQuery?.cache_ttl != null ? String(savedQuery.cache_ttl) : '');
+        setQueryFolderId(savedQuery?.folder_id ?? 'none');
+        setQueryTags(savedQuery?.tags.join(', ') ?? '');
+        setNewFolderName('');
+        setChangeSummary('');
+      }
+      setSaveDialogOpen(open);
+    },
+    [savedQuery]
+  );
+
+  // Runs the whole editor content, or just the selection / current statement
+  const handleExecute = useCallback((sqlToRun: string = sqlContent) => {
     if (!selectedDataSource) {
       toast.error('Please select a data source');
       return;
     }
+    runSqlRef.current = sqlToRun;
+    // Queries with :name placeholders collect values before running
+    if (extractParameterNames(sqlToRun).length > 0) {
+      setParameterDefinitions((defs) => buildParametersSchema(sqlToRun, defs));
+      setParameterDialogOpen(true);
+      return;
+    }
     setPageOffset(0); // Reset to first page
-    executeMutation.mutate({ sql: sqlContent, offset: 0 });
+    executeMutation.mutate({ sql: sqlToRun, offset: 0 });
   }, [sqlContent, selectedDataSource, executeMutation]);
 
+  const handleCancel = useCallback(async () => {
+    const executionId = executionIdRef.current;
+    if (!executionId) return;
+
+    const res = await fetch(`/api/sql/execute/${executionId}`, { method: 'DELETE' });
+    const data = await res.json();
+    if (!data.success) {
+      toast.error(data.error?.message || 'Failed to cancel query');
+    } else if (!data.data.cancelled) {
+      toast.info(data.data.message);
+    }
+  }, []);
+
+  const handleParameterSubmit = useCallback(
+    (definitions: QueryParameter[], values: Record<string, unknown>) => {
+      setParameterDefinitions(definitions);
+      setParameterValues(values);
+      setParameterDialogOpen(false);
+      setPageOffset(0);
+      executeMutation.mutate({ sql: runSqlRef.current, offset: 0, parameters: values, parametersSchema: definitions });
+    },
+    [executeMutation]
+  );
+
   const handlePageChange = useCallback((offset: number) => {
     if (!selectedDataSource) {
       toast.error('Please select a data source');
       return;
     }
     setPageOffset(offset);
-    executeMutation.mutate({ sql: sqlContent, offset });
+    executeMutation.mutate({ sql: runSqlRef.current || sqlContent, offset });
   }, [sqlContent, selectedDataSource, executeMutation]);
 
+  // Loads a history entry's SQL, data source and parameters into the editor
+  const loadHistoryEntry = useCallback((entry: QueryHistoryEntry) => {
+    const definitions = parseParametersSchema(entry.parameters_schema);
+    let values: Record<string, unknown> = {};
+    try {
+      values = entry.parameters ? JSON.parse(entry.parameters) : {};
+    } catch {
+      values = {};
+    }
+
+    setSqlContent(entry.sql_text);
+    // Stay attached to the open saved query only if the entry ran it
+    if (savedQuery && savedQuery.id !== entry.saved_query_id) {
+      attachSavedQuery(null);
+    }
+    if (entry.data_source_id) {
+      setSelectedDataSource(entry.data_source_id);
+    }
+    setParameterDefinitions(definitions);
+    setParameterValues(values);
+    return { definitions, values };
+  }, [savedQuery, attachSavedQuery]);
+
+  const handleHistoryRun = useCallback(
+    (entry: QueryHistoryEntry) => {
+      if (!entry.data_source_id) return;
+      const { definitions, values } = loadHistoryEntry(entry);
+      setPageOffset(0);
+      setActiveTab('results');
+      runSqlRef.current = entry.sql_text;
+      executeMutation.mutate({
+        sql: entry.sql_text,
+        offset: 0,
+        parameters: values,
+        parametersSchema: definitions,
+        dataSourceId: entry.data_source_id,
+      });
+    },
+    [loadHistoryEntry, executeMutation]
+  );
+
+  const handleHistoryPromote = useCallback(
+    (entry: QueryHistoryEntry) => {
+      loadHistoryEntry(entry);
+      attachSavedQuery(null);
+      setQueryName('');
+      setQueryDescription('');
+      setCacheTtl('');
+      setSaveDialogOpen(true);
+    },
+    [loadHistoryEntry, attachSavedQuery]
+  );
+
   const handleValidate = useCallback(() => {
     validateMutation.mutate(sqlContent);
   }, [sqlContent, validateMutation]);
 
+  const handleExplain = useCallback(() => {
+    explainMutation.mutate(sqlContent);
+  }, [sqlContent, explainMutation]);
+
+  // Runs both sides of a comparison with the current parameter values
+  const compareMutation = useMutation({
+    mutationFn: async (request: {
+      base: ResultCompareSource;
+      target: ResultCompareSource;
+      keyColumns: string[];
+      tolerance: number;
+    }) => {
+      const executionId = uuidv4();
+      executionIdRef.current = executionId;
+      const res = await fetch('/api/sql/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...request,
+          parameters: parameterValues,
+          parametersSchema: buildParametersSchema(sqlContent, parameterDefinitions),
+          executionId,
+        }),
+      });
+      return res.json();
+    },
+    onMutate: () => {
+      setCompareOpen(false);
+      setActiveTab('compare');
+      setCompareError(null);
+    },
+    onSettled: () => {
+      executionIdRef.current = null;
+      queryClient.invalidateQueries({ queryKey: ['query-history'] });
+    },
+    onSuccess: (data) => {
+      if (data.success) {
+        setComparison(data.data);
+      } else {
+        setComparison(null);
+        setCompareError(data.error?.message || 'Comparison failed');
+      }
+    },
+    onError: (error) => {
+      setComparison(null);
+      setCompareError(error instanceof Error ? error.message : 'Unknown error');
+    },
+  });
+
   const handleTableClick = (tableName: string) => {
     setSqlContent(`SELECT * FROM ${tableName} LIMIT 100;`);
   };
@@ -233,19 +902,24 @@ export default function SQLEditorPage() {
 
   // Memoize schema to prevent infinite loops in Monaco Editor
   // Use a simpler approach that doesn't stringify on every render
-  const memoizedSchema = useMemo(() => {
+  const memoizedSchema = useMemo((): SchemaInfo | null => {
     if (!schema) return null;
+    if (loadedSchemaObjects.size === 0) return schema;
 
-    // Simple stable reference - only recreate if schema object reference changes
-    return schema;
-  }, [schema]);
+    // Columns loaded by the schema browser also serve completion
+    const withLoaded = <T extends TableInfo | ViewInfo>(object: T): T =>
+      (loadedSchemaObjects.get(`${object.schema ?? ''}.${object.name}`) as T | undefined) ?? object;
+    return { ...schema, tables: schema.tables.map(withLoaded), views: schema.views.map(withLoaded) };
+  }, [schema, loadedSchemaObjects]);
 
   return (
     <div className="h-[calc(100vh-8rem)]">
       <div className="flex items-center justify-between mb-4">
         <div>
           <h1 className="text-2xl font-bold">SQL Editor</h1>
-          <p className="text-muted-foreground">Write and execute SQL queries</p>
+          <p className="text-muted-foreground">
+            {savedQuery ? `Editing saved query: ${savedQuery.name}` : 'Write and execute SQL queries'}
+          </p>
         </div>
 
         <div className="flex items-center gap-2">
@@ -278,14 +952,35 @@ export default function SQLEditorPage() {
           </Button>
 
           <Button
-            onClick={handleExecute}
-            disabled={!selectedDataSource || executeMutation.isPending}
+            variant="outline"
+            onClick={handleExplain}
+            disabled={!selectedDataSource || !sqlContent || explainMutation.isPending}
+            title="Show the query plan without running the query"
           >
-            <Play className="h-4 w-4 mr-2" />
-            {executeMutation.isPending ? 'Running...' : 'Run'}
+            <ListTree className="h-4 w-4 mr-2" />
+            Explain
           </Button>
 
-          <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+          <div className="flex items-center gap-2 px-2">
+            <Switch id="stream-results" checked={streamResults} onCheckedChange={setStreamResults} />
+            <Label htmlFor="stream-results" className="text-sm whitespace-nowrap" title="Stream every row instead of fetching one page">
+              Stream all rows
+            </Label>
+          </div>
+
+          {executeMutation.isPending || compareMutation.isPending ? (
+            <Button variant="destructive" onClick={handleCancel}>
+              <Square className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          ) : (
+            <Button onClick={() => handleExecute()} disabled={!selectedDataSource}>
+              <Play className="h-4 w-4 mr-2" />
+              Run
+            </Button>
+          )}
+
+          <Dialog open={saveDialogOpen} onOpenChange={handleSaveDialogChange}>
             <DialogTrigger asChild>
               <Button variant="outline" disabled={!selectedDataSource || !sqlContent}>
                 <Save className="h-4 w-4 mr-2" />
@@ -294,9 +989,11 @@ export default function SQLEditorPage() {
             </DialogTrigger>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Save Query</DialogTitle>
+                <DialogTitle>{savedQuery ? 'Update Query' : 'Save Query'}</DialogTitle>
                 <DialogDescription>
-                  Save this query for later use in reports and charts.
+                  {savedQuery
+                    ? 'Saving creates a new version; earlier versions can be restored from the Versions panel.'
+                    : 'Save this query for later use in reports and charts.'}
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4 py-4">
@@ -318,6 +1015,67 @@ export default function SQLEditorPage() {
                     placeholder="Optional description"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="cache-ttl">Result cache (seconds)</Label>
+                  <Input
+                    id="cache-ttl"
+                    type="number"
+                    min={0}
+                    value={cacheTtl}
+                    onChange={(e) => setCacheTtl(e.target.value)}
+                    placeholder="Default; 0 disables caching"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="query-folder">Folder</Label>
+                  <Select value={queryFolderId} onValueChange={setQueryFolderId}>
+                    <SelectTrigger id="query-folder">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No folder</SelectItem>
+                      {folderOptions?.map((folder) => (
+                        <SelectItem key={folder.id} value={folder.id}>
+                          {folder.path}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex gap-2">
+                    <Input
+                      value={newFolderName}
+                      onChange={(e) => setNewFolderName(e.target.value)}
+                      placeholder="New folder inside the selected one"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => createFolderMutation.mutate()}
+                      disabled={!newFolderName.trim() || createFolderMutation.isPending}
+                    >
+                      Add
+                    </Button>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="query-tags">Tags</Label>
+                  <Input
+                    id="query-tags"
+                    value={queryTags}
+                    onChange={(e) => setQueryTags(e.target.value)}
+                    placeholder="Comma-separated, e.g. finance, monthly"
+                  />
+                </div>
+                {savedQuery && (
+                  <div className="space-y-2">
+                    <Label htmlFor="change-summary">Change summary</Label>
+                    <Input
+                      id="change-summary"
+                      value={changeSummary}
+                      onChange={(e) => setChangeSummary(e.target.value)}
+                      placeholder="What changed in this version?"
+                    />
+                  </div>
+                )}
               </div>
               <DialogFooter>
                 <Button
@@ -326,15 +1084,91 @@ export default function SQLEditorPage() {
                 >
                   Cancel
                 </Button>
+                {savedQuery && (
+                  <Button
+                    variant="outline"
+                    onClick={() => saveQueryMutation.mutate({ asNew: true })}
+                    disabled={!queryName || saveQueryMutation.isPending}
+                  >
+                    Save as New
+                  </Button>
+                )}
                 <Button
-                  onClick={() => saveQueryMutation.mutate()}
+                  onClick={() => saveQueryMutation.mutate({ asNew: false })}
                   disabled={!queryName || saveQueryMutation.isPending}
                 >
-                  {saveQueryMutation.isPending ? 'Saving...' : 'Save Query'}
+                  {saveQueryMutation.isPending ? 'Saving...' : savedQuery ? 'Update Query' : 'Save Query'}
                 </Button>
               </DialogFooter>
             </DialogContent>
           </Dialog>
+
+          <Button
+            variant="outline"
+            onClick={() => setVersionsOpen((open) => !open)}
+            disabled={!savedQuery}
+            title={savedQuery ? 'Compare and restore versions' : 'Save the query to track versions'}
+          >
+            <GitCompare className="h-4 w-4 mr-2" />
+            Versions
+          </Button>
+
+          <Button
+            variant="outline"
+            onClick={() => setCompareOpen(true)}
+            disabled={!sqlContent}
+            title="Compare the results of two queries or two versions of a saved query"
+          >
+            <GitCompareArrows className="h-4 w-4 mr-2" />
+            Compare
+          </Button>
+
+          {compareOpen && (
+            <CompareDialog
+              open={compareOpen}
+              onOpenChange={setCompareOpen}
+              editorSql={sqlContent}
+              dataSourceId={selectedDataSource}
+              editorLabel={activeEditorTab?.name ?? 'Editor'}
+              savedQuery={savedQuery}
+              tabs={tabs}
+              activeTabId={activeEditorTab?.id}
+              columns={queryResult?.columns.map((column) => column.name) ?? []}
+              comparing={compareMutation.isPending}
+              onCompare={(request) => compareMutation.mutate(request)}
+            />
+          )}
+
+          <SnippetPicker
+            snippets={snippets}
+            onInsert={(snippet) => editorRef.current?.insertSnippet(snippet.body)}
+          />
+
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setFormatterDialogOpen(true)}
+            title="Formatting preferences"
+          >
+            <Settings2 className="h-4 w-4" />
+          </Button>
+
+          <FormatterSettingsDialog
+            open={formatterDialogOpen}
+            onOpenChange={setFormatterDialogOpen}
+            preferences={formatterPreferences}
+            clientType={dataSources?.find((ds) => ds.id === selectedDataSource)?.client_type}
+            saving={saveFormatterMutation.isPending}
+            onSave={(preferences) => saveFormatterMutation.mutate(preferences)}
+          />
+
+          <ParameterDialog
+            open={parameterDialogOpen}
+            onOpenChange={setParameterDialogOpen}
+            parameters={parameterDefinitions}
+            values={parameterValues}
+            onSubmit={handleParameterSubmit}
+          />
         </div>
       </div>
 
@@ -343,7 +1177,11 @@ export default function SQLEditorPage() {
           <div className="h-full overflow-auto">
             <SchemaBrowser
               schema={memoizedSchema}
+              dataSourceId={selectedDataSource || undefined}
               isLoading={isLoadingSchema}
+              isRefreshing={refreshSchemaMutation.isPending || !!pendingSchemaRefresh}
+              onRefresh={selectedDataSource ? () => refreshSchemaMutation.mutate() : undefined}
+              onObjectLoaded={handleSchemaObjectLoaded}
               onTableClick={handleTableClick}
               onColumnClick={handleColumnClick}
             />
@@ -356,20 +1194,39 @@ export default function SQLEditorPage() {
           <ResizablePanelGroup orientation="vertical" className="h-full">
             <ResizablePanel defaultSize={50} minSize={20} maxSize={80} id="sql-editor-panel">
               <div className="h-full flex flex-col">
-                <div className="flex items-center justify-between px-3 py-2 border-b bg-muted/30 shrink-0">
-                  <h2 className="text-sm font-semibold">SQL Editor</h2>
-                  <span className="text-xs text-muted-foreground">
+                <div className="flex items-center justify-between gap-3 px-3 py-1 border-b bg-muted/30 shrink-0">
+                  <EditorTabsBar
+                    tabs={tabs}
+                    activeTabId={activeEditorTab?.id}
+                    onSelect={selectTab}
+                    onCreate={() => void createTab()}
+                    onClose={(id) => void closeTab(id)}
+                    onRename={(id, name) => updateTab(id, { name })}
+                    onShareChange={setShared}
+                  />
+                  <span className="text-xs text-muted-foreground truncate">
                     {selectedDataSource ? dataSources?.find(ds => ds.id === selectedDataSource)?.name : 'No data source selected'}
+                    {lastResult && (
+                      <span title={new Date(lastResult.executedAt).toLocaleString()}>
+                        {' · Last run: '}{describeTabResult(lastResult)}
+                      </span>
+                    )}
                   </span>
                 </div>
                 <div className="flex-1 min-h-0">
                   <MonacoSQLEditor
+                    ref={editorRef}
                     value={sqlContent}
                     onChange={setSqlContent}
+                    onCursorChange={handleCursorChange}
                     onExecute={handleExecute}
                     height="100%"
                     className="h-full"
                     schema={memoizedSchema}
+                    diagnostics={liveValidation}
+                    clientType={dataSources?.find((ds) => ds.id === selectedDataSource)?.client_type}
+                    formatterPreferences={formatterPreferences}
+                    snippets={snippets}
                   />
                 </div>
               </div>
@@ -378,13 +1235,16 @@ export default function SQLEditorPage() {
             <ResizableHandle withHandle />
 
             <ResizablePanel minSize={10} maxSize={100} id="results-panel">
-              <Tabs defaultValue="results" className="h-full flex flex-col">
+              <Tabs value={activeTab} onValueChange={setActiveTab} className="h-full flex flex-col">
                 <div className="flex items-center justify-between px-3 py-2 border-b bg-muted/30 shrink-0">
                   <TabsList>
                     <TabsTrigger value="results">Results</TabsTrigger>
                     <TabsTrigger value="validation">Validation</TabsTrigger>
+                    <TabsTrigger value="plan">Plan</TabsTrigger>
                     <TabsTrigger value="schema">Schema</TabsTrigger>
                     <TabsTrigger value="logs">Logs</TabsTrigger>
+                    <TabsTrigger value="history">History</TabsTrigger>
+                    <TabsTrigger value="compare">Compare</TabsTrigger>
                   </TabsList>
                 </div>
 
@@ -400,6 +1260,7 @@ export default function SQLEditorPage() {
                   <QueryResults
                     result={queryResult}
                     isLoading={executeMutation.isPending}
+                    isStreaming={executeMutation.isPending && streamResults}
                     error={executionError}
                     onPageChange={handlePageChange}
                   />
@@ -417,6 +1278,20 @@ export default function SQLEditorPage() {
                   <ValidationPanel validation={validation} />
                 </TabsContent>
 
+                <TabsContent value="plan" className="flex-1 min-h-0 p-4 overflow-auto data-[state=active]:flex">
+                  {!queryPlan && (
+                    <div className="flex items-center justify-center h-full w-full text-muted-foreground">
+                      <div className="text-center">
+                        <ListTree className="h-12 w-12 mx-auto mb-4 opacity-20" />
+                        <p className="text-sm">
+                          {explainMutation.isPending ? 'Fetching query plan...' : 'Click Explain to see the query plan'}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                  <QueryPlanViewer plan={queryPlan?.plan ?? null} estimatedCost={queryPlan?.estimatedCost} />
+                </TabsContent>
+
                 <TabsContent value="schema" className="flex-1 min-h-0 p-4 overflow-auto data-[state=active]:flex">
                   {!selectedDataSource && (
                     <div className="flex items-center justify-center h-full w-full text-muted-foreground">
@@ -455,7 +1330,7 @@ export default function SQLEditorPage() {
                                 key={table.name}
                                 className="px-2 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 rounded-md text-sm"
                               >
-                                {table.name} <span className="text-xs opacity-70">({table.columns.length} cols)</span>
+                                {table.name} <span className="text-xs opacity-70">({table.columnCount ?? table.columns.length} cols)</span>
                               </span>
                             ))}
                           </div>
@@ -532,10 +1407,56 @@ export default function SQLEditorPage() {
                     )}
                   </div>
                 </TabsContent>
+
+                <TabsContent value="history" className="flex-1 min-h-0 p-4 overflow-auto data-[state=active]:flex">
+                  <QueryHistoryPanel
+                    dataSources={dataSources}
+                    onOpen={loadHistoryEntry}
+                    onRun={handleHistoryRun}
+                    onPromote={handleHistoryPromote}
+                  />
+                </TabsContent>
+
+                <TabsContent value="compare" className="flex-1 min-h-0 p-4 overflow-auto data-[state=active]:flex">
+                  {compareMutation.isPending && (
+                    <div className="flex items-center justify-center h-full w-full text-muted-foreground">
+                      <p className="text-sm">Running both queries...</p>
+                    </div>
+                  )}
+                  {!compareMutation.isPending && compareError && (
+                    <div className="flex items-start gap-2 w-full text-destructive">
+                      <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                      <p className="text-sm">{compareError}</p>
+                    </div>
+                  )}
+                  {!compareMutation.isPending && !compareError && !comparison && (
+                    <div className="flex items-center justify-center h-full w-full text-muted-foreground">
+                      <div className="text-center">
+                        <GitCompareArrows className="h-12 w-12 mx-auto mb-4 opacity-20" />
+                        <p className="text-sm">Click Compare to diff the results of two queries</p>
+                      </div>
+                    </div>
+                  )}
+                  {!compareMutation.isPending && comparison && <CompareResults comparison={comparison} />}
+                </TabsContent>
               </Tabs>
             </ResizablePanel>
           </ResizablePanelGroup>
         </ResizablePanel>
+
+        {versionsOpen && savedQuery && (
+          <>
+            <ResizableHandle withHandle />
+            <ResizablePanel defaultSize={30} minSize={20} maxSize={50} id="versions-panel">
+              <QueryVersionsPanel
+                queryId={savedQuery.id}
+                currentSql={sqlContent}
+                onRestored={applySavedQuery}
+                onClose={() => setVersionsOpen(false)}
+              />
+            </ResizablePanel>
+          </>
+        )}
       </ResizablePanelGroup>
     </div>
   );
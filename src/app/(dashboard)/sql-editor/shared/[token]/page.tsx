@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useParams, useRouter } from 'next/navigation';
+import { MonacoSQLEditor } from '@/components/sql-editor/monaco-editor';
+import { describeTabResult } from '@/components/sql-editor/editor-tabs-bar';
+import { Breadcrumb } from '@/components/layout/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Copy, Database } from 'lucide-react';
+import { toast } from 'sonner';
+import type { SharedSQLEditorTab } from '@/types/api';
+
+export default function SharedSQLEditorTabPage() {
+  const params = useParams();
+  const router = useRouter();
+  const token = params.token as string;
+  const [copying, setCopying] = useState(false);
+
+  const { data: tab, isLoading, error } = useQuery<SharedSQLEditorTab>({
+    queryKey: ['shared-sql-tab', token],
+    queryFn: async () => {
+      const res = await fetch(`/api/sql/shared/${token}`);
+      const data = await res.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to load shared tab');
+      }
+      return data.data;
+    },
+    retry: false,
+  });
+
+  // Opens the SQL in a new tab of the viewer's own editor
+  const handleOpenCopy = async () => {
+    if (!tab) return;
+    setCopying(true);
+    const res = await fetch('/api/sql/tabs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: tab.name, sqlContent: tab.sqlContent, dataSourceId: tab.dataSourceId }),
+    });
+    const data = await res.json();
+    setCopying(false);
+    if (data.success) {
+      router.push('/sql-editor');
+    } else {
+      toast.error(data.error?.message || 'Failed to open a copy');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading shared tab...</div>
+      </div>
+    );
+  }
+
+  if (!tab) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">
+          {error instanceof Error ? error.message : 'Shared tab not found'}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Breadcrumb
+        items={[
+          { label: 'SQL Editor', href: '/sql-editor' },
+          { label: tab.name },
+        ]}
+      />
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">{tab.name}</h1>
+          <p className="text-muted-foreground">
+            Shared by {tab.ownerName ?? 'a teammate'} · last edited {new Date(tab.updatedAt).toLocaleString()}
+          </p>
+        </div>
+
+        <Button onClick={handleOpenCopy} disabled={copying}>
+          <Copy className="h-4 w-4 mr-2" />
+          Open a Copy
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span className="flex items-center gap-2">
+              <Database className="h-4 w-4" />
+              {tab.dataSourceName ?? 'No data source selected'}
+            </span>
+            {tab.lastResult && (
+              <span title={new Date(tab.lastResult.executedAt).toLocaleString()}>
+                Last run: {describeTabResult(tab.lastResult)}
+              </span>
+            )}
+          </div>
+          <MonacoSQLEditor value={tab.sqlContent} onChange={() => {}} readOnly height="400px" />
+          {tab.lastResult?.columns && tab.lastResult.columns.length > 0 && (
+            <p className="text-xs text-muted-foreground">Columns: {tab.lastResult.columns.join(', ')}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityContext, hasPermission } from '@/lib/auth/rbac';
+import { logAudit } from '@/lib/security/audit';
+import { getResultCache, invalidateResultCache } from '@/lib/cache';
+
+/**
+ * DELETE /api/admin/cache
+ * Drops cached query results for one data source (`?dataSourceId=`) or, with
+ * no filter, the whole result cache
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const context = await getSecurityContext();
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(context, 'admin:cache')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      );
+    }
+
+    const dataSourceId = new URL(request.url).searchParams.get('dataSourceId') || undefined;
+    const removed = await invalidateResultCache(dataSourceId ? { dataSourceId } : { all: true });
+
+    await logAudit({
+      userId: context.userId,
+      action: 'clean',
+      resourceType: 'data_source',
+      resourceId: dataSourceId,
+      details: { cache: true, removed, backend: getResultCache()?.type ?? 'none' },
+    });
+
+    return NextResponse.json({ success: true, data: { removed } });
+  } catch (error) {
+    console.error('Error clearing result cache:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to clear result cache' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getSecurityContext, hasPermission } from '@/lib/auth/rbac';
+import { listRunningQueries } from '@/lib/sql/execution-registry';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/running-queries
+ * Lists SQL editor queries currently running for all users
+ */
+export async function GET() {
+  try {
+    const context = await getSecurityContext();
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(context, 'admin:queries')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: listRunningQueries() });
+  } catch (error) {
+    console.error('Error listing running queries:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to list running queries' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityContext, hasPermission } from '@/lib/auth/rbac';
+import { logAudit } from '@/lib/security/audit';
+import { deleteLintSetting } from '@/lib/sql/lint';
+
+/**
+ * DELETE /api/admin/sql-lint/[id]
+ * Removes a severity override; the rule falls back to the next broader scope
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = await getSecurityContext();
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(context, 'admin:sql_lint')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const removed = await deleteLintSetting(id);
+    if (!removed) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Lint setting not found' } },
+        { status: 404 }
+      );
+    }
+
+    await logAudit({
+      userId: context.userId,
+      action: 'delete',
+      resourceType: 'sql_lint_setting',
+      resourceId: id,
+      details: { ruleId: removed.rule_id, scope: removed.scope, scopeId: removed.scope_id },
+    });
+
+    return NextResponse.json({ success: true, data: { id } });
+  } catch (error) {
+    console.error('Error deleting SQL lint setting:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to delete SQL lint setting' } },
+      { status: 500 }
+    );
+  }
+}
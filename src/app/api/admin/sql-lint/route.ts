@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityContext, hasPermission } from '@/lib/auth/rbac';
+import { getDb } from '@/lib/db/config';
+import { logAudit } from '@/lib/security/audit';
+import { LINT_RULES, isLintRuleId, isLintSeverity, listLintSettings, saveLintSetting } from '@/lib/sql/lint';
+import type { LintScope } from '@/lib/sql/lint';
+import type { SQLLintRuleInfo } from '@/types/api';
+
+const SCOPES: LintScope[] = ['global', 'role', 'data_source'];
+
+function isLintScope(value: unknown): value is LintScope {
+  return typeof value === 'string' && (SCOPES as string[]).includes(value);
+}
+
+/**
+ * GET /api/admin/sql-lint
+ * Lists the SQL lint rules with their default severities and the configured
+ * overrides, optionally filtered by `?scope=` and `?scopeId=`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getSecurityContext();
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(context, 'admin:sql_lint')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      );
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const scope = searchParams.get('scope');
+    if (scope && !isLintScope(scope)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: `scope must be one of ${SCOPES.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+
+    const rules: SQLLintRuleInfo[] = LINT_RULES.map((rule) => ({
+      id: rule.id,
+      description: rule.description,
+      category: rule.category,
+      defaultSeverity: rule.defaultSeverity,
+    }));
+    const settings = await listLintSettings({
+      scope: scope ? (scope as LintScope) : undefined,
+      scopeId: searchParams.get('scopeId') || undefined,
+    });
+
+    return NextResponse.json({ success: true, data: { rules, settings } });
+  } catch (error) {
+    console.error('Error listing SQL lint settings:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to list SQL lint settings' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/sql-lint
+ * Sets the severity of a rule globally, for a role or for a data source.
+ * Severity 'off' disables the rule and 'error' blocks execution.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const context = await getSecurityContext();
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(context, 'admin:sql_lint')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { ruleId, scope, scopeId, severity } = body;
+
+    if (!isLintRuleId(ruleId)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: `Unknown lint rule: ${ruleId}` } },
+        { status: 400 }
+      );
+    }
+
+    if (!isLintScope(scope)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: `scope must be one of ${SCOPES.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+
+    if (!isLintSeverity(severity)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'severity must be one of off, info, warning, error' } },
+        { status: 400 }
+      );
+    }
+
+    if (scope !== 'global') {
+      if (!scopeId) {
+        return NextResponse.json(
+          { success: false, error: { code: 'INVALID_INPUT', message: `scopeId is required for ${scope} settings` } },
+          { status: 400 }
+        );
+      }
+
+      const db = getDb();
+      const target = await db(scope === 'role' ? 'roles' : 'data_sources').where('id', scopeId).first();
+      if (!target) {
+        return NextResponse.json(
+          { success: false, error: { code: 'NOT_FOUND', message: `${scope === 'role' ? 'Role' : 'Data source'} not found` } },
+          { status: 404 }
+        );
+      }
+    }
+
+    const setting = await saveLintSetting({ ruleId, scope, scopeId, severity, userId: context.userId });
+
+    await logAudit({
+      userId: context.userId,
+      action: 'update',
+      resourceType: 'sql_lint_setting',
+      resourceId: setting.id,
+      details: { ruleId, scope, scopeId: setting.scope_id, severity },
+    });
+
+    return NextResponse.json({ success: true, data: setting });
+  } catch (error) {
+    console.error('Error saving SQL lint setting:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to save SQL lint setting' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { getDb } from '@/lib/db/config';
+import { logAudit } from '@/lib/security/audit';
+import { invalidateResultCache } from '@/lib/cache';
+import type { ChartDefinition } from '@/types/database';
+
+/**
+ * DELETE /api/charts/[id]/cache
+ * Drops cached data for a chart. Charts built on the same saved query share
+ * cache entries, so the saved query's results are dropped too.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const db = getDb();
+    const chart = await db<ChartDefinition>('chart_definitions').where('id', id).first();
+
+    if (!chart) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Chart not found' } },
+        { status: 404 }
+      );
+    }
+
+    const removed = await invalidateResultCache({ chartId: id, savedQueryId: chart.saved_query_id });
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'clean',
+      resourceType: 'chart',
+      resourceId: id,
+      details: { cache: true, removed },
+    });
+
+    return NextResponse.json({ success: true, data: { removed } });
+  } catch (error) {
+    console.error('Error invalidating chart cache:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to invalidate chart cache' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { getDb } from '@/lib/db/config';
+import { getConnection } from '@/lib/db/connection-manager';
+import { bindParameters, parseParametersSchema, resolveParameters } from '@/lib/sql/parameters';
+import { paginateSQL } from '@/lib/sql/pagination';
+import { classifyQuery } from '@/lib/sql/read-only';
+import { lintQuery } from '@/lib/sql/validator';
+import { getBlockingFindings, getLintSettings } from '@/lib/sql/lint';
+import { runStatement } from '@/lib/sql/statements';
+import {
+  buildCacheKey,
+  describeCacheResult,
+  getCachedResult,
+  resolveCacheTtl,
+  setCachedResult,
+} from '@/lib/cache';
+import type { ChartDefinition, DataSource, SavedQuery } from '@/types/database';
+
+const MAX_CHART_ROWS = 10000;
+const CHART_QUERY_TIMEOUT = 30000;
+
+/**
+ * GET /api/charts/[id]/data
+ * Runs the chart's saved query with its default parameter values. Results
+ * are cached for the chart's `refresh_interval` (or the query's cache TTL);
+ * pass `refresh=true` to bypass the cached result.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const refresh = new URL(request.url).searchParams.get('refresh') === 'true';
+    const db = getDb();
+
+    const chart = await db<ChartDefinition>('chart_definitions').where('id', id).first();
+    if (!chart) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Chart not found' } },
+        { status: 404 }
+      );
+    }
+
+    const savedQuery = chart.saved_query_id
+      ? await db<SavedQuery>('saved_queries')
+          .where('id', chart.saved_query_id)
+          .where('is_deleted', false)
+          .first()
+      : undefined;
+    if (!savedQuery) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Chart has no saved query' } },
+        { status: 404 }
+      );
+    }
+
+    const dataSource = await db<DataSource>('data_sources')
+      .where('id', savedQuery.data_source_id)
+      .where('is_active', true)
+      .first();
+    if (!dataSource) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Data source not found' } },
+        { status: 404 }
+      );
+    }
+
+    const resolved = resolveParameters(
+      savedQuery.sql_content,
+      parseParametersSchema(savedQuery.parameters_schema)
+    );
+    if (resolved.errors.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_PARAMETERS',
+            message: resolved.errors.map((e) => e.message).join('; '),
+            details: { errors: resolved.errors },
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Charts run saved SQL, so lint rules that block the SQL editor apply here too
+    const lintSettings = await getLintSettings({ dataSourceId: dataSource.id, roles: session.user.roles });
+    const blocking = getBlockingFindings(lintQuery(savedQuery.sql_content, dataSource.client_type, lintSettings));
+    if (blocking.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'LINT_BLOCKED',
+            message: `Query blocked by SQL lint rules: ${blocking.map((f) => f.message).join('; ')}`,
+            details: { findings: blocking },
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const classification = classifyQuery(savedQuery.sql_content, dataSource.client_type);
+    if (!classification.readOnly) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'FORBIDDEN', message: `Chart queries must be read-only: ${classification.reason}` },
+        },
+        { status: 403 }
+      );
+    }
+
+    const paginated = paginateSQL(savedQuery.sql_content, dataSource.client_type, MAX_CHART_ROWS, 0);
+    const bound = bindParameters(paginated.sql, resolved.values);
+
+    const cacheTtl = resolveCacheTtl({ chart, savedQuery });
+    const cacheKey = cacheTtl > 0
+      ? buildCacheKey({
+          dataSourceId: dataSource.id,
+          sql: bound.sql,
+          bindings: bound.bindings,
+          limit: MAX_CHART_ROWS,
+          offset: 0,
+        })
+      : null;
+
+    const cached = cacheKey && !refresh ? await getCachedResult(cacheKey) : null;
+    if (cached) {
+      return NextResponse.json({
+        success: true,
+        data: {
+          data: cached.rows,
+          columns: cached.columns,
+          rowCount: cached.rows.length,
+          truncated: cached.hasMore,
+          executionTime: cached.executionTime,
+          cache: describeCacheResult('hit', cached, cacheTtl),
+        },
+      });
+    }
+
+    const connection = await getConnection(dataSource);
+    const { rows, columns, hasMore, executionTime } = await runStatement(connection, dataSource.client_type, bound, {
+      timeout: CHART_QUERY_TIMEOUT,
+      limit: MAX_CHART_ROWS,
+    });
+
+    const stored = cacheKey
+      ? await setCachedResult(cacheKey, { rows, columns, hasMore, executionTime }, cacheTtl, {
+          dataSourceId: dataSource.id,
+          savedQueryId: savedQuery.id,
+          chartId: chart.id,
+        })
+      : null;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        data: rows,
+        columns,
+        rowCount: rows.length,
+        truncated: hasMore,
+        executionTime,
+        cache: cacheKey ? describeCacheResult('miss', stored, cacheTtl) : describeCacheResult('bypass'),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching chart data:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'EXECUTION_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to fetch chart data',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth/config';
 import { getDb } from '@/lib/db/config';
 import { logAudit } from '@/lib/security/audit';
+import { invalidateResultCache } from '@/lib/cache';
 import type { ChartDefinition } from '@/types/database';
 
 export async function GET(
@@ -75,6 +76,11 @@ export async function PUT(
 
     await db<ChartDefinition>('chart_definitions').where('id', id).update(updates);
 
+    // The query or refresh interval may have changed
+    if (body.savedQueryId !== undefined || body.refreshInterval !== undefined) {
+      await invalidateResultCache({ chartId: id });
+    }
+
     await logAudit({
       userId: session.user.id,
       action: 'update',
@@ -111,6 +117,7 @@ export async function DELETE(
     const db = getDb();
 
     await db<ChartDefinition>('chart_definitions').where('id', id).delete();
+    await invalidateResultCache({ chartId: id });
 
     await logAudit({
       userId: session.user.id,
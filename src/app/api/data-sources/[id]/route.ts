@@ -3,6 +3,7 @@ import { auth } from '@/lib/auth/config';
 import { getDb } from '@/lib/db/config';
 import { decrypt } from '@/lib/security/encryption';
 import { getConnection, closeConnection } from '@/lib/db/connection-manager';
+import { invalidateResultCache } from '@/lib/cache';
 import type { DataSource } from '@/types/database';
 
 interface RouteContext {
@@ -91,14 +92,18 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
     const { encrypt } = await import('@/lib/security/encryption');
 
     // Prepare connection config - keep existing password if not provided
+    const existingConfig = JSON.parse(decrypt(existing.connection_config));
     let finalConnectionConfig = connectionConfig;
     if (!connectionConfig.password) {
-      const existingConfig = JSON.parse(decrypt(existing.connection_config));
       finalConnectionConfig = {
         ...connectionConfig,
         password: existingConfig.password,
       };
     }
+    // A managed import file stays managed while the data source points at it
+    if (existingConfig.managed && connectionConfig.filename === existingConfig.filename) {
+      finalConnectionConfig = { ...finalConnectionConfig, managed: true };
+    }
 
     await db<DataSource>('data_sources')
       .where('id', id)
@@ -112,6 +117,8 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
 
     // Clear connection cache for this data source
     await closeConnection(id);
+    // Cached results may come from the previous connection target
+    await invalidateResultCache({ dataSourceId: id });
 
     const updatedDataSource = await db<DataSource>('data_sources')
       .where('id', id)
@@ -211,6 +218,7 @@ export async function DELETE(request: NextRequest, { params }: RouteContext) {
 
     // Clear connection cache for this data source
     await closeConnection(id);
+    await invalidateResultCache({ dataSourceId: id });
 
     return NextResponse.json({
       success: true,
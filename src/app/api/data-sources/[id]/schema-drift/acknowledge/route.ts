@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { getDb } from '@/lib/db/config';
+import { logAudit } from '@/lib/security/audit';
+import { acknowledgeSchemaDrift } from '@/lib/sql/schema-drift';
+import type { DataSource } from '@/types/database';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const dataSource = await getDb()<DataSource>('data_sources')
+      .where('id', params.id)
+      .where('is_deleted', false)
+      .first();
+
+    if (!dataSource) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Data source not found' } },
+        { status: 404 }
+      );
+    }
+
+    const acknowledged = await acknowledgeSchemaDrift(dataSource.id, session.user.id);
+
+    if (acknowledged > 0) {
+      await logAudit({
+        userId: session.user.id,
+        action: 'acknowledge',
+        resourceType: 'data_source',
+        resourceId: dataSource.id,
+        details: { schemaSnapshots: acknowledged },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { acknowledged },
+    });
+  } catch (error) {
+    console.error('Error acknowledging schema drift:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to acknowledge schema drift' } },
+      { status: 500 }
+    );
+  }
+}
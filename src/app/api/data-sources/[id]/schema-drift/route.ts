@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { getDb } from '@/lib/db/config';
+import { getSchemaDrift } from '@/lib/sql/schema-drift';
+import type { DataSource } from '@/types/database';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const dataSource = await getDb()<DataSource>('data_sources')
+      .where('id', params.id)
+      .where('is_deleted', false)
+      .first();
+
+    if (!dataSource) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Data source not found' } },
+        { status: 404 }
+      );
+    }
+
+    const drift = await getSchemaDrift(dataSource);
+
+    return NextResponse.json({
+      success: true,
+      data: drift,
+    });
+  } catch (error) {
+    console.error('Error checking schema drift:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to check schema drift' } },
+      { status: 500 }
+    );
+  }
+}
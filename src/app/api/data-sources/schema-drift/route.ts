@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { getSchemaDriftSummaries } from '@/lib/sql/schema-drift';
+
+// GET /api/data-sources/schema-drift - Data sources with unacknowledged schema changes
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const summaries = await getSchemaDriftSummaries();
+
+    return NextResponse.json({
+      success: true,
+      data: summaries,
+    });
+  } catch (error) {
+    console.error('Error checking schema drift:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to check schema drift' } },
+      { status: 500 }
+    );
+  }
+}
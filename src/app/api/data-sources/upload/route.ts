@@ -1,8 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth/config';
 import { writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
+import { basename, extname, join } from 'path';
 import { existsSync } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from '@/lib/db/config';
+import { closeConnection } from '@/lib/db/connection-manager';
+import { decrypt, encrypt } from '@/lib/security/encryption';
+import { logAudit } from '@/lib/security/audit';
+import { invalidateResultCache } from '@/lib/cache';
+import { invalidateSchemaInfo } from '@/lib/sql/schema-cache';
+import {
+  FileImportError,
+  MAX_IMPORT_FILE_SIZE,
+  buildImportPreview,
+  detectImportFormat,
+  newManagedConfig,
+  parseImportFile,
+  removeManagedFile,
+  validateImportOptions,
+  writeTable,
+} from '@/lib/import';
+import type { DataSource, DataSourceConnectionConfig } from '@/types/database';
+import type { FileImportFormat, FileImportResult } from '@/types/api';
+
+// SQLite and DuckDB databases are stored as uploaded
+function isDatabaseFile(fileName: string): boolean {
+  return ['.db', '.sqlite', '.sqlite3', '.duckdb'].some((ext) => fileName.endsWith(ext));
+}
+
+// Client-supplied names must not reach outside data/uploads
+function isSafeFileName(fileName: string): boolean {
+  return basename(fileName) === fileName && !/[\\/]/.test(fileName) && !fileName.includes('..');
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,11 +54,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate file type
+    // Validate file name and type
     const fileName = file.name;
-    if (!fileName.endsWith('.db') && !fileName.endsWith('.sqlite') && !fileName.endsWith('.sqlite3')) {
+    if (!isSafeFileName(fileName)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_FILE', message: 'File names cannot contain path separators or ".."' } },
+        { status: 400 }
+      );
+    }
+    const importFormat = detectImportFormat(fileName);
+    if (importFormat) {
+      return await importDataFile(file, importFormat, formData, session.user.id);
+    }
+    if (!isDatabaseFile(fileName)) {
       return NextResponse.json(
-        { success: false, error: { code: 'INVALID_FILE', message: 'Only .db, .sqlite, and .sqlite3 files are allowed' } },
+        {
+          success: false,
+          error: {
+            code: 'INVALID_FILE',
+            message: 'Only .db, .sqlite, .sqlite3 and .duckdb databases or CSV, Excel, JSON, NDJSON and Parquet files are allowed',
+          },
+        },
         { status: 400 }
       );
     }
@@ -43,20 +89,28 @@ export async function POST(request: NextRequest) {
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
 
-    // Write file to data/uploads
-    const filePath = join(uploadsDir, fileName);
-    await writeFile(filePath, buffer);
+    // Write file to data/uploads under a generated name, so uploads never
+    // overwrite each other's databases
+    const storedName = `upload-${uuidv4()}${extname(fileName)}`;
+    await writeFile(join(uploadsDir, storedName), buffer, { flag: 'wx' });
 
     return NextResponse.json({
       success: true,
       data: {
-        filename: fileName,
-        path: `data/uploads/${fileName}`,
+        filename: storedName,
+        originalName: fileName,
+        path: `data/uploads/${storedName}`,
         size: buffer.length,
-        message: `File uploaded successfully to data/uploads/${fileName}`,
+        message: `${fileName} uploaded successfully to data/uploads/${storedName}`,
       },
     });
   } catch (error) {
+    if (error instanceof FileImportError) {
+      return NextResponse.json(
+        { success: false, error: { code: error.code, message: error.message, details: error.details } },
+        { status: error.status }
+      );
+    }
     console.error('Error uploading file:', error);
     return NextResponse.json(
       { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to upload file' } },
@@ -64,3 +118,133 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Data files are previewed first (`action=preview`, the default), returning
+ * the inferred column mapping; `action=import` with the chosen `options`
+ * loads them into a managed SQLite data source.
+ */
+async function importDataFile(
+  file: File,
+  format: FileImportFormat,
+  formData: FormData,
+  userId: string
+): Promise<NextResponse> {
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    throw new FileImportError(
+      'FILE_TOO_LARGE',
+      `Files larger than ${MAX_IMPORT_FILE_SIZE / (1024 * 1024)} MB cannot be imported`,
+      413
+    );
+  }
+
+  const action = (formData.get('action') as string | null) || 'preview';
+  const sheet = (formData.get('sheet') as string | null) || undefined;
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const parsed = await parseImportFile(buffer, format, { sheet });
+
+  if (action === 'preview') {
+    return NextResponse.json({ success: true, data: buildImportPreview(parsed, file.name) });
+  }
+  if (action !== 'import') {
+    throw new FileImportError('INVALID_INPUT', 'Action must be preview or import');
+  }
+
+  let rawOptions: unknown;
+  try {
+    rawOptions = JSON.parse((formData.get('options') as string | null) || 'null');
+  } catch {
+    throw new FileImportError('INVALID_INPUT', 'Import options must be valid JSON');
+  }
+  const options = validateImportOptions(rawOptions, parsed);
+
+  const db = getDb();
+  let existing: DataSource | undefined;
+  let config: DataSourceConnectionConfig;
+  if (options.dataSourceId) {
+    existing = await db<DataSource>('data_sources')
+      .where('id', options.dataSourceId)
+      .where('is_deleted', false)
+      .first();
+    if (!existing) {
+      throw new FileImportError('NOT_FOUND', 'Data source not found', 404);
+    }
+    config = JSON.parse(decrypt(existing.connection_config));
+    if (existing.client_type !== 'sqlite3' || !config.managed) {
+      throw new FileImportError('INVALID_INPUT', 'Only data sources created by file import can receive imported tables');
+    }
+  } else {
+    config = newManagedConfig();
+  }
+
+  let written;
+  try {
+    written = await writeTable({
+      config,
+      tableName: options.tableName,
+      columns: options.columns,
+      rows: parsed.rows,
+      mode: options.mode,
+    });
+  } catch (error) {
+    if (!existing) {
+      await removeManagedFile(config).catch(() => undefined);
+    }
+    throw error;
+  }
+
+  let id: string;
+  if (existing) {
+    id = existing.id;
+    await db<DataSource>('data_sources').where('id', id).update({ updated_at: new Date().toISOString() });
+    // Replaced tables must not be served from the previous connection or cache
+    await closeConnection(id);
+    await invalidateResultCache({ dataSourceId: id });
+  } else {
+    id = uuidv4();
+    const name = options.dataSourceName!.trim();
+    await db<DataSource>('data_sources').insert({
+      id,
+      name,
+      description: options.description,
+      client_type: 'sqlite3',
+      connection_config: encrypt(JSON.stringify(config)),
+      created_by: userId,
+    });
+    await logAudit({
+      userId,
+      action: 'create',
+      resourceType: 'data_source',
+      resourceId: id,
+      details: { name, clientType: 'sqlite3', importedFrom: file.name },
+    });
+  }
+  await invalidateSchemaInfo(id);
+
+  await logAudit({
+    userId,
+    action: 'import',
+    resourceType: 'data_source',
+    resourceId: id,
+    details: {
+      fileName: file.name,
+      format,
+      tableName: options.tableName,
+      mode: options.mode,
+      rowCount: written.rowCount,
+    },
+  });
+
+  const dataSource = (await db<DataSource>('data_sources')
+    .where('id', id)
+    .first('id', 'name', 'description', 'client_type', 'is_active', 'created_by', 'created_at', 'updated_at'))!;
+  const result: FileImportResult = {
+    dataSource,
+    createdDataSource: !existing,
+    tableName: options.tableName,
+    mode: options.mode,
+    ...written,
+  };
+
+  return NextResponse.json({ success: true, data: result }, { status: existing ? 200 : 201 });
+}
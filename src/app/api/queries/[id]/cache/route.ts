@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { logAudit } from '@/lib/security/audit';
+import { invalidateResultCache } from '@/lib/cache';
+
+/**
+ * DELETE /api/queries/[id]/cache
+ * Drops cached results of a saved query, including charts built on it
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const removed = await invalidateResultCache({ savedQueryId: id });
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'clean',
+      resourceType: 'query',
+      resourceId: id,
+      details: { cache: true, removed },
+    });
+
+    return NextResponse.json({ success: true, data: { removed } });
+  } catch (error) {
+    console.error('Error invalidating query cache:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to invalidate query cache' } },
+      { status: 500 }
+    );
+  }
+}
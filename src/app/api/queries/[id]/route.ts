@@ -0,0 +1,263 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { getDb } from '@/lib/db/config';
+import { logAudit } from '@/lib/security/audit';
+import { buildParametersSchema, parseParametersSchema } from '@/lib/sql/parameters';
+import { recordQueryVersion, validateQueryContent } from '@/lib/sql/query-versions';
+import { normalizeTags, setQueryTags, withTags } from '@/lib/sql/query-library';
+import { invalidateResultCache, isValidCacheTtl } from '@/lib/cache';
+import type { DataSource, QueryFolder, SavedQuery, SavedQueryVersion } from '@/types/database';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const db = getDb();
+    const query = await db<SavedQuery>('saved_queries')
+      .where('id', id)
+      .where('is_deleted', false)
+      .first();
+
+    if (!query) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Query not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: (await withTags([query]))[0] });
+  } catch (error) {
+    console.error('Error fetching query:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to fetch query' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/queries/[id]
+ * Updates a saved query and records the result as a new version
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const db = getDb();
+    const existing = await db<SavedQuery>('saved_queries')
+      .where('id', id)
+      .where('is_deleted', false)
+      .first();
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Query not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (body.name !== undefined && !body.name) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'Name cannot be empty' } },
+        { status: 400 }
+      );
+    }
+    if (body.sqlContent !== undefined && !body.sqlContent) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'SQL content cannot be empty' } },
+        { status: 400 }
+      );
+    }
+
+    if (body.cacheTtl !== undefined && !isValidCacheTtl(body.cacheTtl)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INVALID_INPUT', message: 'Cache TTL must be null or a non-negative number of seconds' },
+        },
+        { status: 400 }
+      );
+    }
+
+    const tags = body.tags === undefined ? undefined : normalizeTags(body.tags);
+    if (tags === null) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INVALID_INPUT', message: 'Tags must be a list of strings of at most 50 characters' },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.folderId && !(await db<QueryFolder>('query_folders').where('id', body.folderId).first())) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Folder not found' } },
+        { status: 404 }
+      );
+    }
+
+    const dataSourceId: string = body.dataSourceId ?? existing.data_source_id;
+    const dataSource = await db<DataSource>('data_sources').where('id', dataSourceId).first();
+    if (!dataSource) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Data source not found' } },
+        { status: 404 }
+      );
+    }
+
+    const sqlContent: string = body.sqlContent ?? existing.sql_content;
+
+    // Keep one definition per placeholder so execution can validate values
+    const parameters = buildParametersSchema(
+      sqlContent,
+      parseParametersSchema(body.parametersSchema ?? existing.parameters_schema)
+    );
+
+    const updates: Partial<SavedQuery> = {
+      name: body.name ?? existing.name,
+      description: body.description !== undefined ? body.description : existing.description,
+      data_source_id: dataSourceId,
+      sql_content: sqlContent,
+      parameters_schema: parameters.length > 0 ? JSON.stringify(parameters) : undefined,
+    };
+
+    const changed = (Object.keys(updates) as (keyof SavedQuery)[]).filter(
+      (field) => (updates[field] ?? null) !== (existing[field] ?? null)
+    );
+    // Cache settings, folder and tags are not part of the query definition, so they do not create a version
+    const cacheTtlChanged = body.cacheTtl !== undefined && body.cacheTtl !== (existing.cache_ttl ?? null);
+    const folderChanged = body.folderId !== undefined && (body.folderId || null) !== (existing.folder_id ?? null);
+    const organized = [...(folderChanged ? ['folder_id'] : []), ...(tags ? ['tags'] : [])];
+    if (changed.length === 0 && !cacheTtlChanged && organized.length === 0) {
+      return NextResponse.json({ success: true, data: (await withTags([existing]))[0] });
+    }
+
+    let version: SavedQueryVersion | undefined;
+    await db.transaction(async (trx) => {
+      if (cacheTtlChanged) {
+        await trx<SavedQuery>('saved_queries').where('id', id).update({ cache_ttl: body.cacheTtl });
+      }
+      if (folderChanged) {
+        await trx<SavedQuery>('saved_queries').where('id', id).update({ folder_id: body.folderId || null });
+      }
+      if (tags) {
+        await setQueryTags(trx, id, tags);
+      }
+      if (changed.length === 0) return;
+
+      await trx<SavedQuery>('saved_queries')
+        .where('id', id)
+        .update({
+          ...updates,
+          // Knex skips undefined, so clear a removed schema explicitly
+          parameters_schema: updates.parameters_schema ?? null,
+          ...validateQueryContent(sqlContent, dataSource.client_type),
+          updated_at: new Date().toISOString(),
+        } as Partial<SavedQuery>);
+
+      const updated = await trx<SavedQuery>('saved_queries').where('id', id).first();
+      if (updated) {
+        version = await recordQueryVersion(trx, updated, session.user.id, body.changeSummary);
+      }
+    });
+
+    // Results cached for the old definition or TTL must not be served again
+    await invalidateResultCache({ savedQueryId: id });
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'update',
+      resourceType: 'query',
+      resourceId: id,
+      details: {
+        fields: [...changed, ...(cacheTtlChanged ? ['cache_ttl'] : []), ...organized],
+        version: version?.version_number,
+      },
+    });
+
+    const query = await db<SavedQuery>('saved_queries').where('id', id).first();
+
+    return NextResponse.json({ success: true, data: query && (await withTags([query]))[0] });
+  } catch (error) {
+    console.error('Error updating query:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to update query' } },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const db = getDb();
+
+    // Soft delete keeps the version history for reports and charts that still reference it
+    const updated = await db<SavedQuery>('saved_queries')
+      .where('id', id)
+      .where('is_deleted', false)
+      .update({
+        is_deleted: true,
+        deleted_at: new Date().toISOString(),
+        deleted_by: session.user.id,
+      });
+
+    if (!updated) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Query not found' } },
+        { status: 404 }
+      );
+    }
+
+    await invalidateResultCache({ savedQueryId: id });
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'delete',
+      resourceType: 'query',
+      resourceId: id,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting query:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to delete query' } },
+      { status: 500 }
+    );
+  }
+}
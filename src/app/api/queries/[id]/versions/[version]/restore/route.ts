@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { getDb } from '@/lib/db/config';
+import { logAudit } from '@/lib/security/audit';
+import { getQueryVersion, recordQueryVersion } from '@/lib/sql/query-versions';
+import { withTags } from '@/lib/sql/query-library';
+import { invalidateResultCache } from '@/lib/cache';
+import type { SavedQuery, SavedQueryVersion } from '@/types/database';
+
+/**
+ * POST /api/queries/[id]/versions/[version]/restore
+ * Makes an earlier version current again. The restore is recorded as a new
+ * version, so it can itself be undone.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id, version } = await params;
+    const db = getDb();
+
+    const query = await db<SavedQuery>('saved_queries')
+      .where('id', id)
+      .where('is_deleted', false)
+      .first();
+    if (!query) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Query not found' } },
+        { status: 404 }
+      );
+    }
+
+    const target = await getQueryVersion(id, parseInt(version, 10));
+    if (!target) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Version not found' } },
+        { status: 404 }
+      );
+    }
+
+    let restored: SavedQueryVersion | undefined;
+    await db.transaction(async (trx) => {
+      await trx<SavedQuery>('saved_queries')
+        .where('id', id)
+        .update({
+          name: target.name,
+          description: target.description ?? null,
+          data_source_id: target.data_source_id ?? query.data_source_id,
+          sql_content: target.sql_content,
+          parameters_schema: target.parameters_schema ?? null,
+          is_validated: target.is_validated,
+          validation_result: target.validation_result ?? null,
+          updated_at: new Date().toISOString(),
+        } as Partial<SavedQuery>);
+
+      const updated = await trx<SavedQuery>('saved_queries').where('id', id).first();
+      if (updated) {
+        restored = await recordQueryVersion(
+          trx,
+          updated,
+          session.user.id,
+          `Restored from version ${target.version_number}`
+        );
+      }
+    });
+
+    await invalidateResultCache({ savedQueryId: id });
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'restore',
+      resourceType: 'query',
+      resourceId: id,
+      details: { restoredFrom: target.version_number, version: restored?.version_number },
+    });
+
+    const updated = await db<SavedQuery>('saved_queries').where('id', id).first();
+
+    return NextResponse.json({
+      success: true,
+      data: { query: updated && (await withTags([updated]))[0], version: restored },
+    });
+  } catch (error) {
+    console.error('Error restoring query version:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to restore query version' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { getQueryVersion } from '@/lib/sql/query-versions';
+
+/**
+ * GET /api/queries/[id]/versions/[version]
+ * Returns one version of a saved query by version number
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id, version } = await params;
+    const found = await getQueryVersion(id, parseInt(version, 10));
+
+    if (!found) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Version not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: found });
+  } catch (error) {
+    console.error('Error fetching query version:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to fetch query version' } },
+      { status: 500 }
+    );
+  }
+}
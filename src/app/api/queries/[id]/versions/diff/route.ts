@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { diffQueryVersions, getQueryVersion, listQueryVersions } from '@/lib/sql/query-versions';
+
+/**
+ * GET /api/queries/[id]/versions/diff?from=1&to=3
+ * Diffs the SQL and parameter schema of two versions. `to` defaults to the
+ * latest version.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const fromNumber = parseInt(searchParams.get('from') || '', 10);
+    const toParam = searchParams.get('to');
+
+    if (isNaN(fromNumber)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'A "from" version number is required' } },
+        { status: 400 }
+      );
+    }
+
+    const from = await getQueryVersion(id, fromNumber);
+    const to = toParam
+      ? await getQueryVersion(id, parseInt(toParam, 10))
+      : (await listQueryVersions(id))[0];
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Version not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: diffQueryVersions(from, to) });
+  } catch (error) {
+    console.error('Error diffing query versions:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to diff query versions' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { getDb } from '@/lib/db/config';
+import { listQueryVersions } from '@/lib/sql/query-versions';
+import type { SavedQuery } from '@/types/database';
+
+/**
+ * GET /api/queries/[id]/versions
+ * Lists the versions of a saved query, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const db = getDb();
+    const query = await db<SavedQuery>('saved_queries').where('id', id).first();
+
+    if (!query) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Query not found' } },
+        { status: 404 }
+      );
+    }
+
+    const versions = await listQueryVersions(id);
+
+    return NextResponse.json({ success: true, data: versions });
+  } catch (error) {
+    console.error('Error listing query versions:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to list query versions' } },
+      { status: 500 }
+    );
+  }
+}
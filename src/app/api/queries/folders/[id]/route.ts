@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { getDb } from '@/lib/db/config';
+import { logAudit } from '@/lib/security/audit';
+import { deleteFolder, wouldCreateCycle } from '@/lib/sql/query-library';
+import type { QueryFolder } from '@/types/database';
+
+/**
+ * PUT /api/queries/folders/[id]
+ * Renames a folder or moves it under another parent (`parentId: null` for
+ * the top level)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const db = getDb();
+    const existing = await db<QueryFolder>('query_folders').where('id', id).first();
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Folder not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'Folder name cannot be empty' } },
+        { status: 400 }
+      );
+    }
+
+    const parentId: string | null = body.parentId !== undefined ? body.parentId || null : existing.parent_id ?? null;
+    if (parentId && parentId !== existing.parent_id) {
+      if (!(await db<QueryFolder>('query_folders').where('id', parentId).first())) {
+        return NextResponse.json(
+          { success: false, error: { code: 'NOT_FOUND', message: 'Parent folder not found' } },
+          { status: 404 }
+        );
+      }
+      if (await wouldCreateCycle(id, parentId)) {
+        return NextResponse.json(
+          { success: false, error: { code: 'INVALID_INPUT', message: 'A folder cannot be moved into itself' } },
+          { status: 400 }
+        );
+      }
+    }
+
+    await db('query_folders')
+      .where('id', id)
+      .update({
+        name: body.name !== undefined ? body.name.trim() : existing.name,
+        parent_id: parentId,
+        updated_at: new Date().toISOString(),
+      });
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'update',
+      resourceType: 'query_folder',
+      resourceId: id,
+      details: { fields: Object.keys(body) },
+    });
+
+    const folder = await db<QueryFolder>('query_folders').where('id', id).first();
+
+    return NextResponse.json({ success: true, data: folder });
+  } catch (error) {
+    console.error('Error updating query folder:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to update folder' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/queries/folders/[id]
+ * Deletes a folder; its queries and subfolders move to its parent
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const folder = await getDb()<QueryFolder>('query_folders').where('id', id).first();
+    if (!folder) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Folder not found' } },
+        { status: 404 }
+      );
+    }
+
+    await deleteFolder(folder);
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'delete',
+      resourceType: 'query_folder',
+      resourceId: id,
+      details: { name: folder.name },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting query folder:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to delete folder' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { getDb } from '@/lib/db/config';
+import { logAudit } from '@/lib/security/audit';
+import { listFolders } from '@/lib/sql/query-library';
+import { v4 as uuidv4 } from 'uuid';
+import type { QueryFolder } from '@/types/database';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/queries/folders
+ * Every query folder; `parent_id` links them into a tree
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: await listFolders() });
+  } catch (error) {
+    console.error('Error fetching query folders:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to fetch folders' } },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { name, parentId } = await request.json();
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'Folder name is required' } },
+        { status: 400 }
+      );
+    }
+
+    const db = getDb();
+    if (parentId && !(await db<QueryFolder>('query_folders').where('id', parentId).first())) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Parent folder not found' } },
+        { status: 404 }
+      );
+    }
+
+    const id = uuidv4();
+    await db<QueryFolder>('query_folders').insert({
+      id,
+      name: name.trim(),
+      parent_id: parentId || null,
+      created_by: session.user.id,
+    });
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'create',
+      resourceType: 'query_folder',
+      resourceId: id,
+      details: { name: name.trim(), parentId },
+    });
+
+    const folder = await db<QueryFolder>('query_folders').where('id', id).first();
+
+    return NextResponse.json({ success: true, data: folder });
+  } catch (error) {
+    console.error('Error creating query folder:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to create folder' } },
+      { status: 500 }
+    );
+  }
+}
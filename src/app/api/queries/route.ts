@@ -2,8 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth/config';
 import { getDb } from '@/lib/db/config';
 import { logAudit } from '@/lib/security/audit';
+import { buildParametersSchema, parseParametersSchema } from '@/lib/sql/parameters';
+import { recordQueryVersion, validateQueryContent } from '@/lib/sql/query-versions';
+import { normalizeTags, setQueryTags, withTags } from '@/lib/sql/query-library';
+import { isValidCacheTtl } from '@/lib/cache';
 import { v4 as uuidv4 } from 'uuid';
-import type { SavedQuery } from '@/types/database';
+import type { DataSource, QueryFolder, SavedQuery } from '@/types/database';
 
 export async function GET(request: NextRequest) {
   try {
@@ -21,17 +25,21 @@ export async function GET(request: NextRequest) {
 
     const db = getDb();
     const queries = await db<SavedQuery>('saved_queries')
+      .where('is_deleted', false)
       .orderBy('created_at', 'desc')
       .limit(pageSize)
       .offset(page * pageSize);
 
-    const countResult = await db<SavedQuery>('saved_queries').count('* as count').first();
+    const countResult = await db<SavedQuery>('saved_queries')
+      .where('is_deleted', false)
+      .count('* as count')
+      .first();
     const total = Number((countResult as { count?: string })?.count || 0);
 
     return NextResponse.json({
       success: true,
       data: {
-        items: queries,
+        items: await withTags(queries),
         meta: { total, page, pageSize, totalPages: Math.ceil(total / pageSize) },
       },
     });
@@ -55,7 +63,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, description, dataSourceId, sqlContent, parametersSchema } = body;
+    const { name, description, dataSourceId, sqlContent, parametersSchema, cacheTtl, folderId } = body;
 
     if (!name || !dataSourceId || !sqlContent) {
       return NextResponse.json(
@@ -64,17 +72,61 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (cacheTtl !== undefined && !isValidCacheTtl(cacheTtl)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INVALID_INPUT', message: 'Cache TTL must be null or a non-negative number of seconds' },
+        },
+        { status: 400 }
+      );
+    }
+
+    const tags = body.tags === undefined ? [] : normalizeTags(body.tags);
+    if (!tags) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INVALID_INPUT', message: 'Tags must be a list of strings of at most 50 characters' },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Keep one definition per placeholder so execution can validate values
+    const parameters = buildParametersSchema(sqlContent, parseParametersSchema(parametersSchema));
+
     const db = getDb();
+    if (folderId && !(await db<QueryFolder>('query_folders').where('id', folderId).first())) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Folder not found' } },
+        { status: 404 }
+      );
+    }
+
     const id = uuidv4();
+    const dataSource = await db<DataSource>('data_sources').where('id', dataSourceId).first();
+
+    // The new query is recorded as version 1 in the same transaction
+    await db.transaction(async (trx) => {
+      await trx<SavedQuery>('saved_queries').insert({
+        id,
+        name,
+        description,
+        data_source_id: dataSourceId,
+        sql_content: sqlContent,
+        parameters_schema: parameters.length > 0 ? JSON.stringify(parameters) : undefined,
+        ...validateQueryContent(sqlContent, dataSource?.client_type ?? 'pg'),
+        cache_ttl: cacheTtl,
+        folder_id: folderId || null,
+        created_by: session.user.id,
+      });
+      await setQueryTags(trx, id, tags);
 
-    await db<SavedQuery>('saved_queries').insert({
-      id,
-      name,
-      description,
-      data_source_id: dataSourceId,
-      sql_content: sqlContent,
-      parameters_schema: parametersSchema ? JSON.stringify(parametersSchema) : undefined,
-      created_by: session.user.id,
+      const created = await trx<SavedQuery>('saved_queries').where('id', id).first();
+      if (created) {
+        await recordQueryVersion(trx, created, session.user.id, 'Initial version');
+      }
     });
 
     await logAudit({
@@ -87,7 +139,7 @@ export async function POST(request: NextRequest) {
 
     const query = await db<SavedQuery>('saved_queries').where('id', id).first();
 
-    return NextResponse.json({ success: true, data: query });
+    return NextResponse.json({ success: true, data: query && (await withTags([query]))[0] });
   } catch (error) {
     console.error('Error creating query:', error);
     return NextResponse.json(
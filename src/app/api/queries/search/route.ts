@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { searchSavedQueries } from '@/lib/sql/query-library';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/queries/search
+ * Searches saved queries by words of their name, description and SQL
+ * (`q`), filtered by `dataSourceId`, `ownerId`, `tag` (repeatable; all must
+ * match), `validated` (true or false) and `folderId`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(parseInt(searchParams.get('page') || '0', 10) || 0, 0);
+    const pageSize = Math.min(Math.max(parseInt(searchParams.get('pageSize') || '20', 10) || 20, 1), 500);
+    const validated = searchParams.get('validated');
+
+    if (validated && validated !== 'true' && validated !== 'false') {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'validated must be true or false' } },
+        { status: 400 }
+      );
+    }
+
+    const { items, total } = await searchSavedQueries({
+      search: searchParams.get('q')?.trim() || undefined,
+      dataSourceId: searchParams.get('dataSourceId') || undefined,
+      ownerId: searchParams.get('ownerId') || undefined,
+      tags: searchParams.getAll('tag').filter(Boolean),
+      isValidated: validated ? validated === 'true' : undefined,
+      folderId: searchParams.get('folderId') || undefined,
+      page,
+      pageSize,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        items,
+        meta: { total, page, pageSize, totalPages: Math.ceil(total / pageSize) },
+      },
+    });
+  } catch (error) {
+    console.error('Error searching queries:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to search queries' } },
+      { status: 500 }
+    );
+  }
+}
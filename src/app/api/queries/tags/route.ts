@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { listTags } from '@/lib/sql/query-library';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/queries/tags
+ * Tags in use on saved queries with their query counts
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: await listTags() });
+  } catch (error) {
+    console.error('Error fetching query tags:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to fetch tags' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { auth } from '@/lib/auth/config';
+import { logAudit } from '@/lib/security/audit';
+import { parseParametersSchema } from '@/lib/sql/parameters';
+import { isValidExecutionId } from '@/lib/sql/execution-registry';
+import {
+  compareResults,
+  DEFAULT_COMPARE_MAX_ROWS,
+  MAX_COMPARE_MAX_ROWS,
+  ResultComparisonError,
+  runComparisonSide,
+} from '@/lib/sql/result-compare';
+import type { ResultCompareResponse } from '@/types/api';
+
+const DEFAULT_TIMEOUT = 30000; // 30 seconds, per side
+const MAX_TIMEOUT = 300000; // 5 minutes, per side
+
+function isSource(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * POST /api/sql/compare
+ * Runs two queries, or two versions of a saved query, with the same
+ * parameters and diffs their results on the given key columns. Suited to
+ * regression checks: `identical` is false when any row or column differs,
+ * or when either side hit the row limit and was not compared in full.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const {
+      base,
+      target,
+      keyColumns = [],
+      parameters = {},
+      parametersSchema,
+      tolerance = 0,
+      maxRows = DEFAULT_COMPARE_MAX_ROWS,
+      timeout = DEFAULT_TIMEOUT,
+      executionId = randomUUID(),
+    } = body;
+
+    if (!isSource(base) || !isSource(target)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'Both a base and a target query are required' } },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(keyColumns) || keyColumns.some((column) => typeof column !== 'string')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'keyColumns must be a list of column names' } },
+        { status: 400 }
+      );
+    }
+
+    if (typeof tolerance !== 'number' || !(tolerance >= 0)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'tolerance must be a non-negative number' } },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(maxRows) || maxRows < 1 || maxRows > MAX_COMPARE_MAX_ROWS) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INVALID_INPUT', message: `maxRows must be between 1 and ${MAX_COMPARE_MAX_ROWS}` },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(timeout) || timeout < 1 || timeout > MAX_TIMEOUT) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INVALID_INPUT', message: `timeout must be between 1 and ${MAX_TIMEOUT} milliseconds` },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidExecutionId(executionId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: 'Execution ID must be 1-100 letters, digits, hyphens or underscores',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Both sides run one after the other under the same execution id, so a
+    // single cancel stops the comparison
+    const context = {
+      userId: session.user.id,
+      userEmail: session.user.email,
+      roles: session.user.roles,
+      parameters,
+      parametersSchema: parseParametersSchema(parametersSchema),
+      executionId,
+      timeout,
+    };
+    const { rows: baseRows, ...baseSide } = await runComparisonSide(base, context);
+    const { rows: targetRows, ...targetSide } = await runComparisonSide(target, context);
+
+    const comparison = compareResults(
+      { columns: baseSide.columns, rows: baseRows },
+      { columns: targetSide.columns, rows: targetRows },
+      { keyColumns, tolerance, maxRows }
+    );
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'execute',
+      resourceType: 'query',
+      resourceId: baseSide.dataSourceId,
+      details: {
+        compare: true,
+        base: baseSide.label,
+        target: targetSide.label,
+        parameters,
+        summary: comparison.summary,
+      },
+    });
+
+    // Rows past the limit were never compared, so a truncated side cannot be called identical
+    const data: ResultCompareResponse = {
+      ...comparison,
+      identical: comparison.identical && !baseSide.truncated && !targetSide.truncated,
+      base: baseSide,
+      target: targetSide,
+    };
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof ResultComparisonError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: error.code, message: error.message, ...(error.details && { details: error.details }) },
+        },
+        { status: error.status }
+      );
+    }
+    console.error('SQL compare error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'EXECUTION_ERROR', message: error instanceof Error ? error.message : 'Unknown error' },
+      },
+      { status: 500 }
+    );
+  }
+}
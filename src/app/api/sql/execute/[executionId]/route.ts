@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityContext, hasPermission } from '@/lib/auth/rbac';
+import { logAudit } from '@/lib/security/audit';
+import { canInterrupt, cancelExecution, getExecution } from '@/lib/sql/execution-registry';
+
+/**
+ * DELETE /api/sql/execute/[executionId]
+ * Cancels a running SQL editor query. Execution ids are only unique per
+ * user: the id names one of the caller's own queries, and admins pass
+ * `userId` to cancel another user's. SQLite, Oracle and DuckDB statements cannot be
+ * interrupted: they run to completion and their result is discarded, which
+ * the response reports with `cancelled: false`.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ executionId: string }> }
+) {
+  try {
+    const context = await getSecurityContext();
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { executionId } = await params;
+    const ownerId = new URL(request.url).searchParams.get('userId') || context.userId;
+
+    if (ownerId !== context.userId && !hasPermission(context, 'admin:queries')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'You can only cancel your own queries' } },
+        { status: 403 }
+      );
+    }
+
+    const ref = { userId: ownerId, executionId };
+    const execution = getExecution(ref);
+
+    if (!execution) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Query is not running' } },
+        { status: 404 }
+      );
+    }
+
+    const cancelled = await cancelExecution(ref);
+    if (!cancelled) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Query is not running' } },
+        { status: 404 }
+      );
+    }
+
+    const interrupted = canInterrupt(execution.clientType);
+
+    await logAudit({
+      userId: context.userId,
+      action: 'cancel',
+      resourceType: 'query',
+      resourceId: execution.dataSourceId,
+      details: {
+        executionId,
+        ownerId: execution.userId,
+        sql: execution.sql.substring(0, 500),
+        interrupted,
+      },
+    });
+
+    if (!interrupted) {
+      return NextResponse.json({
+        success: true,
+        data: {
+          executionId,
+          status: 'discarding',
+          cancelled: false,
+          message: 'This database cannot interrupt a running statement; its result will be discarded when it finishes',
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, data: { executionId, status: 'cancelling', cancelled: true } });
+  } catch (error) {
+    console.error('Error cancelling query:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to cancel query',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
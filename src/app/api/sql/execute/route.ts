@@ -1,11 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
 import { auth } from '@/lib/auth/config';
 import { getDb } from '@/lib/db/config';
 import { getConnection } from '@/lib/db/connection-manager';
-import { isReadOnlyQuery } from '@/lib/sql/validator';
+import { bindParameters, parseParametersSchema, resolveParameters } from '@/lib/sql/parameters';
 import { logAudit } from '@/lib/security/audit';
 import { paginationConfig, validatePageSize } from '@/lib/config/pagination';
-import type { DataSource } from '@/types/database';
+import { paginateSQL } from '@/lib/sql/pagination';
+import { createResultStream, NDJSON_CONTENT_TYPE } from '@/lib/sql/result-stream';
+import { classifyQuery } from '@/lib/sql/read-only';
+import { lintQuery } from '@/lib/sql/validator';
+import { getBlockingFindings, getLintSettings } from '@/lib/sql/lint';
+import { runStatement, splitStatements, type SQLStatement, type StatementResult } from '@/lib/sql/statements';
+import { recordQueryHistory, type QueryHistoryRecord } from '@/lib/sql/query-history';
+import {
+  buildCacheKey,
+  describeCacheResult,
+  getCachedResult,
+  resolveCacheTtl,
+  setCachedResult,
+} from '@/lib/cache';
+import {
+  isExecutionCancelled,
+  isValidExecutionId,
+  QueryCancelledError,
+  registerExecution,
+  unregisterExecution,
+} from '@/lib/sql/execution-registry';
+import type { DataSource, SavedQuery } from '@/types/database';
+import type { SQLStatementResult } from '@/types/api';
 
 const DEFAULT_TIMEOUT = 30000; // 30 seconds
 
@@ -20,7 +43,20 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { sql, dataSourceId, parameters, limit, offset, timeout = DEFAULT_TIMEOUT } = body;
+    const {
+      sql,
+      dataSourceId,
+      savedQueryId,
+      parameters,
+      parametersSchema,
+      limit,
+      offset,
+      timeout = DEFAULT_TIMEOUT,
+      executionId = randomUUID(),
+      stream = false,
+      useCache,
+      refreshCache = false,
+    } = body;
 
     // Use configured default page size if not provided
     const effectiveLimit = validatePageSize(limit || paginationConfig.dataTablePageSize);
@@ -40,22 +76,50 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Only allow read-only queries in SQL editor
-    if (!isReadOnlyQuery(sql)) {
+    if (!isValidExecutionId(executionId)) {
       return NextResponse.json(
         {
           success: false,
           error: {
-            code: 'FORBIDDEN',
-            message: 'Only SELECT queries are allowed in the SQL editor',
+            code: 'INVALID_INPUT',
+            message: 'Execution ID must be 1-100 letters, digits, hyphens or underscores',
           },
         },
-        { status: 403 }
+        { status: 400 }
       );
     }
 
-    // Get data source
+    // Saved queries carry their own parameter schema; ad-hoc SQL may supply one
     const db = getDb();
+    let parameterDefinitions = parseParametersSchema(parametersSchema);
+    let savedQuery: SavedQuery | undefined;
+    if (savedQueryId) {
+      savedQuery = await db<SavedQuery>('saved_queries').where('id', savedQueryId).first();
+      if (!savedQuery) {
+        return NextResponse.json(
+          { success: false, error: { code: 'NOT_FOUND', message: 'Saved query not found' } },
+          { status: 404 }
+        );
+      }
+      parameterDefinitions = parseParametersSchema(savedQuery.parameters_schema);
+    }
+
+    const resolvedParameters = resolveParameters(sql, parameterDefinitions, parameters);
+    if (resolvedParameters.errors.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_PARAMETERS',
+            message: resolvedParameters.errors.map((e) => e.message).join('; '),
+            details: { errors: resolvedParameters.errors },
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Get data source
     const dataSource = await db<DataSource>('data_sources')
       .where('id', dataSourceId)
       .where('is_active', true)
@@ -68,70 +132,280 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Every execution from here on is kept in the user's query history
+    const historyRecord: Omit<QueryHistoryRecord, 'status'> = {
+      userId: session.user.id,
+      dataSourceId,
+      savedQueryId,
+      executionId,
+      sql,
+      parameters: resolvedParameters.values,
+      parametersSchema: parameterDefinitions,
+      isStreamed: stream,
+    };
+
+    // Lint rules escalated to 'error' for this data source or the user's roles block execution
+    const lintSettings = await getLintSettings({ dataSourceId, roles: session.user.roles });
+    const blocking = getBlockingFindings(lintQuery(sql, dataSource.client_type, lintSettings));
+    if (blocking.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'LINT_BLOCKED',
+            message: `Query blocked by SQL lint rules: ${blocking.map((f) => f.message).join('; ')}`,
+            details: { findings: blocking },
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // Scripts of several statements run one after another, one page each
+    const statements = splitStatements(sql, dataSource.client_type);
+    if (statements.length > 1) {
+      if (stream) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: { code: 'INVALID_INPUT', message: 'Streaming is only available for a single statement' },
+          },
+          { status: 400 }
+        );
+      }
+      return executeScript({
+        userEmail: session.user.email,
+        dataSource,
+        statements,
+        parameters: resolvedParameters.values,
+        historyRecord,
+        executionId,
+        timeout,
+        limit: effectiveLimit,
+      });
+    }
+
+    // Only allow read-only queries in SQL editor. The classifier runs against
+    // the data source's dialect, so it must wait until the data source is known.
+    const classification = classifyQuery(sql, dataSource.client_type);
+    if (!classification.readOnly) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: `Only read-only queries are allowed in the SQL editor: ${classification.reason}`,
+            details: { reason: classification.reason },
+          },
+        },
+        { status: 403 }
+      );
+    }
+
     // Get connection
     const connection = await getConnection(dataSource);
 
-    // Apply SERVER-SIDE pagination (MUST use LIMIT and OFFSET at database level)
-    let limitedSQL = sql.trim();
+    // Apply SERVER-SIDE pagination by rewriting the outermost SELECT for this dialect.
+    // Streamed results are capped at maxStreamRows instead of a single page.
+    const paginated = stream
+      ? paginateSQL(sql, dataSource.client_type, paginationConfig.maxStreamRows, 0)
+      : paginateSQL(sql, dataSource.client_type, effectiveLimit, effectiveOffset);
 
-    // Add LIMIT and OFFSET if not present (CRITICAL for server-side pagination)
-    if (!/\bLIMIT\s+\d+/i.test(limitedSQL) && !/\bTOP\s+\d+/i.test(limitedSQL)) {
-      // Remove trailing semicolon if present
-      if (limitedSQL.endsWith(';')) {
-        limitedSQL = limitedSQL.slice(0, -1);
-      }
-      // SERVER-SIDE: Add LIMIT and OFFSET to SQL query before sending to database
-      limitedSQL = `${limitedSQL} LIMIT ${effectiveLimit} OFFSET ${effectiveOffset}`;
-    } else if (/\bLIMIT\s+\d+/i.test(limitedSQL) && !/\bOFFSET\s+\d+/i.test(limitedSQL) && effectiveOffset > 0) {
-      // Has LIMIT but no OFFSET, add OFFSET
-      if (limitedSQL.endsWith(';')) {
-        limitedSQL = limitedSQL.slice(0, -1);
+    // Bind named parameters through Knex so values never reach the SQL text
+    const bound = bindParameters(paginated.sql, resolvedParameters.values);
+
+    // Saved queries use the result cache by default; ad-hoc SQL only when asked.
+    // Streamed results are never cached.
+    const cacheTtl = resolveCacheTtl({ savedQuery });
+    const cacheKey = !stream && (useCache ?? !!savedQueryId) && cacheTtl > 0
+      ? buildCacheKey({
+          dataSourceId,
+          sql: bound.sql,
+          bindings: bound.bindings,
+          limit: effectiveLimit,
+          offset: effectiveOffset,
+        })
+      : null;
+
+    if (cacheKey && !refreshCache) {
+      const cached = await getCachedResult(cacheKey);
+      if (cached) {
+        await recordQueryHistory({
+          userId: session.user.id,
+          dataSourceId,
+          savedQueryId,
+          executionId,
+          sql,
+          parameters: resolvedParameters.values,
+          parametersSchema: parameterDefinitions,
+          status: 'success',
+          rowCount: cached.rows.length,
+          durationMs: 0,
+        });
+
+        await logAudit({
+          userId: session.user.id,
+          action: 'execute',
+          resourceType: 'query',
+          resourceId: dataSourceId,
+          details: {
+            sql: sql.substring(0, 500),
+            parameters: resolvedParameters.values,
+            rowCount: cached.rows.length,
+            cached: true,
+          },
+        });
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            executionId,
+            columns: cached.columns,
+            rows: cached.rows,
+            rowCount: cached.rows.length,
+            executionTime: cached.executionTime,
+            truncated: cached.hasMore,
+            pagination: {
+              limit: effectiveLimit,
+              offset: effectiveOffset,
+              hasMore: cached.hasMore,
+              serverSide: true,
+            },
+            cache: describeCacheResult('hit', cached, cacheTtl),
+          },
+        });
       }
-      limitedSQL = `${limitedSQL} OFFSET ${effectiveOffset}`;
     }
 
-    // Validate that user-provided LIMIT doesn't exceed max configured page size
-    const limitMatch = limitedSQL.match(/\bLIMIT\s+(\d+)/i);
-    if (limitMatch) {
-      const userLimit = parseInt(limitMatch[1], 10);
-      const validatedLimit = validatePageSize(userLimit);
-      if (userLimit !== validatedLimit) {
-        limitedSQL = limitedSQL.replace(/\bLIMIT\s+\d+/i, `LIMIT ${validatedLimit}`);
-      }
+    // Register the execution so it can be cancelled from another request
+    const registered = registerExecution(
+      {
+        executionId,
+        userId: session.user.id,
+        userEmail: session.user.email,
+        dataSourceId,
+        dataSourceName: dataSource.name,
+        clientType: dataSource.client_type,
+        sql: sql.substring(0, 2000),
+      },
+      connection
+    );
+    if (!registered) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'CONFLICT', message: `Execution ${executionId} is already running` },
+        },
+        { status: 409 }
+      );
     }
+    const execution = { userId: session.user.id, executionId };
 
-    // Execute query with timeout
-    const startTime = Date.now();
+    if (stream) {
+      const resultStream = createResultStream({
+        connection,
+        clientType: dataSource.client_type,
+        sql: bound.sql,
+        bindings: bound.bindings,
+        execution,
+        rowLimit: paginationConfig.maxStreamRows,
+        timeout,
+        onComplete: async ({ rowCount, executionTime }) => {
+          await recordQueryHistory({ ...historyRecord, status: 'success', rowCount, durationMs: executionTime });
+          await logAudit({
+            userId: session.user.id,
+            action: 'execute',
+            resourceType: 'query',
+            resourceId: dataSourceId,
+            details: {
+              sql: sql.substring(0, 500),
+              parameters: resolvedParameters.values,
+              rowCount,
+              executionTime,
+              stream: true,
+            },
+          });
+        },
+        onError: (error, { rowCount, executionTime }) =>
+          recordQueryHistory({
+            ...historyRecord,
+            status: error.code === 'EXECUTION_ERROR' ? 'error' : 'cancelled',
+            errorMessage: error.message,
+            rowCount,
+            durationMs: executionTime,
+          }),
+      });
 
-    let result;
-    if (dataSource.client_type === 'sqlite3') {
-      result = await connection.raw(limitedSQL);
-    } else {
-      result = await connection.raw(limitedSQL).timeout(timeout);
+      return new Response(resultStream, {
+        headers: {
+          'Content-Type': NDJSON_CONTENT_TYPE,
+          'Cache-Control': 'no-store',
+          'X-Execution-Id': executionId,
+        },
+      });
     }
 
-    const executionTime = Date.now() - startTime;
-
-    // Extract rows and column info
-    let rows: Record<string, unknown>[] = [];
-    let columns: { name: string; type: string }[] = [];
+    // Execute query with timeout inside a read-only transaction
+    const startTime = Date.now();
 
-    if (Array.isArray(result)) {
-      rows = result;
-    } else if (result.rows) {
-      rows = result.rows;
-    } else if (result[0]) {
-      rows = Array.isArray(result[0]) ? result[0] : [result[0]];
+    let result: StatementResult | undefined;
+    let cancelled = false;
+    try {
+      result = await runStatement(connection, dataSource.client_type, bound, {
+        execution,
+        timeout,
+        limit: effectiveLimit,
+      });
+    } catch (error) {
+      if (!(error instanceof QueryCancelledError) && !isExecutionCancelled(execution)) {
+        await recordQueryHistory({
+          ...historyRecord,
+          status: 'error',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          durationMs: Date.now() - startTime,
+        });
+        throw error;
+      }
+      cancelled = true;
+    } finally {
+      // better-sqlite3 cannot be interrupted, so a cancel that arrives while
+      // the statement runs is honoured by discarding its result
+      cancelled = cancelled || isExecutionCancelled(execution);
+      unregisterExecution(execution);
     }
 
-    // Get column info from first row
-    if (rows.length > 0) {
-      columns = Object.keys(rows[0]).map((name) => ({
-        name,
-        type: typeof rows[0][name],
-      }));
+    if (cancelled || !result) {
+      await recordQueryHistory({
+        ...historyRecord,
+        status: 'cancelled',
+        errorMessage: 'Query was cancelled',
+        durationMs: Date.now() - startTime,
+      });
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'QUERY_CANCELLED', message: 'Query was cancelled', details: { executionId } },
+        },
+        { status: 409 }
+      );
     }
 
+    const { columns, rows, hasMore, executionTime } = result;
+
+    await recordQueryHistory({
+      ...historyRecord,
+      status: 'success',
+      rowCount: rows.length,
+      durationMs: executionTime,
+    });
+
+    const cached = cacheKey
+      ? await setCachedResult(cacheKey, { rows, columns, hasMore, executionTime }, cacheTtl, {
+          dataSourceId,
+          savedQueryId,
+        })
+      : null;
+
     // Log the query execution
     await logAudit({
       userId: session.user.id,
@@ -140,6 +414,7 @@ export async function POST(request: NextRequest) {
       resourceId: dataSourceId,
       details: {
         sql: sql.substring(0, 500),
+        parameters: resolvedParameters.values,
         rowCount: rows.length,
         executionTime,
       },
@@ -148,17 +423,19 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       data: {
+        executionId,
         columns,
         rows,
         rowCount: rows.length,
         executionTime,
-        truncated: rows.length >= effectiveLimit,
+        truncated: hasMore,
         pagination: {
           limit: effectiveLimit,
           offset: effectiveOffset,
-          hasMore: rows.length >= effectiveLimit,
+          hasMore,
           serverSide: true, // Explicitly mark as server-side pagination
         },
+        cache: cacheKey ? describeCacheResult('miss', cached, cacheTtl) : describeCacheResult('bypass'),
       },
     });
   } catch (error) {
@@ -175,3 +452,170 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+interface ScriptExecution {
+  userEmail: string;
+  dataSource: DataSource;
+  statements: SQLStatement[];
+  parameters: Record<string, unknown>;
+  historyRecord: Omit<QueryHistoryRecord, 'status'>;
+  executionId: string;
+  timeout: number;
+  limit: number;
+}
+
+/**
+ * Runs a multi-statement script sequentially. Every statement must be
+ * read-only before any of them runs; a failing statement is reported in its
+ * own result and the script carries on with the next one.
+ */
+async function executeScript({
+  userEmail,
+  dataSource,
+  statements,
+  parameters,
+  historyRecord,
+  executionId,
+  timeout,
+  limit,
+}: ScriptExecution): Promise<NextResponse> {
+  const clientType = dataSource.client_type;
+
+  for (const statement of statements) {
+    const classification = classifyQuery(statement.sql, clientType);
+    if (!classification.readOnly) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: `Only read-only queries are allowed in the SQL editor: statement ${statement.index + 1} (line ${statement.line}): ${classification.reason}`,
+            details: { reason: classification.reason, statementIndex: statement.index, line: statement.line },
+          },
+        },
+        { status: 403 }
+      );
+    }
+  }
+
+  const connection = await getConnection(dataSource);
+  const registered = registerExecution(
+    {
+      executionId,
+      userId: historyRecord.userId,
+      userEmail,
+      dataSourceId: dataSource.id,
+      dataSourceName: dataSource.name,
+      clientType,
+      sql: historyRecord.sql.substring(0, 2000),
+    },
+    connection
+  );
+  if (!registered) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'CONFLICT', message: `Execution ${executionId} is already running` },
+      },
+      { status: 409 }
+    );
+  }
+  const execution = { userId: historyRecord.userId, executionId };
+
+  const startTime = Date.now();
+  const results: SQLStatementResult[] = [];
+  try {
+    for (const statement of statements) {
+      const base = {
+        index: statement.index,
+        sql: statement.sql,
+        line: statement.line,
+        columns: [],
+        rows: [],
+        rowCount: 0,
+        executionTime: 0,
+      };
+
+      if (isExecutionCancelled(execution)) {
+        results.push({ ...base, status: 'cancelled' });
+        continue;
+      }
+
+      const statementStart = Date.now();
+      try {
+        const paginated = paginateSQL(statement.sql, clientType, limit, 0);
+        const bound = bindParameters(paginated.sql, parameters);
+        const result = await runStatement(connection, clientType, bound, { execution, timeout, limit });
+        // better-sqlite3 cannot be interrupted; a cancelled statement's result is discarded
+        if (isExecutionCancelled(execution)) {
+          results.push({ ...base, status: 'cancelled' });
+          continue;
+        }
+        results.push({
+          ...base,
+          status: 'success',
+          columns: result.columns,
+          rows: result.rows,
+          rowCount: result.rows.length,
+          executionTime: result.executionTime,
+          truncated: result.hasMore,
+        });
+      } catch (error) {
+        if (error instanceof QueryCancelledError || isExecutionCancelled(execution)) {
+          results.push({ ...base, status: 'cancelled' });
+          continue;
+        }
+        results.push({
+          ...base,
+          status: 'error',
+          executionTime: Date.now() - statementStart,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  } finally {
+    unregisterExecution(execution);
+  }
+
+  const executionTime = Date.now() - startTime;
+  const rowCount = results.reduce((sum, result) => sum + result.rowCount, 0);
+  const failed = results.find((result) => result.status === 'error');
+
+  await recordQueryHistory({
+    ...historyRecord,
+    status: failed ? 'error' : results.some((result) => result.status === 'cancelled') ? 'cancelled' : 'success',
+    errorMessage: failed ? `Statement ${failed.index + 1}: ${failed.error}` : undefined,
+    rowCount,
+    durationMs: executionTime,
+  });
+
+  await logAudit({
+    userId: historyRecord.userId,
+    action: 'execute',
+    resourceType: 'query',
+    resourceId: dataSource.id,
+    details: {
+      sql: historyRecord.sql.substring(0, 500),
+      parameters,
+      rowCount,
+      executionTime,
+      statementCount: statements.length,
+    },
+  });
+
+  // The top-level result mirrors the last statement, as single-statement clients expect
+  const last = results[results.length - 1];
+  return NextResponse.json({
+    success: true,
+    data: {
+      executionId,
+      columns: last.columns,
+      rows: last.rows,
+      rowCount: last.rowCount,
+      executionTime,
+      truncated: last.truncated,
+      statements: results,
+      cache: describeCacheResult('bypass'),
+    },
+  });
+}
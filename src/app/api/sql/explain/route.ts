@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { getDb } from '@/lib/db/config';
+import { getConnection } from '@/lib/db/connection-manager';
+import { bindParameters, parseParametersSchema, resolveParameters } from '@/lib/sql/parameters';
+import { classifyQuery } from '@/lib/sql/read-only';
+import { lintQuery } from '@/lib/sql/validator';
+import { getBlockingFindings, getLintSettings } from '@/lib/sql/lint';
+import { explainQuery, isExplainSupported, summarizePlan } from '@/lib/sql/explain';
+import type { DataSource } from '@/types/database';
+
+/**
+ * POST /api/sql/explain
+ * Returns the query plan of a read-only query without running it
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { sql, dataSourceId, parameters, parametersSchema } = body;
+
+    if (!sql) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'SQL content is required' } },
+        { status: 400 }
+      );
+    }
+
+    if (!dataSourceId) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'Data source ID is required' } },
+        { status: 400 }
+      );
+    }
+
+    const db = getDb();
+    const dataSource = await db<DataSource>('data_sources')
+      .where('id', dataSourceId)
+      .where('is_active', true)
+      .first();
+
+    if (!dataSource) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Data source not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!isExplainSupported(dataSource.client_type)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNSUPPORTED',
+            message: `Query plans are not available for ${dataSource.client_type} data sources`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Plans are only shown for queries the SQL editor would be allowed to run
+    const classification = classifyQuery(sql, dataSource.client_type);
+    if (!classification.readOnly) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: `Only read-only queries can be explained: ${classification.reason}`,
+            details: { reason: classification.reason },
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // Queries that lint rules block from running are not sent to the database either
+    const lintSettings = await getLintSettings({ dataSourceId, roles: session.user.roles });
+    const blocking = getBlockingFindings(lintQuery(sql, dataSource.client_type, lintSettings));
+    if (blocking.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'LINT_BLOCKED',
+            message: `Query blocked by SQL lint rules: ${blocking.map((f) => f.message).join('; ')}`,
+            details: { findings: blocking },
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const resolvedParameters = resolveParameters(sql, parseParametersSchema(parametersSchema), parameters);
+    if (resolvedParameters.errors.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_PARAMETERS',
+            message: resolvedParameters.errors.map((e) => e.message).join('; '),
+            details: { errors: resolvedParameters.errors },
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const bound = bindParameters(sql, resolvedParameters.values);
+    const connection = await getConnection(dataSource);
+    const plan = await explainQuery(connection, dataSource.client_type, bound.sql, bound.bindings);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        plan,
+        estimatedCost: summarizePlan(plan),
+      },
+    });
+  } catch (error) {
+    console.error('SQL explain error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'EXPLAIN_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { parseFormatterPreferences } from '@/lib/sql/formatter';
+import { getFormatterPreferences, saveFormatterPreferences } from '@/lib/sql/formatter-preferences';
+import type { SQLFormatterPreferences } from '@/types/api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/sql/formatter-preferences
+ * The caller's SQL formatting preferences
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const preferences = await getFormatterPreferences(session.user.id);
+    return NextResponse.json({ success: true, data: preferences });
+  } catch (error) {
+    console.error('Error fetching formatter preferences:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch formatter preferences' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/sql/formatter-preferences
+ * Updates the caller's preferences; omitted fields keep their current value
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'Preferences must be an object' } },
+        { status: 400 }
+      );
+    }
+
+    const current = await getFormatterPreferences(session.user.id);
+    const preferences = parseFormatterPreferences({ ...current, ...body });
+
+    // Parsing replaces invalid values with defaults, so any difference is an invalid field
+    const invalid = (Object.keys(current) as (keyof SQLFormatterPreferences)[]).filter(
+      (key) => key in body && body[key] !== preferences[key]
+    );
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: `Invalid formatter preferences: ${invalid.join(', ')}`,
+            details: { fields: invalid },
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const saved = await saveFormatterPreferences(session.user.id, preferences);
+    return NextResponse.json({ success: true, data: saved });
+  } catch (error) {
+    console.error('Error saving formatter preferences:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to save formatter preferences' } },
+      { status: 500 }
+    );
+  }
+}
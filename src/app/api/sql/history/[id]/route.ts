@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityContext, hasPermission } from '@/lib/auth/rbac';
+import { getQueryHistoryEntry } from '@/lib/sql/query-history';
+
+/**
+ * GET /api/sql/history/[id]
+ * Returns a single history entry with its full SQL and parameters
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = await getSecurityContext();
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const entry = await getQueryHistoryEntry(id);
+
+    // Other users' entries are reported as missing rather than forbidden
+    if (!entry || (entry.user_id !== context.userId && !hasPermission(context, 'admin:queries'))) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'History entry not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: entry });
+  } catch (error) {
+    console.error('Error fetching query history entry:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to fetch history entry' } },
+      { status: 500 }
+    );
+  }
+}
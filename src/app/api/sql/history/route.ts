@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityContext, hasPermission } from '@/lib/auth/rbac';
+import { searchQueryHistory } from '@/lib/sql/query-history';
+import type { QueryHistoryStatus } from '@/types/database';
+
+export const dynamic = 'force-dynamic';
+
+const STATUSES: QueryHistoryStatus[] = ['success', 'error', 'cancelled'];
+
+function parseDate(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * GET /api/sql/history
+ * Searches the caller's SQL editor history. Admins may pass `userId` to
+ * search another user's history.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getSecurityContext();
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(parseInt(searchParams.get('page') || '0', 10) || 0, 0);
+    const pageSize = Math.min(Math.max(parseInt(searchParams.get('pageSize') || '20', 10) || 20, 1), 100);
+    const status = searchParams.get('status');
+    const requestedUserId = searchParams.get('userId');
+
+    if (status && !STATUSES.includes(status as QueryHistoryStatus)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INVALID_INPUT', message: `Status must be one of: ${STATUSES.join(', ')}` },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (requestedUserId && requestedUserId !== context.userId && !hasPermission(context, 'admin:queries')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'You can only view your own query history' } },
+        { status: 403 }
+      );
+    }
+
+    const { items, total } = await searchQueryHistory({
+      userId: requestedUserId || context.userId,
+      dataSourceId: searchParams.get('dataSourceId') || undefined,
+      status: (status as QueryHistoryStatus) || undefined,
+      search: searchParams.get('search')?.trim() || undefined,
+      startDate: parseDate(searchParams.get('from')),
+      endDate: parseDate(searchParams.get('to')),
+      page,
+      pageSize,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        items,
+        meta: { total, page, pageSize, totalPages: Math.ceil(total / pageSize) },
+      },
+    });
+  } catch (error) {
+    console.error('Error searching query history:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to fetch query history' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { getDb } from '@/lib/db/config';
+import { requestSchemaRefresh } from '@/lib/sql/schema-cache';
+import type { DataSource } from '@/types/database';
+
+/**
+ * POST /api/sql/schema/[dataSourceId]/refresh
+ * Queues a `schema:refresh` job that lists the catalog again and
+ * re-introspects every table already loaded in the schema cache
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ dataSourceId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { dataSourceId } = await params;
+
+    const db = getDb();
+    const dataSource = await db<DataSource>('data_sources')
+      .where('id', dataSourceId)
+      .where('is_active', true)
+      .first();
+
+    if (!dataSource) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Data source not found or not active' } },
+        { status: 404 }
+      );
+    }
+
+    const result = await requestSchemaRefresh(dataSource, { force: true, userId: session.user.id });
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error requesting schema refresh:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to request a schema refresh' } },
+      { status: 500 }
+    );
+  }
+}
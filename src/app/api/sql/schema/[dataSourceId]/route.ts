@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth/config';
 import { getDb } from '@/lib/db/config';
-import { getConnection } from '@/lib/db/connection-manager';
-import { introspectSchema } from '@/lib/sql/schema-introspection';
+import { getSchemaListing } from '@/lib/sql/schema-cache';
 import type { DataSource } from '@/types/database';
 
+/**
+ * GET /api/sql/schema/[dataSourceId]
+ * Tables and views of a data source from the persisted schema cache, with the
+ * cache's fingerprint and refresh status. Large schemas are listed without
+ * columns, which are loaded per table from ./table. `refresh=true` refreshes
+ * the cache before responding.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ dataSourceId: string }> }
@@ -34,22 +40,21 @@ export async function GET(
       );
     }
 
-    // Get connection and introspect schema
-    const connection = await getConnection(dataSource);
-    const { schema, logs } = await introspectSchema(connection, dataSource.client_type);
+    const refresh = request.nextUrl.searchParams.get('refresh') === 'true';
+    const listing = await getSchemaListing(dataSource, { refresh });
 
     // Check if schema is empty and provide helpful message
-    if (schema.tables.length === 0 && schema.views.length === 0) {
+    if (listing.tables.length === 0 && listing.views.length === 0) {
       return NextResponse.json({
         success: true,
-        data: { ...schema, logs },
+        data: listing,
         warning: 'No tables or views found in this database. The database may be empty or you may not have permission to access the tables.',
       });
     }
 
     return NextResponse.json({
       success: true,
-      data: { ...schema, logs },
+      data: listing,
     });
   } catch (error) {
     console.error('Schema introspection error:', error);
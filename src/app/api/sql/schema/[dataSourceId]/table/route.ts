@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { getDb } from '@/lib/db/config';
+import { getSchemaObject } from '@/lib/sql/schema-cache';
+import type { DataSource } from '@/types/database';
+
+/**
+ * GET /api/sql/schema/[dataSourceId]/table?name=orders&schema=public
+ * One table or view with its columns, keys and indexes, introspected on
+ * first request and then kept in the schema cache
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ dataSourceId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { dataSourceId } = await params;
+    const name = request.nextUrl.searchParams.get('name');
+    const schema = request.nextUrl.searchParams.get('schema') || undefined;
+    if (!name) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'Table name is required' } },
+        { status: 400 }
+      );
+    }
+
+    const db = getDb();
+    const dataSource = await db<DataSource>('data_sources')
+      .where('id', dataSourceId)
+      .where('is_active', true)
+      .first();
+
+    if (!dataSource) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Data source not found or not active' } },
+        { status: 404 }
+      );
+    }
+
+    const object = await getSchemaObject(dataSource, { name, schema });
+    if (!object) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: `Table ${name} not found in the schema cache` } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: object });
+  } catch (error) {
+    console.error('Table introspection error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTROSPECTION_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
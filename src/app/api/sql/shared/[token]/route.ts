@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { getSharedEditorTab } from '@/lib/sql/editor-tabs';
+
+/**
+ * GET /api/sql/shared/[token]
+ * Read-only view of a shared SQL editor tab, for any signed-in user
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { token } = await params;
+    const tab = await getSharedEditorTab(token);
+    if (!tab) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'This link is invalid or no longer shared' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: tab });
+  } catch (error) {
+    console.error('Error fetching shared editor tab:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to fetch shared tab' } },
+      { status: 500 }
+    );
+  }
+}
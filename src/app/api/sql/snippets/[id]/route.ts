@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityContext } from '@/lib/auth/rbac';
+import { getDb } from '@/lib/db/config';
+import { logAudit } from '@/lib/security/audit';
+import { canManageSnippet, canViewSnippet, isSnippetScope, isValidTrigger, SNIPPET_SCOPES } from '@/lib/sql/snippets';
+import type { DataSource, Role, SQLSnippet } from '@/types/database';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = await getSecurityContext();
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const snippet = await getDb()<SQLSnippet>('sql_snippets').where('id', id).first();
+
+    // Snippets the caller cannot see are reported as missing
+    if (!snippet || !(await canViewSnippet(context, snippet))) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Snippet not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: snippet });
+  } catch (error) {
+    console.error('Error fetching SQL snippet:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to fetch snippet' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/sql/snippets/[id]
+ * Updates a snippet; moving it to another scope or team needs the same
+ * rights as creating it there
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = await getSecurityContext();
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const db = getDb();
+    const existing = await db<SQLSnippet>('sql_snippets').where('id', id).first();
+    if (!existing || !(await canViewSnippet(context, existing))) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Snippet not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (body.name !== undefined && !body.name) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'Name cannot be empty' } },
+        { status: 400 }
+      );
+    }
+    if (body.body !== undefined && !body.body) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'Body cannot be empty' } },
+        { status: 400 }
+      );
+    }
+    if (body.trigger !== undefined && !isValidTrigger(body.trigger)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INVALID_INPUT', message: 'Trigger must be a word of letters, digits and underscores' },
+        },
+        { status: 400 }
+      );
+    }
+    if (body.scope !== undefined && !isSnippetScope(body.scope)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: `Scope must be one of: ${SNIPPET_SCOPES.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+
+    const scope = body.scope ?? existing.scope;
+    const roleId = scope === 'team' ? body.roleId ?? existing.role_id : undefined;
+    const dataSourceId = body.dataSourceId !== undefined ? body.dataSourceId || null : existing.data_source_id ?? null;
+
+    if (scope === 'team' && !roleId) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'Team snippets require a roleId' } },
+        { status: 400 }
+      );
+    }
+    if (roleId && roleId !== existing.role_id && !(await db<Role>('roles').where('id', roleId).first())) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Role not found' } },
+        { status: 404 }
+      );
+    }
+    if (
+      dataSourceId &&
+      dataSourceId !== existing.data_source_id &&
+      !(await db<DataSource>('data_sources').where('id', dataSourceId).first())
+    ) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Data source not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Rights are needed both where the snippet is and where it goes
+    const allowed =
+      (await canManageSnippet(context, { scope: existing.scope, roleId: existing.role_id, createdBy: existing.created_by })) &&
+      (await canManageSnippet(context, { scope, roleId, createdBy: existing.created_by }));
+    if (!allowed) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'You cannot change this snippet' } },
+        { status: 403 }
+      );
+    }
+
+    await db('sql_snippets')
+      .where('id', id)
+      .update({
+        name: body.name ?? existing.name,
+        trigger: body.trigger ?? existing.trigger,
+        description: body.description !== undefined ? body.description || null : existing.description ?? null,
+        body: body.body ?? existing.body,
+        scope,
+        role_id: roleId ?? null,
+        data_source_id: dataSourceId,
+        updated_at: new Date().toISOString(),
+      });
+
+    await logAudit({
+      userId: context.userId,
+      action: 'update',
+      resourceType: 'sql_snippet',
+      resourceId: id,
+      details: { fields: Object.keys(body) },
+    });
+
+    const snippet = await db<SQLSnippet>('sql_snippets').where('id', id).first();
+
+    return NextResponse.json({ success: true, data: snippet });
+  } catch (error) {
+    console.error('Error updating SQL snippet:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to update snippet' } },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const context = await getSecurityContext();
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const db = getDb();
+    const existing = await db<SQLSnippet>('sql_snippets').where('id', id).first();
+    if (!existing || !(await canViewSnippet(context, existing))) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Snippet not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canManageSnippet(context, { scope: existing.scope, roleId: existing.role_id, createdBy: existing.created_by }))) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'You cannot delete this snippet' } },
+        { status: 403 }
+      );
+    }
+
+    await db('sql_snippets').where('id', id).delete();
+
+    await logAudit({
+      userId: context.userId,
+      action: 'delete',
+      resourceType: 'sql_snippet',
+      resourceId: id,
+      details: { name: existing.name },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting SQL snippet:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to delete snippet' } },
+      { status: 500 }
+    );
+  }
+}
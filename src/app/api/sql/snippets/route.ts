@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityContext } from '@/lib/auth/rbac';
+import { getDb } from '@/lib/db/config';
+import { logAudit } from '@/lib/security/audit';
+import { canManageSnippet, isSnippetScope, isValidTrigger, listSnippets, SNIPPET_SCOPES } from '@/lib/sql/snippets';
+import { v4 as uuidv4 } from 'uuid';
+import type { DataSource, Role, SQLSnippet } from '@/types/database';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/sql/snippets
+ * Snippets visible to the caller; `dataSourceId` limits them to those usable
+ * with the data source and `search` matches names and triggers
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getSecurityContext();
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const snippets = await listSnippets(context, {
+      dataSourceId: searchParams.get('dataSourceId') || undefined,
+      search: searchParams.get('search')?.trim() || undefined,
+    });
+
+    return NextResponse.json({ success: true, data: snippets });
+  } catch (error) {
+    console.error('Error fetching SQL snippets:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to fetch snippets' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/sql/snippets
+ * Creates a snippet. Team snippets need a `roleId` the caller belongs to;
+ * global snippets need `admin:sql_snippets`
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getSecurityContext();
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, trigger, description, scope = 'personal', roleId, dataSourceId } = body;
+
+    if (!name || !body.body) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'Name and body are required' } },
+        { status: 400 }
+      );
+    }
+    if (!isValidTrigger(trigger)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INVALID_INPUT', message: 'Trigger must be a word of letters, digits and underscores' },
+        },
+        { status: 400 }
+      );
+    }
+    if (!isSnippetScope(scope)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: `Scope must be one of: ${SNIPPET_SCOPES.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+    if (scope === 'team' && !roleId) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: 'Team snippets require a roleId' } },
+        { status: 400 }
+      );
+    }
+
+    const db = getDb();
+    if (scope === 'team' && !(await db<Role>('roles').where('id', roleId).first())) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Role not found' } },
+        { status: 404 }
+      );
+    }
+    if (dataSourceId && !(await db<DataSource>('data_sources').where('id', dataSourceId).first())) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Data source not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canManageSnippet(context, { scope, roleId }))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: scope === 'global' ? 'Admin access required' : 'You can only share snippets with your own roles',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const id = uuidv4();
+    await db<SQLSnippet>('sql_snippets').insert({
+      id,
+      name,
+      trigger,
+      description: description || undefined,
+      body: body.body,
+      scope,
+      role_id: scope === 'team' ? roleId : undefined,
+      data_source_id: dataSourceId || undefined,
+      created_by: context.userId,
+    });
+
+    await logAudit({
+      userId: context.userId,
+      action: 'create',
+      resourceType: 'sql_snippet',
+      resourceId: id,
+      details: { name, trigger, scope },
+    });
+
+    const snippet = await db<SQLSnippet>('sql_snippets').where('id', id).first();
+
+    return NextResponse.json({ success: true, data: snippet });
+  } catch (error) {
+    console.error('Error creating SQL snippet:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to create snippet' } },
+      { status: 500 }
+    );
+  }
+}
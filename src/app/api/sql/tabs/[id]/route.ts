@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import {
+  deleteEditorTab,
+  EditorTabValidationError,
+  getEditorTab,
+  updateEditorTab,
+} from '@/lib/sql/editor-tabs';
+
+/**
+ * PUT /api/sql/tabs/[id]
+ * Autosaves a tab: any of `name`, `sqlContent`, `dataSourceId`,
+ * `savedQueryId`, `cursor`, `lastResult` and `isActive`
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const tab = await getEditorTab(session.user.id, id);
+    if (!tab) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Tab not found' } },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const updated = await updateEditorTab(tab, {
+      name: body.name,
+      sqlContent: body.sqlContent,
+      dataSourceId: body.dataSourceId,
+      savedQueryId: body.savedQueryId,
+      cursor: body.cursor,
+      lastResult: body.lastResult,
+      isActive: body.isActive,
+    });
+
+    return NextResponse.json({ success: true, data: updated });
+  } catch (error) {
+    if (error instanceof EditorTabValidationError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: error.message } },
+        { status: 400 }
+      );
+    }
+    console.error('Error updating editor tab:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to update editor tab' } },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const tab = await getEditorTab(session.user.id, id);
+    if (!tab) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Tab not found' } },
+        { status: 404 }
+      );
+    }
+
+    await deleteEditorTab(tab);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting editor tab:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to delete editor tab' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { logAudit } from '@/lib/security/audit';
+import { getEditorTab, shareEditorTab, unshareEditorTab } from '@/lib/sql/editor-tabs';
+
+/**
+ * POST /api/sql/tabs/[id]/share
+ * Shares a tab read-only; the response carries its `share_token`
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const tab = await getEditorTab(session.user.id, id);
+    if (!tab) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Tab not found' } },
+        { status: 404 }
+      );
+    }
+
+    const shared = await shareEditorTab(tab);
+
+    if (!tab.share_token) {
+      await logAudit({
+        userId: session.user.id,
+        action: 'share',
+        resourceType: 'sql_editor_tab',
+        resourceId: id,
+        details: { name: tab.name },
+      });
+    }
+
+    return NextResponse.json({ success: true, data: shared });
+  } catch (error) {
+    console.error('Error sharing editor tab:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to share editor tab' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/sql/tabs/[id]/share
+ * Revokes the tab's share link
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const tab = await getEditorTab(session.user.id, id);
+    if (!tab) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Tab not found' } },
+        { status: 404 }
+      );
+    }
+
+    const updated = await unshareEditorTab(tab);
+
+    if (tab.share_token) {
+      await logAudit({
+        userId: session.user.id,
+        action: 'unshare',
+        resourceType: 'sql_editor_tab',
+        resourceId: id,
+      });
+    }
+
+    return NextResponse.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Error revoking editor tab share:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to revoke share link' } },
+      { status: 500 }
+    );
+  }
+}
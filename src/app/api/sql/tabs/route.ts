@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { createEditorTab, EditorTabValidationError, listEditorTabs } from '@/lib/sql/editor-tabs';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/sql/tabs
+ * The caller's SQL editor tabs in order
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: await listEditorTabs(session.user.id) });
+  } catch (error) {
+    console.error('Error fetching editor tabs:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to fetch editor tabs' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/sql/tabs
+ * Opens a new tab after the others and makes it active
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHORIZED', message: 'Not authenticated' } },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const tab = await createEditorTab(session.user.id, {
+      name: body.name,
+      sqlContent: body.sqlContent,
+      dataSourceId: body.dataSourceId,
+      savedQueryId: body.savedQueryId,
+    });
+
+    return NextResponse.json({ success: true, data: tab });
+  } catch (error) {
+    if (error instanceof EditorTabValidationError) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_INPUT', message: error.message } },
+        { status: 400 }
+      );
+    }
+    console.error('Error creating editor tab:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'SERVER_ERROR', message: 'Failed to create editor tab' } },
+      { status: 500 }
+    );
+  }
+}
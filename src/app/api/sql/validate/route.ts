@@ -2,7 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth/config';
 import { validateSQL } from '@/lib/sql/validator';
 import { getDb } from '@/lib/db/config';
+import { getConnection } from '@/lib/db/connection-manager';
+import { bindParameters, parseParametersSchema, resolveParameters } from '@/lib/sql/parameters';
+import { classifyQuery } from '@/lib/sql/read-only';
+import { explainQuery, isExplainSupported, summarizePlan } from '@/lib/sql/explain';
+import { getLintSettings } from '@/lib/sql/lint';
+import { getSchemaInfo } from '@/lib/sql/schema-cache';
+import { getFormatterPreferences } from '@/lib/sql/formatter-preferences';
+import type { SchemaInfo } from '@/types/api';
 import type { DataSource } from '@/types/database';
+import type { SQLValidationResponse } from '@/types/api';
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,7 +24,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { sql, dataSourceId } = body;
+    const { sql, dataSourceId, explain = false, parameters, parametersSchema } = body;
 
     if (!sql) {
       return NextResponse.json(
@@ -26,9 +35,10 @@ export async function POST(request: NextRequest) {
 
     // Get dialect from data source if provided
     let dialect = 'pg';
+    let dataSource: DataSource | undefined;
     if (dataSourceId) {
       const db = getDb();
-      const dataSource = await db<DataSource>('data_sources')
+      dataSource = await db<DataSource>('data_sources')
         .where('id', dataSourceId)
         .first();
       if (dataSource) {
@@ -36,7 +46,51 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const validationResult = validateSQL(sql, dialect);
+    // Lint severities configured for the data source and the user's roles
+    const lintSettings = await getLintSettings({ dataSourceId: dataSource?.id, roles: session.user.roles });
+
+    // Names are checked against the cached schema; validation goes on without it
+    let schema: SchemaInfo | null = null;
+    if (dataSource?.is_active) {
+      try {
+        schema = (await getSchemaInfo(dataSource)).schema;
+      } catch (error) {
+        console.error('Schema unavailable for semantic validation:', error);
+      }
+    }
+
+    const formatter = await getFormatterPreferences(session.user.id);
+
+    const validationResult: SQLValidationResponse = validateSQL(sql, dialect, { lintSettings, schema, formatter });
+
+    // Explain mode asks the database for its plan to estimate the query's cost.
+    // A failed EXPLAIN is reported as a warning rather than failing validation.
+    // Queries blocked by lint rules are not sent to the database.
+    if (
+      explain &&
+      validationResult.isValid &&
+      !validationResult.warnings.some((warning) => warning.severity === 'error') &&
+      dataSource?.is_active &&
+      isExplainSupported(dataSource.client_type) &&
+      classifyQuery(sql, dataSource.client_type).readOnly
+    ) {
+      try {
+        const resolved = resolveParameters(sql, parseParametersSchema(parametersSchema), parameters);
+        if (resolved.errors.length > 0) {
+          throw new Error(resolved.errors.map((e) => e.message).join('; '));
+        }
+        const bound = bindParameters(sql, resolved.values);
+        const connection = await getConnection(dataSource);
+        const plan = await explainQuery(connection, dataSource.client_type, bound.sql, bound.bindings);
+        validationResult.plan = plan;
+        validationResult.estimatedCost = summarizePlan(plan);
+      } catch (error) {
+        validationResult.warnings.push({
+          message: `Cost estimate unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          type: 'performance',
+        });
+      }
+    }
 
     return NextResponse.json({
       success: true,
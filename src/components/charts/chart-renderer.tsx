@@ -21,16 +21,32 @@ import {
   ResponsiveContainer,
   Cell,
 } from 'recharts';
-import type { ChartType, ChartConfig, DataMapping } from '@/types/database';
+import { formatValue, formatterForCategory } from '@/lib/utils';
+import type { ChartType, ChartConfig, DataMapping, FieldMapping, FormatterDefinition } from '@/types/database';
+import type { ColumnInfo } from '@/types/api';
 
 interface ChartRendererProps {
   data: Record<string, unknown>[];
   chartType: ChartType;
   chartConfig: ChartConfig;
   dataMapping: DataMapping;
+  // Result columns; axes of fields without a formatter are formatted by type
+  columns?: ColumnInfo[];
   height?: number;
 }
 
+function axisFormatter(
+  field: FieldMapping | undefined,
+  columns: ColumnInfo[] | undefined
+): ((value: unknown) => string) | undefined {
+  if (!field) return undefined;
+  const formatter: FormatterDefinition = field.formatter ?? {
+    type: formatterForCategory(columns?.find((c) => c.name === field.field)?.category),
+  };
+  if (formatter.type === 'text') return undefined;
+  return (value: unknown) => formatValue(value, formatter);
+}
+
 const DEFAULT_COLORS = [
   'hsl(var(--chart-1))',
   'hsl(var(--chart-2))',
@@ -44,6 +60,7 @@ export function ChartRenderer({
   chartType,
   chartConfig,
   dataMapping,
+  columns,
   height = 400,
 }: ChartRendererProps) {
   const colors = chartConfig.colors || DEFAULT_COLORS;
@@ -56,15 +73,17 @@ export function ChartRenderer({
           ? { value: chartConfig.xAxis.label, position: 'bottom' }
           : undefined,
         hide: chartConfig.xAxis?.hide,
+        tickFormatter: axisFormatter(dataMapping.xAxis, columns),
       },
       yAxis: {
         label: chartConfig.yAxis?.label
           ? { value: chartConfig.yAxis.label, angle: -90, position: 'insideLeft' }
           : undefined,
         hide: chartConfig.yAxis?.hide,
+        tickFormatter: axisFormatter(dataMapping.yAxis?.[0], columns),
       },
     }),
-    [dataMapping, chartConfig]
+    [dataMapping, chartConfig, columns]
   );
 
   const renderChart = () => {
@@ -0,0 +1,422 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { FileSpreadsheet, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { DataSource } from '@/types/database';
+import type {
+  FileImportColumn,
+  FileImportColumnType,
+  FileImportMode,
+  FileImportOptions,
+  FileImportPreview,
+  FileImportResult,
+  SchemaInfo,
+} from '@/types/api';
+
+// Kept in step with the formats the upload route imports
+const ACCEPTED_FILES = '.csv,.tsv,.txt,.xlsx,.json,.ndjson,.jsonl,.parquet';
+
+const COLUMN_TYPES: { value: FileImportColumnType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'integer', label: 'Integer' },
+  { value: 'real', label: 'Decimal' },
+  { value: 'boolean', label: 'Boolean' },
+  { value: 'date', label: 'Date' },
+  { value: 'datetime', label: 'Date & time' },
+];
+
+const EXISTING_TABLE_MODES: { value: FileImportMode; label: string }[] = [
+  { value: 'append', label: 'Append rows' },
+  { value: 'replace', label: 'Replace table' },
+];
+
+const NEW_SOURCE = 'new';
+
+interface ImportFileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // SQLite data sources; only those created by an import accept more tables
+  dataSources: DataSource[];
+  onImported: (result: FileImportResult) => void;
+}
+
+function formatSample(value: unknown): string {
+  if (typeof value === 'string') return value.length > 24 ? `${value.slice(0, 24)}…` : value;
+  return String(value);
+}
+
+export function ImportFileDialog({
+  open,
+  onOpenChange,
+  dataSources,
+  onImported,
+}: ImportFileDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<FileImportPreview | null>(null);
+  const [columns, setColumns] = useState<FileImportColumn[]>([]);
+  const [tableName, setTableName] = useState('');
+  const [targetId, setTargetId] = useState(NEW_SOURCE);
+  const [dataSourceName, setDataSourceName] = useState('');
+  // What to do when the table already exists
+  const [existingMode, setExistingMode] = useState<Exclude<FileImportMode, 'create'>>('append');
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  // Tables already in the target, so the mode can follow the table name
+  const { data: existingTables = [] } = useQuery<string[]>({
+    queryKey: ['import-tables', targetId],
+    queryFn: async () => {
+      const res = await fetch(`/api/sql/schema/${targetId}`);
+      const data = await res.json();
+      if (!data.success) return [];
+      return ((data.data as SchemaInfo).tables || []).map((table) => table.name);
+    },
+    enabled: targetId !== NEW_SOURCE,
+  });
+  const tableExists = targetId !== NEW_SOURCE && existingTables.includes(tableName);
+
+  const loadPreview = async (selected: File, sheet?: string) => {
+    setLoadingPreview(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', selected);
+      formData.append('action', 'preview');
+      if (sheet) formData.append('sheet', sheet);
+
+      const res = await fetch('/api/data-sources/upload', { method: 'POST', body: formData });
+      const data = await res.json();
+      if (!data.success) {
+        toast.error(data.error?.message || 'Failed to read file');
+        return;
+      }
+
+      const result: FileImportPreview = data.data;
+      setFile(selected);
+      setPreview(result);
+      setColumns(result.columns.map(({ samples: _samples, ...column }) => column));
+      setTableName(result.tableName);
+      if (!dataSourceName) {
+        setDataSourceName(selected.name.replace(/\.[^.]+$/, ''));
+      }
+    } catch (error) {
+      console.error('Preview error:', error);
+      toast.error('Failed to read file');
+    } finally {
+      setLoadingPreview(false);
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (selected) {
+      loadPreview(selected);
+    }
+    e.target.value = '';
+  };
+
+  const updateColumn = (source: string, changes: Partial<FileImportColumn>) => {
+    setColumns((prev) => prev.map((column) => (column.source === source ? { ...column, ...changes } : column)));
+  };
+
+  const handleImport = async () => {
+    if (!file || !preview) return;
+    setImporting(true);
+    try {
+      const options: FileImportOptions = {
+        sheet: preview.sheet,
+        tableName,
+        columns,
+        mode: tableExists ? existingMode : 'create',
+        ...(targetId === NEW_SOURCE ? { dataSourceName } : { dataSourceId: targetId }),
+      };
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('action', 'import');
+      if (preview.sheet) formData.append('sheet', preview.sheet);
+      formData.append('options', JSON.stringify(options));
+
+      const res = await fetch('/api/data-sources/upload', { method: 'POST', body: formData });
+      const data = await res.json();
+      if (!data.success) {
+        toast.error(data.error?.message || 'Failed to import file');
+        return;
+      }
+
+      const result: FileImportResult = data.data;
+      toast.success(`Imported ${result.rowCount} rows into ${result.tableName}`);
+      if (result.warnings.length > 0) {
+        toast.warning(`${result.warnings.length} values could not be converted and were left empty`, {
+          description: result.warnings.slice(0, 3).join('\n'),
+        });
+      }
+      onImported(result);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Import error:', error);
+      toast.error('Failed to import file');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const includedCount = columns.filter((column) => column.include).length;
+  const canImport =
+    !!preview &&
+    !!tableName.trim() &&
+    includedCount > 0 &&
+    (targetId !== NEW_SOURCE || !!dataSourceName.trim()) &&
+    !importing;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import File</DialogTitle>
+          <DialogDescription>
+            Load a CSV, Excel, JSON, NDJSON or Parquet file into a table that can be queried like any data source.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div
+            className="flex items-center justify-between gap-4 rounded-lg border-2 border-dashed p-4 cursor-pointer hover:border-primary"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <div className="flex items-center gap-3">
+              {loadingPreview ? (
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              ) : (
+                <FileSpreadsheet className="h-6 w-6 text-muted-foreground" />
+              )}
+              <div>
+                <p className="text-sm font-medium">{file ? file.name : 'Choose a file'}</p>
+                <p className="text-xs text-muted-foreground">
+                  {preview
+                    ? `${preview.rowCount.toLocaleString()} rows, ${preview.columns.length} columns (${preview.format})`
+                    : 'CSV, TSV, XLSX, JSON, NDJSON or Parquet'}
+                </p>
+              </div>
+            </div>
+            <Button type="button" variant="outline" size="sm" disabled={loadingPreview}>
+              {file ? 'Change' : 'Browse'}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILES}
+              className="hidden"
+              onChange={handleFileSelect}
+            />
+          </div>
+
+          {preview && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                {preview.sheets && preview.sheets.length > 1 && (
+                  <div className="space-y-2">
+                    <Label>Worksheet</Label>
+                    <Select
+                      value={preview.sheet}
+                      onValueChange={(sheet) => file && loadPreview(file, sheet)}
+                      disabled={loadingPreview}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {preview.sheets.map((sheet) => (
+                          <SelectItem key={sheet} value={sheet}>
+                            {sheet}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label>Data Source</Label>
+                  <Select value={targetId} onValueChange={setTargetId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NEW_SOURCE}>New data source</SelectItem>
+                      {dataSources.map((ds) => (
+                        <SelectItem key={ds.id} value={ds.id}>
+                          {ds.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {targetId === NEW_SOURCE && (
+                  <div className="space-y-2">
+                    <Label htmlFor="import-ds-name">Data Source Name</Label>
+                    <Input
+                      id="import-ds-name"
+                      value={dataSourceName}
+                      onChange={(e) => setDataSourceName(e.target.value)}
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="import-table-name">Table Name</Label>
+                  <Input
+                    id="import-table-name"
+                    value={tableName}
+                    onChange={(e) => setTableName(e.target.value)}
+                    list="import-existing-tables"
+                    className="font-mono"
+                  />
+                  <datalist id="import-existing-tables">
+                    {existingTables.map((name) => (
+                      <option key={name} value={name} />
+                    ))}
+                  </datalist>
+                </div>
+                {tableExists && (
+                  <div className="space-y-2">
+                    <Label>Existing Table</Label>
+                    <Select
+                      value={existingMode}
+                      onValueChange={(value) => setExistingMode(value as Exclude<FileImportMode, 'create'>)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EXISTING_TABLE_MODES.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Columns</Label>
+                  <span className="text-xs text-muted-foreground">
+                    {includedCount} of {columns.length} included
+                  </span>
+                </div>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[60px]">Import</TableHead>
+                        <TableHead>File Column</TableHead>
+                        <TableHead>Column Name</TableHead>
+                        <TableHead className="w-[150px]">Type</TableHead>
+                        <TableHead>Sample Values</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {columns.map((column) => {
+                        const samples = preview.columns.find((c) => c.source === column.source)?.samples ?? [];
+                        return (
+                          <TableRow key={column.source} className={column.include ? undefined : 'opacity-50'}>
+                            <TableCell>
+                              <Switch
+                                checked={column.include}
+                                onCheckedChange={(include) => updateColumn(column.source, { include })}
+                              />
+                            </TableCell>
+                            <TableCell className="text-sm">{column.source}</TableCell>
+                            <TableCell>
+                              <Input
+                                value={column.name}
+                                onChange={(e) => updateColumn(column.source, { name: e.target.value })}
+                                disabled={!column.include}
+                                className="h-8 font-mono"
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Select
+                                value={column.type}
+                                onValueChange={(type) => updateColumn(column.source, { type: type as FileImportColumnType })}
+                                disabled={!column.include}
+                              >
+                                <SelectTrigger className="h-8">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {COLUMN_TYPES.map((type) => (
+                                    <SelectItem key={type.value} value={type.value}>
+                                      {type.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex flex-wrap gap-1">
+                                {samples.length === 0 ? (
+                                  <span className="text-xs text-muted-foreground">empty</span>
+                                ) : (
+                                  samples.slice(0, 3).map((sample, i) => (
+                                    <Badge key={i} variant="secondary" className="font-mono text-xs font-normal">
+                                      {formatSample(sample)}
+                                    </Badge>
+                                  ))
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport}>
+            {importing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {tableExists && existingMode === 'replace' ? 'Replace Table' : tableExists ? 'Append Rows' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import Link from 'next/link';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDateTime } from '@/lib/utils';
+import type { DataSource } from '@/types/database';
+import type { SchemaColumnChange, SchemaDriftReport, SchemaObjectChange } from '@/types/api';
+
+interface SchemaDriftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  dataSource: DataSource;
+  onAcknowledged: () => void;
+}
+
+const CHANGE_BADGES: Record<SchemaObjectChange['change'], { label: string; variant: 'success' | 'destructive' | 'warning' }> = {
+  added: { label: 'Added', variant: 'success' },
+  removed: { label: 'Removed', variant: 'destructive' },
+  changed: { label: 'Changed', variant: 'warning' },
+};
+
+function describeColumn(column: SchemaColumnChange): string {
+  switch (column.change) {
+    case 'added':
+      return `+ ${column.name} (${column.type})`;
+    case 'removed':
+      return `- ${column.name} (${column.type})`;
+    case 'type_changed':
+      return `${column.name}: ${column.previousType} → ${column.type}`;
+  }
+}
+
+export function SchemaDriftDialog({ open, onOpenChange, dataSource, onAcknowledged }: SchemaDriftDialogProps) {
+  const { data: drift, isLoading, error } = useQuery<SchemaDriftReport>({
+    queryKey: ['schema-drift', dataSource.id],
+    queryFn: async () => {
+      const res = await fetch(`/api/data-sources/${dataSource.id}/schema-drift`);
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to load schema changes');
+      }
+      return data.data;
+    },
+    enabled: open,
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/data-sources/${dataSource.id}/schema-drift/acknowledge`, { method: 'POST' });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      if (data.success) {
+        toast.success('Schema changes acknowledged');
+        onAcknowledged();
+        onOpenChange(false);
+      } else {
+        toast.error(data.error?.message || 'Failed to acknowledge schema changes');
+      }
+    },
+    onError: () => {
+      toast.error('Failed to acknowledge schema changes');
+    },
+  });
+
+  const impact = drift?.impact;
+  const hasImpact = !!impact && impact.queries.length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Schema Changes: {dataSource.name}</DialogTitle>
+          <DialogDescription>
+            {drift?.detectedAt
+              ? `Tables and columns changed since ${formatDateTime(drift.detectedAt)}. Renamed objects show up as removed and added.`
+              : 'Tables and columns changed since the schema was last acknowledged.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading schema changes...
+          </div>
+        ) : error ? (
+          <div className="py-4 text-sm text-red-600">
+            {error instanceof Error ? error.message : 'Failed to load schema changes'}
+          </div>
+        ) : !drift || drift.changes.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">
+            No schema changes since the last acknowledgement.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {hasImpact ? (
+              <div className="p-4 rounded-md bg-yellow-50 dark:bg-yellow-900/10 border border-yellow-200 dark:border-yellow-900/30">
+                <div className="flex items-start gap-2">
+                  <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5 flex-shrink-0" />
+                  <div className="text-sm text-yellow-800 dark:text-yellow-400 space-y-2">
+                    <h4 className="font-semibold">These items use removed tables or columns</h4>
+                    <ul className="list-disc list-inside space-y-1">
+                      {impact.queries.map((query) => (
+                        <li key={query.id}>
+                          Saved query{' '}
+                          <Link href={`/sql-editor?queryId=${query.id}`} className="underline">
+                            {query.name}
+                          </Link>
+                          <span className="text-yellow-700 dark:text-yellow-500"> ({query.references.join(', ')})</span>
+                        </li>
+                      ))}
+                      {impact.reports.map((report) => (
+                        <li key={report.id}>
+                          Report{' '}
+                          <Link href={`/reports/viewer/${report.id}`} className="underline">
+                            {report.name}
+                          </Link>
+                        </li>
+                      ))}
+                      {impact.charts.map((chart) => (
+                        <li key={chart.id}>
+                          Chart{' '}
+                          <Link href={`/charts/viewer/${chart.id}`} className="underline">
+                            {chart.name}
+                          </Link>
+                        </li>
+                      ))}
+                      {impact.dashboards.map((dashboard) => (
+                        <li key={dashboard.id}>
+                          Dashboard{' '}
+                          <Link href={`/dashboards/viewer/${dashboard.id}`} className="underline">
+                            {dashboard.name}
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No saved queries use the removed tables or columns.
+              </p>
+            )}
+
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Object</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>Columns</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {drift.changes.map((change) => (
+                    <TableRow key={`${change.schema ?? ''}.${change.name}`}>
+                      <TableCell className="font-mono text-xs">
+                        {change.schema ? `${change.schema}.${change.name}` : change.name}
+                        {change.kind === 'view' && <span className="ml-1 text-muted-foreground">(view)</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={CHANGE_BADGES[change.change].variant}>{CHANGE_BADGES[change.change].label}</Badge>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {change.columns.length > 0
+                          ? change.columns.map((column) => <div key={column.name}>{describeColumn(column)}</div>)
+                          : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button
+            onClick={() => acknowledgeMutation.mutate()}
+            disabled={!drift || drift.changes.length === 0 || acknowledgeMutation.isPending}
+            title="Accept the current schema as the new baseline"
+          >
+            {acknowledgeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Acknowledge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -26,6 +26,7 @@ import {
   Shield,
   Terminal,
   Layers,
+  Activity,
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -46,6 +47,7 @@ const mainNavItems = [
 const adminNavItems = [
   { href: '/data-sources', label: 'Data Sources', icon: Database },
   { href: '/bull-board', label: 'Queue Management', icon: Layers },
+  { href: '/admin/running-queries', label: 'Running Queries', icon: Activity },
   { href: '/admin/users', label: 'Users', icon: Users },
   { href: '/admin/roles', label: 'Roles', icon: Shield },
   { href: '/settings', label: 'Settings', icon: Settings },
@@ -0,0 +1,221 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronDown, ChevronRight, FileCode, Folder, Search } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { QueryFolder, SavedQueryWithTags } from '@/types/database';
+
+// Enough to show a large library at once; narrower searches return fewer
+const PAGE_SIZE = 500;
+
+interface SavedQueryPickerProps {
+  value: string;
+  onChange: (queryId: string) => void;
+  className?: string;
+}
+
+interface FolderNode {
+  folder: QueryFolder;
+  children: FolderNode[];
+  queries: SavedQueryWithTags[];
+  // Queries in this folder and its subfolders
+  count: number;
+}
+
+/**
+ * Folder tree with the matching queries; folders without any are left out
+ */
+function buildTree(folders: QueryFolder[], queries: SavedQueryWithTags[]) {
+  const build = (parentId: string | null): FolderNode[] =>
+    folders
+      .filter((folder) => (folder.parent_id ?? null) === parentId)
+      .map((folder) => {
+        const children = build(folder.id);
+        const own = queries.filter((query) => query.folder_id === folder.id);
+        return {
+          folder,
+          children,
+          queries: own,
+          count: own.length + children.reduce((sum, child) => sum + child.count, 0),
+        };
+      })
+      .filter((node) => node.count > 0);
+
+  const folderIds = new Set(folders.map((folder) => folder.id));
+  return {
+    folders: build(null),
+    // Queries of a folder deleted meanwhile are shown at the top level
+    queries: queries.filter((query) => !query.folder_id || !folderIds.has(query.folder_id)),
+  };
+}
+
+export function SavedQueryPicker({ value, onChange, className }: SavedQueryPickerProps) {
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [tag, setTag] = useState('all');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const { data: folders = [] } = useQuery<QueryFolder[]>({
+    queryKey: ['query-folders'],
+    queryFn: async () => {
+      const res = await fetch('/api/queries/folders');
+      const json = await res.json();
+      return json.data || [];
+    },
+  });
+
+  const { data: tags = [] } = useQuery<{ tag: string; count: number }[]>({
+    queryKey: ['query-tags'],
+    queryFn: async () => {
+      const res = await fetch('/api/queries/tags');
+      const json = await res.json();
+      return json.data || [];
+    },
+  });
+
+  const { data: queries = [], isLoading } = useQuery<SavedQueryWithTags[]>({
+    queryKey: ['queries', 'search', search, tag],
+    queryFn: async () => {
+      const params = new URLSearchParams({ pageSize: String(PAGE_SIZE) });
+      if (search) params.set('q', search);
+      if (tag !== 'all') params.set('tag', tag);
+      const res = await fetch(`/api/queries/search?${params}`);
+      const json = await res.json();
+      return json.data?.items || [];
+    },
+  });
+
+  // The selection may be filtered out of the results
+  const { data: selected } = useQuery<SavedQueryWithTags | null>({
+    queryKey: ['queries', value],
+    queryFn: async () => {
+      const res = await fetch(`/api/queries/${value}`);
+      const json = await res.json();
+      return json.data ?? null;
+    },
+    enabled: !!value,
+  });
+
+  const tree = useMemo(() => buildTree(folders, queries), [folders, queries]);
+  const filtering = !!search || tag !== 'all';
+
+  const toggle = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const renderQuery = (query: SavedQueryWithTags, depth: number) => (
+    <button
+      key={query.id}
+      type="button"
+      onClick={() => onChange(query.id)}
+      className={cn(
+        'flex w-full items-center gap-2 rounded-sm py-1 pr-2 text-left text-sm hover:bg-accent',
+        query.id === value && 'bg-accent font-medium'
+      )}
+      style={{ paddingLeft: `${depth * 16 + 8}px` }}
+    >
+      <FileCode className="h-4 w-4 shrink-0 text-muted-foreground" />
+      <span className="truncate">{query.name}</span>
+      {query.tags.map((t) => (
+        <Badge key={t} variant="secondary" className="shrink-0 px-1.5 py-0 text-xs">
+          {t}
+        </Badge>
+      ))}
+    </button>
+  );
+
+  const renderFolder = (node: FolderNode, depth: number): React.ReactNode => {
+    // Search results are shown fully expanded
+    const open = filtering || expanded.has(node.folder.id);
+    return (
+      <div key={node.folder.id}>
+        <button
+          type="button"
+          onClick={() => toggle(node.folder.id)}
+          className="flex w-full items-center gap-1 rounded-sm py-1 pr-2 text-left text-sm hover:bg-accent"
+          style={{ paddingLeft: `${depth * 16}px` }}
+        >
+          {open ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+          <Folder className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <span className="truncate">{node.folder.name}</span>
+          <span className="ml-auto text-xs text-muted-foreground">{node.count}</span>
+        </button>
+        {open && (
+          <>
+            {node.children.map((child) => renderFolder(child, depth + 1))}
+            {node.queries.map((query) => renderQuery(query, depth + 1))}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search name, description or SQL..."
+            className="pl-8"
+          />
+        </div>
+        <Select value={tag} onValueChange={setTag}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All tags</SelectItem>
+            {tags.map((t) => (
+              <SelectItem key={t.tag} value={t.tag}>
+                {t.tag} ({t.count})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="max-h-64 overflow-auto rounded-md border p-1">
+        {isLoading ? (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">Loading queries...</p>
+        ) : tree.folders.length === 0 && tree.queries.length === 0 ? (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">
+            {filtering ? 'No matching queries' : 'No saved queries'}
+          </p>
+        ) : (
+          <>
+            {tree.folders.map((node) => renderFolder(node, 0))}
+            {tree.queries.map((query) => renderQuery(query, 0))}
+          </>
+        )}
+      </div>
+      {value && selected && (
+        <p className="text-xs text-muted-foreground">
+          Selected: <span className="font-medium text-foreground">{selected.name}</span>
+        </p>
+      )}
+    </div>
+  );
+}
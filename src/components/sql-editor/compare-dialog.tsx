@@ -0,0 +1,258 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SavedQueryPicker } from '@/components/queries/saved-query-picker';
+import type { SavedQueryWithTags, SQLEditorTab } from '@/types/database';
+import type { ResultCompareSource } from '@/types/api';
+import type { SavedQueryVersionWithAuthor } from '@/lib/sql/query-versions';
+
+// What one side of the comparison runs
+type SourceKind = 'editor' | 'version' | 'tab' | 'saved';
+
+interface SourceChoice {
+  kind: SourceKind;
+  // 'current' or a version number of the open saved query
+  version: string;
+  tabId: string;
+  queryId: string;
+}
+
+interface CompareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  editorSql: string;
+  dataSourceId: string;
+  editorLabel: string;
+  savedQuery: SavedQueryWithTags | null;
+  tabs: SQLEditorTab[];
+  activeTabId?: string;
+  // Columns of the last result, offered as key columns
+  columns: string[];
+  comparing?: boolean;
+  onCompare: (request: {
+    base: ResultCompareSource;
+    target: ResultCompareSource;
+    keyColumns: string[];
+    tolerance: number;
+  }) => void;
+}
+
+const EMPTY_CHOICE: SourceChoice = { kind: 'editor', version: 'current', tabId: '', queryId: '' };
+
+export function CompareDialog({
+  open,
+  onOpenChange,
+  editorSql,
+  dataSourceId,
+  editorLabel,
+  savedQuery,
+  tabs,
+  activeTabId,
+  columns,
+  comparing = false,
+  onCompare,
+}: CompareDialogProps) {
+  const otherTabs = tabs.filter((tab) => tab.id !== activeTabId);
+  // A saved query is compared against its stored version; otherwise the
+  // editor is compared against another tab. Rendered only while open, so
+  // every opening starts from these defaults.
+  const [base, setBase] = useState<SourceChoice>(() =>
+    savedQuery ? { ...EMPTY_CHOICE, kind: 'version' } : EMPTY_CHOICE
+  );
+  const [target, setTarget] = useState<SourceChoice>(() =>
+    savedQuery || otherTabs.length === 0
+      ? { ...EMPTY_CHOICE, kind: savedQuery ? 'editor' : 'saved' }
+      : { ...EMPTY_CHOICE, kind: 'tab', tabId: otherTabs[0].id }
+  );
+  const [keyColumns, setKeyColumns] = useState('');
+  const [tolerance, setTolerance] = useState('0');
+
+  const { data: versions } = useQuery<SavedQueryVersionWithAuthor[]>({
+    queryKey: ['query-versions', savedQuery?.id],
+    queryFn: async () => {
+      const res = await fetch(`/api/queries/${savedQuery!.id}/versions`);
+      const data = await res.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to load versions');
+      }
+      return data.data;
+    },
+    enabled: open && !!savedQuery,
+  });
+
+  const toSource = (choice: SourceChoice): ResultCompareSource | null => {
+    switch (choice.kind) {
+      case 'editor':
+        return editorSql.trim() && dataSourceId ? { sql: editorSql, dataSourceId, label: editorLabel } : null;
+      case 'version':
+        if (!savedQuery) return null;
+        return choice.version === 'current'
+          ? { savedQueryId: savedQuery.id }
+          : { savedQueryId: savedQuery.id, version: Number(choice.version) };
+      case 'tab': {
+        const tab = tabs.find((t) => t.id === choice.tabId);
+        return tab?.data_source_id && tab.sql_content.trim()
+          ? { sql: tab.sql_content, dataSourceId: tab.data_source_id, label: tab.name }
+          : null;
+      }
+      case 'saved':
+        return choice.queryId ? { savedQueryId: choice.queryId } : null;
+    }
+  };
+
+  const selectedKeys = keyColumns.split(',').map((column) => column.trim()).filter(Boolean);
+  const toleranceValue = Number(tolerance);
+  const baseSource = toSource(base);
+  const targetSource = toSource(target);
+  const valid = !!baseSource && !!targetSource && tolerance.trim() !== '' && toleranceValue >= 0;
+
+  const toggleKey = (column: string) => {
+    const next = selectedKeys.includes(column)
+      ? selectedKeys.filter((key) => key !== column)
+      : [...selectedKeys, column];
+    setKeyColumns(next.join(', '));
+  };
+
+  const renderSource = (id: string, label: string, choice: SourceChoice, onChange: (choice: SourceChoice) => void) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={choice.kind} onValueChange={(kind) => onChange({ ...choice, kind: kind as SourceKind })}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="editor">Editor SQL ({editorLabel})</SelectItem>
+          {savedQuery && <SelectItem value="version">Version of &quot;{savedQuery.name}&quot;</SelectItem>}
+          {otherTabs.length > 0 && <SelectItem value="tab">Another tab</SelectItem>}
+          <SelectItem value="saved">Another saved query</SelectItem>
+        </SelectContent>
+      </Select>
+      {choice.kind === 'version' && (
+        <Select value={choice.version} onValueChange={(version) => onChange({ ...choice, version })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="current">Current saved version</SelectItem>
+            {versions?.map((version) => (
+              <SelectItem key={version.version_number} value={String(version.version_number)}>
+                v{version.version_number}
+                {version.change_summary ? ` - ${version.change_summary}` : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {choice.kind === 'tab' && (
+        <Select value={choice.tabId} onValueChange={(tabId) => onChange({ ...choice, tabId })}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select a tab" />
+          </SelectTrigger>
+          <SelectContent>
+            {otherTabs.map((tab) => (
+              <SelectItem key={tab.id} value={tab.id} disabled={!tab.data_source_id}>
+                {tab.name}
+                {!tab.data_source_id && ' (no data source)'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {choice.kind === 'saved' && (
+        <SavedQueryPicker value={choice.queryId} onChange={(queryId) => onChange({ ...choice, queryId })} />
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Compare Results</DialogTitle>
+          <DialogDescription>
+            Runs both queries with the current parameter values and lists the rows that were added, removed or changed.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            {renderSource('compare-base', 'Before', base, setBase)}
+            {renderSource('compare-target', 'After', target, setTarget)}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="compare-keys">Key columns</Label>
+            <Input
+              id="compare-keys"
+              value={keyColumns}
+              onChange={(e) => setKeyColumns(e.target.value)}
+              placeholder="e.g. region, month - leave empty to compare whole rows"
+            />
+            {columns.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {columns.map((column) => (
+                  <Badge
+                    key={column}
+                    variant={selectedKeys.includes(column) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => toggleKey(column)}
+                  >
+                    {column}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Rows with the same key are compared cell by cell; each key must identify a single row.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="compare-tolerance">Numeric tolerance</Label>
+            <Input
+              id="compare-tolerance"
+              type="number"
+              min={0}
+              step="any"
+              value={tolerance}
+              onChange={(e) => setTolerance(e.target.value)}
+              className="w-40"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() =>
+              baseSource &&
+              targetSource &&
+              onCompare({ base: baseSource, target: targetSource, keyColumns: selectedKeys, tolerance: toleranceValue })
+            }
+            disabled={!valid || comparing}
+          >
+            {comparing ? 'Comparing...' : 'Compare'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
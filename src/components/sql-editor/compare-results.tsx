@@ -0,0 +1,162 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import type { ResultCompareResponse, ResultDiffRow } from '@/types/api';
+
+interface CompareResultsProps {
+  comparison: ResultCompareResponse;
+}
+
+type StatusFilter = 'all' | ResultDiffRow['status'];
+
+const STATUS_STYLES: Record<ResultDiffRow['status'], string> = {
+  added: 'bg-green-500/10',
+  removed: 'bg-red-500/10',
+  changed: 'bg-yellow-500/10',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function CompareResults({ comparison }: CompareResultsProps) {
+  const [filter, setFilter] = useState<StatusFilter>('all');
+  const { summary, base, target } = comparison;
+
+  // Key columns first, then the columns both sides returned
+  const columns = useMemo(() => {
+    const shared = base.columns
+      .map((column) => column.name)
+      .filter((name) => target.columns.some((column) => column.name === name));
+    return [...comparison.keyColumns, ...shared.filter((name) => !comparison.keyColumns.includes(name))];
+  }, [base.columns, target.columns, comparison.keyColumns]);
+
+  const rows = filter === 'all' ? comparison.rows : comparison.rows.filter((row) => row.status === filter);
+
+  const renderCell = (row: ResultDiffRow, column: string) => {
+    const change = row.changes?.find((c) => c.column === column);
+    if (change) {
+      return (
+        <span className="whitespace-nowrap">
+          <span className="text-muted-foreground line-through">{formatValue(change.before)}</span>
+          {' → '}
+          <span className="font-medium">{formatValue(change.after)}</span>
+          {change.delta !== undefined && (
+            <span className="ml-1 text-xs text-muted-foreground">
+              ({change.delta > 0 ? '+' : ''}
+              {change.delta})
+            </span>
+          )}
+        </span>
+      );
+    }
+    const source = row.target ?? row.base ?? {};
+    return formatValue(source[column]);
+  };
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {comparison.identical ? (
+          <span className="flex items-center gap-1 text-green-600">
+            <CheckCircle className="h-4 w-4" />
+            Results are identical
+          </span>
+        ) : (
+          <>
+            {(['all', 'added', 'removed', 'changed'] as StatusFilter[]).map((status) => (
+              <Button
+                key={status}
+                variant={filter === status ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setFilter(status)}
+              >
+                {status === 'all' ? 'All differences' : status.charAt(0).toUpperCase() + status.slice(1)}
+                {status !== 'all' && (
+                  <Badge variant="outline" className="ml-2">
+                    {summary[status]}
+                  </Badge>
+                )}
+              </Button>
+            ))}
+          </>
+        )}
+        <span className="text-muted-foreground">{summary.unchanged} unchanged</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-xs text-muted-foreground">
+        {[
+          { title: 'Before', side: base },
+          { title: 'After', side: target },
+        ].map(({ title, side }) => (
+          <div key={title}>
+            <span className="font-medium text-foreground">{title}:</span> {side.label} - {side.rowCount} rows in{' '}
+            {side.executionTime} ms
+            {side.truncated && (
+              <span className="ml-1 text-yellow-600">(row limit reached; later rows were not compared)</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {(comparison.addedColumns.length > 0 || comparison.removedColumns.length > 0) && (
+        <div className="flex items-start gap-2 rounded-md border border-yellow-500/50 p-2 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-yellow-600 shrink-0" />
+          <div>
+            {comparison.addedColumns.length > 0 && <div>New columns: {comparison.addedColumns.join(', ')}</div>}
+            {comparison.removedColumns.length > 0 && <div>Dropped columns: {comparison.removedColumns.join(', ')}</div>}
+          </div>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="rounded-md border overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-24">Status</TableHead>
+                {columns.map((column) => (
+                  <TableHead key={column} className={cn(comparison.keyColumns.includes(column) && 'font-semibold')}>
+                    {column}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, i) => (
+                <TableRow key={i} className={STATUS_STYLES[row.status]}>
+                  <TableCell className="capitalize">{row.status}</TableCell>
+                  {columns.map((column) => (
+                    <TableCell key={column} className={cn(row.changes?.some((c) => c.column === column) && 'bg-yellow-500/20')}>
+                      {renderCell(row, column)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {comparison.rowsTruncated && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {comparison.rows.length} of {summary.added + summary.removed + summary.changed} differing rows.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { useState } from 'react';
+import { Copy, Link2, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import type { SQLEditorTab } from '@/types/database';
+import type { SQLEditorTabResult } from '@/types/api';
+
+interface EditorTabsBarProps {
+  tabs: SQLEditorTab[];
+  activeTabId?: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onClose: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onShareChange: (id: string, shared: boolean) => Promise<SQLEditorTab | null>;
+}
+
+export function sharedTabUrl(token: string): string {
+  return `${window.location.origin}/sql-editor/shared/${token}`;
+}
+
+/**
+ * One-line summary of a tab's last run, e.g. "42 rows in 120 ms"
+ */
+export function describeTabResult(result: SQLEditorTabResult): string {
+  if (result.error) return `Failed: ${result.error}`;
+  const rows = `${result.rowCount ?? 0}${result.truncated ? '+' : ''} row${result.rowCount === 1 ? '' : 's'}`;
+  return result.executionTime !== undefined ? `${rows} in ${result.executionTime} ms` : rows;
+}
+
+export function EditorTabsBar({
+  tabs,
+  activeTabId,
+  onSelect,
+  onCreate,
+  onClose,
+  onRename,
+  onShareChange,
+}: EditorTabsBarProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [shareOpen, setShareOpen] = useState(false);
+  const [sharing, setSharing] = useState(false);
+
+  const activeTab = tabs.find((tab) => tab.id === activeTabId);
+
+  const startRename = (tab: SQLEditorTab) => {
+    setRenamingId(tab.id);
+    setDraftName(tab.name);
+  };
+
+  const finishRename = () => {
+    if (renamingId && draftName.trim()) {
+      onRename(renamingId, draftName.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const updateShare = async (shared: boolean) => {
+    if (!activeTab) return;
+    setSharing(true);
+    await onShareChange(activeTab.id, shared);
+    setSharing(false);
+  };
+
+  const copyLink = async () => {
+    if (!activeTab?.share_token) return;
+    await navigator.clipboard.writeText(sharedTabUrl(activeTab.share_token));
+    toast.success('Link copied');
+  };
+
+  return (
+    <div className="flex items-center gap-1 min-w-0">
+      <div className="flex items-center gap-1 overflow-x-auto min-w-0">
+        {tabs.map((tab) => (
+          <div
+            key={tab.id}
+            className={cn(
+              'group flex items-center gap-1 rounded-md border px-2 py-1 text-sm shrink-0 cursor-pointer',
+              tab.id === activeTabId ? 'bg-background font-medium' : 'bg-muted/50 text-muted-foreground hover:bg-muted'
+            )}
+            onClick={() => tab.id !== activeTabId && onSelect(tab.id)}
+            onDoubleClick={() => startRename(tab)}
+            title="Double-click to rename"
+          >
+            {renamingId === tab.id ? (
+              <Input
+                autoFocus
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishRename();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                className="h-6 w-32 px-1 text-sm"
+              />
+            ) : (
+              <span className="max-w-[10rem] truncate">{tab.name}</span>
+            )}
+            {tab.share_token && <Link2 className="h-3 w-3 shrink-0" />}
+            {tabs.length > 1 && (
+              <button
+                type="button"
+                className="rounded-sm opacity-50 hover:opacity-100"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onClose(tab.id);
+                }}
+                title="Close tab"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      <Button variant="ghost" size="sm" className="h-7 w-7 p-0 shrink-0" onClick={onCreate} title="New tab">
+        <Plus className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 w-7 p-0 shrink-0"
+        onClick={() => setShareOpen(true)}
+        disabled={!activeTab}
+        title="Share a read-only link to this tab"
+      >
+        <Link2 className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={shareOpen} onOpenChange={setShareOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Share &quot;{activeTab?.name}&quot;</DialogTitle>
+            <DialogDescription>
+              Signed-in teammates with the link can view this tab&apos;s SQL and last result summary, but not change it.
+              The link follows your edits until you revoke it.
+            </DialogDescription>
+          </DialogHeader>
+          {activeTab?.share_token ? (
+            <div className="flex gap-2 py-4">
+              <Input readOnly value={sharedTabUrl(activeTab.share_token)} className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={copyLink} title="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <p className="py-4 text-sm text-muted-foreground">This tab is not shared.</p>
+          )}
+          <DialogFooter>
+            {activeTab?.share_token ? (
+              <Button variant="destructive" onClick={() => updateShare(false)} disabled={sharing}>
+                Revoke Link
+              </Button>
+            ) : (
+              <Button onClick={() => updateShare(true)} disabled={sharing}>
+                Create Link
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
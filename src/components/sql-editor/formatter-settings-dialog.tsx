@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DEFAULT_FORMATTER_PREFERENCES, formatSQLCode } from '@/lib/sql/formatter';
+import type { SQLFormatterPreferences } from '@/types/api';
+
+interface FormatterSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  preferences?: SQLFormatterPreferences;
+  clientType?: string;
+  saving?: boolean;
+  onSave: (preferences: SQLFormatterPreferences) => void;
+}
+
+const PREVIEW_SQL = 'select id, name, created_at from customers c join orders o on o.customer_id = c.id where c.active = true';
+
+export function FormatterSettingsDialog({
+  open,
+  onOpenChange,
+  preferences = DEFAULT_FORMATTER_PREFERENCES,
+  clientType,
+  saving = false,
+  onSave,
+}: FormatterSettingsDialogProps) {
+  const [draft, setDraft] = useState<SQLFormatterPreferences>(preferences);
+
+  // Reset the form from the saved preferences each time it opens
+  useEffect(() => {
+    if (open) {
+      setDraft(preferences);
+    }
+  }, [open, preferences]);
+
+  const update = <K extends keyof SQLFormatterPreferences>(key: K, value: SQLFormatterPreferences[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const validIndent = Number.isInteger(draft.indentSize) && draft.indentSize >= 1 && draft.indentSize <= 8;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Formatting Preferences</DialogTitle>
+          <DialogDescription>
+            Applied by Format (Shift+Alt+F) in the dialect of the selected data source.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="formatter-keyword-case">Keyword case</Label>
+              <Select
+                value={draft.keywordCase}
+                onValueChange={(v) => update('keywordCase', v as SQLFormatterPreferences['keywordCase'])}
+              >
+                <SelectTrigger id="formatter-keyword-case">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="upper">UPPER</SelectItem>
+                  <SelectItem value="lower">lower</SelectItem>
+                  <SelectItem value="preserve">Preserve</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="formatter-comma-position">Comma position</Label>
+              <Select
+                value={draft.commaPosition}
+                onValueChange={(v) => update('commaPosition', v as SQLFormatterPreferences['commaPosition'])}
+              >
+                <SelectTrigger id="formatter-comma-position">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="trailing">End of line</SelectItem>
+                  <SelectItem value="leading">Start of line</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="formatter-indent">Indent size</Label>
+              <Input
+                id="formatter-indent"
+                type="number"
+                min={1}
+                max={8}
+                value={Number.isNaN(draft.indentSize) ? '' : draft.indentSize}
+                onChange={(e) => update('indentSize', parseInt(e.target.value, 10))}
+              />
+            </div>
+            <div className="flex items-end gap-2 pb-2">
+              <Switch
+                id="formatter-tabs"
+                checked={draft.useTabs}
+                onCheckedChange={(checked) => update('useTabs', checked)}
+              />
+              <Label htmlFor="formatter-tabs">Indent with tabs</Label>
+            </div>
+          </div>
+          <pre className="rounded-md border bg-muted p-3 text-xs font-mono overflow-auto max-h-48">
+            {validIndent ? formatSQLCode(PREVIEW_SQL, clientType, draft) : PREVIEW_SQL}
+          </pre>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSave(draft)} disabled={!validIndent || saving}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
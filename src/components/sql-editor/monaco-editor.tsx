@@ -1,22 +1,62 @@
 'use client';
 
-import { useRef, useCallback, useEffect } from 'react';
-import Editor, { OnMount, OnChange } from '@monaco-editor/react';
-import type { editor } from 'monaco-editor';
+import { forwardRef, useRef, useCallback, useEffect, useImperativeHandle } from 'react';
+import Editor, { OnMount, OnChange, type Monaco } from '@monaco-editor/react';
+import type { editor, IDisposable, languages } from 'monaco-editor';
 import { useTheme } from 'next-themes';
-import type { SchemaInfo } from '@/types/api';
+import type { SQLSnippet } from '@/types/database';
+import type { SchemaInfo, SQLFormatterPreferences, SQLValidationResponse } from '@/types/api';
+import { findStatementAt } from '@/lib/sql/tokenizer';
+import { formatSQLCode } from '@/lib/sql/formatter';
+import { buildFormatFix, buildSuggestionFixes, getQuickFixes, type SQLQuickFix } from '@/lib/sql/quick-fixes';
+import {
+  describeHoverTarget,
+  findHoverTarget,
+  getCompletionContext,
+  getCompletionSuggestions,
+  type CompletionSuggestionKind,
+} from '@/lib/sql/completion';
 
 interface MonacoSQLEditorProps {
   value: string;
   onChange: (value: string) => void;
-  onExecute?: () => void;
+  // Called with the SQL to run when only part of the script should execute
+  onExecute?: (sql?: string) => void;
   readOnly?: boolean;
   height?: string | number;
   className?: string;
   schema?: SchemaInfo | null;
+  // Latest validation of the editor content, shown as inline markers
+  diagnostics?: SQLValidationResponse | null;
+  // Client type of the selected data source, for dialect-specific quick fixes
+  clientType?: string;
+  // The user's preferences for the format command
+  formatterPreferences?: SQLFormatterPreferences;
+  // Snippets offered by their trigger in completion
+  snippets?: SQLSnippet[];
+  onCursorChange?: (position: CursorPosition) => void;
 }
 
-export function MonacoSQLEditor({
+export interface CursorPosition {
+  lineNumber: number;
+  column: number;
+}
+
+export interface MonacoSQLEditorHandle {
+  // Inserts a snippet at the cursor and starts its tabstop navigation
+  insertSnippet: (body: string) => void;
+  // Moves the cursor, once the editor has mounted if it has not yet
+  setCursor: (position: CursorPosition) => void;
+}
+
+// Monaco's snippet controller, which has no public typings
+type SnippetController = { insert(template: string): void };
+
+// Owner and source of the validator's markers on the model
+const MARKER_OWNER = 'sql-validator';
+const MARKER_SOURCE = 'SQL validator';
+
+export const MonacoSQLEditor = forwardRef<MonacoSQLEditorHandle, MonacoSQLEditorProps>(function MonacoSQLEditor({
   value,
   onChange,
   onExecute,
@@ -24,33 +64,284 @@ export function MonacoSQLEditor({
   height = '400px',
   className,
   schema,
-}: MonacoSQLEditorProps) {
+  diagnostics,
+  clientType,
+  formatterPreferences,
+  snippets,
+  onCursorChange,
+}, ref) {
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
   const { theme } = useTheme();
 
   // Store schema in a ref for the completion provider to access
   const schemaRef = useRef(schema);
 
+  const providersRef = useRef<IDisposable[]>([]);
+
+  // Editor commands are registered once on mount, so they call the latest handler through a ref
+  const onExecuteRef = useRef(onExecute);
+  useEffect(() => {
+    onExecuteRef.current = onExecute;
+  }, [onExecute]);
+
   // Update schema ref when schema changes
   useEffect(() => {
     schemaRef.current = schema;
   }, [schema]);
 
+  const pendingCursorRef = useRef<CursorPosition | null>(null);
+  const onCursorChangeRef = useRef(onCursorChange);
+  useEffect(() => {
+    onCursorChangeRef.current = onCursorChange;
+  }, [onCursorChange]);
+
+  const snippetsRef = useRef(snippets);
+  useEffect(() => {
+    snippetsRef.current = snippets;
+  }, [snippets]);
+
+  useImperativeHandle(ref, () => ({
+    insertSnippet: (body) => {
+      const instance = editorRef.current;
+      if (!instance) return;
+      instance.focus();
+      instance.getContribution<editor.IEditorContribution & SnippetController>('snippetController2')?.insert(body);
+    },
+    setCursor: (position) => {
+      const instance = editorRef.current;
+      if (!instance) {
+        pendingCursorRef.current = position;
+        return;
+      }
+      instance.setPosition(position);
+      instance.revealPositionInCenterIfOutsideViewport(position);
+    },
+  }), []);
+
+  // Read by the code action and formatting providers
+  const diagnosticsRef = useRef(diagnostics);
+  const clientTypeRef = useRef(clientType);
+  const formatterPreferencesRef = useRef(formatterPreferences);
+  useEffect(() => {
+    diagnosticsRef.current = diagnostics;
+    clientTypeRef.current = clientType;
+    formatterPreferencesRef.current = formatterPreferences;
+  }, [diagnostics, clientType, formatterPreferences]);
+
   const handleEditorMount: OnMount = useCallback(
     (editor, monaco) => {
       editorRef.current = editor;
+      monacoRef.current = monaco;
+
+      if (pendingCursorRef.current) {
+        editor.setPosition(pendingCursorRef.current);
+        editor.revealPositionInCenterIfOutsideViewport(pendingCursorRef.current);
+        pendingCursorRef.current = null;
+      }
+      editor.onDidChangeCursorPosition((event) => {
+        onCursorChangeRef.current?.({ lineNumber: event.position.lineNumber, column: event.position.column });
+      });
 
       // Ensure clipboard context menu items are visible
       editor.updateOptions({
         contextmenu: true,
       });
 
-      // Add keyboard shortcut for execute (Ctrl/Cmd + Enter)
-      editor.addCommand(
-        monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter,
-        () => {
-          onExecute?.();
-        }
+      // Run the selection, or the whole script without one (Ctrl/Cmd + Enter)
+      editor.addAction({
+        id: 'sql.runSelection',
+        label: 'Run Selection',
+        keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter],
+        contextMenuGroupId: 'navigation',
+        contextMenuOrder: 1,
+        run: (ed) => {
+          const selection = ed.getSelection();
+          const model = ed.getModel();
+          const selected = selection && model && !selection.isEmpty() ? model.getValueInRange(selection) : '';
+          onExecuteRef.current?.(selected.trim() ? selected : undefined);
+        },
+      });
+
+      // Run the statement under the cursor (Ctrl/Cmd + Shift + Enter)
+      editor.addAction({
+        id: 'sql.runStatement',
+        label: 'Run Current Statement',
+        keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.Enter],
+        contextMenuGroupId: 'navigation',
+        contextMenuOrder: 2,
+        run: (ed) => {
+          const model = ed.getModel();
+          const position = ed.getPosition();
+          if (!model || !position) return;
+          const script = model.getValue();
+          const statement = findStatementAt(script, model.getOffsetAt(position));
+          if (statement) {
+            onExecuteRef.current?.(script.slice(statement.start, statement.end));
+          }
+        },
+      });
+
+      const kinds: Record<CompletionSuggestionKind, languages.CompletionItemKind> = {
+        keyword: monaco.languages.CompletionItemKind.Keyword,
+        function: monaco.languages.CompletionItemKind.Function,
+        table: monaco.languages.CompletionItemKind.Class,
+        view: monaco.languages.CompletionItemKind.Interface,
+        column: monaco.languages.CompletionItemKind.Field,
+        join: monaco.languages.CompletionItemKind.Snippet,
+      };
+
+      // Context-aware suggestions; the schema is read from a ref so it can change after mount
+      providersRef.current.push(
+        monaco.languages.registerCompletionItemProvider('sql', {
+          triggerCharacters: ['.', ' '],
+          provideCompletionItems: (model, position, context) => {
+            const word = model.getWordUntilPosition(position);
+            const range = {
+              startLineNumber: position.lineNumber,
+              endLineNumber: position.lineNumber,
+              startColumn: word.startColumn,
+              endColumn: word.endColumn,
+            };
+            const offset = model.getOffsetAt({ lineNumber: position.lineNumber, column: word.startColumn });
+
+            // A space only opens the list where a table name is expected
+            if (context.triggerCharacter === ' ') {
+              const { kind } = getCompletionContext(model.getValue(), offset);
+              if (kind !== 'table' && kind !== 'join') return { suggestions: [] };
+            }
+
+            return {
+              suggestions: getCompletionSuggestions(model.getValue(), offset, schemaRef.current).map(
+                (suggestion) => ({
+                  label: suggestion.label,
+                  kind: kinds[suggestion.kind],
+                  insertText: suggestion.insertText,
+                  detail: suggestion.detail,
+                  documentation: suggestion.documentation,
+                  sortText: suggestion.sortText,
+                  range,
+                })
+              ),
+            };
+          },
+        })
+      );
+
+      // Snippets expand by trigger with tabstop navigation; never after a qualifier like `o.`
+      providersRef.current.push(
+        monaco.languages.registerCompletionItemProvider('sql', {
+          provideCompletionItems: (model, position) => {
+            const currentSnippets = snippetsRef.current;
+            if (!currentSnippets?.length) return { suggestions: [] };
+
+            const word = model.getWordUntilPosition(position);
+            const offset = model.getOffsetAt({ lineNumber: position.lineNumber, column: word.startColumn });
+            if (getCompletionContext(model.getValue(), offset).kind === 'qualified') return { suggestions: [] };
+
+            const range = {
+              startLineNumber: position.lineNumber,
+              endLineNumber: position.lineNumber,
+              startColumn: word.startColumn,
+              endColumn: word.endColumn,
+            };
+            return {
+              suggestions: currentSnippets.map((snippet) => ({
+                label: { label: snippet.trigger, description: snippet.name },
+                kind: monaco.languages.CompletionItemKind.Snippet,
+                insertText: snippet.body,
+                insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+                detail: snippet.name,
+                documentation: { value: ['```sql', snippet.body, '```'].join('\n') },
+                range,
+              })),
+            };
+          },
+        })
+      );
+
+      // Column type, nullability and comment on hover
+      providersRef.current.push(
+        monaco.languages.registerHoverProvider('sql', {
+          provideHover: (model, position) => {
+            const currentSchema = schemaRef.current;
+            if (!currentSchema) return null;
+
+            const target = findHoverTarget(model.getValue(), model.getOffsetAt(position), currentSchema);
+            if (!target) return null;
+
+            const start = model.getPositionAt(target.start);
+            const end = model.getPositionAt(target.end);
+            return {
+              range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+              contents: [{ value: describeHoverTarget(currentSchema, target) }],
+            };
+          },
+        })
+      );
+
+      // Quick fixes for validator markers, plus the validator's formatting
+      providersRef.current.push(
+        monaco.languages.registerCodeActionProvider('sql', {
+          provideCodeActions: (model, _range, context) => {
+            const sql = model.getValue();
+            const toAction = (fix: SQLQuickFix, marker?: editor.IMarkerData): languages.CodeAction => ({
+              title: fix.title,
+              kind: 'quickfix',
+              isPreferred: fix.isPreferred,
+              diagnostics: marker ? [marker] : undefined,
+              edit: {
+                edits: fix.edits.map((edit) => {
+                  const start = model.getPositionAt(edit.start);
+                  const end = model.getPositionAt(edit.end);
+                  return {
+                    resource: model.uri,
+                    versionId: model.getVersionId(),
+                    textEdit: {
+                      range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+                      text: edit.text,
+                    },
+                  };
+                }),
+              },
+            });
+
+            const actions: languages.CodeAction[] = [];
+            for (const marker of context.markers) {
+              if (marker.source !== MARKER_SOURCE || typeof marker.code !== 'string') continue;
+              const offset = model.getOffsetAt({ lineNumber: marker.startLineNumber, column: marker.startColumn });
+              const end = model.getOffsetAt({ lineNumber: marker.endLineNumber, column: marker.endColumn });
+              // "Did you mean" names of semantic errors, matched by message since edits move offsets
+              const error = diagnosticsRef.current?.errors.find((e) => e.code === marker.code && e.message === marker.message);
+              const fixes = [
+                ...buildSuggestionFixes(offset, end - offset, error?.suggestions),
+                ...getQuickFixes(sql, marker.code, offset, {
+                  clientType: clientTypeRef.current,
+                  schema: schemaRef.current,
+                }),
+              ];
+              actions.push(...fixes.map((fix) => toAction(fix, marker)));
+            }
+
+            const formatFix = buildFormatFix(sql, diagnosticsRef.current?.formattedSQL);
+            if (formatFix && context.markers.some((marker) => marker.source === MARKER_SOURCE)) {
+              actions.push(toAction(formatFix));
+            }
+
+            return { actions, dispose: () => {} };
+          },
+        })
+      );
+
+      // Formats in the data source's dialect with the user's preferences
+      providersRef.current.push(
+        monaco.languages.registerDocumentFormattingEditProvider('sql', {
+          provideDocumentFormattingEdits: (model) => {
+            const sql = model.getValue();
+            const formatted = formatSQLCode(sql, clientTypeRef.current, formatterPreferencesRef.current);
+            return formatted === sql ? [] : [{ range: model.getFullModelRange(), text: formatted }];
+          },
+        })
       );
 
       // Add keyboard shortcut for format (Shift + Alt + F)
@@ -61,150 +352,75 @@ export function MonacoSQLEditor({
         }
       );
     },
-    [onExecute]
+    []
   );
 
-  // Register completion provider ONCE (not on every schema change)
+  // Completion and hover providers are global to the language, so drop them with the editor
   useEffect(() => {
-    if (!editorRef.current) return;
-
-    const monaco = (window as any).monaco;
-    if (!monaco) return;
-
-    // Register completion provider - reads from schemaRef instead of depending on schema prop
-    const provider = monaco.languages.registerCompletionItemProvider('sql', {
-      provideCompletionItems: (model: any, position: any) => {
-        const word = model.getWordUntilPosition(position);
-        const range = {
-          startLineNumber: position.lineNumber,
-          endLineNumber: position.lineNumber,
-          startColumn: word.startColumn,
-          endColumn: word.endColumn,
-        };
-
-        const suggestions: any[] = [];
-
-        // SQL Keywords
-        suggestions.push(
-          ...['SELECT', 'FROM', 'WHERE', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER',
-            'ON', 'AND', 'OR', 'NOT', 'IN', 'LIKE', 'BETWEEN', 'IS', 'NULL',
-            'ORDER', 'BY', 'ASC', 'DESC', 'GROUP', 'HAVING', 'LIMIT', 'OFFSET',
-            'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'CREATE',
-            'TABLE', 'INDEX', 'VIEW', 'DROP', 'ALTER', 'ADD', 'COLUMN',
-            'PRIMARY', 'KEY', 'FOREIGN', 'REFERENCES', 'UNIQUE', 'DEFAULT',
-            'CONSTRAINT', 'CASCADE', 'UNION', 'ALL', 'DISTINCT', 'AS',
-            'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'CAST', 'COALESCE',
-            'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'WITH', 'RECURSIVE',
-          ].map((keyword) => ({
-            label: keyword,
-            kind: monaco.languages.CompletionItemKind.Keyword,
-            insertText: keyword,
-            range,
-            sortText: `0_${keyword}`,
-          }))
-        );
-
-        // Common Functions
-        suggestions.push(
-          ...['COUNT(*)', 'SUM()', 'AVG()', 'MIN()', 'MAX()', 'COALESCE()',
-            'NULLIF()', 'CAST()', 'CONVERT()', 'SUBSTRING()', 'CONCAT()',
-            'LOWER()', 'UPPER()', 'TRIM()', 'LENGTH()', 'NOW()', 'CURRENT_DATE',
-            'CURRENT_TIMESTAMP', 'DATE()', 'YEAR()', 'MONTH()', 'DAY()',
-          ].map((func) => ({
-            label: func,
-            kind: monaco.languages.CompletionItemKind.Function,
-            insertText: func,
-            range,
-            sortText: `1_${func}`,
-          }))
-        );
-
-        // Schema-based completions - read from ref instead of prop
-        const currentSchema = schemaRef.current;
-        if (currentSchema) {
-          // Add tables
-          currentSchema.tables.forEach((table) => {
-            suggestions.push({
-              label: table.name,
-              kind: monaco.languages.CompletionItemKind.Class,
-              insertText: table.name,
-              range,
-              detail: 'Table',
-              documentation: `Columns: ${table.columns.map(c => c.name).join(', ')}`,
-              sortText: `2_${table.name}`,
-            });
+    return () => {
+      providersRef.current.forEach((provider) => provider.dispose());
+      providersRef.current = [];
+    };
+  }, []);
 
-            // Add columns with table prefix
-            table.columns.forEach((column) => {
-              suggestions.push({
-                label: `${table.name}.${column.name}`,
-                kind: monaco.languages.CompletionItemKind.Field,
-                insertText: `${table.name}.${column.name}`,
-                range,
-                detail: `Column (${table.name})`,
-                documentation: `Type: ${column.type}${column.nullable ? ' | Nullable' : ' | Not null'}`,
-                sortText: `3_${table.name}_${column.name}`,
-              });
-
-              // Also add column name alone
-              suggestions.push({
-                label: column.name,
-                kind: monaco.languages.CompletionItemKind.Field,
-                insertText: column.name,
-                range,
-                detail: `Column from ${table.name}`,
-                documentation: `Type: ${column.type}${column.nullable ? ' | Nullable' : ' | Not null'}`,
-                sortText: `3_${column.name}`,
-              });
-            });
-          });
-
-          // Add views
-          currentSchema.views.forEach((view) => {
-            suggestions.push({
-              label: view.name,
-              kind: monaco.languages.CompletionItemKind.Interface,
-              insertText: view.name,
-              range,
-              detail: 'View',
-              documentation: `Columns: ${view.columns.map(c => c.name).join(', ')}`,
-              sortText: `2_${view.name}`,
-            });
+  // Validator errors and warnings as squiggles; unlocated warnings stay in the validation panel
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    const model = editorRef.current?.getModel();
+    if (!monaco || !model) return;
 
-            // Add columns from views
-            view.columns.forEach((column) => {
-              suggestions.push({
-                label: `${view.name}.${column.name}`,
-                kind: monaco.languages.CompletionItemKind.Field,
-                insertText: `${view.name}.${column.name}`,
-                range,
-                detail: `Column (${view.name})`,
-                documentation: `Type: ${column.type}`,
-                sortText: `3_${view.name}_${column.name}`,
-              });
-
-              // Column name alone
-              suggestions.push({
-                label: column.name,
-                kind: monaco.languages.CompletionItemKind.Field,
-                insertText: column.name,
-                range,
-                detail: `Column from ${view.name}`,
-                documentation: `Type: ${column.type}`,
-                sortText: `3_${column.name}`,
-              });
-            });
-          });
-        }
+    const markers: editor.IMarkerData[] = [];
+    const toMarker = (
+      position: { line?: number; column?: number; offset?: number; length?: number },
+      severity: number,
+      message: string,
+      code?: string
+    ): editor.IMarkerData | null => {
+      if (position.offset !== undefined) {
+        const start = model.getPositionAt(position.offset);
+        const end = model.getPositionAt(position.offset + Math.max(position.length ?? 1, 1));
+        return {
+          severity,
+          message,
+          code,
+          source: MARKER_SOURCE,
+          startLineNumber: start.lineNumber,
+          startColumn: start.column,
+          endLineNumber: end.lineNumber,
+          endColumn: end.column,
+        };
+      }
+      if (position.line === undefined || position.line > model.getLineCount()) return null;
+      return {
+        severity,
+        message,
+        code,
+        source: MARKER_SOURCE,
+        startLineNumber: position.line,
+        startColumn: position.column ?? 1,
+        endLineNumber: position.line,
+        endColumn: model.getLineMaxColumn(position.line),
+      };
+    };
 
-        return { suggestions };
-      },
-    });
+    for (const error of diagnostics?.errors ?? []) {
+      const marker = toMarker(error, monaco.MarkerSeverity.Error, error.message, error.code);
+      if (marker) markers.push(marker);
+    }
+    for (const warning of diagnostics?.warnings ?? []) {
+      // Lint severity when configured; otherwise security findings stand out over performance hints
+      const severity =
+        warning.severity === 'error'
+          ? monaco.MarkerSeverity.Error
+          : warning.severity === 'warning' || (!warning.severity && warning.type === 'security')
+            ? monaco.MarkerSeverity.Warning
+            : monaco.MarkerSeverity.Info;
+      const marker = toMarker(warning, severity, warning.message, warning.code);
+      if (marker) markers.push(marker);
+    }
 
-    return () => {
-      provider.dispose();
-    };
-  }, []); // Empty dependency array - run ONCE
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+  }, [diagnostics]);
 
   const handleChange: OnChange = useCallback(
     (value) => {
@@ -252,4 +468,4 @@ export function MonacoSQLEditor({
       />
     </div>
   );
-}
+});
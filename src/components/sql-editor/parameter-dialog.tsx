@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { QueryParameter } from '@/types/database';
+
+interface ParameterDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  parameters: QueryParameter[];
+  values: Record<string, unknown>;
+  onSubmit: (parameters: QueryParameter[], values: Record<string, unknown>) => void;
+}
+
+const inputTypes: Record<QueryParameter['type'], string> = {
+  string: 'text',
+  number: 'number',
+  boolean: 'text',
+  date: 'date',
+  datetime: 'datetime-local',
+};
+
+export function ParameterDialog({
+  open,
+  onOpenChange,
+  parameters,
+  values,
+  onSubmit,
+}: ParameterDialogProps) {
+  const [definitions, setDefinitions] = useState<QueryParameter[]>(parameters);
+  const [draftValues, setDraftValues] = useState<Record<string, unknown>>(values);
+
+  // Reset the form from the latest detected placeholders each time it opens
+  useEffect(() => {
+    if (open) {
+      setDefinitions(parameters);
+      setDraftValues(values);
+    }
+  }, [open, parameters, values]);
+
+  const updateType = (name: string, type: QueryParameter['type']) => {
+    setDefinitions((defs) => defs.map((d) => (d.name === name ? { ...d, type } : d)));
+  };
+
+  const updateValue = (name: string, value: unknown) => {
+    setDraftValues((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const missingRequired = definitions.some(
+    (d) =>
+      d.required !== false &&
+      (draftValues[d.name] === undefined || draftValues[d.name] === '') &&
+      (d.defaultValue === undefined || d.defaultValue === '')
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Query Parameters</DialogTitle>
+          <DialogDescription>
+            Provide values for the placeholders in this query. Values are sent as bound parameters.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4 max-h-[60vh] overflow-auto">
+          {definitions.map((param) => {
+            const value = draftValues[param.name];
+            return (
+              <div key={param.name} className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor={`param-${param.name}`} className="font-mono">
+                    :{param.name}
+                    {param.required !== false && <span className="text-destructive ml-1">*</span>}
+                  </Label>
+                  <Select
+                    value={param.type}
+                    onValueChange={(type) => updateType(param.name, type as QueryParameter['type'])}
+                  >
+                    <SelectTrigger className="h-8 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="string">Text</SelectItem>
+                      <SelectItem value="number">Number</SelectItem>
+                      <SelectItem value="boolean">Boolean</SelectItem>
+                      <SelectItem value="date">Date</SelectItem>
+                      <SelectItem value="datetime">DateTime</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {param.options?.length || param.type === 'boolean' ? (
+                  <Select
+                    value={value === undefined ? '' : String(value)}
+                    onValueChange={(v) => updateValue(param.name, v)}
+                  >
+                    <SelectTrigger id={`param-${param.name}`}>
+                      <SelectValue placeholder={param.label || 'Select a value'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(param.options?.length
+                        ? param.options
+                        : [
+                            { label: 'true', value: 'true' },
+                            { label: 'false', value: 'false' },
+                          ]
+                      ).map((option) => (
+                        <SelectItem key={String(option.value)} value={String(option.value)}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id={`param-${param.name}`}
+                    type={inputTypes[param.type]}
+                    value={value === undefined || value === null ? '' : String(value)}
+                    onChange={(e) => updateValue(param.name, e.target.value)}
+                    placeholder={
+                      param.defaultValue !== undefined
+                        ? `Default: ${String(param.defaultValue)}`
+                        : param.label
+                    }
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onSubmit(definitions, draftValues)}
+            disabled={missingRequired}
+          >
+            Run Query
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronLeft, ChevronRight, FileInput, History, Play, Save, Search } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn, formatDateTime, truncate } from '@/lib/utils';
+import type { DataSource, QueryHistoryEntry, QueryHistoryStatus } from '@/types/database';
+
+const PAGE_SIZE = 25;
+
+const STATUS_VARIANTS: Record<QueryHistoryStatus, 'success' | 'destructive' | 'secondary'> = {
+  success: 'success',
+  error: 'destructive',
+  cancelled: 'secondary',
+};
+
+interface QueryHistoryPanelProps {
+  dataSources?: DataSource[];
+  onOpen: (entry: QueryHistoryEntry) => void;
+  onRun: (entry: QueryHistoryEntry) => void;
+  onPromote: (entry: QueryHistoryEntry) => void;
+  className?: string;
+}
+
+export function QueryHistoryPanel({ dataSources, onOpen, onRun, onPromote, className }: QueryHistoryPanelProps) {
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<'all' | QueryHistoryStatus>('all');
+  const [page, setPage] = useState(0);
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const { data, isLoading } = useQuery<{ items: QueryHistoryEntry[]; meta: { total: number; totalPages: number } }>({
+    queryKey: ['query-history', search, status, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (search) params.set('search', search);
+      if (status !== 'all') params.set('status', status);
+
+      const res = await fetch(`/api/sql/history?${params}`);
+      const json = await res.json();
+      if (!json.success) {
+        throw new Error(json.error?.message || 'Failed to load query history');
+      }
+      return json.data;
+    },
+  });
+
+  const dataSourceName = (id?: string) =>
+    (id && dataSources?.find((ds) => ds.id === id)?.name) || 'Unavailable data source';
+
+  const items = data?.items ?? [];
+  const totalPages = data?.meta.totalPages ?? 0;
+
+  return (
+    <div className={cn('flex flex-col gap-3 w-full', className)}>
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search SQL..."
+            className="pl-8"
+          />
+        </div>
+        <Select
+          value={status}
+          onValueChange={(value) => {
+            setStatus(value as 'all' | QueryHistoryStatus);
+            setPage(0);
+          }}
+        >
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            <SelectItem value="success">Success</SelectItem>
+            <SelectItem value="error">Error</SelectItem>
+            <SelectItem value="cancelled">Cancelled</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading && <p className="text-sm text-muted-foreground">Loading history...</p>}
+
+      {!isLoading && items.length === 0 && (
+        <div className="flex items-center justify-center py-8 text-muted-foreground">
+          <div className="text-center">
+            <History className="h-12 w-12 mx-auto mb-4 opacity-20" />
+            <p className="text-sm">{search || status !== 'all' ? 'No matching queries' : 'No queries run yet'}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {items.map((entry) => (
+          <div key={entry.id} className="rounded-md border p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-xs text-muted-foreground min-w-0">
+                <Badge variant={STATUS_VARIANTS[entry.status]}>{entry.status}</Badge>
+                <span>{formatDateTime(entry.created_at)}</span>
+                <span className="truncate">{dataSourceName(entry.data_source_id)}</span>
+                {entry.duration_ms != null && <span>{entry.duration_ms}ms</span>}
+                {entry.row_count != null && <span>{entry.row_count} rows</span>}
+                {entry.is_streamed ? <Badge variant="outline">streamed</Badge> : null}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Button variant="ghost" size="sm" onClick={() => onOpen(entry)} title="Open in editor">
+                  <FileInput className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRun(entry)}
+                  disabled={!entry.data_source_id}
+                  title="Run again"
+                >
+                  <Play className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onPromote(entry)}
+                  disabled={!entry.data_source_id}
+                  title="Save as query"
+                >
+                  <Save className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <pre className="text-xs font-mono whitespace-pre-wrap break-all bg-muted/50 rounded p-2">
+              {truncate(entry.sql_text, 400)}
+            </pre>
+            {entry.error_message && entry.status === 'error' && (
+              <p className="text-xs text-destructive">{truncate(entry.error_message, 300)}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <span className="text-xs text-muted-foreground">
+            Page {page + 1} of {totalPages}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setPage((p) => p - 1)} disabled={page === 0}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => p + 1)}
+            disabled={page + 1 >= totalPages}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
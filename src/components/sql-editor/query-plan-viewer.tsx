@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight, Flame } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { QueryCost, QueryPlan, QueryPlanNode } from '@/types/api';
+
+interface QueryPlanViewerProps {
+  plan: QueryPlan | null;
+  estimatedCost?: QueryCost;
+  className?: string;
+}
+
+const numberFormat = new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 });
+
+export function QueryPlanViewer({ plan, estimatedCost, className }: QueryPlanViewerProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (!plan) {
+    return null;
+  }
+
+  const toggle = (id: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const selected = selectedId ? findNode(plan.nodes, selectedId) : null;
+
+  const renderNode = (node: QueryPlanNode, depth: number) => {
+    const isCollapsed = collapsed.has(node.id);
+    const hasChildren = node.children.length > 0;
+
+    return (
+      <div key={node.id}>
+        <div
+          role="button"
+          tabIndex={0}
+          onClick={() => setSelectedId(node.id)}
+          onKeyDown={(e) => e.key === 'Enter' && setSelectedId(node.id)}
+          className={cn(
+            'flex items-center gap-2 py-1 pr-2 rounded-sm border-l-2 border-transparent cursor-pointer hover:bg-muted/50',
+            node.isSequentialScan && 'border-yellow-500 bg-yellow-50 dark:bg-yellow-900/20',
+            node.isHighCost && 'border-destructive bg-destructive/10',
+            selectedId === node.id && 'ring-1 ring-primary'
+          )}
+          style={{ paddingLeft: `${depth * 16 + 4}px` }}
+        >
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              toggle(node.id);
+            }}
+            className={cn('h-4 w-4 shrink-0', !hasChildren && 'invisible')}
+            aria-label={isCollapsed ? 'Expand' : 'Collapse'}
+          >
+            {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </button>
+          <span className="text-sm font-medium">{node.operation}</span>
+          {node.relation && <span className="text-sm font-mono">{node.relation}</span>}
+          {node.index && <Badge variant="outline">{node.index}</Badge>}
+          {node.isSequentialScan && (
+            <Badge variant="warning" className="gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              Full scan
+            </Badge>
+          )}
+          {node.isHighCost && (
+            <Badge variant="destructive" className="gap-1">
+              <Flame className="h-3 w-3" />
+              High cost
+            </Badge>
+          )}
+          <div className="ml-auto flex items-center gap-3 text-xs text-muted-foreground shrink-0">
+            {node.estimatedRows !== undefined && <span>{numberFormat.format(node.estimatedRows)} rows</span>}
+            {node.estimatedCost !== undefined && <span>cost {numberFormat.format(node.estimatedCost)}</span>}
+            {node.costShare !== undefined && (
+              <div className="w-16 h-1.5 rounded bg-muted overflow-hidden" title={`${Math.round(node.costShare * 100)}% of total cost`}>
+                <div
+                  className={cn('h-full', node.isHighCost ? 'bg-destructive' : 'bg-primary')}
+                  style={{ width: `${Math.max(2, node.costShare * 100)}%` }}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+        {!isCollapsed && node.children.map((child) => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className={cn('flex flex-col gap-3 w-full', className)}>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        {plan.totalCost !== undefined && (
+          <span>
+            Total cost: <span className="font-medium">{numberFormat.format(plan.totalCost)}</span>
+          </span>
+        )}
+        {plan.estimatedRows !== undefined && (
+          <span>
+            Estimated rows: <span className="font-medium">{numberFormat.format(plan.estimatedRows)}</span>
+          </span>
+        )}
+        {plan.format === 'sqlite-query-plan' && (
+          <span className="text-muted-foreground">SQLite does not report cost estimates</span>
+        )}
+      </div>
+      {estimatedCost?.explanation && <p className="text-xs text-muted-foreground">{estimatedCost.explanation}</p>}
+
+      <div className="rounded-md border p-1">{plan.nodes.map((node) => renderNode(node, 0))}</div>
+
+      {selected && (
+        <div className="rounded-md border p-3 space-y-2">
+          <h4 className="text-sm font-semibold">
+            {selected.operation}
+            {selected.relation && ` on ${selected.relation}`}
+          </h4>
+          {selected.condition && <p className="text-xs font-mono break-all">{selected.condition}</p>}
+          <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-xs">
+            {Object.entries(selected.properties).map(([key, value]) => (
+              <div key={key} className="contents">
+                <dt className="text-muted-foreground">{key}</dt>
+                <dd className="font-mono break-all">{String(value)}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function findNode(nodes: QueryPlanNode[], id: string): QueryPlanNode | null {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const child = findNode(node.children, id);
+    if (child) return child;
+  }
+  return null;
+}
@@ -21,13 +21,17 @@ import {
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, Play } from 'lucide-react';
-import { cn } from '@/lib/utils';
-import type { SQLExecutionResponse, ColumnInfo, QueryPagination } from '@/types/api';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AlertCircle, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, Play } from 'lucide-react';
+import { cn, formatDateTime } from '@/lib/utils';
+import { shouldUseVirtualScrolling } from '@/lib/config/pagination';
+import type { SQLExecutionResponse, SQLStatementResult, ColumnInfo, QueryPagination } from '@/types/api';
 
 interface QueryResultsProps {
   result: SQLExecutionResponse | null;
   isLoading?: boolean;
+  // Rows are still arriving from a streamed execution
+  isStreaming?: boolean;
   error?: string | null;
   onPageChange?: (offset: number) => void;
 }
@@ -35,7 +39,75 @@ interface QueryResultsProps {
 const ROW_HEIGHT = 40; // Height of each row in pixels
 const ESTIMATED_SCROLL_HEIGHT = 600; // Estimated viewport height
 
-export function QueryResults({ result, isLoading, error, onPageChange }: QueryResultsProps) {
+export function QueryResults(props: QueryResultsProps) {
+  const statements = props.result?.statements;
+  if (statements && statements.length > 1 && !props.error && !props.isLoading) {
+    return <StatementResults key={props.result?.executionId} statements={statements} />;
+  }
+  return <ResultView {...props} />;
+}
+
+/**
+ * One tab per statement of a script, opening on the first failed statement
+ */
+function StatementResults({ statements }: { statements: SQLStatementResult[] }) {
+  const failed = statements.find((statement) => statement.status === 'error');
+  const [activeTab, setActiveTab] = useState(String((failed ?? statements[0]).index));
+
+  return (
+    <Tabs value={activeTab} onValueChange={setActiveTab} className="flex flex-col h-full w-full">
+      <TabsList className="self-start flex-shrink-0">
+        {statements.map((statement) => (
+          <TabsTrigger
+            key={statement.index}
+            value={String(statement.index)}
+            className="gap-1"
+            title={statement.sql.substring(0, 200)}
+          >
+            {statement.status === 'error' && <AlertCircle className="h-3 w-3 text-destructive" />}
+            Statement {statement.index + 1}
+            <span className="text-xs text-muted-foreground">
+              {statement.status === 'success' && `(${statement.rowCount})`}
+              {statement.status === 'cancelled' && '(cancelled)'}
+            </span>
+          </TabsTrigger>
+        ))}
+      </TabsList>
+      {statements.map((statement) => (
+        <TabsContent key={statement.index} value={String(statement.index)} className="flex-1 min-h-0 mt-2">
+          {statement.status === 'success' ? (
+            <ResultView result={statement} statement={statement} />
+          ) : (
+            <div
+              className={cn(
+                'p-4 border rounded-md space-y-2',
+                statement.status === 'error' ? 'border-destructive bg-destructive/10' : 'bg-muted/50'
+              )}
+            >
+              <div className={cn('font-medium', statement.status === 'error' && 'text-destructive')}>
+                {statement.status === 'error' ? 'Query Error' : 'Statement cancelled'}
+                <span className="text-xs font-normal text-muted-foreground ml-2">line {statement.line}</span>
+              </div>
+              {statement.error && (
+                <pre className="text-sm text-destructive whitespace-pre-wrap">{statement.error}</pre>
+              )}
+              <pre className="text-xs font-mono whitespace-pre-wrap text-muted-foreground">{statement.sql}</pre>
+            </div>
+          )}
+        </TabsContent>
+      ))}
+    </Tabs>
+  );
+}
+
+function ResultView({
+  result,
+  isLoading,
+  isStreaming,
+  error,
+  onPageChange,
+  statement,
+}: QueryResultsProps & { statement?: SQLStatementResult }) {
   const [sorting, setSorting] = useState<SortingState>([]);
   const tableContainerRef = useRef<HTMLDivElement>(null);
 
@@ -48,6 +120,7 @@ export function QueryResults({ result, isLoading, error, onPageChange }: QueryRe
         <button
           className="flex items-center gap-1 hover:text-foreground"
           onClick={() => column.toggleSorting()}
+          title={`${col.type}${col.nullable === false ? ' NOT NULL' : ''}`}
         >
           {col.name}
           {column.getIsSorted() === 'asc' ? (
@@ -77,15 +150,19 @@ export function QueryResults({ result, isLoading, error, onPageChange }: QueryRe
 
   const rowModel = table.getRowModel();
 
+  // Only virtualize once the result is large enough to need it
+  const useVirtual = shouldUseVirtualScrolling(rowModel.rows.length);
+
   // Set up virtual scrolling
   const virtualizer = useVirtualizer({
-    count: rowModel.rows.length,
+    count: useVirtual ? rowModel.rows.length : 0,
     getScrollElement: () => tableContainerRef.current,
     estimateSize: () => ROW_HEIGHT,
     overscan: 10, // Number of rows to render outside viewport
   });
 
-  if (isLoading) {
+  // Streamed results render progressively, so only show the spinner until rows arrive
+  if (isLoading && !result) {
     return (
       <div className="flex items-center justify-center h-full">
         <div className="text-center">
@@ -133,10 +210,11 @@ export function QueryResults({ result, isLoading, error, onPageChange }: QueryRe
     }
   };
 
-  // Calculate total pages
-  const totalPages = pagination
+  // The total is only known when the server counted it
+  const totalPages = pagination?.total !== undefined
     ? Math.ceil(pagination.total / pagination.limit)
-    : Math.ceil((result?.rowCount || 0) / 100);
+    : undefined;
+  const totalRows = pagination?.total ?? result.rowCount;
 
   return (
     <div className="space-y-2 flex flex-col h-full">
@@ -146,7 +224,7 @@ export function QueryResults({ result, isLoading, error, onPageChange }: QueryRe
           {/* Left Side: Row Counts */}
           <div className="flex items-center gap-3">
             <Badge variant="secondary" className="text-sm py-1">
-              {pagination?.total || result.rowCount} total row{(pagination?.total || result.rowCount) !== 1 ? 's' : ''}
+              {totalRows} total row{totalRows !== 1 ? 's' : ''}
             </Badge>
             <Badge variant="outline" className="text-sm py-1">
               {rowModel.rows.length} row{rowModel.rows.length !== 1 ? 's' : ''} displayed
@@ -156,6 +234,25 @@ export function QueryResults({ result, isLoading, error, onPageChange }: QueryRe
                 Server-Side Pagination
               </Badge>
             )}
+            {statement && (
+              <Badge variant="outline" className="text-xs py-1" title={statement.sql.substring(0, 500)}>
+                Line {statement.line}
+              </Badge>
+            )}
+            {!pagination && !statement && (
+              <Badge variant="outline" className="text-xs py-1" title="All rows streamed from the server">
+                {isStreaming ? 'Streaming...' : 'Streamed'}
+              </Badge>
+            )}
+            {result.cache?.status === 'hit' && (
+              <Badge
+                variant="outline"
+                className="text-xs py-1"
+                title={`Served from the ${result.cache.backend} result cache until ${result.cache.expiresAt ? formatDateTime(result.cache.expiresAt) : 'expiry'}`}
+              >
+                Cached{result.cache.cachedAt ? ` at ${formatDateTime(result.cache.cachedAt)}` : ''}
+              </Badge>
+            )}
           </div>
 
           {/* Center: Performance Metrics */}
@@ -175,29 +272,31 @@ export function QueryResults({ result, isLoading, error, onPageChange }: QueryRe
           </div>
 
           {/* Right Side: Pagination Controls */}
-          <div className="flex items-center gap-2">
-            <span className="text-sm text-muted-foreground">
-              Page {currentPage} of {totalPages}
-            </span>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handlePreviousPage}
-              disabled={!hasPrevPage}
-              className="h-8 px-2"
-            >
-              <ChevronLeft className="h-4 w-4" />
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleNextPage}
-              disabled={!hasNextPage}
-              className="h-8 px-2"
-            >
-              <ChevronRight className="h-4 w-4" />
-            </Button>
-          </div>
+          {pagination && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">
+                Page {currentPage}{totalPages !== undefined && ` of ${totalPages}`}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handlePreviousPage}
+                disabled={!hasPrevPage}
+                className="h-8 px-2"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleNextPage}
+                disabled={!hasNextPage}
+                className="h-8 px-2"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Warnings/Info */}
@@ -234,23 +333,33 @@ export function QueryResults({ result, isLoading, error, onPageChange }: QueryRe
             ))}
           </TableHeader>
           <TableBody>
-            <tr>
-              <td
-                colSpan={columns.length}
-                style={{
-                  height: `${virtualizer.getTotalSize()}px`,
-                  padding: 0,
-                  verticalAlign: 'top',
-                }}
-              >
-                {rowModel.rows.length === 0 ? (
-                  <div className="flex items-center justify-center h-full">
-                    <TableCell className="text-center text-muted-foreground">
-                      No results
+            {rowModel.rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={columns.length} className="text-center text-muted-foreground">
+                  No results
+                </TableCell>
+              </TableRow>
+            ) : !useVirtual ? (
+              rowModel.rows.map((row) => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id} className="font-mono text-sm py-2">
+                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
                     </TableCell>
-                  </div>
-                ) : (
-                  virtualizer.getVirtualItems().map((virtualRow) => {
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <tr>
+                <td
+                  colSpan={columns.length}
+                  style={{
+                    height: `${virtualizer.getTotalSize()}px`,
+                    padding: 0,
+                    verticalAlign: 'top',
+                  }}
+                >
+                  {virtualizer.getVirtualItems().map((virtualRow) => {
                     const row = rowModel.rows[virtualRow.index];
                     return (
                       <div
@@ -284,16 +393,16 @@ export function QueryResults({ result, isLoading, error, onPageChange }: QueryRe
                         </TableRow>
                       </div>
                     );
-                  })
-                )}
-              </td>
-            </tr>
+                  })}
+                </td>
+              </tr>
+            )}
           </TableBody>
         </Table>
       </div>
 
       {/* Performance Info for Large Datasets */}
-      {rowModel.rows.length > 100 && (
+      {useVirtual && (
         <div className="text-xs text-muted-foreground flex-shrink-0">
           💡 Virtual scrolling enabled for {rowModel.rows.length} rows. Only visible rows are rendered for optimal performance.
         </div>
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { DiffEditor } from '@monaco-editor/react';
+import { useTheme } from 'next-themes';
+import { CheckCircle, AlertCircle, RotateCcw, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn, formatDateTime } from '@/lib/utils';
+import type { SavedQueryWithTags } from '@/types/database';
+import type { SavedQueryVersionDiff } from '@/types/api';
+import type { SavedQueryVersionWithAuthor } from '@/lib/sql/query-versions';
+
+interface QueryVersionsPanelProps {
+  queryId: string;
+  // Current editor buffer, compared against the selected version
+  currentSql: string;
+  onRestored: (query: SavedQueryWithTags) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+type CompareMode = 'editor' | 'previous';
+
+export function QueryVersionsPanel({ queryId, currentSql, onRestored, onClose, className }: QueryVersionsPanelProps) {
+  const { theme } = useTheme();
+  const queryClient = useQueryClient();
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('editor');
+
+  const { data: versions, isLoading } = useQuery<SavedQueryVersionWithAuthor[]>({
+    queryKey: ['query-versions', queryId],
+    queryFn: async () => {
+      const res = await fetch(`/api/queries/${queryId}/versions`);
+      const data = await res.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to load versions');
+      }
+      return data.data;
+    },
+  });
+
+  const selected = versions?.find((v) => v.version_number === selectedVersion) ?? versions?.[0];
+  const hasPrevious = !!selected && selected.version_number > 1;
+
+  // Server diff of the selected version against the one before it
+  const { data: diff } = useQuery<SavedQueryVersionDiff>({
+    queryKey: ['query-versions', queryId, 'diff', selected?.version_number],
+    queryFn: async () => {
+      const version = selected!.version_number;
+      const res = await fetch(`/api/queries/${queryId}/versions/diff?from=${version - 1}&to=${version}`);
+      const data = await res.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to diff versions');
+      }
+      return data.data;
+    },
+    enabled: compareMode === 'previous' && hasPrevious,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const res = await fetch(`/api/queries/${queryId}/versions/${version}/restore`, { method: 'POST' });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      if (data.success) {
+        toast.success(`Restored as version ${data.data.version?.version_number}`);
+        queryClient.invalidateQueries({ queryKey: ['query-versions', queryId] });
+        setSelectedVersion(null);
+        onRestored(data.data.query);
+      } else {
+        toast.error(data.error?.message || 'Failed to restore version');
+      }
+    },
+  });
+
+  const original = compareMode === 'previous' ? diff?.from.sql_content ?? '' : selected?.sql_content ?? '';
+  const modified = compareMode === 'previous' ? diff?.to.sql_content ?? '' : currentSql;
+  const validation = parseValidation(selected?.validation_result);
+
+  return (
+    <div className={cn('h-full flex flex-col', className)}>
+      <div className="flex items-center justify-between px-3 py-2 border-b bg-muted/30 shrink-0">
+        <h2 className="text-sm font-semibold">Versions</h2>
+        <Button variant="ghost" size="sm" onClick={onClose} title="Close versions">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="max-h-[40%] overflow-auto border-b shrink-0">
+        {isLoading && <p className="p-3 text-sm text-muted-foreground">Loading versions...</p>}
+        {versions?.map((version, index) => (
+          <button
+            key={version.id}
+            type="button"
+            onClick={() => setSelectedVersion(version.version_number)}
+            className={cn(
+              'w-full text-left px-3 py-2 border-b last:border-b-0 hover:bg-muted/50',
+              selected?.id === version.id && 'bg-muted'
+            )}
+          >
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">v{version.version_number}</span>
+              {index === 0 && <Badge variant="secondary">current</Badge>}
+              {version.is_validated ? (
+                <CheckCircle className="h-3 w-3 text-green-600" />
+              ) : (
+                <AlertCircle className="h-3 w-3 text-destructive" />
+              )}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {formatDateTime(version.created_at)} · {version.author_name || version.author_email || 'Unknown'}
+            </div>
+            {version.change_summary && <div className="text-xs mt-1">{version.change_summary}</div>}
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <>
+          <div className="flex items-center justify-between gap-2 px-3 py-2 border-b shrink-0">
+            <Select value={compareMode} onValueChange={(value) => setCompareMode(value as CompareMode)}>
+              <SelectTrigger className="h-8 w-[190px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="editor">v{selected.version_number} vs editor</SelectItem>
+                <SelectItem value="previous" disabled={!hasPrevious}>
+                  v{selected.version_number - 1} vs v{selected.version_number}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => restoreMutation.mutate(selected.version_number)}
+              disabled={restoreMutation.isPending || selected.id === versions?.[0]?.id}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restore
+            </Button>
+          </div>
+
+          {validation && !validation.isValid && (
+            <p className="px-3 py-1 text-xs text-destructive border-b shrink-0">
+              Failed validation: {validation.errors?.map((e) => e.message).join('; ')}
+            </p>
+          )}
+
+          {compareMode === 'previous' && diff && (diff.parameters.length > 0 || diff.fields.length > 0) && (
+            <div className="px-3 py-2 border-b text-xs space-y-1 shrink-0">
+              {diff.fields.length > 0 && <div>Changed: {diff.fields.join(', ')}</div>}
+              {diff.parameters.map((change) => (
+                <div key={change.name}>
+                  <Badge variant={change.change === 'removed' ? 'destructive' : 'outline'} className="mr-1">
+                    {change.change}
+                  </Badge>
+                  :{change.name}
+                  {change.fields && ` (${change.fields.join(', ')})`}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex-1 min-h-0">
+            <DiffEditor
+              height="100%"
+              language="sql"
+              theme={theme === 'dark' ? 'vs-dark' : 'light'}
+              original={original}
+              modified={modified}
+              options={{
+                readOnly: true,
+                renderSideBySide: false,
+                minimap: { enabled: false },
+                scrollBeyondLastLine: false,
+                automaticLayout: true,
+              }}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function parseValidation(value?: string): { isValid: boolean; errors?: { message: string }[] } | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
@@ -1,22 +1,71 @@
 'use client';
 
-import { useState } from 'react';
-import { ChevronRight, ChevronDown, Table, Eye, Key, Hash, Type } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronRight, ChevronDown, Table, Eye, Key, Hash, Type, RefreshCw } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import type { SchemaInfo, TableInfo, ViewInfo, ColumnSchema } from '@/types/api';
 
 interface SchemaBrowserProps {
   schema: SchemaInfo | null;
+  // Tables listed without columns are loaded from this data source on expand
+  dataSourceId?: string;
   isLoading?: boolean;
+  isRefreshing?: boolean;
+  onRefresh?: () => void;
+  onObjectLoaded?: (object: TableInfo | ViewInfo) => void;
   onTableClick?: (tableName: string) => void;
   onColumnClick?: (tableName: string, columnName: string) => void;
 }
 
+/**
+ * Columns, keys and indexes of a table or view listed without them, fetched
+ * once it is expanded
+ */
+function useSchemaObject<T extends TableInfo | ViewInfo>(
+  object: T,
+  dataSourceId: string | undefined,
+  isExpanded: boolean,
+  onLoaded?: (object: TableInfo | ViewInfo) => void
+) {
+  const { data, isLoading, error } = useQuery<T>({
+    queryKey: ['schema-object', dataSourceId, object.schema ?? '', object.name],
+    queryFn: async () => {
+      const params = new URLSearchParams({ name: object.name });
+      if (object.schema) params.set('schema', object.schema);
+      const res = await fetch(`/api/sql/schema/${dataSourceId}/table?${params}`);
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to load columns');
+      }
+      return data.data;
+    },
+    enabled: isExpanded && !!dataSourceId && !object.columnsLoaded,
+    retry: false,
+    staleTime: 300000,
+  });
+
+  useEffect(() => {
+    if (data) onLoaded?.(data);
+  }, [data, onLoaded]);
+
+  return {
+    object: data ?? object,
+    isLoading: isLoading && isExpanded && !object.columnsLoaded,
+    error: error instanceof Error ? error.message : null,
+  };
+}
+
 export function SchemaBrowser({
   schema,
+  dataSourceId,
   isLoading,
+  isRefreshing,
+  onRefresh,
+  onObjectLoaded,
   onTableClick,
   onColumnClick,
 }: SchemaBrowserProps) {
@@ -80,13 +129,26 @@ export function SchemaBrowser({
 
   return (
     <div className="flex flex-col h-full">
-      <div className="p-2 border-b">
+      <div className="p-2 border-b flex items-center gap-1">
         <Input
           placeholder="Search tables..."
           value={searchQuery}
           onChange={(e) => setSearchQuery(e.target.value)}
           className="h-8"
         />
+        {onRefresh && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={onRefresh}
+            disabled={isRefreshing}
+            title="Refresh schema"
+            aria-label="Refresh schema"
+          >
+            <RefreshCw className={cn('h-4 w-4', isRefreshing && 'animate-spin')} />
+          </Button>
+        )}
       </div>
 
       <ScrollArea className="flex-1">
@@ -98,8 +160,10 @@ export function SchemaBrowser({
               </div>
               {filteredTables.map((table) => (
                 <TableItem
-                  key={table.name}
+                  key={`${table.schema ?? ''}.${table.name}`}
                   table={table}
+                  dataSourceId={dataSourceId}
+                  onLoaded={onObjectLoaded}
                   isExpanded={expandedTables.has(table.name)}
                   onToggle={() => toggleTable(table.name)}
                   onTableClick={onTableClick}
@@ -116,8 +180,10 @@ export function SchemaBrowser({
               </div>
               {filteredViews.map((view) => (
                 <ViewItem
-                  key={view.name}
+                  key={`${view.schema ?? ''}.${view.name}`}
                   view={view}
+                  dataSourceId={dataSourceId}
+                  onLoaded={onObjectLoaded}
                   isExpanded={expandedViews.has(view.name)}
                   onToggle={() => toggleView(view.name)}
                   onTableClick={onTableClick}
@@ -140,6 +206,8 @@ export function SchemaBrowser({
 
 interface TableItemProps {
   table: TableInfo;
+  dataSourceId?: string;
+  onLoaded?: (object: TableInfo | ViewInfo) => void;
   isExpanded: boolean;
   onToggle: () => void;
   onTableClick?: (tableName: string) => void;
@@ -147,12 +215,16 @@ interface TableItemProps {
 }
 
 function TableItem({
-  table,
+  table: listed,
+  dataSourceId,
+  onLoaded,
   isExpanded,
   onToggle,
   onTableClick,
   onColumnClick,
 }: TableItemProps) {
+  const { object: table, isLoading, error } = useSchemaObject(listed, dataSourceId, isExpanded, onLoaded);
+
   return (
     <div className="mb-1">
       <div
@@ -178,6 +250,7 @@ function TableItem({
 
       {isExpanded && (
         <div className="ml-6">
+          <ColumnsStatus isLoading={isLoading} error={error} />
           {table.columns.map((column) => (
             <ColumnItem
               key={column.name}
@@ -195,6 +268,8 @@ function TableItem({
 
 interface ViewItemProps {
   view: ViewInfo;
+  dataSourceId?: string;
+  onLoaded?: (object: TableInfo | ViewInfo) => void;
   isExpanded: boolean;
   onToggle: () => void;
   onTableClick?: (tableName: string) => void;
@@ -202,12 +277,16 @@ interface ViewItemProps {
 }
 
 function ViewItem({
-  view,
+  view: listed,
+  dataSourceId,
+  onLoaded,
   isExpanded,
   onToggle,
   onTableClick,
   onColumnClick,
 }: ViewItemProps) {
+  const { object: view, isLoading, error } = useSchemaObject(listed, dataSourceId, isExpanded, onLoaded);
+
   return (
     <div className="mb-1">
       <div
@@ -231,8 +310,9 @@ function ViewItem({
         </span>
       </div>
 
-      {isExpanded && view.columns.length > 0 && (
+      {isExpanded && (isLoading || error || view.columns.length > 0) && (
         <div className="ml-6">
+          <ColumnsStatus isLoading={isLoading} error={error} />
           {view.columns.map((column) => (
             <ColumnItem
               key={column.name}
@@ -247,6 +327,16 @@ function ViewItem({
   );
 }
 
+function ColumnsStatus({ isLoading, error }: { isLoading: boolean; error: string | null }) {
+  if (isLoading) {
+    return <div className="px-2 py-0.5 text-xs text-muted-foreground">Loading columns...</div>;
+  }
+  if (error) {
+    return <div className="px-2 py-0.5 text-xs text-red-500">{error}</div>;
+  }
+  return null;
+}
+
 interface ColumnItemProps {
   column: ColumnSchema;
   tableName: string;
@@ -0,0 +1,85 @@
+'use client';
+
+import { useState } from 'react';
+import { Braces, Search } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { SQLSnippet } from '@/types/database';
+
+interface SnippetPickerProps {
+  snippets?: SQLSnippet[];
+  onInsert: (snippet: SQLSnippet) => void;
+  disabled?: boolean;
+}
+
+export function SnippetPicker({ snippets = [], onInsert, disabled }: SnippetPickerProps) {
+  const [search, setSearch] = useState('');
+
+  const term = search.trim().toLowerCase();
+  const matches = term
+    ? snippets.filter(
+        (snippet) => snippet.name.toLowerCase().includes(term) || snippet.trigger.toLowerCase().includes(term)
+      )
+    : snippets;
+
+  return (
+    <DropdownMenu onOpenChange={(open) => !open && setSearch('')}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled} title="Insert a snippet at the cursor">
+          <Braces className="h-4 w-4 mr-2" />
+          Snippets
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>Insert snippet</DropdownMenuLabel>
+        <div className="relative px-2 pb-2">
+          <Search className="absolute left-4 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            // Keep the menu's type-ahead from taking the keystrokes
+            onKeyDown={(e) => e.stopPropagation()}
+            placeholder="Search snippets..."
+            className="pl-8 h-9"
+          />
+        </div>
+        <DropdownMenuSeparator />
+        <div className="max-h-72 overflow-auto">
+          {matches.length === 0 ? (
+            <p className="px-2 py-4 text-center text-sm text-muted-foreground">
+              {snippets.length === 0 ? 'No snippets available' : 'No matching snippets'}
+            </p>
+          ) : (
+            matches.map((snippet) => (
+              <DropdownMenuItem
+                key={snippet.id}
+                onSelect={() => onInsert(snippet)}
+                className="flex flex-col items-start gap-1"
+              >
+                <div className="flex w-full items-center justify-between gap-2">
+                  <span className="font-medium truncate">{snippet.name}</span>
+                  <Badge variant="secondary" className="shrink-0 capitalize">
+                    {snippet.scope}
+                  </Badge>
+                </div>
+                <span className="font-mono text-xs text-muted-foreground">{snippet.trigger}</span>
+                {snippet.description && (
+                  <span className="text-xs text-muted-foreground line-clamp-2">{snippet.description}</span>
+                )}
+              </DropdownMenuItem>
+            ))
+          )}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
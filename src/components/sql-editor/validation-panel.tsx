@@ -1,11 +1,12 @@
 'use client';
 
-import { AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+import { AlertCircle, AlertTriangle, CheckCircle, Gauge } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { SQLValidationResult, SQLError, SQLWarning } from '@/lib/sql/validator';
+import type { QueryCost } from '@/types/api';
 
 interface ValidationPanelProps {
-  validation: SQLValidationResult | null;
+  validation: (SQLValidationResult & { estimatedCost?: QueryCost }) | null;
   className?: string;
 }
 
@@ -44,6 +45,27 @@ export function ValidationPanel({ validation, className }: ValidationPanelProps)
         )}
       </div>
 
+      {/* Cost estimate from the query plan */}
+      {validation.estimatedCost && (
+        <div className="flex items-start gap-2 text-sm text-muted-foreground">
+          <Gauge className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <div>
+            <p>
+              {validation.estimatedCost.estimatedCost !== undefined &&
+                `Estimated cost ${validation.estimatedCost.estimatedCost}`}
+              {validation.estimatedCost.estimatedCost !== undefined &&
+                validation.estimatedCost.estimatedRows !== undefined &&
+                ' · '}
+              {validation.estimatedCost.estimatedRows !== undefined &&
+                `${validation.estimatedCost.estimatedRows} rows`}
+            </p>
+            {validation.estimatedCost.explanation && (
+              <p className="text-xs">{validation.estimatedCost.explanation}</p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Errors */}
       {hasErrors && (
         <div className="space-y-1">
@@ -110,6 +132,11 @@ function WarningItem({ warning }: { warning: SQLWarning }) {
           >
             {warning.type}
           </span>
+          {warning.severity === 'error' && (
+            <span className="text-xs px-1.5 py-0.5 rounded font-medium bg-destructive/10 text-destructive">
+              blocks execution
+            </span>
+          )}
         </div>
         <p className="text-sm text-yellow-700 dark:text-yellow-400 mt-1">
           {warning.message}
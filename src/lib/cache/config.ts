@@ -0,0 +1,24 @@
+/**
+ * Result Cache Configuration
+ * Backend selection and limits, read from the environment
+ */
+
+import type { ResultCacheBackendType, ResultCacheConfig } from './types';
+
+function getEnvNumber(value: string | undefined, defaultValue: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return isNaN(parsed) || parsed < 0 ? defaultValue : parsed;
+}
+
+function getBackend(value: string | undefined): ResultCacheBackendType {
+  return value === 'redis' || value === 'none' ? value : 'memory';
+}
+
+export const RESULT_CACHE_CONFIG: ResultCacheConfig = {
+  backend: getBackend(process.env.QUERY_CACHE_BACKEND),
+  defaultTtl: getEnvNumber(process.env.QUERY_CACHE_TTL, 300), // 5 minutes
+  maxEntries: getEnvNumber(process.env.QUERY_CACHE_MAX_ENTRIES, 500),
+  maxEntryBytes: getEnvNumber(process.env.QUERY_CACHE_MAX_ENTRY_BYTES, 5 * 1024 * 1024), // 5 MB
+  redisTimeout: getEnvNumber(process.env.QUERY_CACHE_REDIS_TIMEOUT, 250),
+  keyPrefix: 'query-cache:',
+};
@@ -0,0 +1,29 @@
+/**
+ * Result Cache Module - Public API
+ * Pluggable query result cache with in-memory LRU and Redis backends
+ */
+
+// Types
+export type {
+  CachedQueryResult,
+  ResultCacheBackend,
+  ResultCacheBackendType,
+  ResultCacheConfig,
+  ResultCacheInvalidation,
+  ResultCacheTags,
+} from './types';
+
+export {
+  getResultCache,
+  normalizeSQLForCache,
+  buildCacheKey,
+  resolveCacheTtl,
+  isValidCacheTtl,
+  getCachedResult,
+  setCachedResult,
+  invalidateResultCache,
+  describeCacheResult,
+} from './result-cache';
+
+// Config
+export { RESULT_CACHE_CONFIG } from './config';
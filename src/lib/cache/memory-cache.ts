@@ -0,0 +1,69 @@
+/**
+ * In-memory LRU result cache
+ * Process-local; each server instance keeps its own entries
+ */
+
+import type {
+  CachedQueryResult,
+  ResultCacheBackend,
+  ResultCacheInvalidation,
+  ResultCacheTags,
+} from './types';
+
+interface MemoryEntry {
+  value: CachedQueryResult;
+  expiresAt: number;
+  tags: ResultCacheTags;
+}
+
+export class MemoryResultCache implements ResultCacheBackend {
+  readonly type = 'memory' as const;
+
+  // Map iteration order is insertion order, so the first key is the least recently used
+  private entries = new Map<string, MemoryEntry>();
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string): Promise<CachedQueryResult | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: CachedQueryResult, ttlSeconds: number, tags: ResultCacheTags): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000, tags });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async invalidate(filter: ResultCacheInvalidation): Promise<number> {
+    let removed = 0;
+    for (const [key, entry] of Array.from(this.entries)) {
+      if (matches(entry.tags, filter)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+function matches(tags: ResultCacheTags, filter: ResultCacheInvalidation): boolean {
+  if (filter.dataSourceId && tags.dataSourceId === filter.dataSourceId) return true;
+  if (filter.savedQueryId && tags.savedQueryId === filter.savedQueryId) return true;
+  if (filter.chartId && tags.chartId === filter.chartId) return true;
+  return !!filter.all;
+}
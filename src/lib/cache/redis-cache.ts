@@ -0,0 +1,118 @@
+/**
+ * Redis result cache
+ * Shared by every server instance. Tag sets map data sources, saved queries
+ * and charts to their cache keys for invalidation.
+ */
+
+import type Redis from 'ioredis';
+import type {
+  CachedQueryResult,
+  ResultCacheBackend,
+  ResultCacheInvalidation,
+  ResultCacheTags,
+} from './types';
+
+// Tag sets outlive the entries they list; stale members are harmless
+const TAG_TTL_SECONDS = 24 * 60 * 60;
+
+export class RedisResultCache implements ResultCacheBackend {
+  readonly type = 'redis' as const;
+
+  constructor(
+    private redis: Redis,
+    private prefix: string,
+    private timeout: number
+  ) {}
+
+  async get(key: string): Promise<CachedQueryResult | null> {
+    try {
+      const raw = await this.withTimeout(this.redis.get(this.entryKey(key)));
+      return raw ? (JSON.parse(raw) as CachedQueryResult) : null;
+    } catch (error) {
+      // An unavailable cache must not fail the query
+      console.warn('Result cache read failed:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  async set(key: string, value: CachedQueryResult, ttlSeconds: number, tags: ResultCacheTags): Promise<void> {
+    const entryKey = this.entryKey(key);
+    const multi = this.redis.multi().set(entryKey, JSON.stringify(value), 'EX', ttlSeconds);
+    for (const tag of this.tagKeys(tags)) {
+      multi.sadd(tag, entryKey).expire(tag, Math.max(ttlSeconds, TAG_TTL_SECONDS));
+    }
+
+    try {
+      await this.withTimeout(multi.exec());
+    } catch (error) {
+      console.warn('Result cache write failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  async invalidate(filter: ResultCacheInvalidation): Promise<number> {
+    try {
+      if (filter.all && !filter.dataSourceId && !filter.savedQueryId && !filter.chartId) {
+        return await this.clear();
+      }
+
+      let removed = 0;
+      for (const tag of this.tagKeys(filter)) {
+        const keys = await this.withTimeout(this.redis.smembers(tag));
+        if (keys.length > 0) {
+          removed += await this.withTimeout(this.redis.del(...keys));
+        }
+        await this.withTimeout(this.redis.del(tag));
+      }
+      return removed;
+    } catch (error) {
+      // An unavailable cache must not block edits; entries expire with their TTL
+      console.warn('Result cache invalidation failed:', error instanceof Error ? error.message : error);
+      return 0;
+    }
+  }
+
+  private async clear(): Promise<number> {
+    let removed = 0;
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.withTimeout(
+        this.redis.scan(cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 500)
+      );
+      cursor = next;
+      if (keys.length > 0) {
+        const entries = keys.filter((k) => !k.startsWith(`${this.prefix}tag:`));
+        removed += entries.length;
+        await this.withTimeout(this.redis.del(...keys));
+      }
+    } while (cursor !== '0');
+    return removed;
+  }
+
+  private entryKey(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  private tagKeys(tags: Partial<ResultCacheTags>): string[] {
+    const keys: string[] = [];
+    if (tags.dataSourceId) keys.push(`${this.prefix}tag:ds:${tags.dataSourceId}`);
+    if (tags.savedQueryId) keys.push(`${this.prefix}tag:query:${tags.savedQueryId}`);
+    if (tags.chartId) keys.push(`${this.prefix}tag:chart:${tags.chartId}`);
+    return keys;
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(`Redis did not respond within ${this.timeout}ms`)), this.timeout);
+      promise.then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+}
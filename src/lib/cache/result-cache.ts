@@ -0,0 +1,154 @@
+/**
+ * Query Result Cache
+ *
+ * Caches query result pages in front of the data source connection. Keys
+ * cover the data source, the normalized SQL (comments and whitespace
+ * removed), the bound parameter values and the row window, so any change to
+ * what would be sent to the database is a different entry.
+ *
+ * TTL precedence: chart `refresh_interval`, then saved query `cache_ttl`,
+ * then QUERY_CACHE_TTL. A TTL of 0 disables caching.
+ */
+
+import { createHash } from 'crypto';
+import { tokenizeSQL, isSignificantToken } from '@/lib/sql/tokenizer';
+import { getRedisConnection } from '@/lib/queue/queue-manager';
+import { RESULT_CACHE_CONFIG } from './config';
+import { MemoryResultCache } from './memory-cache';
+import { RedisResultCache } from './redis-cache';
+import type {
+  CachedQueryResult,
+  ResultCacheBackend,
+  ResultCacheInvalidation,
+  ResultCacheTags,
+} from './types';
+import type { QueryCacheInfo } from '@/types/api';
+
+export interface ResultCacheKeyInput {
+  dataSourceId: string;
+  sql: string;
+  bindings: unknown[];
+  limit: number;
+  offset: number;
+}
+
+let backend: ResultCacheBackend | null = null;
+
+/**
+ * Returns the configured backend, or null when caching is disabled
+ */
+export function getResultCache(): ResultCacheBackend | null {
+  if (RESULT_CACHE_CONFIG.backend === 'none') return null;
+
+  if (!backend) {
+    backend = RESULT_CACHE_CONFIG.backend === 'redis'
+      ? new RedisResultCache(getRedisConnection(), RESULT_CACHE_CONFIG.keyPrefix, RESULT_CACHE_CONFIG.redisTimeout)
+      : new MemoryResultCache(RESULT_CACHE_CONFIG.maxEntries);
+  }
+  return backend;
+}
+
+/**
+ * Reduces SQL to its significant tokens so formatting-only differences share an entry
+ */
+export function normalizeSQLForCache(sql: string): string {
+  const tokens = tokenizeSQL(sql).filter(isSignificantToken);
+  while (tokens.length > 0 && tokens[tokens.length - 1].type === 'semicolon') {
+    tokens.pop();
+  }
+  return tokens.map((t) => t.value).join(' ');
+}
+
+export function buildCacheKey(input: ResultCacheKeyInput): string {
+  const payload = JSON.stringify(
+    {
+      dataSourceId: input.dataSourceId,
+      sql: normalizeSQLForCache(input.sql),
+      bindings: input.bindings,
+      limit: input.limit,
+      offset: input.offset,
+    },
+    (_key, value) => (typeof value === 'bigint' ? value.toString() : value)
+  );
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+export function resolveCacheTtl(options: {
+  savedQuery?: { cache_ttl?: number | null } | null;
+  chart?: { refresh_interval?: number | null } | null;
+}): number {
+  const chartTtl = options.chart?.refresh_interval;
+  if (chartTtl !== undefined && chartTtl !== null) return Math.max(chartTtl, 0);
+
+  const queryTtl = options.savedQuery?.cache_ttl;
+  if (queryTtl !== undefined && queryTtl !== null) return Math.max(queryTtl, 0);
+
+  return RESULT_CACHE_CONFIG.defaultTtl;
+}
+
+/**
+ * A saved query cache TTL is null (use the default) or whole seconds, 0 disabling the cache
+ */
+export function isValidCacheTtl(value: unknown): value is number | null {
+  return value === null || (typeof value === 'number' && Number.isInteger(value) && value >= 0);
+}
+
+export async function getCachedResult(key: string): Promise<CachedQueryResult | null> {
+  const cache = getResultCache();
+  return cache ? cache.get(key) : null;
+}
+
+/**
+ * Stores a result. Returns the entry, or null when it was not cached
+ * (caching disabled, TTL of 0 or result too large).
+ */
+export async function setCachedResult(
+  key: string,
+  result: Omit<CachedQueryResult, 'cachedAt' | 'expiresAt'>,
+  ttl: number,
+  tags: ResultCacheTags
+): Promise<CachedQueryResult | null> {
+  const cache = getResultCache();
+  if (!cache || ttl <= 0) return null;
+
+  const now = Date.now();
+  const entry: CachedQueryResult = {
+    ...result,
+    cachedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttl * 1000).toISOString(),
+  };
+
+  let size: number;
+  try {
+    size = Buffer.byteLength(JSON.stringify(entry));
+  } catch {
+    // Values JSON cannot represent (e.g. BigInt) are not cached
+    return null;
+  }
+  if (size > RESULT_CACHE_CONFIG.maxEntryBytes) return null;
+
+  await cache.set(key, entry, ttl, tags);
+  return entry;
+}
+
+export async function invalidateResultCache(filter: ResultCacheInvalidation): Promise<number> {
+  const cache = getResultCache();
+  return cache ? cache.invalidate(filter) : 0;
+}
+
+/**
+ * Builds the `cache` metadata returned with an execution
+ */
+export function describeCacheResult(
+  status: QueryCacheInfo['status'],
+  entry?: CachedQueryResult | null,
+  ttl?: number
+): QueryCacheInfo {
+  return {
+    status,
+    backend: getResultCache()?.type ?? 'none',
+    ttl: entry ? ttl : undefined,
+    cachedAt: entry?.cachedAt,
+    expiresAt: entry?.expiresAt,
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Result Cache Types
+ * Type definitions for the pluggable query result cache
+ */
+
+import type { ColumnInfo } from '@/types/api';
+
+export type ResultCacheBackendType = 'memory' | 'redis' | 'none';
+
+export interface CachedQueryResult {
+  rows: Record<string, unknown>[];
+  columns: ColumnInfo[];
+  hasMore: boolean;
+  // Time the original execution took
+  executionTime: number;
+  cachedAt: string;
+  expiresAt: string;
+}
+
+// Labels an entry so it can be invalidated without knowing its key
+export interface ResultCacheTags {
+  dataSourceId: string;
+  savedQueryId?: string;
+  chartId?: string;
+}
+
+export interface ResultCacheInvalidation {
+  dataSourceId?: string;
+  savedQueryId?: string;
+  chartId?: string;
+  // Drops every entry when no other filter is given
+  all?: boolean;
+}
+
+export interface ResultCacheBackend {
+  readonly type: ResultCacheBackendType;
+  get(key: string): Promise<CachedQueryResult | null>;
+  set(key: string, value: CachedQueryResult, ttlSeconds: number, tags: ResultCacheTags): Promise<void>;
+  // Returns the number of entries removed
+  invalidate(filter: ResultCacheInvalidation): Promise<number>;
+}
+
+export interface ResultCacheConfig {
+  backend: ResultCacheBackendType;
+  // Seconds; used when neither the saved query nor the chart sets a TTL
+  defaultTtl: number;
+  // Memory backend entry limit
+  maxEntries: number;
+  // Results larger than this (serialized) are not cached
+  maxEntryBytes: number;
+  // Redis commands slower than this are treated as a miss
+  redisTimeout: number;
+  keyPrefix: string;
+}
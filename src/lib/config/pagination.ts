@@ -18,28 +18,34 @@ export interface PaginationConfig {
   virtualScrollThreshold: number;
   // Whether virtual scrolling is enabled
   enableVirtualScrolling: boolean;
+  // Maximum rows returned by a streamed query
+  maxStreamRows: number;
+  // Maximum rows fetched from each side of a result comparison
+  maxCompareRows: number;
 }
 
-function getEnvNumber(key: string, defaultValue: number): number {
-  const value = process.env[key];
+// Values are read as literal `process.env.NAME` expressions so Next.js can
+// inline the ones exposed in next.config.js into client bundles
+function getEnvNumber(value: string | undefined, defaultValue: number): number {
   if (!value) return defaultValue;
   const parsed = parseInt(value, 10);
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
-function getEnvBoolean(key: string, defaultValue: boolean): boolean {
-  const value = process.env[key];
+function getEnvBoolean(value: string | undefined, defaultValue: boolean): boolean {
   if (!value) return defaultValue;
   return value.toLowerCase() === 'true';
 }
 
 export const paginationConfig: PaginationConfig = {
-  defaultPageSize: getEnvNumber('DEFAULT_PAGE_SIZE', 50),
-  maxPageSize: getEnvNumber('MAX_PAGE_SIZE', 1000),
-  dataTablePageSize: getEnvNumber('DATA_TABLE_PAGE_SIZE', 100),
-  exportPageSize: getEnvNumber('EXPORT_PAGE_SIZE', 1000),
-  virtualScrollThreshold: getEnvNumber('VIRTUAL_SCROLL_THRESHOLD', 500),
-  enableVirtualScrolling: getEnvBoolean('ENABLE_VIRTUAL_SCROLLING', true),
+  defaultPageSize: getEnvNumber(process.env.DEFAULT_PAGE_SIZE, 50),
+  maxPageSize: getEnvNumber(process.env.MAX_PAGE_SIZE, 1000),
+  dataTablePageSize: getEnvNumber(process.env.DATA_TABLE_PAGE_SIZE, 100),
+  exportPageSize: getEnvNumber(process.env.EXPORT_PAGE_SIZE, 1000),
+  virtualScrollThreshold: getEnvNumber(process.env.VIRTUAL_SCROLL_THRESHOLD, 500),
+  enableVirtualScrolling: getEnvBoolean(process.env.ENABLE_VIRTUAL_SCROLLING, true),
+  maxStreamRows: getEnvNumber(process.env.MAX_STREAM_ROWS, 100000),
+  maxCompareRows: getEnvNumber(process.env.MAX_COMPARE_ROWS, 50000),
 };
 
 /**
@@ -2,6 +2,7 @@ import knex, { Knex } from 'knex';
 import { join } from 'path';
 import type { DataSource, DatabaseClientType } from '@/types/database';
 import { decrypt } from '@/lib/security/encryption';
+import { DuckDBClient } from './duckdb-client';
 
 interface ConnectionPool {
   [key: string]: Knex;
@@ -19,6 +20,13 @@ interface ConnectionConfig {
   ssl?: boolean | { rejectUnauthorized: boolean };
 }
 
+// Relative database files live in data/uploads
+function resolveUploadPath(filename: string): string {
+  return filename.startsWith('/') || filename === ':memory:'
+    ? filename
+    : join(process.cwd(), 'data', 'uploads', filename);
+}
+
 function buildKnexConfig(
   clientType: DatabaseClientType,
   connectionConfig: ConnectionConfig
@@ -35,11 +43,7 @@ function buildKnexConfig(
 
   switch (clientType) {
     case 'sqlite3':
-      const filename = connectionConfig.filename || ':memory:';
-      // If it's not an absolute path and not memory, prepend data/uploads/
-      const fullPath = filename.startsWith('/') || filename === ':memory:'
-        ? filename
-        : join(process.cwd(), 'data', 'uploads', filename);
+      const fullPath = resolveUploadPath(connectionConfig.filename || ':memory:');
 
       return {
         ...baseConfig,
@@ -109,6 +113,16 @@ function buildKnexConfig(
         },
       };
 
+    case 'duckdb':
+      // Without a database file, DuckDB runs in memory over files in data/uploads
+      return {
+        ...baseConfig,
+        client: DuckDBClient,
+        connection: connectionConfig.filename
+          ? { filename: resolveUploadPath(connectionConfig.filename) }
+          : {},
+      };
+
     default:
       throw new Error(`Unsupported database client: ${clientType}`);
   }
@@ -181,15 +195,12 @@ export async function testConnection(
   let connection: Knex | null = null;
 
   try {
-    // For SQLite, verify the file exists first
-    if (clientType === 'sqlite3' && connectionConfig.filename) {
+    // For SQLite and DuckDB, verify the file exists first
+    if ((clientType === 'sqlite3' || clientType === 'duckdb') && connectionConfig.filename) {
       const fs = await import('fs');
 
       // Build the full path the same way buildKnexConfig does
-      const filename = connectionConfig.filename;
-      const dbPath = filename.startsWith('/') || filename === ':memory:'
-        ? filename
-        : join(process.cwd(), 'data', 'uploads', filename);
+      const dbPath = resolveUploadPath(connectionConfig.filename);
 
       // Check if file exists
       if (!fs.existsSync(dbPath)) {
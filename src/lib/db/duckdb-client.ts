@@ -0,0 +1,162 @@
+/**
+ * DuckDB Knex Client
+ *
+ * Knex has no DuckDB dialect, so this client runs raw SQL through
+ * @duckdb/node-api on top of Knex's base client (pooling, transactions and
+ * `?` bindings, which DuckDB accepts as positional parameters). Only raw
+ * queries are supported, which is all the reporting and SQL editor paths use.
+ *
+ * Every database opened by a data source can read files in data/uploads,
+ * and only there, e.g. `read_parquet('data/uploads/sales.parquet')`; the
+ * setting is locked so queries cannot widen it. Database files are opened
+ * read-only.
+ */
+
+import knex from 'knex';
+import { join } from 'path';
+import type { Writable } from 'stream';
+import { DuckDBInstance, type DuckDBConnection } from '@duckdb/node-api';
+
+export interface DuckDBConnectionSettings {
+  // Database file; in-memory when omitted
+  filename?: string;
+}
+
+// Raw results carry the column types, like pg's `fields`
+export interface DuckDBRawResult {
+  rows: Record<string, unknown>[];
+  columns: { name: string; type: string }[];
+}
+
+interface QueryObject {
+  sql: string;
+  bindings?: unknown[];
+  method?: string;
+  output?: (response: unknown) => unknown;
+  response?: DuckDBRawResult;
+}
+
+function duckDBUploadsDir(): string {
+  return join(process.cwd(), 'data', 'uploads');
+}
+
+// BIGINT and HUGEINT come back as bigint, which JSON cannot serialize
+function toJSValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (Array.isArray(value)) return value.map(toJSValue);
+  if (value !== null && typeof value === 'object' && !(value instanceof Date) && !(value instanceof Uint8Array)) {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, toJSValue(v)]));
+  }
+  return value;
+}
+
+// DATE values come back as midnight UTC timestamps
+function toDateString(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : value;
+}
+
+function toBinding(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value === undefined ? null : value;
+}
+
+export class DuckDBClient extends knex.Client {
+  private instance?: Promise<DuckDBInstance>;
+
+  _driver() {
+    return DuckDBInstance;
+  }
+
+  private getInstance(): Promise<DuckDBInstance> {
+    if (!this.instance) {
+      const { filename } = this.connectionSettings as DuckDBConnectionSettings;
+      this.instance = (async () => {
+        const instance = await DuckDBInstance.create(
+          filename || ':memory:',
+          filename ? { access_mode: 'READ_ONLY' } : {}
+        );
+        const connection = await instance.connect();
+        try {
+          const uploads = duckDBUploadsDir().replace(/'/g, "''");
+          await connection.run(`SET allowed_directories = ['${uploads}']`);
+          await connection.run('SET enable_external_access = false');
+          await connection.run('SET lock_configuration = true');
+        } finally {
+          connection.closeSync();
+        }
+        return instance;
+      })();
+      // A failed open is retried by the next connection
+      this.instance.catch(() => {
+        this.instance = undefined;
+      });
+    }
+    return this.instance;
+  }
+
+  async acquireRawConnection(): Promise<DuckDBConnection> {
+    const instance = await this.getInstance();
+    return instance.connect();
+  }
+
+  async destroyRawConnection(connection: DuckDBConnection): Promise<void> {
+    connection.closeSync();
+  }
+
+  async destroy(callback?: unknown) {
+    const result = await super.destroy(callback);
+    const instance = await this.instance?.catch(() => undefined);
+    instance?.closeSync();
+    this.instance = undefined;
+    return result;
+  }
+
+  async _query(connection: DuckDBConnection, obj: QueryObject): Promise<QueryObject> {
+    if (!obj.sql) throw new Error('The query is empty');
+
+    const reader = await connection.runAndReadAll(
+      obj.sql,
+      (obj.bindings ?? []).map(toBinding) as Parameters<DuckDBConnection['runAndReadAll']>[1]
+    );
+    const types = reader.columnTypes();
+    const columns = reader.columnNames().map((name, i) => ({ name, type: types[i].toString() }));
+    const dates = columns.filter((column) => column.type === 'DATE').map((column) => column.name);
+    obj.response = {
+      rows: reader.getRowObjectsJS().map((row) => {
+        const converted = toJSValue(row) as Record<string, unknown>;
+        dates.forEach((name) => {
+          converted[name] = toDateString(converted[name]);
+        });
+        return converted;
+      }),
+      columns,
+    };
+    return obj;
+  }
+
+  async _stream(connection: DuckDBConnection, obj: QueryObject, stream: Writable) {
+    const { response } = await this._query(connection, obj);
+    response?.rows.forEach((row) => stream.write(row));
+    stream.end();
+  }
+
+  processResponse(obj: QueryObject, runner: unknown) {
+    const response = obj.response as DuckDBRawResult;
+    if (obj.output) return obj.output.call(runner, response);
+    switch (obj.method) {
+      case 'raw':
+        return response;
+      case 'first':
+        return response.rows[0];
+      default:
+        return response.rows;
+    }
+  }
+}
+
+Object.assign(DuckDBClient.prototype, {
+  dialect: 'duckdb',
+  driverName: '@duckdb/node-api',
+});
@@ -0,0 +1,29 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Every SQL editor execution, including failures and cancellations
+  await knex.schema.createTable('query_history', (table) => {
+    table.string('id', 36).primary().defaultTo(knex.raw('(lower(hex(randomblob(16))))'));
+    table.string('user_id', 36).references('id').inTable('users').onDelete('CASCADE');
+    table.string('data_source_id', 36).references('id').inTable('data_sources').onDelete('SET NULL');
+    table.string('saved_query_id', 36).references('id').inTable('saved_queries').onDelete('SET NULL');
+    table.string('execution_id', 100);
+    table.text('sql_text').notNullable();
+    table.text('parameters'); // JSON - bound parameter values
+    table.text('parameters_schema'); // JSON - parameter definitions used for the run
+    table.string('status').notNullable(); // 'success', 'error', 'cancelled'
+    table.text('error_message');
+    table.integer('row_count');
+    table.integer('duration_ms');
+    table.boolean('is_streamed').defaultTo(false);
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.index(['user_id', 'created_at']);
+    table.index(['data_source_id']);
+    table.index(['status']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('query_history');
+}
@@ -0,0 +1,57 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Snapshot of a saved query after each create, update or restore
+  await knex.schema.createTable('saved_query_versions', (table) => {
+    table.string('id', 36).primary().defaultTo(knex.raw('(lower(hex(randomblob(16))))'));
+    table.string('saved_query_id', 36).notNullable().references('id').inTable('saved_queries').onDelete('CASCADE');
+    table.integer('version_number').notNullable();
+    table.string('name').notNullable();
+    table.string('description');
+    table.string('data_source_id', 36);
+    table.text('sql_content').notNullable();
+    table.text('parameters_schema'); // JSON
+    table.boolean('is_validated').defaultTo(false);
+    table.text('validation_result'); // JSON
+    table.string('change_summary');
+    table.string('created_by', 36).references('id').inTable('users').onDelete('SET NULL');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.unique(['saved_query_id', 'version_number']);
+  });
+
+  // Existing queries start with their current definition as version 1
+  const queries = await knex('saved_queries').select(
+    'id',
+    'name',
+    'description',
+    'data_source_id',
+    'sql_content',
+    'parameters_schema',
+    'is_validated',
+    'validation_result',
+    'created_by',
+    'updated_at'
+  );
+
+  for (const query of queries) {
+    await knex('saved_query_versions').insert({
+      saved_query_id: query.id,
+      version_number: 1,
+      name: query.name,
+      description: query.description,
+      data_source_id: query.data_source_id,
+      sql_content: query.sql_content,
+      parameters_schema: query.parameters_schema,
+      is_validated: query.is_validated,
+      validation_result: query.validation_result,
+      change_summary: 'Initial version',
+      created_by: query.created_by,
+      created_at: query.updated_at,
+    });
+  }
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('saved_query_versions');
+}
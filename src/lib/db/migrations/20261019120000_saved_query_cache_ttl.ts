@@ -0,0 +1,14 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Result cache TTL in seconds; NULL uses QUERY_CACHE_TTL, 0 disables caching
+  await knex.schema.alterTable('saved_queries', (table) => {
+    table.integer('cache_ttl');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('saved_queries', (table) => {
+    table.dropColumn('cache_ttl');
+  });
+}
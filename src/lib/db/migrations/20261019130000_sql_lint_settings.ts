@@ -0,0 +1,21 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Severity overrides for SQL lint rules, globally or per role or data source
+  await knex.schema.createTable('sql_lint_settings', (table) => {
+    table.string('id', 36).primary().defaultTo(knex.raw('(lower(hex(randomblob(16))))'));
+    table.string('rule_id').notNullable();
+    table.string('scope').notNullable(); // global, role, data_source
+    table.string('scope_id', 36); // Role or data source id; NULL for global
+    table.string('severity').notNullable(); // off, info, warning, error
+    table.string('created_by', 36).references('id').inTable('users').onDelete('SET NULL');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['scope', 'scope_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('sql_lint_settings');
+}
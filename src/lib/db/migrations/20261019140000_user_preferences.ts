@@ -0,0 +1,19 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Per-user settings, one row per preference key
+  await knex.schema.createTable('user_preferences', (table) => {
+    table.string('id', 36).primary().defaultTo(knex.raw('(lower(hex(randomblob(16))))'));
+    table.string('user_id', 36).notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('key').notNullable(); // e.g. sql_formatter
+    table.text('value').notNullable(); // JSON
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.unique(['user_id', 'key']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('user_preferences');
+}
@@ -0,0 +1,25 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Reusable SQL fragments, expanded in the editor by their trigger prefix
+  await knex.schema.createTable('sql_snippets', (table) => {
+    table.string('id', 36).primary().defaultTo(knex.raw('(lower(hex(randomblob(16))))'));
+    table.string('name').notNullable();
+    table.string('trigger').notNullable(); // Prefix typed in the editor
+    table.text('description');
+    table.text('body').notNullable(); // Monaco snippet syntax with $1, ${2:default} tabstops
+    table.string('scope').notNullable(); // personal, team, global
+    table.string('role_id', 36).references('id').inTable('roles').onDelete('CASCADE'); // Team of team snippets
+    table.string('data_source_id', 36).references('id').inTable('data_sources').onDelete('CASCADE'); // NULL for every source
+    table.string('created_by', 36).references('id').inTable('users').onDelete('SET NULL');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['scope', 'created_by']);
+    table.index(['scope', 'role_id']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('sql_snippets');
+}
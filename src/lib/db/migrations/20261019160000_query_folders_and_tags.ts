@@ -0,0 +1,36 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Hierarchical folders for saved queries
+  await knex.schema.createTable('query_folders', (table) => {
+    table.string('id', 36).primary().defaultTo(knex.raw('(lower(hex(randomblob(16))))'));
+    table.string('name').notNullable();
+    table.string('parent_id', 36).references('id').inTable('query_folders').onDelete('CASCADE'); // NULL at the top level
+    table.string('created_by', 36).references('id').inTable('users').onDelete('SET NULL');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['parent_id']);
+  });
+
+  await knex.schema.alterTable('saved_queries', (table) => {
+    table.string('folder_id', 36).references('id').inTable('query_folders').onDelete('SET NULL'); // NULL at the top level
+  });
+
+  // Free-form tags, stored lowercase
+  await knex.schema.createTable('saved_query_tags', (table) => {
+    table.string('saved_query_id', 36).notNullable().references('id').inTable('saved_queries').onDelete('CASCADE');
+    table.string('tag').notNullable();
+
+    table.primary(['saved_query_id', 'tag']);
+    table.index(['tag']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('saved_query_tags');
+  await knex.schema.alterTable('saved_queries', (table) => {
+    table.dropColumn('folder_id');
+  });
+  await knex.schema.dropTableIfExists('query_folders');
+}
@@ -0,0 +1,27 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // SQL editor tabs, autosaved so a user's workspace survives reloads and logins
+  await knex.schema.createTable('sql_editor_tabs', (table) => {
+    table.string('id', 36).primary().defaultTo(knex.raw('(lower(hex(randomblob(16))))'));
+    table.string('user_id', 36).notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('name').notNullable();
+    table.text('sql_content').notNullable().defaultTo('');
+    table.string('data_source_id', 36).references('id').inTable('data_sources').onDelete('SET NULL');
+    table.string('saved_query_id', 36).references('id').inTable('saved_queries').onDelete('SET NULL');
+    table.integer('cursor_line');
+    table.integer('cursor_column');
+    table.text('last_result'); // JSON: row count, columns, timing or error of the last run
+    table.integer('position').notNullable().defaultTo(0);
+    table.boolean('is_active').notNullable().defaultTo(false);
+    table.string('share_token').unique(); // Set while a read-only link is shared
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+    table.index(['user_id', 'position']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('sql_editor_tabs');
+}
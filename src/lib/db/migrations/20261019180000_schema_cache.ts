@@ -0,0 +1,38 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Introspected schema of each data source, checked against the catalog by fingerprint
+  await knex.schema.createTable('schema_cache', (table) => {
+    table.string('data_source_id', 36).primary().references('id').inTable('data_sources').onDelete('CASCADE');
+    table.string('version').notNullable(); // Data source updated_at the cache was built for
+    table.string('fingerprint'); // Null when the dialect has no catalog listing
+    table.string('status').notNullable().defaultTo('ready'); // ready, refreshing, failed
+    table.text('error');
+    table.text('logs'); // JSON array of the last refresh's log lines
+    table.timestamp('refreshed_at');
+    table.timestamp('changed_at');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+    table.timestamp('updated_at').defaultTo(knex.fn.now());
+  });
+
+  // One row per table or view; details are introspected on first use
+  await knex.schema.createTable('schema_cache_objects', (table) => {
+    table.string('id', 36).primary().defaultTo(knex.raw('(lower(hex(randomblob(16))))'));
+    table.string('data_source_id', 36).notNullable().references('id').inTable('data_sources').onDelete('CASCADE');
+    table.string('schema_name').notNullable().defaultTo(''); // '' when the dialect reports none
+    table.string('name').notNullable();
+    table.string('kind').notNullable(); // table or view
+    table.string('fingerprint').notNullable();
+    table.integer('column_count').notNullable().defaultTo(0);
+    table.text('columns').notNullable(); // JSON: column names, types and nullability from the listing
+    table.text('details'); // JSON: TableInfo or ViewInfo with keys, indexes and comments
+    table.timestamp('loaded_at');
+
+    table.unique(['data_source_id', 'schema_name', 'name']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('schema_cache_objects');
+  await knex.schema.dropTableIfExists('schema_cache');
+}
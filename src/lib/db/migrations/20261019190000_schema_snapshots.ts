@@ -0,0 +1,21 @@
+import type { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Schema of a data source each time its fingerprint changed, for drift alerts
+  await knex.schema.createTable('schema_snapshots', (table) => {
+    table.string('id', 36).primary().defaultTo(knex.raw('(lower(hex(randomblob(16))))'));
+    table.string('data_source_id', 36).notNullable().references('id').inTable('data_sources').onDelete('CASCADE');
+    table.string('fingerprint').notNullable();
+    table.text('schema').notNullable(); // JSON: tables and views with column names and types
+    table.text('diff'); // JSON: changes since the previous snapshot, null for the first
+    table.timestamp('acknowledged_at');
+    table.string('acknowledged_by', 36).references('id').inTable('users').onDelete('SET NULL');
+    table.timestamp('created_at').defaultTo(knex.fn.now());
+
+    table.index(['data_source_id', 'created_at']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('schema_snapshots');
+}
@@ -0,0 +1,190 @@
+/**
+ * SQL Editor Tabs Hook
+ * Loads the user's editor tabs and autosaves changes to them
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import type { SQLEditorTab } from '@/types/database';
+import type { SQLEditorTabChanges } from '@/types/api';
+
+const AUTOSAVE_DELAY = 1000;
+
+function applyChanges(tab: SQLEditorTab, changes: SQLEditorTabChanges): SQLEditorTab {
+  return {
+    ...tab,
+    ...(changes.name !== undefined && { name: changes.name }),
+    ...(changes.sqlContent !== undefined && { sql_content: changes.sqlContent }),
+    ...(changes.dataSourceId !== undefined && { data_source_id: changes.dataSourceId }),
+    ...(changes.savedQueryId !== undefined && { saved_query_id: changes.savedQueryId }),
+    ...(changes.cursor !== undefined && {
+      cursor_line: changes.cursor?.lineNumber ?? null,
+      cursor_column: changes.cursor?.column ?? null,
+    }),
+    ...(changes.lastResult !== undefined && {
+      last_result: changes.lastResult ? JSON.stringify(changes.lastResult) : null,
+    }),
+    ...(changes.isActive !== undefined && { is_active: changes.isActive }),
+  };
+}
+
+function isUnchanged(tab: SQLEditorTab, changes: SQLEditorTabChanges): boolean {
+  const next = applyChanges(tab, changes);
+  return (Object.keys(next) as (keyof SQLEditorTab)[]).every((key) => (next[key] ?? null) === (tab[key] ?? null));
+}
+
+export function useEditorTabs() {
+  const [tabs, setTabs] = useState<SQLEditorTab[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const tabsRef = useRef<SQLEditorTab[]>([]);
+  // Changes not yet saved, merged per tab
+  const pendingRef = useRef(new Map<string, SQLEditorTabChanges>());
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const replaceTabs = useCallback((update: (tabs: SQLEditorTab[]) => SQLEditorTab[]) => {
+    tabsRef.current = update(tabsRef.current);
+    setTabs(tabsRef.current);
+  }, []);
+
+  const flush = useCallback(async (keepalive = false) => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const pending = Array.from(pendingRef.current.entries());
+    pendingRef.current.clear();
+
+    await Promise.all(
+      pending.map(async ([id, changes]) => {
+        try {
+          const res = await fetch(`/api/sql/tabs/${id}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(changes),
+            keepalive,
+          });
+          // Closed meanwhile
+          if (res.status === 404) return;
+          const data = await res.json();
+          if (!data.success) {
+            toast.error(data.error?.message || 'Failed to save editor tab');
+          }
+        } catch {
+          // Kept locally; the next change saves it again
+          pendingRef.current.set(id, { ...changes, ...pendingRef.current.get(id) });
+        }
+      })
+    );
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/sql/tabs')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          replaceTabs(() => data.data);
+        } else {
+          toast.error(data.error?.message || 'Failed to load editor tabs');
+        }
+      })
+      .catch(() => toast.error('Failed to load editor tabs'))
+      .finally(() => setIsLoading(false));
+
+    // Save what is left when the page goes away
+    const handleUnload = () => void flush(true);
+    window.addEventListener('beforeunload', handleUnload);
+    return () => {
+      window.removeEventListener('beforeunload', handleUnload);
+      void flush(true);
+    };
+  }, [flush, replaceTabs]);
+
+  const updateTab = useCallback(
+    (id: string, changes: SQLEditorTabChanges) => {
+      const tab = tabsRef.current.find((t) => t.id === id);
+      if (!tab || isUnchanged(tab, changes)) return;
+
+      replaceTabs((current) => current.map((t) => (t.id === id ? applyChanges(t, changes) : t)));
+      pendingRef.current.set(id, { ...pendingRef.current.get(id), ...changes });
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = setTimeout(() => void flush(), AUTOSAVE_DELAY);
+    },
+    [flush, replaceTabs]
+  );
+
+  const selectTab = useCallback(
+    (id: string) => {
+      replaceTabs((current) => current.map((t) => ({ ...t, is_active: t.id === id })));
+      pendingRef.current.set(id, { ...pendingRef.current.get(id), isActive: true });
+      void flush();
+    },
+    [flush, replaceTabs]
+  );
+
+  const createTab = useCallback(
+    async (changes: SQLEditorTabChanges = {}): Promise<SQLEditorTab | null> => {
+      await flush();
+      const res = await fetch('/api/sql/tabs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        toast.error(data.error?.message || 'Failed to open a new tab');
+        return null;
+      }
+      replaceTabs((current) => [...current.map((t) => ({ ...t, is_active: false })), data.data]);
+      return data.data;
+    },
+    [flush, replaceTabs]
+  );
+
+  const closeTab = useCallback(
+    async (id: string) => {
+      pendingRef.current.delete(id);
+      const res = await fetch(`/api/sql/tabs/${id}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!data.success) {
+        toast.error(data.error?.message || 'Failed to close tab');
+        return;
+      }
+      replaceTabs((current) => {
+        const index = current.findIndex((t) => t.id === id);
+        const remaining = current.filter((t) => t.id !== id);
+        // Closing the active tab activates its neighbour, as on the server
+        if (current[index]?.is_active && remaining.length > 0) {
+          const neighbour = remaining[Math.max(index - 1, 0)];
+          return remaining.map((t) => ({ ...t, is_active: t.id === neighbour.id }));
+        }
+        return remaining;
+      });
+    },
+    [replaceTabs]
+  );
+
+  const setShared = useCallback(
+    async (id: string, shared: boolean): Promise<SQLEditorTab | null> => {
+      const res = await fetch(`/api/sql/tabs/${id}/share`, { method: shared ? 'POST' : 'DELETE' });
+      const data = await res.json();
+      if (!data.success) {
+        toast.error(data.error?.message || 'Failed to update the share link');
+        return null;
+      }
+      replaceTabs((current) => current.map((t) => (t.id === id ? { ...t, share_token: data.data.share_token } : t)));
+      return data.data;
+    },
+    [replaceTabs]
+  );
+
+  return {
+    tabs,
+    activeTab: tabs.find((tab) => tab.is_active) ?? tabs[0] ?? null,
+    isLoading,
+    updateTab,
+    selectTab,
+    createTab,
+    closeTab,
+    setShared,
+  };
+}
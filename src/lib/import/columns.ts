@@ -0,0 +1,165 @@
+/**
+ * File Import Columns
+ *
+ * Infers a column type from the values of a file, derives SQL-safe table
+ * and column names, and converts values to the chosen type on load.
+ */
+
+import type { FileImportColumn, FileImportColumnType } from '@/types/api';
+import type { ImportRow } from './types';
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MAX_IDENTIFIER_LENGTH = 64;
+
+// Leading zeros mark codes ('007') that must stay text
+const INTEGER_PATTERN = /^-?(0|[1-9]\d{0,14})$/;
+const REAL_PATTERN = /^-?(0|[1-9]\d*)?(\.\d+)?([eE][-+]?\d+)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const TRUE_VALUES = ['true', 'yes', '1'];
+const FALSE_VALUES = ['false', 'no', '0'];
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function isMidnightUTC(date: Date): boolean {
+  return date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0 && date.getUTCMilliseconds() === 0;
+}
+
+function isValidDateString(value: string): boolean {
+  return !isNaN(Date.parse(value));
+}
+
+// Inference is stricter than conversion: only 'true'/'false' make a boolean
+// column, so 0/1 columns stay integers
+const MATCHERS: [FileImportColumnType, (value: unknown) => boolean][] = [
+  ['boolean', (v) => typeof v === 'boolean' || (typeof v === 'string' && ['true', 'false'].includes(v.toLowerCase()))],
+  ['integer', (v) => (typeof v === 'number' && Number.isSafeInteger(v)) || (typeof v === 'string' && INTEGER_PATTERN.test(v))],
+  [
+    'real',
+    (v) => (typeof v === 'number' && Number.isFinite(v)) || (typeof v === 'string' && v !== '-' && REAL_PATTERN.test(v) && /\d/.test(v)),
+  ],
+  ['date', (v) => (v instanceof Date && isMidnightUTC(v)) || (typeof v === 'string' && DATE_PATTERN.test(v) && isValidDateString(v))],
+  [
+    'datetime',
+    (v) =>
+      v instanceof Date ||
+      (typeof v === 'string' && (DATE_PATTERN.test(v) || DATETIME_PATTERN.test(v)) && isValidDateString(v)),
+  ],
+];
+
+/**
+ * Narrowest type every non-empty value fits; columns without values are text
+ */
+export function inferColumnType(values: unknown[]): FileImportColumnType {
+  const present = values.filter((value) => !isEmpty(value));
+  if (present.length === 0) return 'text';
+  const match = MATCHERS.find(([, matches]) => present.every(matches));
+  return match ? match[0] : 'text';
+}
+
+export function isValidIdentifier(name: string): boolean {
+  return IDENTIFIER_PATTERN.test(name) && name.length <= MAX_IDENTIFIER_LENGTH && !name.toLowerCase().startsWith('sqlite_');
+}
+
+/**
+ * SQL-safe name for a header, file or sheet: lower case, words joined by
+ * underscores, not starting with a digit
+ */
+export function toIdentifier(value: string, fallback: string): string {
+  let name = value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, MAX_IDENTIFIER_LENGTH);
+  if (!name) name = fallback;
+  if (/^\d/.test(name) || name.startsWith('sqlite_')) name = `_${name}`.slice(0, MAX_IDENTIFIER_LENGTH);
+  return name;
+}
+
+/**
+ * Default mapping: every header included under a SQL-safe, unique name with
+ * its inferred type
+ */
+export function inferColumns(headers: string[], rows: ImportRow[]): FileImportColumn[] {
+  const used = new Set<string>();
+  return headers.map((header, i) => {
+    const base = toIdentifier(header, `column_${i + 1}`);
+    let name = base;
+    for (let n = 2; used.has(name); n++) {
+      name = `${base}_${n}`;
+    }
+    used.add(name);
+    return { source: header, name, type: inferColumnType(rows.map((row) => row[header])), include: true };
+  });
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value.trim());
+  return null;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' && isValidDateString(value)) return new Date(value);
+  if (typeof value === 'number') return new Date(value);
+  return null;
+}
+
+/**
+ * Value as stored for the column type; `ok` is false when it could not be
+ * converted and NULL is stored instead
+ */
+export function convertValue(value: unknown, type: FileImportColumnType): { value: unknown; ok: boolean } {
+  if (isEmpty(value)) return { value: null, ok: true };
+
+  switch (type) {
+    case 'integer': {
+      const n = toNumber(value);
+      return n !== null && Number.isSafeInteger(n) ? { value: n, ok: true } : { value: null, ok: false };
+    }
+    case 'real': {
+      const n = toNumber(value);
+      return n !== null && Number.isFinite(n) ? { value: n, ok: true } : { value: null, ok: false };
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value: value ? 1 : 0, ok: true };
+      const text = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.includes(text)) return { value: 1, ok: true };
+      if (FALSE_VALUES.includes(text)) return { value: 0, ok: true };
+      return { value: null, ok: false };
+    }
+    case 'date': {
+      if (typeof value === 'string' && DATE_PATTERN.test(value)) return { value, ok: true };
+      const date = toDate(value);
+      return date ? { value: date.toISOString().slice(0, 10), ok: true } : { value: null, ok: false };
+    }
+    case 'datetime': {
+      // ISO text is kept as written, so times without a zone are not shifted
+      if (typeof value === 'string' && (DATETIME_PATTERN.test(value) || DATE_PATTERN.test(value))) {
+        return { value, ok: true };
+      }
+      const date = toDate(value);
+      return date ? { value: date.toISOString(), ok: true } : { value: null, ok: false };
+    }
+    case 'text':
+      return { value: value instanceof Date ? value.toISOString() : String(value), ok: true };
+  }
+}
+
+export function sqliteType(type: FileImportColumnType): string {
+  switch (type) {
+    case 'integer':
+    case 'boolean':
+      return 'INTEGER';
+    case 'real':
+      return 'REAL';
+    default:
+      return 'TEXT';
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * File Import Module - Public API
+ * Loads CSV, Excel, JSON, NDJSON and Parquet files into managed SQLite data sources
+ */
+
+import type {
+  FileImportColumn,
+  FileImportColumnType,
+  FileImportMode,
+  FileImportOptions,
+  FileImportPreview,
+} from '@/types/api';
+import { inferColumns, isValidIdentifier, toIdentifier } from './columns';
+import { FileImportError, type ParsedFile } from './types';
+
+// Types
+export { FileImportError } from './types';
+export type { ImportRow, ParsedFile } from './types';
+
+// Parsers
+export { detectImportFormat, parseImportFile, IMPORT_EXTENSIONS } from './parsers';
+
+// Columns
+export { inferColumns, inferColumnType, convertValue, toIdentifier } from './columns';
+
+// Managed files
+export { writeTable, newManagedConfig, managedFilePath, removeManagedFile } from './sqlite-writer';
+export type { WriteTableResult } from './sqlite-writer';
+
+// Largest file accepted for import
+export const MAX_IMPORT_FILE_SIZE = 100 * 1024 * 1024;
+
+const PREVIEW_ROWS = 20;
+const SAMPLE_VALUES = 5;
+const COLUMN_TYPES: FileImportColumnType[] = ['integer', 'real', 'boolean', 'date', 'datetime', 'text'];
+const IMPORT_MODES: FileImportMode[] = ['create', 'append', 'replace'];
+
+/**
+ * Inferred column mapping and the first rows, shown before importing
+ */
+export function buildImportPreview(parsed: ParsedFile, fileName: string): FileImportPreview {
+  const columns = inferColumns(parsed.headers, parsed.rows);
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  return {
+    format: parsed.format,
+    fileName,
+    sheets: parsed.sheets,
+    sheet: parsed.sheet,
+    tableName: toIdentifier(parsed.sheets && parsed.sheets.length > 1 && parsed.sheet ? parsed.sheet : baseName, 'imported'),
+    columns: columns.map((column) => ({
+      ...column,
+      samples: parsed.rows
+        .map((row) => row[column.source])
+        .filter((value) => value !== null && value !== undefined && value !== '')
+        .slice(0, SAMPLE_VALUES),
+    })),
+    rows: parsed.rows.slice(0, PREVIEW_ROWS),
+    rowCount: parsed.rows.length,
+  };
+}
+
+/**
+ * Checks the options sent with an import against the parsed file. Columns
+ * left out of the mapping are not imported.
+ */
+export function validateImportOptions(value: unknown, parsed: ParsedFile): FileImportOptions {
+  if (!value || typeof value !== 'object') {
+    throw new FileImportError('INVALID_INPUT', 'Import options are required');
+  }
+  const options = value as Partial<FileImportOptions>;
+
+  if (typeof options.tableName !== 'string' || !isValidIdentifier(options.tableName)) {
+    throw new FileImportError(
+      'INVALID_INPUT',
+      'Table name must start with a letter or underscore and contain only letters, digits and underscores'
+    );
+  }
+
+  const mode = options.mode ?? 'create';
+  if (!IMPORT_MODES.includes(mode)) {
+    throw new FileImportError('INVALID_INPUT', `Mode must be one of: ${IMPORT_MODES.join(', ')}`);
+  }
+
+  if (!options.dataSourceId && (typeof options.dataSourceName !== 'string' || !options.dataSourceName.trim())) {
+    throw new FileImportError('INVALID_INPUT', 'A name is required for the new data source');
+  }
+
+  const columns: FileImportColumn[] = Array.isArray(options.columns)
+    ? options.columns
+    : inferColumns(parsed.headers, parsed.rows);
+  const names = new Set<string>();
+  for (const column of columns) {
+    if (!column || typeof column.source !== 'string' || !parsed.headers.includes(column.source)) {
+      throw new FileImportError('INVALID_INPUT', `Column "${column?.source}" is not in the file`);
+    }
+    if (!column.include) continue;
+    if (typeof column.name !== 'string' || !isValidIdentifier(column.name)) {
+      throw new FileImportError('INVALID_INPUT', `"${column.name}" is not a valid column name`, 400, {
+        column: column.source,
+      });
+    }
+    if (!COLUMN_TYPES.includes(column.type)) {
+      throw new FileImportError('INVALID_INPUT', `Column type must be one of: ${COLUMN_TYPES.join(', ')}`, 400, {
+        column: column.source,
+      });
+    }
+    if (names.has(column.name.toLowerCase())) {
+      throw new FileImportError('INVALID_INPUT', `Column name "${column.name}" is used twice`);
+    }
+    names.add(column.name.toLowerCase());
+  }
+  if (names.size === 0) {
+    throw new FileImportError('INVALID_INPUT', 'Select at least one column to import');
+  }
+
+  return {
+    ...options,
+    tableName: options.tableName,
+    mode,
+    columns: columns.map((column) => ({ ...column, include: column.include !== false })),
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * File Import Parsers
+ *
+ * Reads CSV, Excel, JSON, NDJSON and Parquet files into rows keyed by the
+ * file's headers. Values keep the type the format gives them (numbers,
+ * booleans and dates from Excel, JSON and Parquet; strings from CSV) and are
+ * converted to the chosen column types only when loaded.
+ */
+
+import ExcelJS from 'exceljs';
+import { parseString } from '@fast-csv/parse';
+import { parquetReadObjects } from 'hyparquet';
+import type { FileImportFormat } from '@/types/api';
+import { FileImportError, type ImportRow, type ParsedFile } from './types';
+
+const EXTENSIONS: Record<string, FileImportFormat> = {
+  csv: 'csv',
+  tsv: 'csv',
+  txt: 'csv',
+  xlsx: 'xlsx',
+  json: 'json',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+  parquet: 'parquet',
+};
+
+export const IMPORT_EXTENSIONS = Object.keys(EXTENSIONS).map((ext) => `.${ext}`);
+
+export function detectImportFormat(fileName: string): FileImportFormat | null {
+  const ext = fileName.toLowerCase().split('.').pop() ?? '';
+  return EXTENSIONS[ext] ?? null;
+}
+
+/**
+ * Headers made unique, so repeated or blank headers keep their own column
+ */
+function uniqueHeaders(headers: unknown[]): string[] {
+  const seen = new Set<string>();
+  return headers.map((header, i) => {
+    const base = header === null || header === undefined || String(header).trim() === ''
+      ? `column_${i + 1}`
+      : String(header).trim();
+    let name = base;
+    for (let n = 2; seen.has(name.toLowerCase()); n++) {
+      name = `${base}_${n}`;
+    }
+    seen.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/**
+ * Headers of rows that may not all have the same keys, in order of appearance
+ */
+function collectHeaders(rows: ImportRow[]): string[] {
+  const headers = new Set<string>();
+  for (const row of rows) {
+    Object.keys(row).forEach((key) => headers.add(key));
+  }
+  return Array.from(headers);
+}
+
+// Nested values are stored as JSON text
+function flattenValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('hex');
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    return JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v));
+  }
+  return value;
+}
+
+function toRow(value: unknown): ImportRow {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, flattenValue(v)]));
+  }
+  return { value: flattenValue(value) };
+}
+
+/**
+ * Picks the delimiter that occurs most often in the header line
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  const candidates = [',', ';', '\t', '|'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+function parseCSV(buffer: Buffer): Promise<ParsedFile> {
+  const text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+  let headers: string[] = [];
+
+  return new Promise((resolve, reject) => {
+    const rows: ImportRow[] = [];
+    parseString(text, {
+      delimiter: detectDelimiter(text),
+      headers: (row) => {
+        headers = uniqueHeaders(row);
+        return headers;
+      },
+      ignoreEmpty: true,
+      discardUnmappedColumns: true,
+    })
+      .on('error', (error) => reject(new FileImportError('INVALID_FILE', `Could not read the CSV file: ${error.message}`)))
+      .on('data', (row: Record<string, string>) => {
+        rows.push(Object.fromEntries(headers.map((header) => [header, row[header] === '' ? null : row[header] ?? null])));
+      })
+      .on('end', () => resolve({ format: 'csv', headers, rows }));
+  });
+}
+
+function cellValue(value: ExcelJS.CellValue): unknown {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date || typeof value !== 'object') return value;
+  if ('result' in value) return cellValue(value.result as ExcelJS.CellValue);
+  if ('richText' in value) return value.richText.map((part) => part.text).join('');
+  if ('text' in value) return typeof value.text === 'string' ? value.text : cellValue(value.text as ExcelJS.CellValue);
+  if ('error' in value) return null;
+  return String(value);
+}
+
+async function parseXLSX(buffer: Buffer, sheetName?: string): Promise<ParsedFile> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+  } catch (error) {
+    throw new FileImportError('INVALID_FILE', `Could not read the Excel file: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const sheets = workbook.worksheets.map((worksheet) => worksheet.name);
+  const worksheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+  if (!worksheet) {
+    throw new FileImportError(
+      'INVALID_INPUT',
+      sheetName ? `Worksheet "${sheetName}" not found` : 'The workbook has no worksheets',
+      400,
+      { sheets }
+    );
+  }
+
+  // The first row holds the headers
+  const columnCount = worksheet.actualColumnCount;
+  const headerRow = worksheet.getRow(1);
+  const headers = uniqueHeaders(
+    Array.from({ length: columnCount }, (_, i) => cellValue(headerRow.getCell(i + 1).value))
+  );
+
+  const rows: ImportRow[] = [];
+  worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const values = headers.map((_, i) => cellValue(row.getCell(i + 1).value));
+    if (values.some((value) => value !== null && value !== '')) {
+      rows.push(Object.fromEntries(headers.map((header, i) => [header, values[i]])));
+    }
+  });
+
+  return { format: 'xlsx', headers, rows, sheets, sheet: worksheet.name };
+}
+
+function parseJSON(buffer: Buffer): ParsedFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(buffer.toString('utf8').replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new FileImportError('INVALID_FILE', `Could not read the JSON file: ${error instanceof Error ? error.message : error}`);
+  }
+
+  // An array of records, or an object wrapping one (e.g. { "data": [...] })
+  const records = Array.isArray(data)
+    ? data
+    : data !== null && typeof data === 'object'
+      ? Object.values(data).find(Array.isArray)
+      : undefined;
+  if (!records) {
+    throw new FileImportError('INVALID_FILE', 'The JSON file must contain an array of records');
+  }
+
+  const rows = records.map(toRow);
+  return { format: 'json', headers: collectHeaders(rows), rows };
+}
+
+function parseNDJSON(buffer: Buffer): ParsedFile {
+  const rows: ImportRow[] = [];
+  buffer
+    .toString('utf8')
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .forEach((line, i) => {
+      if (!line.trim()) return;
+      try {
+        rows.push(toRow(JSON.parse(line)));
+      } catch {
+        throw new FileImportError('INVALID_FILE', `Line ${i + 1} of the NDJSON file is not valid JSON`);
+      }
+    });
+  return { format: 'ndjson', headers: collectHeaders(rows), rows };
+}
+
+async function parseParquet(buffer: Buffer): Promise<ParsedFile> {
+  const file = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+  let records: Record<string, unknown>[];
+  try {
+    records = await parquetReadObjects({ file });
+  } catch (error) {
+    throw new FileImportError(
+      'INVALID_FILE',
+      `Could not read the Parquet file: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  const rows = records.map(toRow);
+  return { format: 'parquet', headers: collectHeaders(rows), rows };
+}
+
+export async function parseImportFile(
+  buffer: Buffer,
+  format: FileImportFormat,
+  options: { sheet?: string } = {}
+): Promise<ParsedFile> {
+  let parsed: ParsedFile;
+  switch (format) {
+    case 'csv':
+      parsed = await parseCSV(buffer);
+      break;
+    case 'xlsx':
+      parsed = await parseXLSX(buffer, options.sheet);
+      break;
+    case 'json':
+      parsed = parseJSON(buffer);
+      break;
+    case 'ndjson':
+      parsed = parseNDJSON(buffer);
+      break;
+    case 'parquet':
+      parsed = await parseParquet(buffer);
+      break;
+  }
+
+  if (parsed.headers.length === 0) {
+    throw new FileImportError('INVALID_FILE', 'The file has no columns to import');
+  }
+  return parsed;
+}
@@ -0,0 +1,148 @@
+/**
+ * Managed SQLite Files
+ *
+ * Imported files are loaded into SQLite databases under data/uploads, one
+ * per data source. The connection config marks them `managed`, which is what
+ * allows later imports to add, append to or replace their tables.
+ */
+
+import knex, { type Knex } from 'knex';
+import { existsSync } from 'fs';
+import { mkdir, unlink } from 'fs/promises';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { DataSourceConnectionConfig } from '@/types/database';
+import type { FileImportColumn, FileImportMode } from '@/types/api';
+import { convertValue, sqliteType } from './columns';
+import { FileImportError, type ImportRow } from './types';
+
+// SQLite's default limit on bound variables per statement
+const MAX_VARIABLES = 999;
+// Conversion failures reported per column before the rest are only counted
+const MAX_WARNINGS = 20;
+
+export function uploadsDir(): string {
+  return join(process.cwd(), 'data', 'uploads');
+}
+
+/**
+ * Connection config for a new managed file; the filename is relative to
+ * data/uploads like the SQLite uploads
+ */
+export function newManagedConfig(): DataSourceConnectionConfig {
+  return { filename: `import-${uuidv4()}.sqlite`, managed: true };
+}
+
+export function managedFilePath(config: DataSourceConnectionConfig): string {
+  if (!config.managed || !config.filename || config.filename.includes('/') || config.filename.includes('\\')) {
+    throw new FileImportError('INVALID_INPUT', 'Only data sources created by file import can receive imported tables');
+  }
+  return join(uploadsDir(), config.filename);
+}
+
+export async function removeManagedFile(config: DataSourceConnectionConfig): Promise<void> {
+  const path = managedFilePath(config);
+  if (existsSync(path)) {
+    await unlink(path);
+  }
+}
+
+export interface WriteTableResult {
+  rowCount: number;
+  addedColumns: string[];
+  warnings: string[];
+}
+
+async function createTable(trx: Knex.Transaction, tableName: string, columns: FileImportColumn[]): Promise<void> {
+  await trx.schema.createTable(tableName, (table) => {
+    for (const column of columns) {
+      table.specificType(column.name, sqliteType(column.type));
+    }
+  });
+}
+
+/**
+ * Loads rows into a table of a managed file, creating the file if needed.
+ * Runs in one transaction, so a failed import leaves the table as it was.
+ */
+export async function writeTable(options: {
+  config: DataSourceConnectionConfig;
+  tableName: string;
+  columns: FileImportColumn[];
+  rows: ImportRow[];
+  mode: FileImportMode;
+}): Promise<WriteTableResult> {
+  const { tableName, rows, mode } = options;
+  const columns = options.columns.filter((column) => column.include);
+  const path = managedFilePath(options.config);
+  await mkdir(uploadsDir(), { recursive: true });
+
+  const db = knex({ client: 'better-sqlite3', connection: { filename: path }, useNullAsDefault: true });
+  try {
+    const warnings: string[] = [];
+    const failures = new Map<string, number>();
+    const records = rows.map((row, i) =>
+      Object.fromEntries(
+        columns.map((column) => {
+          const converted = convertValue(row[column.source], column.type);
+          if (!converted.ok) {
+            const count = (failures.get(column.name) ?? 0) + 1;
+            failures.set(column.name, count);
+            if (count <= MAX_WARNINGS) {
+              warnings.push(`Row ${i + 1}: "${String(row[column.source])}" is not a valid ${column.type} for ${column.name}`);
+            }
+          }
+          return [column.name, converted.value];
+        })
+      )
+    );
+    Array.from(failures.entries()).forEach(([column, count]) => {
+      if (count > MAX_WARNINGS) {
+        warnings.push(`${count - MAX_WARNINGS} more invalid values in ${column}`);
+      }
+    });
+
+    const addedColumns: string[] = [];
+    await db.transaction(async (trx) => {
+      const exists = await trx.schema.hasTable(tableName);
+
+      if (exists && mode === 'create') {
+        throw new FileImportError(
+          'CONFLICT',
+          `Table "${tableName}" already exists; choose append or replace`,
+          409
+        );
+      }
+
+      if (exists && mode === 'replace') {
+        await trx.schema.dropTable(tableName);
+      }
+
+      if (!exists || mode === 'replace') {
+        await createTable(trx, tableName, columns);
+      } else {
+        // Appends add the file's new columns; existing rows get NULL
+        const existing: { name: string }[] = await trx.raw(`PRAGMA table_info(??)`, [tableName]);
+        const names = new Set(existing.map((column) => column.name.toLowerCase()));
+        const missing = columns.filter((column) => !names.has(column.name.toLowerCase()));
+        if (missing.length > 0) {
+          await trx.schema.alterTable(tableName, (table) => {
+            for (const column of missing) {
+              table.specificType(column.name, sqliteType(column.type));
+            }
+          });
+          addedColumns.push(...missing.map((column) => column.name));
+        }
+      }
+
+      if (records.length > 0) {
+        const chunkSize = Math.max(1, Math.floor(MAX_VARIABLES / columns.length));
+        await trx.batchInsert(tableName, records, chunkSize);
+      }
+    });
+
+    return { rowCount: records.length, addedColumns, warnings };
+  } finally {
+    await db.destroy();
+  }
+}
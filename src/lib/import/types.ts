@@ -0,0 +1,29 @@
+/**
+ * File Import Types
+ */
+
+import type { FileImportFormat } from '@/types/api';
+
+export type ImportRow = Record<string, unknown>;
+
+// Contents of an uploaded file, keyed by its headers
+export interface ParsedFile {
+  format: FileImportFormat;
+  headers: string[];
+  rows: ImportRow[];
+  // Worksheets of an Excel file and the one that was read
+  sheets?: string[];
+  sheet?: string;
+}
+
+export class FileImportError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public status: number = 400,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'FileImportError';
+  }
+}
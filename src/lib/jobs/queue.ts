@@ -5,7 +5,12 @@ const redisConnection = new Redis(process.env.REDIS_URL || 'redis://localhost:63
   maxRetriesPerRequest: null,
 });
 
-export type JobType = 'report:generate' | 'chart:render' | 'data:export' | 'scheduled:refresh';
+export type JobType =
+  | 'report:generate'
+  | 'chart:render'
+  | 'data:export'
+  | 'scheduled:refresh'
+  | 'schema:refresh';
 
 export interface ReportJobData {
   type: 'report:generate';
@@ -37,7 +42,16 @@ export interface ScheduledRefreshData {
   userId: string;
 }
 
-export type JobData = ReportJobData | ChartJobData | ExportJobData | ScheduledRefreshData;
+// Re-reads a data source's catalog into the persisted schema cache
+export interface SchemaRefreshJobData {
+  type: 'schema:refresh';
+  dataSourceId: string;
+  userId?: string;
+  // Re-introspect every loaded table, not only the ones whose columns changed
+  force?: boolean;
+}
+
+export type JobData = ReportJobData | ChartJobData | ExportJobData | ScheduledRefreshData | SchemaRefreshJobData;
 
 export interface JobResult {
   success: boolean;
@@ -1,7 +1,8 @@
 import { Worker, Job } from 'bullmq';
 import Redis from 'ioredis';
 import { processReportJob } from './workers/report-worker';
-import type { JobData, JobResult } from './queue';
+import { processSchemaRefreshJob } from './workers/schema-worker';
+import type { JobData, JobResult, SchemaRefreshJobData } from './queue';
 import { WORKER_CONCURRENCY, RATE_LIMITER } from '@/lib/queue/config';
 
 const redisConnection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
@@ -39,6 +40,9 @@ async function processJob(job: Job<JobData>): Promise<JobResult> {
         duration: 0,
       };
 
+    case 'schema:refresh':
+      return processSchemaRefreshJob(job as Job<SchemaRefreshJobData>);
+
     default:
       throw new Error(`Unknown job type: ${(job.data as JobData).type}`);
   }
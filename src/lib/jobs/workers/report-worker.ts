@@ -2,6 +2,7 @@ import { Job } from 'bullmq';
 import { getDb } from '@/lib/db/config';
 import { getConnection } from '@/lib/db/connection-manager';
 import { logAudit } from '@/lib/security/audit';
+import { bindParameters, parseParametersSchema, resolveParameters } from '@/lib/sql/parameters';
 import type { ReportJobData, JobResult } from '../queue';
 import type { ReportDefinition, SavedQuery, DataSource } from '@/types/database';
 import ExcelJS from 'exceljs';
@@ -57,9 +58,22 @@ export async function processReportJob(job: Job<ReportJobData>): Promise<JobResu
 
     await job.updateProgress(40);
 
+    // Validate job parameters against the query's schema before binding
+    const resolved = resolveParameters(
+      query.sql_content,
+      parseParametersSchema(query.parameters_schema),
+      parameters
+    );
+    if (resolved.errors.length > 0) {
+      throw new Error(`Invalid parameters: ${resolved.errors.map((e) => e.message).join('; ')}`);
+    }
+
     // Execute the query
     const connection = await getConnection(dataSource);
-    const result = await connection.raw(query.sql_content);
+    const bound = bindParameters(query.sql_content, resolved.values);
+    const result = bound.bindings.length > 0
+      ? await connection.raw(bound.sql, bound.bindings)
+      : await connection.raw(bound.sql);
 
     let rows: Record<string, unknown>[] = [];
     if (Array.isArray(result)) {
@@ -0,0 +1,36 @@
+import { Job } from 'bullmq';
+import { getDb } from '@/lib/db/config';
+import { refreshSchemaCache } from '@/lib/sql/schema-cache';
+import type { SchemaRefreshJobData, JobResult } from '../queue';
+import type { DataSource } from '@/types/database';
+
+export async function processSchemaRefreshJob(job: Job<SchemaRefreshJobData>): Promise<JobResult> {
+  const startTime = Date.now();
+  const { dataSourceId, force } = job.data;
+
+  try {
+    const db = getDb();
+    const dataSource = await db<DataSource>('data_sources')
+      .where('id', dataSourceId)
+      .where('is_active', true)
+      .first();
+
+    if (!dataSource) {
+      throw new Error(`Data source not found or not active: ${dataSourceId}`);
+    }
+
+    await refreshSchemaCache(dataSource, { force });
+
+    return {
+      success: true,
+      duration: Date.now() - startTime,
+    };
+  } catch (error) {
+    // The cache entry records the failure and keeps serving the previous schema
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration: Date.now() - startTime,
+    };
+  }
+}
@@ -10,6 +10,7 @@ export type {
   ChartJobData,
   ExportJobData,
   ScheduledRefreshData,
+  SchemaRefreshJobData,
   JobData,
   JobResult,
   QueueStatus,
@@ -22,6 +23,7 @@ export type {
 export {
   getQueue,
   getQueueEvents,
+  getRedisConnection,
   addJob,
   addScheduledJob,
   removeScheduledJob,
@@ -13,9 +13,10 @@ let queueEventsInstance: QueueEvents | null = null;
 let redisConnection: Redis | null = null;
 
 /**
- * Initialize the Redis connection
+ * Initialize the Redis connection. Shared with other Redis users such as the
+ * query result cache.
  */
-function getRedisConnection(): Redis {
+export function getRedisConnection(): Redis {
   if (!redisConnection) {
     redisConnection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
       maxRetriesPerRequest: null,
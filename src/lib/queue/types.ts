@@ -3,7 +3,12 @@
  * Centralized type definitions for the modular queue system
  */
 
-export type JobType = 'report:generate' | 'chart:render' | 'data:export' | 'scheduled:refresh';
+export type JobType =
+  | 'report:generate'
+  | 'chart:render'
+  | 'data:export'
+  | 'scheduled:refresh'
+  | 'schema:refresh';
 
 export interface ReportJobData {
   type: 'report:generate';
@@ -35,7 +40,16 @@ export interface ScheduledRefreshData {
   userId: string;
 }
 
-export type JobData = ReportJobData | ChartJobData | ExportJobData | ScheduledRefreshData;
+// Re-reads a data source's catalog into the persisted schema cache
+export interface SchemaRefreshJobData {
+  type: 'schema:refresh';
+  dataSourceId: string;
+  userId?: string;
+  // Re-introspect every loaded table, not only the ones whose columns changed
+  force?: boolean;
+}
+
+export type JobData = ReportJobData | ChartJobData | ExportJobData | ScheduledRefreshData | SchemaRefreshJobData;
 
 export interface JobResult {
   success: boolean;
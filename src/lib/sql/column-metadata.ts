@@ -0,0 +1,300 @@
+/**
+ * Result Column Metadata
+ *
+ * Normalizes raw Knex results from each driver into rows plus column
+ * descriptions taken from driver metadata, so column types survive empty
+ * results and are real database types rather than JavaScript `typeof`:
+ *
+ * - PostgreSQL: `fields` with type OIDs; pg reports no nullability
+ * - MySQL: mysql2 field packets (type code and NOT NULL flag)
+ * - SQLite: better-sqlite3 `stmt.columns()` plus `PRAGMA table_info` for nullability
+ * - DuckDB: the result's column types, passed through by the DuckDB client
+ * - SQL Server / Oracle: Knex drops the driver metadata, so types are inferred
+ *   from values and marked `inferred`
+ */
+
+import type { Knex } from 'knex';
+import type { ColumnCategory, ColumnInfo } from '@/types/api';
+import type { DatabaseClientType } from '@/types/database';
+import type { DuckDBRawResult } from '@/lib/db/duckdb-client';
+
+export interface NormalizedResult {
+  rows: Record<string, unknown>[];
+  // Undefined when the driver returned no column metadata
+  columns?: ColumnInfo[];
+}
+
+// Built-in PostgreSQL type OIDs (pg_type.oid)
+const PG_TYPES: Record<number, string> = {
+  16: 'boolean',
+  17: 'bytea',
+  18: 'char',
+  19: 'name',
+  20: 'bigint',
+  21: 'smallint',
+  23: 'integer',
+  25: 'text',
+  26: 'oid',
+  114: 'json',
+  142: 'xml',
+  700: 'real',
+  701: 'double precision',
+  790: 'money',
+  869: 'inet',
+  1000: 'boolean[]',
+  1005: 'smallint[]',
+  1007: 'integer[]',
+  1009: 'text[]',
+  1015: 'varchar[]',
+  1016: 'bigint[]',
+  1042: 'char',
+  1043: 'varchar',
+  1082: 'date',
+  1083: 'time',
+  1114: 'timestamp',
+  1184: 'timestamptz',
+  1186: 'interval',
+  1266: 'timetz',
+  1700: 'numeric',
+  2950: 'uuid',
+  3802: 'jsonb',
+};
+
+// mysql2 column type codes (MYSQL_TYPE_*)
+const MYSQL_TYPES: Record<number, string> = {
+  0: 'decimal',
+  1: 'tinyint',
+  2: 'smallint',
+  3: 'int',
+  4: 'float',
+  5: 'double',
+  6: 'null',
+  7: 'timestamp',
+  8: 'bigint',
+  9: 'mediumint',
+  10: 'date',
+  11: 'time',
+  12: 'datetime',
+  13: 'year',
+  15: 'varchar',
+  16: 'bit',
+  245: 'json',
+  246: 'decimal',
+  247: 'enum',
+  248: 'set',
+  249: 'tinyblob',
+  250: 'mediumblob',
+  251: 'longblob',
+  252: 'blob',
+  253: 'varchar',
+  254: 'char',
+  255: 'geometry',
+};
+
+const MYSQL_NOT_NULL_FLAG = 1;
+
+interface PgField {
+  name: string;
+  dataTypeID: number;
+}
+
+interface MySQLField {
+  name: string;
+  columnType?: number;
+  type?: number;
+  flags?: number;
+  columnLength?: number;
+}
+
+/**
+ * Maps a database type name to a category, which report cells and chart
+ * axes are formatted by when no formatter is configured
+ */
+export function categorizeColumnType(type: string): ColumnCategory {
+  const t = type.toLowerCase();
+
+  // Arrays, and DuckDB's nested types such as STRUCT("a" INTEGER)
+  if (t.endsWith('[]') || /^(struct|map|union)\(/.test(t)) return 'json';
+  if (/^(bool|boolean|bit)$/.test(t)) return 'boolean';
+  if (/(timestamp|datetime)/.test(t)) return 'datetime';
+  if (/^date$/.test(t)) return 'date';
+  if (/^(time|timetz|interval)/.test(t)) return 'time';
+  if (/(geometry|geography|point|polygon|linestring)/.test(t)) return 'unknown';
+  if (/(int|numeric|decimal|real|float|double|money|number|year)/.test(t)) return 'number';
+  if (/(json|xml)/.test(t)) return 'json';
+  if (/(blob|bytea|binary|raw|image)/.test(t)) return 'binary';
+  if (/(char|text|clob|string|uuid|enum|set|name|inet|citext)/.test(t)) return 'string';
+  return 'unknown';
+}
+
+function column(name: string, type: string, nullable?: boolean): ColumnInfo {
+  return { name, type, category: categorizeColumnType(type), nullable };
+}
+
+function isPgResult(result: unknown): result is { rows: Record<string, unknown>[]; fields?: PgField[] } {
+  return !!result && typeof result === 'object' && Array.isArray((result as { rows?: unknown }).rows);
+}
+
+function isDuckDBResult(result: unknown): result is DuckDBRawResult {
+  return isPgResult(result) && Array.isArray((result as { columns?: unknown }).columns);
+}
+
+function isMySQLResult(result: unknown): result is [Record<string, unknown>[], MySQLField[]] {
+  return (
+    Array.isArray(result) &&
+    result.length === 2 &&
+    Array.isArray(result[0]) &&
+    Array.isArray(result[1]) &&
+    result[1].every((f) => f && typeof f === 'object' && 'name' in f && ('columnType' in f || 'type' in f))
+  );
+}
+
+function mysqlColumn(field: MySQLField): ColumnInfo {
+  const code = field.columnType ?? field.type ?? -1;
+  // TINYINT(1) is MySQL's boolean
+  const type = code === 1 && field.columnLength === 1 ? 'boolean' : MYSQL_TYPES[code] || 'unknown';
+  const nullable = field.flags === undefined ? undefined : (field.flags & MYSQL_NOT_NULL_FLAG) === 0;
+  return column(field.name, type, nullable);
+}
+
+/**
+ * Splits a raw Knex result into rows and driver-provided column metadata
+ */
+export function normalizeQueryResult(result: unknown, clientType: DatabaseClientType): NormalizedResult {
+  if (clientType === 'pg' && isPgResult(result)) {
+    return {
+      rows: result.rows,
+      columns: result.fields?.map((f) => column(f.name, PG_TYPES[f.dataTypeID] || `oid:${f.dataTypeID}`)),
+    };
+  }
+
+  if (clientType === 'mysql' && isMySQLResult(result)) {
+    return { rows: result[0], columns: result[1].map(mysqlColumn) };
+  }
+
+  if (clientType === 'duckdb' && isDuckDBResult(result)) {
+    return { rows: result.rows, columns: result.columns.map((c) => column(c.name, c.type)) };
+  }
+
+  if (Array.isArray(result)) {
+    return { rows: result };
+  }
+
+  if (isPgResult(result)) {
+    return { rows: result.rows };
+  }
+
+  return { rows: [] };
+}
+
+function inferValueType(value: unknown): string {
+  if (value instanceof Date) return 'datetime';
+  if (typeof Buffer !== 'undefined' && Buffer.isBuffer(value)) return 'binary';
+  if (typeof value === 'bigint') return 'bigint';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'double';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'string') return 'text';
+  if (typeof value === 'object') return 'json';
+  return 'unknown';
+}
+
+/**
+ * Infers column types from the first non-null value of each column, for
+ * drivers whose metadata Knex does not expose
+ */
+export function inferColumns(rows: Record<string, unknown>[]): ColumnInfo[] {
+  if (rows.length === 0) return [];
+
+  return Object.keys(rows[0]).map((name) => {
+    const sample = rows.find((row) => row[name] !== null && row[name] !== undefined);
+    const hasNull = rows.some((row) => row[name] === null);
+    return {
+      ...column(name, sample ? inferValueType(sample[name]) : 'unknown', hasNull ? true : undefined),
+      inferred: true,
+    };
+  });
+}
+
+// Drivers whose raw result carries column metadata (see normalizeQueryResult)
+const METADATA_CLIENTS: DatabaseClientType[] = ['pg', 'mysql', 'duckdb'];
+
+/**
+ * Describes the columns of a query from driver metadata by running it
+ * wrapped in `LIMIT 0`, for streamed results, which carry no metadata.
+ * Undefined for drivers whose metadata Knex drops. Must be called with the
+ * transaction the query runs in.
+ */
+export async function describeQueryColumns(
+  trx: Knex.Transaction,
+  clientType: DatabaseClientType,
+  sql: string,
+  bindings: Knex.Value[]
+): Promise<ColumnInfo[] | undefined> {
+  if (!METADATA_CLIENTS.includes(clientType)) return undefined;
+  const described = `SELECT * FROM (${sql.trim().replace(/;+$/, '')}) AS described_query LIMIT 0`;
+  const result = await (bindings.length > 0 ? trx.raw(described, bindings) : trx.raw(described));
+  return normalizeQueryResult(result, clientType).columns;
+}
+
+interface SQLiteColumn {
+  name: string;
+  column: string | null;
+  table: string | null;
+  type: string | null;
+}
+
+interface SQLiteTableColumn {
+  name: string;
+  notnull: number;
+  pk: number;
+}
+
+interface SQLiteDatabase {
+  prepare(sql: string): {
+    columns(): SQLiteColumn[];
+    all(...params: unknown[]): unknown[];
+  };
+}
+
+/**
+ * Describes the columns of a SQLite query without running it. Must be called
+ * with the transaction the query runs in so it uses the same connection.
+ */
+export async function describeSQLiteColumns(trx: Knex.Transaction, sql: string): Promise<ColumnInfo[]> {
+  const db = (await trx.client.acquireConnection()) as SQLiteDatabase;
+  const statementColumns = db.prepare(sql).columns();
+
+  // Nullability is only known for expressions that come straight from a table column
+  const tableInfo = new Map<string, SQLiteTableColumn[]>();
+  for (const col of statementColumns) {
+    if (col.table && !tableInfo.has(col.table)) {
+      const info = db
+        .prepare('SELECT name, "notnull", pk FROM pragma_table_info(?)')
+        .all(col.table) as SQLiteTableColumn[];
+      tableInfo.set(col.table, info);
+    }
+  }
+
+  return statementColumns.map((col) => {
+    const source = col.table && col.column
+      ? tableInfo.get(col.table)?.find((c) => c.name === col.column)
+      : undefined;
+    // An INTEGER PRIMARY KEY aliases the rowid and can never hold NULL
+    const rowidAlias = !!source?.pk && col.type?.toUpperCase() === 'INTEGER';
+    const nullable = source ? !(source.notnull || rowidAlias) : undefined;
+    return column(col.name, col.type || 'unknown', nullable);
+  });
+}
+
+/**
+ * Fills in types for expression columns (no declared type) from the row values
+ */
+export function mergeInferredTypes(columns: ColumnInfo[], rows: Record<string, unknown>[]): ColumnInfo[] {
+  if (rows.length === 0) return columns;
+  const inferred = inferColumns(rows);
+  return columns.map((col) => {
+    if (col.type !== 'unknown') return col;
+    const match = inferred.find((c) => c.name === col.name);
+    return match ? { ...match, nullable: col.nullable ?? match.nullable } : col;
+  });
+}
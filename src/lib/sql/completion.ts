@@ -0,0 +1,442 @@
+/**
+ * SQL Editor Completion
+ *
+ * Works out what can be typed at the cursor from the statement around it, so
+ * the editor only offers tables after FROM/JOIN, only the aliased table's
+ * columns after `alias.`, and complete join clauses built from the schema's
+ * foreign keys after JOIN. Editor-agnostic: the Monaco component maps the
+ * suggestions and hover descriptions onto its own types.
+ */
+
+import { isSignificantToken, tokenizeSQL, type SQLToken } from './tokenizer';
+import type { ColumnSchema, SchemaInfo, TableInfo, ViewInfo } from '@/types/api';
+
+export type CompletionContextKind = 'table' | 'join' | 'column' | 'qualified' | 'keyword';
+
+export interface TableReference {
+  name: string;
+  schema?: string;
+  alias?: string;
+  // Offset of the reference in the statement, to tell tables joined so far
+  offset: number;
+}
+
+export interface CompletionContext {
+  kind: CompletionContextKind;
+  // Alias or table name before the dot for 'qualified'
+  qualifier?: string;
+  references: TableReference[];
+}
+
+export type CompletionSuggestionKind = 'keyword' | 'function' | 'table' | 'view' | 'column' | 'join';
+
+export interface CompletionSuggestion {
+  label: string;
+  kind: CompletionSuggestionKind;
+  insertText: string;
+  detail?: string;
+  documentation?: string;
+  sortText: string;
+}
+
+export type HoverTarget =
+  | { kind: 'table'; table: TableInfo | ViewInfo; start: number; end: number }
+  | { kind: 'column'; table: TableInfo | ViewInfo; column: ColumnSchema; start: number; end: number };
+
+export const SQL_KEYWORDS = [
+  'SELECT', 'FROM', 'WHERE', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER',
+  'ON', 'AND', 'OR', 'NOT', 'IN', 'LIKE', 'BETWEEN', 'IS', 'NULL',
+  'ORDER', 'BY', 'ASC', 'DESC', 'GROUP', 'HAVING', 'LIMIT', 'OFFSET',
+  'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'CREATE',
+  'TABLE', 'INDEX', 'VIEW', 'DROP', 'ALTER', 'ADD', 'COLUMN',
+  'PRIMARY', 'KEY', 'FOREIGN', 'REFERENCES', 'UNIQUE', 'DEFAULT',
+  'CONSTRAINT', 'CASCADE', 'UNION', 'ALL', 'DISTINCT', 'AS',
+  'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'CAST', 'COALESCE',
+  'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'WITH', 'RECURSIVE',
+];
+
+export const SQL_FUNCTIONS = [
+  'COUNT(*)', 'SUM()', 'AVG()', 'MIN()', 'MAX()', 'COALESCE()',
+  'NULLIF()', 'CAST()', 'CONVERT()', 'SUBSTRING()', 'CONCAT()',
+  'LOWER()', 'UPPER()', 'TRIM()', 'LENGTH()', 'NOW()', 'CURRENT_DATE',
+  'CURRENT_TIMESTAMP', 'DATE()', 'YEAR()', 'MONTH()', 'DAY()',
+];
+
+// Keywords that start a clause and decide what the clause expects
+const CLAUSE_KEYWORDS = new Set([
+  'SELECT', 'FROM', 'JOIN', 'WHERE', 'ON', 'GROUP', 'ORDER', 'HAVING',
+  'LIMIT', 'OFFSET', 'UNION', 'EXCEPT', 'INTERSECT', 'SET', 'INTO', 'UPDATE', 'USING', 'WITH', 'VALUES',
+]);
+
+const COLUMN_CLAUSES = new Set(['SELECT', 'WHERE', 'ON', 'GROUP', 'ORDER', 'HAVING', 'SET', 'USING']);
+
+// Words that end a table reference instead of naming its alias
+const NON_ALIAS_KEYWORDS = new Set([
+  'WHERE', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS', 'NATURAL', 'LATERAL',
+  'ON', 'USING', 'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'UNION', 'EXCEPT', 'INTERSECT',
+  'WINDOW', 'FETCH', 'FOR', 'SET', 'VALUES', 'RETURNING', 'AS',
+]);
+
+function isWord(token: SQLToken | undefined): token is SQLToken {
+  return !!token && (token.type === 'identifier' || token.type === 'quoted_identifier');
+}
+
+function keyword(token: SQLToken | undefined): string | null {
+  return token?.type === 'identifier' ? token.value.toUpperCase() : null;
+}
+
+function unquote(name: string): string {
+  return /^["`]/.test(name) ? name.slice(1, -1).replace(/""|``/g, (q) => q[0]) : name;
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Significant tokens of the statement containing the offset
+ */
+export function statementTokens(sql: string, offset: number): SQLToken[] {
+  const tokens = tokenizeSQL(sql);
+  let start = 0;
+  let end = tokens.length;
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].type !== 'semicolon') continue;
+    if (tokens[i].end <= offset) {
+      start = i + 1;
+    } else {
+      end = i;
+      break;
+    }
+  }
+  return tokens.slice(start, end).filter(isSignificantToken);
+}
+
+/**
+ * Tables named after FROM and JOIN, with their aliases. Subqueries are skipped.
+ */
+export function findTableReferences(tokens: SQLToken[]): TableReference[] {
+  const references: TableReference[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const word = keyword(tokens[i]);
+    if (word !== 'FROM' && word !== 'JOIN') continue;
+
+    let j = i + 1;
+    while (isWord(tokens[j])) {
+      const parts = [unquote(tokens[j].value)];
+      const offset = tokens[j].start;
+      j++;
+      while (tokens[j]?.value === '.' && isWord(tokens[j + 1])) {
+        parts.push(unquote(tokens[j + 1].value));
+        j += 2;
+      }
+
+      const reference: TableReference = { name: parts[parts.length - 1], offset };
+      if (parts.length > 1) reference.schema = parts[parts.length - 2];
+
+      if (keyword(tokens[j]) === 'AS' && isWord(tokens[j + 1])) {
+        reference.alias = unquote(tokens[j + 1].value);
+        j += 2;
+      } else if (isWord(tokens[j]) && !NON_ALIAS_KEYWORDS.has(keyword(tokens[j]) ?? '')) {
+        reference.alias = unquote(tokens[j].value);
+        j++;
+      }
+      references.push(reference);
+
+      // Comma-separated FROM lists name further tables
+      if (word !== 'FROM' || tokens[j]?.value !== ',') break;
+      j++;
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Classifies the cursor position. `offset` is where the word being typed
+ * starts, so the partial word itself is not taken as context.
+ */
+export function getCompletionContext(sql: string, offset: number): CompletionContext {
+  const tokens = statementTokens(sql, offset);
+  const references = findTableReferences(tokens);
+  const before = tokens.filter((token) => token.end <= offset);
+  const last = before[before.length - 1];
+
+  if (last?.value === '.' && isWord(before[before.length - 2])) {
+    return { kind: 'qualified', qualifier: unquote(before[before.length - 2].value), references };
+  }
+
+  const lastWord = keyword(last);
+  if (lastWord === 'JOIN') return { kind: 'join', references };
+  if (lastWord === 'FROM' || lastWord === 'INTO' || lastWord === 'UPDATE' || lastWord === 'TABLE') {
+    return { kind: 'table', references };
+  }
+
+  // Nearest clause keyword before the cursor, outside parentheses closed since
+  let depth = 0;
+  let clause: string | null = null;
+  for (let i = before.length - 1; i >= 0; i--) {
+    const token = before[i];
+    if (token.value === ')') depth++;
+    else if (token.value === '(') {
+      if (depth === 0) break;
+      depth--;
+    } else if (depth === 0) {
+      const word = keyword(token);
+      if (word && CLAUSE_KEYWORDS.has(word) && before[i - 1]?.value !== '.') {
+        clause = word;
+        break;
+      }
+    }
+  }
+
+  if ((clause === 'FROM' || clause === 'JOIN') && last?.value === ',') {
+    return { kind: 'table', references };
+  }
+  if (clause && COLUMN_CLAUSES.has(clause)) {
+    return { kind: 'column', references };
+  }
+  return { kind: 'keyword', references };
+}
+
+export function findTable(schema: SchemaInfo, name: string, schemaName?: string): TableInfo | ViewInfo | undefined {
+  const matches = (t: TableInfo | ViewInfo) =>
+    sameName(t.name, name) && (!schemaName || !t.schema || sameName(t.schema, schemaName));
+  return schema.tables.find(matches) ?? schema.views.find(matches);
+}
+
+function resolveQualifier(
+  schema: SchemaInfo,
+  references: TableReference[],
+  qualifier: string
+): TableInfo | ViewInfo | undefined {
+  const reference =
+    references.find((r) => r.alias && sameName(r.alias, qualifier)) ??
+    references.find((r) => !r.alias && sameName(r.name, qualifier));
+  return reference ? findTable(schema, reference.name, reference.schema) : findTable(schema, qualifier);
+}
+
+function isPrimaryKey(table: TableInfo | ViewInfo, column: ColumnSchema): boolean {
+  return !!column.isPrimaryKey || !!('primaryKey' in table && table.primaryKey?.includes(column.name));
+}
+
+/**
+ * Short alias from a table name's initials (order_items -> oi), numbered
+ * when already taken
+ */
+export function makeAlias(tableName: string, taken: string[]): string {
+  const base = tableName
+    .split(/[_\s]+|(?=[A-Z])/)
+    .filter(Boolean)
+    .map((part) => part[0].toLowerCase())
+    .join('') || 't';
+  const used = new Set(taken.map((alias) => alias.toLowerCase()));
+  let alias = base;
+  for (let n = 2; used.has(alias); n++) alias = `${base}${n}`;
+  return alias;
+}
+
+/**
+ * Join clauses connecting a new table to the tables already in the query,
+ * following foreign keys in both directions
+ */
+export function buildJoinSuggestions(schema: SchemaInfo, references: TableReference[]): CompletionSuggestion[] {
+  const suggestions: CompletionSuggestion[] = [];
+  const taken = references.map((r) => r.alias ?? r.name);
+  const seen = new Set<string>();
+
+  const add = (target: TableInfo, condition: (alias: string) => string) => {
+    const alias = makeAlias(target.name, taken);
+    const clause = `${target.name} ${alias} ON ${condition(alias)}`;
+    if (seen.has(clause)) return;
+    seen.add(clause);
+    suggestions.push({
+      label: clause,
+      kind: 'join',
+      insertText: clause,
+      detail: 'Join on foreign key',
+      sortText: `0_${suggestions.length.toString().padStart(3, '0')}`,
+    });
+  };
+
+  for (const reference of references) {
+    const table = schema.tables.find((t) => sameName(t.name, reference.name));
+    if (!table) continue;
+    const source = reference.alias ?? reference.name;
+
+    // Tables this one points to
+    for (const fk of table.foreignKeys ?? []) {
+      const target = schema.tables.find((t) => sameName(t.name, fk.referencedTable));
+      if (target) {
+        add(target, (alias) => `${source}.${fk.column} = ${alias}.${fk.referencedColumn}`);
+      }
+    }
+
+    // Tables pointing to this one
+    for (const other of schema.tables) {
+      for (const fk of other.foreignKeys ?? []) {
+        if (sameName(fk.referencedTable, table.name)) {
+          add(other, (alias) => `${alias}.${fk.column} = ${source}.${fk.referencedColumn}`);
+        }
+      }
+    }
+  }
+
+  return suggestions;
+}
+
+function describeColumn(table: TableInfo | ViewInfo, column: ColumnSchema): string {
+  const parts = [column.type, column.nullable ? 'nullable' : 'not null'];
+  if (isPrimaryKey(table, column)) parts.push('primary key');
+  const fk = 'foreignKeys' in table ? table.foreignKeys?.find((f) => f.column === column.name) : undefined;
+  if (fk) parts.push(`references ${fk.referencedTable}.${fk.referencedColumn}`);
+  return parts.join(' · ') + (column.comment ? `\n\n${column.comment}` : '');
+}
+
+function tableSuggestion(table: TableInfo | ViewInfo, kind: 'table' | 'view'): CompletionSuggestion {
+  return {
+    label: table.name,
+    kind,
+    insertText: table.name,
+    detail: kind === 'table' ? 'Table' : 'View',
+    documentation: `Columns: ${table.columns.map((c) => c.name).join(', ')}`,
+    sortText: `2_${table.name}`,
+  };
+}
+
+function columnSuggestions(table: TableInfo | ViewInfo, sortPrefix: string): CompletionSuggestion[] {
+  return table.columns.map((column) => ({
+    label: column.name,
+    kind: 'column',
+    insertText: column.name,
+    detail: `Column from ${table.name}`,
+    documentation: describeColumn(table, column),
+    sortText: `${sortPrefix}_${column.name}`,
+  }));
+}
+
+function keywordSuggestions(): CompletionSuggestion[] {
+  return [
+    ...SQL_KEYWORDS.map((word): CompletionSuggestion => ({
+      label: word,
+      kind: 'keyword',
+      insertText: word,
+      sortText: `0_${word}`,
+    })),
+    ...SQL_FUNCTIONS.map((func): CompletionSuggestion => ({
+      label: func,
+      kind: 'function',
+      insertText: func,
+      sortText: `1_${func}`,
+    })),
+  ];
+}
+
+/**
+ * Suggestions for the cursor position. `offset` is where the word being
+ * typed starts.
+ */
+export function getCompletionSuggestions(
+  sql: string,
+  offset: number,
+  schema: SchemaInfo | null | undefined
+): CompletionSuggestion[] {
+  const context = getCompletionContext(sql, offset);
+  const tables = schema?.tables ?? [];
+  const views = schema?.views ?? [];
+
+  switch (context.kind) {
+    case 'qualified': {
+      const table = schema && resolveQualifier(schema, context.references, context.qualifier!);
+      return table ? columnSuggestions(table, '0') : [];
+    }
+
+    case 'table':
+      return [...tables.map((t) => tableSuggestion(t, 'table')), ...views.map((v) => tableSuggestion(v, 'view'))];
+
+    case 'join': {
+      const joined = context.references.filter((r) => r.offset < offset);
+      return [
+        ...(schema ? buildJoinSuggestions(schema, joined) : []),
+        ...tables.map((t) => tableSuggestion(t, 'table')),
+        ...views.map((v) => tableSuggestion(v, 'view')),
+      ];
+    }
+
+    case 'column': {
+      // Columns of the tables in the query; every column when none are named yet
+      const inScope = schema
+        ? context.references
+            .map((r) => findTable(schema, r.name, r.schema))
+            .filter((t): t is TableInfo | ViewInfo => !!t)
+        : [];
+      const sources = inScope.length > 0 ? inScope : [...tables, ...views];
+      const qualifiers = context.references.map((r) => r.alias ?? r.name);
+      return [
+        ...sources.flatMap((t) => columnSuggestions(t, inScope.length > 0 ? '0' : '3')),
+        ...qualifiers.map((q): CompletionSuggestion => ({
+          label: q,
+          kind: 'table',
+          insertText: q,
+          detail: 'Table alias',
+          sortText: `1_${q}`,
+        })),
+        ...keywordSuggestions().map((s) => ({ ...s, sortText: `4_${s.sortText}` })),
+      ];
+    }
+
+    default:
+      return [
+        ...keywordSuggestions(),
+        ...tables.map((t) => tableSuggestion(t, 'table')),
+        ...views.map((v) => tableSuggestion(v, 'view')),
+      ];
+  }
+}
+
+/**
+ * Resolves the identifier at the offset to a table or column of the schema,
+ * following aliases of the statement it is in
+ */
+export function findHoverTarget(sql: string, offset: number, schema: SchemaInfo): HoverTarget | null {
+  const tokens = statementTokens(sql, offset);
+  const index = tokens.findIndex((t) => t.start <= offset && offset <= t.end && isWord(t));
+  if (index === -1) return null;
+
+  const token = tokens[index];
+  const name = unquote(token.value);
+  const references = findTableReferences(tokens);
+  const range = { start: token.start, end: token.end };
+
+  // alias.column or table.column
+  if (tokens[index - 1]?.value === '.' && isWord(tokens[index - 2])) {
+    const table = resolveQualifier(schema, references, unquote(tokens[index - 2].value));
+    const column = table?.columns.find((c) => sameName(c.name, name));
+    if (table && column) return { kind: 'column', table, column, ...range };
+    if (table) return null;
+  }
+
+  const table = resolveQualifier(schema, references, name);
+  if (table) return { kind: 'table', table, ...range };
+
+  for (const reference of references) {
+    const candidate = findTable(schema, reference.name, reference.schema);
+    const column = candidate?.columns.find((c) => sameName(c.name, name));
+    if (candidate && column) return { kind: 'column', table: candidate, column, ...range };
+  }
+
+  return null;
+}
+
+/**
+ * Markdown for a hover target
+ */
+export function describeHoverTarget(schema: SchemaInfo, target: HoverTarget): string {
+  if (target.kind === 'column') {
+    return `**${target.table.name}.${target.column.name}**\n\n${describeColumn(target.table, target.column)}`;
+  }
+  const kind = schema.views.includes(target.table as ViewInfo) ? 'View' : 'Table';
+  const columns = target.table.columns.map((c) => `${c.name} ${c.type}`).join(', ');
+  return `**${kind} ${target.table.name}**\n\n${columns}`;
+}
@@ -0,0 +1,38 @@
+/**
+ * SQL Dialects
+ *
+ * Maps each data source client type to the node-sql-parser grammar used for
+ * validation and analysis and to the sql-formatter language. Oracle and DuckDB
+ * have no node-sql-parser grammar, so they borrow the PostgreSQL one for
+ * analysis only: their syntax errors are not reported, since they would be
+ * spurious.
+ */
+
+import type { SqlLanguage } from 'sql-formatter';
+import type { DatabaseClientType } from '@/types/database';
+
+export type ParserDatabase = 'postgresql' | 'mysql' | 'transactsql' | 'sqlite';
+
+export interface SQLDialect {
+  label: string;
+  parser: ParserDatabase;
+  // False when the grammar is borrowed from another database
+  hasGrammar: boolean;
+  formatter: SqlLanguage;
+}
+
+export const SQL_DIALECTS: Record<DatabaseClientType, SQLDialect> = {
+  pg: { label: 'PostgreSQL', parser: 'postgresql', hasGrammar: true, formatter: 'postgresql' },
+  mysql: { label: 'MySQL', parser: 'mysql', hasGrammar: true, formatter: 'mysql' },
+  mssql: { label: 'SQL Server', parser: 'transactsql', hasGrammar: true, formatter: 'transactsql' },
+  sqlite3: { label: 'SQLite', parser: 'sqlite', hasGrammar: true, formatter: 'sqlite' },
+  oracledb: { label: 'Oracle', parser: 'postgresql', hasGrammar: false, formatter: 'plsql' },
+  duckdb: { label: 'DuckDB', parser: 'postgresql', hasGrammar: false, formatter: 'duckdb' },
+};
+
+/**
+ * Dialect of a client type; unknown types are treated as PostgreSQL
+ */
+export function getDialect(clientType: string | undefined): SQLDialect {
+  return SQL_DIALECTS[clientType as DatabaseClientType] ?? SQL_DIALECTS.pg;
+}
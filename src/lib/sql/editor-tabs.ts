@@ -0,0 +1,247 @@
+/**
+ * SQL Editor Tabs
+ *
+ * Each user's SQL editor workspace: named tabs with their SQL, data source,
+ * cursor and a summary of the last run, autosaved by the editor. A tab can
+ * be shared read-only through a random token, which is revoked by clearing it.
+ */
+
+import { getDb } from '@/lib/db/config';
+import { generateSecureToken } from '@/lib/security/encryption';
+import { v4 as uuidv4 } from 'uuid';
+import type { DataSource, SavedQuery, SQLEditorTab, User } from '@/types/database';
+import type { SharedSQLEditorTab, SQLEditorTabChanges, SQLEditorTabResult } from '@/types/api';
+
+const DEFAULT_SQL = 'SELECT * FROM users LIMIT 10;';
+const MAX_NAME_LENGTH = 100;
+// The last result is a summary; rows are never stored
+const MAX_RESULT_COLUMNS = 200;
+const MAX_ERROR_LENGTH = 2000;
+
+export class EditorTabValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EditorTabValidationError';
+  }
+}
+
+export function parseTabResult(value: string | null | undefined): SQLEditorTabResult | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as SQLEditorTabResult;
+  } catch {
+    return null;
+  }
+}
+
+function isPosition(value: unknown): value is { lineNumber: number; column: number } {
+  const position = value as { lineNumber?: unknown; column?: unknown };
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Number.isInteger(position.lineNumber) &&
+    Number.isInteger(position.column) &&
+    (position.lineNumber as number) > 0 &&
+    (position.column as number) > 0
+  );
+}
+
+function toResultSummary(value: unknown): SQLEditorTabResult {
+  const input = value as Record<string, unknown>;
+  if (typeof value !== 'object' || value === null || typeof input.executedAt !== 'string') {
+    throw new EditorTabValidationError('lastResult must be an object with executedAt');
+  }
+  return {
+    executedAt: input.executedAt,
+    rowCount: typeof input.rowCount === 'number' ? input.rowCount : undefined,
+    executionTime: typeof input.executionTime === 'number' ? input.executionTime : undefined,
+    columns: Array.isArray(input.columns)
+      ? input.columns.filter((c): c is string => typeof c === 'string').slice(0, MAX_RESULT_COLUMNS)
+      : undefined,
+    truncated: typeof input.truncated === 'boolean' ? input.truncated : undefined,
+    error: typeof input.error === 'string' ? input.error.substring(0, MAX_ERROR_LENGTH) : undefined,
+  };
+}
+
+/**
+ * The user's tabs in order; a first tab is created for new users
+ */
+export async function listEditorTabs(userId: string): Promise<SQLEditorTab[]> {
+  const db = getDb();
+
+  // Concurrent first loads must not both create a tab
+  await db.transaction(async (trx) => {
+    const existing = await trx('sql_editor_tabs').where('user_id', userId).first('id');
+    if (!existing) {
+      await trx<SQLEditorTab>('sql_editor_tabs').insert({
+        id: uuidv4(),
+        user_id: userId,
+        name: 'Query 1',
+        sql_content: DEFAULT_SQL,
+        position: 0,
+        is_active: true,
+      });
+    }
+  });
+
+  return db<SQLEditorTab>('sql_editor_tabs').where('user_id', userId).orderBy('position');
+}
+
+export async function getEditorTab(userId: string, id: string): Promise<SQLEditorTab | undefined> {
+  return getDb()<SQLEditorTab>('sql_editor_tabs').where({ id, user_id: userId }).first();
+}
+
+/**
+ * Column updates for the given changes, after validating them
+ */
+async function toColumns(changes: SQLEditorTabChanges): Promise<Partial<SQLEditorTab>> {
+  const db = getDb();
+  const columns: Partial<SQLEditorTab> = {};
+
+  if (changes.name !== undefined) {
+    if (typeof changes.name !== 'string' || !changes.name.trim() || changes.name.length > MAX_NAME_LENGTH) {
+      throw new EditorTabValidationError(`Tab name must be 1 to ${MAX_NAME_LENGTH} characters`);
+    }
+    columns.name = changes.name.trim();
+  }
+  if (changes.sqlContent !== undefined) {
+    if (typeof changes.sqlContent !== 'string') {
+      throw new EditorTabValidationError('sqlContent must be a string');
+    }
+    columns.sql_content = changes.sqlContent;
+  }
+  if (changes.dataSourceId !== undefined) {
+    if (changes.dataSourceId && !(await db<DataSource>('data_sources').where('id', changes.dataSourceId).first())) {
+      throw new EditorTabValidationError('Data source not found');
+    }
+    columns.data_source_id = changes.dataSourceId || null;
+  }
+  if (changes.savedQueryId !== undefined) {
+    if (changes.savedQueryId && !(await db<SavedQuery>('saved_queries').where('id', changes.savedQueryId).first())) {
+      throw new EditorTabValidationError('Saved query not found');
+    }
+    columns.saved_query_id = changes.savedQueryId || null;
+  }
+  if (changes.cursor !== undefined) {
+    if (changes.cursor !== null && !isPosition(changes.cursor)) {
+      throw new EditorTabValidationError('cursor must have a positive lineNumber and column');
+    }
+    columns.cursor_line = changes.cursor?.lineNumber ?? null;
+    columns.cursor_column = changes.cursor?.column ?? null;
+  }
+  if (changes.lastResult !== undefined) {
+    columns.last_result = changes.lastResult === null ? null : JSON.stringify(toResultSummary(changes.lastResult));
+  }
+  return columns;
+}
+
+export async function createEditorTab(userId: string, changes: SQLEditorTabChanges = {}): Promise<SQLEditorTab> {
+  const db = getDb();
+  const columns = await toColumns(changes);
+
+  const last = (await db('sql_editor_tabs').where('user_id', userId).max('position as position').first()) as
+    | { position: number | null }
+    | undefined;
+  const count = await db('sql_editor_tabs').where('user_id', userId).count('* as count').first();
+  const position = last?.position == null ? 0 : Number(last.position) + 1;
+
+  const id = uuidv4();
+  await db.transaction(async (trx) => {
+    // New tabs open in front
+    await trx('sql_editor_tabs').where('user_id', userId).update({ is_active: false });
+    await trx<SQLEditorTab>('sql_editor_tabs').insert({
+      sql_content: '',
+      ...columns,
+      id,
+      user_id: userId,
+      name: columns.name ?? `Query ${Number((count as { count?: number })?.count || 0) + 1}`,
+      position,
+      is_active: true,
+    });
+  });
+
+  return (await db<SQLEditorTab>('sql_editor_tabs').where('id', id).first())!;
+}
+
+export async function updateEditorTab(
+  tab: SQLEditorTab,
+  changes: SQLEditorTabChanges
+): Promise<SQLEditorTab> {
+  const db = getDb();
+  const columns = await toColumns(changes);
+
+  await db.transaction(async (trx) => {
+    if (changes.isActive) {
+      await trx('sql_editor_tabs').where('user_id', tab.user_id).whereNot('id', tab.id).update({ is_active: false });
+    }
+    await trx('sql_editor_tabs')
+      .where('id', tab.id)
+      .update({
+        ...columns,
+        ...(typeof changes.isActive === 'boolean' ? { is_active: changes.isActive } : {}),
+        updated_at: new Date().toISOString(),
+      });
+  });
+
+  return (await db<SQLEditorTab>('sql_editor_tabs').where('id', tab.id).first())!;
+}
+
+/**
+ * Deletes a tab; closing the active tab activates its neighbour
+ */
+export async function deleteEditorTab(tab: SQLEditorTab): Promise<void> {
+  const db = getDb();
+  await db.transaction(async (trx) => {
+    await trx('sql_editor_tabs').where('id', tab.id).delete();
+    if (!tab.is_active) return;
+
+    const neighbour =
+      (await trx<SQLEditorTab>('sql_editor_tabs')
+        .where('user_id', tab.user_id)
+        .where('position', '<', tab.position)
+        .orderBy('position', 'desc')
+        .first()) ??
+      (await trx<SQLEditorTab>('sql_editor_tabs').where('user_id', tab.user_id).orderBy('position').first());
+    if (neighbour) {
+      await trx('sql_editor_tabs').where('id', neighbour.id).update({ is_active: true });
+    }
+  });
+}
+
+/**
+ * Creates the tab's share token, keeping an existing one so earlier links
+ * stay valid
+ */
+export async function shareEditorTab(tab: SQLEditorTab): Promise<SQLEditorTab> {
+  if (tab.share_token) return tab;
+  const db = getDb();
+  await db('sql_editor_tabs').where('id', tab.id).update({ share_token: generateSecureToken(24) });
+  return (await db<SQLEditorTab>('sql_editor_tabs').where('id', tab.id).first())!;
+}
+
+export async function unshareEditorTab(tab: SQLEditorTab): Promise<SQLEditorTab> {
+  const db = getDb();
+  await db('sql_editor_tabs').where('id', tab.id).update({ share_token: null });
+  return (await db<SQLEditorTab>('sql_editor_tabs').where('id', tab.id).first())!;
+}
+
+export async function getSharedEditorTab(token: string): Promise<SharedSQLEditorTab | undefined> {
+  const db = getDb();
+  const tab = await db<SQLEditorTab>('sql_editor_tabs').where('share_token', token).first();
+  if (!tab) return undefined;
+
+  const [dataSource, owner] = await Promise.all([
+    tab.data_source_id ? db<DataSource>('data_sources').where('id', tab.data_source_id).first() : undefined,
+    db<User>('users').where('id', tab.user_id).first(),
+  ]);
+
+  return {
+    name: tab.name,
+    sqlContent: tab.sql_content,
+    dataSourceId: tab.data_source_id ?? null,
+    dataSourceName: dataSource?.name ?? null,
+    ownerName: owner?.display_name ?? null,
+    lastResult: parseTabResult(tab.last_result),
+    updatedAt: tab.updated_at,
+  };
+}
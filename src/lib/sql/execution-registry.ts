@@ -0,0 +1,201 @@
+/**
+ * Running Query Registry
+ *
+ * Tracks in-flight SQL editor executions so they can be listed and cancelled
+ * from another request. Execution ids are chosen by the client, so entries
+ * are keyed by user and id: one user's id never reaches another user's query. Cancellation asks the
+ * database to stop the statement on the backend session that is running it:
+ *
+ * - PostgreSQL: `pg_cancel_backend(pid)`
+ * - MySQL: `KILL QUERY <connection id>`
+ * - SQL Server: `KILL <spid>` (ends the session; the transaction rolls back)
+ * - SQLite / Oracle / DuckDB: no out-of-band cancel is available. better-sqlite3
+ *   runs statements synchronously on the server's event loop, so the execution
+ *   is only marked `discarding` and its result dropped when the statement
+ *   returns; the statement itself runs to completion.
+ *
+ * The registry is process-local, like the connection pool it sits next to.
+ */
+
+import type { Knex } from 'knex';
+import type { DatabaseClientType } from '@/types/database';
+
+export interface RunningQuery {
+  executionId: string;
+  userId: string;
+  userEmail: string;
+  dataSourceId: string;
+  dataSourceName: string;
+  clientType: DatabaseClientType;
+  sql: string;
+  startedAt: string;
+  status: 'running' | 'cancelling' | 'discarding';
+}
+
+interface RegistryEntry extends RunningQuery {
+  connection: Knex;
+  // Database session running the statement, once known
+  backendId?: number;
+  cancelled: boolean;
+}
+
+// Identifies an execution: the client-supplied id within the user's own executions
+export interface ExecutionRef {
+  userId: string;
+  executionId: string;
+}
+
+export class QueryCancelledError extends Error {
+  constructor(executionId: string) {
+    super(`Query ${executionId} was cancelled`);
+    this.name = 'QueryCancelledError';
+  }
+}
+
+const runningQueries = new Map<string, RegistryEntry>();
+
+function registryKey({ userId, executionId }: ExecutionRef): string {
+  return JSON.stringify([userId, executionId]);
+}
+
+const EXECUTION_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+export function isValidExecutionId(executionId: unknown): executionId is string {
+  return typeof executionId === 'string' && EXECUTION_ID_PATTERN.test(executionId);
+}
+
+/**
+ * Adds an execution to the registry. Returns false if the user already has a
+ * running execution with the id.
+ */
+export function registerExecution(
+  query: Omit<RunningQuery, 'startedAt' | 'status'>,
+  connection: Knex
+): boolean {
+  const key = registryKey(query);
+  if (runningQueries.has(key)) {
+    return false;
+  }
+
+  runningQueries.set(key, {
+    ...query,
+    startedAt: new Date().toISOString(),
+    status: 'running',
+    connection,
+    cancelled: false,
+  });
+  return true;
+}
+
+export function unregisterExecution(ref: ExecutionRef): void {
+  runningQueries.delete(registryKey(ref));
+}
+
+export function getExecution(ref: ExecutionRef): RunningQuery | undefined {
+  const entry = runningQueries.get(registryKey(ref));
+  return entry ? toRunningQuery(entry) : undefined;
+}
+
+/**
+ * Whether the database can stop a running statement from another session
+ */
+export function canInterrupt(clientType: DatabaseClientType): boolean {
+  return clientType === 'pg' || clientType === 'mysql' || clientType === 'mssql';
+}
+
+export function isExecutionCancelled(ref: ExecutionRef): boolean {
+  return runningQueries.get(registryKey(ref))?.cancelled ?? false;
+}
+
+/**
+ * Lists running queries, optionally only those started by one user
+ */
+export function listRunningQueries(userId?: string): RunningQuery[] {
+  return Array.from(runningQueries.values())
+    .filter((entry) => !userId || entry.userId === userId)
+    .map(toRunningQuery)
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+function toRunningQuery(entry: RegistryEntry): RunningQuery {
+  return {
+    executionId: entry.executionId,
+    userId: entry.userId,
+    userEmail: entry.userEmail,
+    dataSourceId: entry.dataSourceId,
+    dataSourceName: entry.dataSourceName,
+    clientType: entry.clientType,
+    sql: entry.sql,
+    startedAt: entry.startedAt,
+    status: entry.status,
+  };
+}
+
+/**
+ * Looks up the database session id for the connection a transaction is
+ * using, so a later cancel request can target it. Must run inside the same
+ * transaction as the query.
+ */
+export async function attachBackend(ref: ExecutionRef, trx: Knex.Transaction): Promise<void> {
+  const entry = runningQueries.get(registryKey(ref));
+  if (!entry) return;
+
+  let sql: string;
+  switch (entry.clientType) {
+    case 'pg':
+      sql = 'SELECT pg_backend_pid() AS backend_id';
+      break;
+    case 'mysql':
+      sql = 'SELECT CONNECTION_ID() AS backend_id';
+      break;
+    case 'mssql':
+      sql = 'SELECT @@SPID AS backend_id';
+      break;
+    default:
+      return;
+  }
+
+  const result = await trx.raw(sql);
+  // pg returns { rows }, mysql2 returns [rows, fields], mssql returns rows
+  const rows = result?.rows ?? (Array.isArray(result?.[0]) ? result[0] : result);
+  const backendId = Number(rows?.[0]?.backend_id);
+  if (Number.isInteger(backendId)) {
+    entry.backendId = backendId;
+  }
+
+  // The cancel request may have arrived before the session id was known
+  if (entry.cancelled) {
+    throw new QueryCancelledError(ref.executionId);
+  }
+}
+
+/**
+ * Cancels a running execution. Returns false if it is not (or no longer) running.
+ */
+export async function cancelExecution(ref: ExecutionRef): Promise<boolean> {
+  const entry = runningQueries.get(registryKey(ref));
+  if (!entry) return false;
+
+  entry.cancelled = true;
+  entry.status = canInterrupt(entry.clientType) ? 'cancelling' : 'discarding';
+
+  if (entry.backendId === undefined) {
+    return true;
+  }
+
+  // The id comes from the database as an integer, so it is safe to inline
+  // where the statement does not accept bindings
+  switch (entry.clientType) {
+    case 'pg':
+      await entry.connection.raw('SELECT pg_cancel_backend(?)', [entry.backendId]);
+      break;
+    case 'mysql':
+      await entry.connection.raw(`KILL QUERY ${entry.backendId}`);
+      break;
+    case 'mssql':
+      await entry.connection.raw(`KILL ${entry.backendId}`);
+      break;
+  }
+
+  return true;
+}
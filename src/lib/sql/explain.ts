@@ -0,0 +1,354 @@
+/**
+ * EXPLAIN Plan Capture
+ *
+ * Runs the dialect's EXPLAIN without executing the query and normalizes the
+ * output into a common plan tree:
+ *
+ * - PostgreSQL: `EXPLAIN (FORMAT JSON)`, costs in planner units
+ * - MySQL: `EXPLAIN FORMAT=JSON`, costs from `cost_info`
+ * - SQLite: `EXPLAIN QUERY PLAN`, which reports operations but no costs
+ * - SQL Server / Oracle: not supported
+ */
+
+import type { Knex } from 'knex';
+import { normalizeQueryResult } from './column-metadata';
+import { runReadOnly } from './read-only';
+import type { DatabaseClientType } from '@/types/database';
+import type { QueryCost, QueryPlan, QueryPlanFormat, QueryPlanNode } from '@/types/api';
+
+// A node spending at least this share of the total cost is flagged
+const HIGH_COST_SHARE = 0.3;
+
+const EXPLAIN_PREFIXES: Partial<Record<DatabaseClientType, { prefix: string; format: QueryPlanFormat }>> = {
+  pg: { prefix: 'EXPLAIN (FORMAT JSON) ', format: 'postgres-json' },
+  mysql: { prefix: 'EXPLAIN FORMAT=JSON ', format: 'mysql-json' },
+  sqlite3: { prefix: 'EXPLAIN QUERY PLAN ', format: 'sqlite-query-plan' },
+};
+
+type PlanProperties = QueryPlanNode['properties'];
+type PlanNodeInput = Omit<QueryPlanNode, 'id' | 'isHighCost' | 'costShare' | 'properties' | 'children'> & {
+  properties?: PlanProperties;
+  children?: QueryPlanNode[];
+  // Cost of this node excluding its children, when the format reports it
+  selfCost?: number;
+};
+
+export function isExplainSupported(clientType: DatabaseClientType | string): boolean {
+  return clientType in EXPLAIN_PREFIXES;
+}
+
+/**
+ * Prefixes the query with the dialect's EXPLAIN. Trailing semicolons are
+ * dropped so the statement stays a single EXPLAIN.
+ */
+export function buildExplainSQL(sql: string, clientType: DatabaseClientType): string {
+  const explain = EXPLAIN_PREFIXES[clientType];
+  if (!explain) {
+    throw new Error(`EXPLAIN is not supported for ${clientType} data sources`);
+  }
+  return explain.prefix + sql.trim().replace(/;+\s*$/, '');
+}
+
+/**
+ * Runs EXPLAIN inside a read-only transaction and returns the normalized plan
+ */
+export async function explainQuery(
+  connection: Knex,
+  clientType: DatabaseClientType,
+  sql: string,
+  bindings: Knex.Value[] = [],
+  timeout = 30000
+): Promise<QueryPlan> {
+  const explainSQL = buildExplainSQL(sql, clientType);
+  const raw = await runReadOnly(connection, clientType, async (trx) => {
+    const query = bindings.length > 0 ? trx.raw(explainSQL, bindings) : trx.raw(explainSQL);
+    return clientType === 'sqlite3' ? query : query.timeout(timeout, { cancel: true });
+  });
+
+  const { rows } = normalizeQueryResult(raw, clientType);
+  switch (clientType) {
+    case 'pg':
+      return parsePostgresPlan(rows);
+    case 'mysql':
+      return parseMySQLPlan(rows);
+    default:
+      return parseSQLitePlan(rows);
+  }
+}
+
+/**
+ * Summarizes a plan as the cost estimate reported by SQL validation
+ */
+export function summarizePlan(plan: QueryPlan): QueryCost {
+  const notes: string[] = [];
+  if (plan.sequentialScans.length > 0) {
+    notes.push(`Full scan of ${plan.sequentialScans.join(', ')}`);
+  }
+  const expensive = collectNodes(plan.nodes).filter((node) => node.isHighCost);
+  if (expensive.length > 0) {
+    notes.push(`Most cost in ${expensive.map(describeNode).join(', ')}`);
+  }
+
+  return {
+    estimatedRows: plan.estimatedRows,
+    estimatedCost: plan.totalCost,
+    explanation: notes.length > 0 ? notes.join('; ') : undefined,
+  };
+}
+
+export function parsePostgresPlan(rows: Record<string, unknown>[]): QueryPlan {
+  const raw = parseJSONValue(rows[0]?.['QUERY PLAN']);
+  const entry = Array.isArray(raw) ? raw[0] : raw;
+  const root = isRecord(entry) && isRecord(entry.Plan) ? entry.Plan : null;
+  if (!root) {
+    throw new Error('Unexpected EXPLAIN output from PostgreSQL');
+  }
+
+  const convert = (node: Record<string, unknown>): QueryPlanNode => {
+    const children = Array.isArray(node.Plans) ? node.Plans.filter(isRecord).map(convert) : [];
+    const nodeType = String(node['Node Type'] ?? 'Unknown');
+    const totalCost = toNumber(node['Total Cost']);
+    const childCost = children.reduce((sum, child) => sum + (child.estimatedCost ?? 0), 0);
+    return createNode({
+      operation: node['Join Type'] ? `${node['Join Type']} ${nodeType}` : nodeType,
+      relation: toOptionalString(node['Relation Name'] ?? node['CTE Name'] ?? node['Function Name']),
+      index: toOptionalString(node['Index Name']),
+      condition: toOptionalString(
+        node['Index Cond'] ?? node['Hash Cond'] ?? node['Merge Cond'] ?? node['Join Filter'] ?? node.Filter
+      ),
+      estimatedRows: toNumber(node['Plan Rows']),
+      estimatedCost: totalCost,
+      selfCost: totalCost !== undefined ? Math.max(0, totalCost - childCost) : undefined,
+      isSequentialScan: nodeType === 'Seq Scan',
+      properties: scalarProperties(node, ['Plans']),
+      children,
+    });
+  };
+
+  const top = convert(root);
+  return finishPlan('postgres-json', [top], raw, top.estimatedCost, top.estimatedRows);
+}
+
+// MySQL JSON keys holding a plan operation, and how to label them
+const MYSQL_OPERATIONS: Record<string, string> = {
+  query_block: 'Query Block',
+  nested_loop: 'Nested Loop',
+  ordering_operation: 'Sort',
+  grouping_operation: 'Group',
+  duplicates_removal: 'Duplicates Removal',
+  windowing: 'Window',
+  union_result: 'Union',
+  materialized_from_subquery: 'Materialized Subquery',
+  buffer_result: 'Buffer Result',
+};
+
+// MySQL JSON keys holding lists of nested query blocks
+const MYSQL_BLOCK_LISTS = [
+  'query_specifications',
+  'subqueries',
+  'attached_subqueries',
+  'optimized_away_subqueries',
+  'order_by_subqueries',
+  'group_by_subqueries',
+  'having_subqueries',
+  'select_list_subqueries',
+];
+
+const MYSQL_ACCESS_TYPES: Record<string, string> = {
+  ALL: 'Full Table Scan',
+  index: 'Full Index Scan',
+  range: 'Index Range Scan',
+  ref: 'Index Lookup',
+  eq_ref: 'Unique Index Lookup',
+  const: 'Constant Lookup',
+  system: 'Constant Lookup',
+  fulltext: 'Fulltext Search',
+  index_merge: 'Index Merge',
+};
+
+export function parseMySQLPlan(rows: Record<string, unknown>[]): QueryPlan {
+  const raw = parseJSONValue(rows[0]?.EXPLAIN);
+  if (!isRecord(raw) || !isRecord(raw.query_block)) {
+    throw new Error('Unexpected EXPLAIN output from MySQL');
+  }
+
+  const top = convertMySQLNode('query_block', raw.query_block);
+  const tables = collectNodes([top]).filter((node) => node.relation);
+  // The last table joined carries the row estimate for the whole join
+  const estimatedRows = tables.length > 0 ? tables[tables.length - 1].estimatedRows : undefined;
+  return finishPlan('mysql-json', [top], raw, top.estimatedCost, estimatedRows);
+}
+
+function convertMySQLNode(key: string, value: Record<string, unknown>): QueryPlanNode {
+  const costInfo = isRecord(value.cost_info) ? value.cost_info : {};
+
+  if (key === 'table') {
+    const accessType = String(value.access_type ?? '');
+    const readCost = toNumber(costInfo.read_cost);
+    const evalCost = toNumber(costInfo.eval_cost);
+    return createNode({
+      operation: MYSQL_ACCESS_TYPES[accessType] ?? (accessType ? `${accessType} access` : 'Table'),
+      relation: toOptionalString(value.table_name),
+      index: toOptionalString(value.key),
+      condition: toOptionalString(value.attached_condition),
+      estimatedRows: toNumber(value.rows_produced_per_join ?? value.rows_examined_per_scan),
+      estimatedCost: toNumber(costInfo.prefix_cost),
+      selfCost: readCost !== undefined || evalCost !== undefined ? (readCost ?? 0) + (evalCost ?? 0) : undefined,
+      isSequentialScan: accessType === 'ALL',
+      properties: { ...scalarProperties(value), ...scalarProperties(costInfo) },
+      children: mysqlChildren(value),
+    });
+  }
+
+  const children = mysqlChildren(value);
+  const cost = toNumber(costInfo.query_cost ?? costInfo.sort_cost);
+  return createNode({
+    operation: MYSQL_OPERATIONS[key] ?? key,
+    estimatedCost: cost,
+    selfCost: key === 'query_block' ? 0 : cost,
+    isSequentialScan: false,
+    properties: { ...scalarProperties(value), ...scalarProperties(costInfo) },
+    children,
+  });
+}
+
+function mysqlChildren(value: Record<string, unknown>): QueryPlanNode[] {
+  const children: QueryPlanNode[] = [];
+  for (const [key, child] of Object.entries(value)) {
+    if (key === 'table' && isRecord(child)) {
+      children.push(convertMySQLNode(key, child));
+    } else if (key === 'nested_loop' && Array.isArray(child)) {
+      children.push(
+        createNode({
+          operation: MYSQL_OPERATIONS.nested_loop,
+          isSequentialScan: false,
+          children: child.filter(isRecord).flatMap(mysqlChildren),
+        })
+      );
+    } else if (key in MYSQL_OPERATIONS && isRecord(child)) {
+      children.push(convertMySQLNode(key, child));
+    } else if (MYSQL_BLOCK_LISTS.includes(key) && Array.isArray(child)) {
+      children.push(...child.filter(isRecord).flatMap(mysqlChildren));
+    }
+  }
+  return children;
+}
+
+export function parseSQLitePlan(rows: Record<string, unknown>[]): QueryPlan {
+  const byId = new Map<number, QueryPlanNode>();
+  const roots: QueryPlanNode[] = [];
+
+  // Rows arrive in tree order, so a parent is always seen before its children
+  for (const row of rows) {
+    const detail = String(row.detail ?? '');
+    const scan = detail.match(/^(SCAN|SEARCH)(?: TABLE)? (\S+)(?: AS (\S+))?(?: USING (?:COVERING |INTEGER PRIMARY KEY|PRIMARY KEY)?(?:INDEX )?(\S+)?)?(?: \((.+)\))?/);
+    const node = createNode({
+      operation: scan ? (scan[1] === 'SCAN' ? 'Scan' : 'Search') : detail,
+      relation: scan?.[2],
+      index: scan?.[4],
+      condition: scan?.[5],
+      isSequentialScan: !!scan && scan[1] === 'SCAN' && !/ USING /.test(detail),
+      properties: { detail },
+    });
+
+    const parent = byId.get(Number(row.parent));
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+    byId.set(Number(row.id), node);
+  }
+
+  return finishPlan('sqlite-query-plan', roots, rows, undefined, undefined);
+}
+
+function createNode({ selfCost, properties, children, ...fields }: PlanNodeInput): QueryPlanNode {
+  const node: QueryPlanNode & { selfCost?: number } = {
+    // Assigned in tree order by finishPlan
+    id: '',
+    ...fields,
+    isHighCost: false,
+    properties: properties ?? {},
+    children: children ?? [],
+  };
+  if (selfCost !== undefined) {
+    node.selfCost = selfCost;
+  }
+  return node;
+}
+
+/**
+ * Numbers nodes in tree order, works out each node's share of the total cost
+ * and collects the relations read by a full scan
+ */
+function finishPlan(
+  format: QueryPlanFormat,
+  nodes: QueryPlanNode[],
+  raw: unknown,
+  totalCost: number | undefined,
+  estimatedRows: number | undefined
+): QueryPlan {
+  const sequentialScans: string[] = [];
+  let index = 0;
+
+  const visit = (node: QueryPlanNode & { selfCost?: number }) => {
+    node.id = `node-${index++}`;
+    if (node.selfCost !== undefined && totalCost) {
+      node.costShare = Math.min(1, node.selfCost / totalCost);
+      node.isHighCost = node.costShare >= HIGH_COST_SHARE;
+    }
+    delete node.selfCost;
+    if (node.isSequentialScan && node.relation && !sequentialScans.includes(node.relation)) {
+      sequentialScans.push(node.relation);
+    }
+    node.children.forEach(visit);
+  };
+  nodes.forEach(visit);
+
+  return { format, nodes, totalCost, estimatedRows, sequentialScans, raw };
+}
+
+function collectNodes(nodes: QueryPlanNode[]): QueryPlanNode[] {
+  return nodes.flatMap((node) => [node, ...collectNodes(node.children)]);
+}
+
+function describeNode(node: QueryPlanNode): string {
+  return node.relation ? `${node.operation} on ${node.relation}` : node.operation;
+}
+
+function scalarProperties(value: Record<string, unknown>, exclude: string[] = []): PlanProperties {
+  const properties: PlanProperties = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (exclude.includes(key)) continue;
+    if (item === null || ['string', 'number', 'boolean'].includes(typeof item)) {
+      properties[key] = item as string | number | boolean | null;
+    } else if (Array.isArray(item) && item.every((v) => typeof v === 'string')) {
+      properties[key] = item.join(', ');
+    }
+  }
+  return properties;
+}
+
+function parseJSONValue(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : undefined;
+}
+
+function toOptionalString(value: unknown): string | undefined {
+  return value === null || value === undefined ? undefined : String(value);
+}
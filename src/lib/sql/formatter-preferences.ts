@@ -0,0 +1,50 @@
+/**
+ * SQL Formatter Preferences
+ *
+ * Each user's formatting preferences, stored in `user_preferences`.
+ */
+
+import { getDb } from '@/lib/db/config';
+import { v4 as uuidv4 } from 'uuid';
+import { parseFormatterPreferences } from './formatter';
+import type { UserPreference } from '@/types/database';
+import type { SQLFormatterPreferences } from '@/types/api';
+
+const PREFERENCE_KEY = 'sql_formatter';
+
+/**
+ * The user's preferences, or the defaults when none are stored
+ */
+export async function getFormatterPreferences(userId: string): Promise<SQLFormatterPreferences> {
+  const row = await getDb()<UserPreference>('user_preferences')
+    .where({ user_id: userId, key: PREFERENCE_KEY })
+    .first();
+  return parseFormatterPreferences(row?.value);
+}
+
+export async function saveFormatterPreferences(
+  userId: string,
+  preferences: SQLFormatterPreferences
+): Promise<SQLFormatterPreferences> {
+  const db = getDb();
+  const value = JSON.stringify(preferences);
+
+  const existing = await db<UserPreference>('user_preferences')
+    .where({ user_id: userId, key: PREFERENCE_KEY })
+    .first();
+
+  if (existing) {
+    await db('user_preferences')
+      .where('id', existing.id)
+      .update({ value, updated_at: new Date().toISOString() });
+  } else {
+    await db<UserPreference>('user_preferences').insert({
+      id: uuidv4(),
+      user_id: userId,
+      key: PREFERENCE_KEY,
+      value,
+    });
+  }
+
+  return preferences;
+}
@@ -0,0 +1,101 @@
+/**
+ * SQL Formatting
+ *
+ * Formats SQL in the data source's dialect with the user's preferences.
+ * Client-safe: used by the editor's format command and by validation.
+ */
+
+import { format } from 'sql-formatter';
+import { getDialect } from './dialects';
+import { tokenizeSQL } from './tokenizer';
+import type { SQLFormatterPreferences } from '@/types/api';
+
+export const DEFAULT_FORMATTER_PREFERENCES: SQLFormatterPreferences = {
+  keywordCase: 'upper',
+  indentSize: 2,
+  useTabs: false,
+  commaPosition: 'trailing',
+};
+
+const KEYWORD_CASES: SQLFormatterPreferences['keywordCase'][] = ['upper', 'lower', 'preserve'];
+const COMMA_POSITIONS: SQLFormatterPreferences['commaPosition'][] = ['trailing', 'leading'];
+
+/**
+ * Preferences from stored or submitted JSON, with defaults for missing or
+ * invalid values
+ */
+export function parseFormatterPreferences(value: unknown): SQLFormatterPreferences {
+  let input: Record<string, unknown> = {};
+  try {
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      input = parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Fall back to the defaults
+  }
+
+  const indentSize = Number(input.indentSize);
+  return {
+    keywordCase: KEYWORD_CASES.includes(input.keywordCase as SQLFormatterPreferences['keywordCase'])
+      ? (input.keywordCase as SQLFormatterPreferences['keywordCase'])
+      : DEFAULT_FORMATTER_PREFERENCES.keywordCase,
+    indentSize:
+      Number.isInteger(indentSize) && indentSize >= 1 && indentSize <= 8
+        ? indentSize
+        : DEFAULT_FORMATTER_PREFERENCES.indentSize,
+    useTabs: typeof input.useTabs === 'boolean' ? input.useTabs : DEFAULT_FORMATTER_PREFERENCES.useTabs,
+    commaPosition: COMMA_POSITIONS.includes(input.commaPosition as SQLFormatterPreferences['commaPosition'])
+      ? (input.commaPosition as SQLFormatterPreferences['commaPosition'])
+      : DEFAULT_FORMATTER_PREFERENCES.commaPosition,
+  };
+}
+
+/**
+ * Moves commas that end a line to the start of the next one. sql-formatter
+ * has no option for it, so the formatted text is rewritten token by token.
+ */
+function moveCommasToLineStart(sql: string): string {
+  const tokens = tokenizeSQL(sql);
+  let output = '';
+  let pendingComma = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const next = tokens[i + 1];
+
+    if (token.value === ',' && next?.type === 'whitespace' && next.value.includes('\n')) {
+      pendingComma = true;
+      continue;
+    }
+    if (pendingComma && token.type === 'whitespace') {
+      output += token.value + ', ';
+      pendingComma = false;
+      continue;
+    }
+    output += token.value;
+  }
+
+  return output;
+}
+
+/**
+ * Formats SQL, returning it unchanged when the formatter cannot handle it
+ */
+export function formatSQLCode(
+  sql: string,
+  clientType: string = 'pg',
+  preferences: SQLFormatterPreferences = DEFAULT_FORMATTER_PREFERENCES
+): string {
+  try {
+    const formatted = format(sql, {
+      language: getDialect(clientType).formatter,
+      tabWidth: preferences.indentSize,
+      useTabs: preferences.useTabs,
+      keywordCase: preferences.keywordCase,
+    });
+    return preferences.commaPosition === 'leading' ? moveCommasToLineStart(formatted) : formatted;
+  } catch {
+    return sql;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * SQL Lint Engine
+ *
+ * Runs the lint rules over every parsed statement of a script with the
+ * severities configured for the data source and user.
+ */
+
+import type { AST } from 'node-sql-parser';
+import { groupStatementTokens } from '../tokenizer';
+import type { SQLWarning } from '../validator';
+import { LINT_RULES } from './rules';
+import type { LintRule, LintSettings, LintSeverity, LintStatement } from './types';
+
+const SEVERITIES: LintSeverity[] = ['off', 'info', 'warning', 'error'];
+
+export function isLintSeverity(value: unknown): value is LintSeverity {
+  return typeof value === 'string' && (SEVERITIES as string[]).includes(value);
+}
+
+export function resolveSeverity(rule: LintRule, settings: LintSettings = {}): LintSeverity {
+  return settings[rule.id] ?? rule.defaultSeverity;
+}
+
+function toStatements(sql: string, ast: AST | AST[]): LintStatement[] {
+  const asts = Array.isArray(ast) ? ast : [ast];
+  const tokens = groupStatementTokens(sql, asts.length);
+  return asts.map((statement, i) => ({ ast: statement, tokens: tokens[i] }));
+}
+
+function position(sql: string, offset: number): Pick<SQLWarning, 'line' | 'column'> {
+  const before = sql.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * Findings of the enabled rules, one per rule and statement
+ */
+export function lintSQL(sql: string, ast: AST | AST[], settings: LintSettings = {}): SQLWarning[] {
+  const warnings: SQLWarning[] = [];
+  const statements = toStatements(sql, ast);
+
+  for (const rule of LINT_RULES) {
+    const severity = resolveSeverity(rule, settings);
+    if (severity === 'off') continue;
+
+    for (const statement of statements) {
+      for (const finding of rule.detect(statement)) {
+        warnings.push({
+          message: finding.message,
+          type: rule.category,
+          code: rule.id,
+          severity,
+          offset: finding.offset,
+          length: finding.length,
+          ...(finding.offset !== undefined ? position(sql, finding.offset) : {}),
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Whether any rule is configured to block execution
+ */
+export function hasBlockingRules(settings: LintSettings = {}): boolean {
+  return LINT_RULES.some((rule) => resolveSeverity(rule, settings) === 'error');
+}
+
+/**
+ * Findings of rules configured to block execution
+ */
+export function getBlockingFindings(warnings: SQLWarning[]): SQLWarning[] {
+  return warnings.filter((warning) => warning.severity === 'error');
+}
@@ -0,0 +1,26 @@
+/**
+ * SQL Lint Module - Public API
+ * AST-based lint rules with severities configurable per role and data source
+ */
+
+// Types
+export type {
+  LintCategory,
+  LintFinding,
+  LintRule,
+  LintRuleId,
+  LintScope,
+  LintSettings,
+  LintSeverity,
+  LintStatement,
+} from './types';
+
+// Rules
+export { LINT_RULES, getLintRule, isLintRuleId } from './rules';
+
+// Engine
+export { lintSQL, resolveSeverity, isLintSeverity, getBlockingFindings, hasBlockingRules } from './engine';
+
+// Settings
+export { getLintSettings, listLintSettings, saveLintSetting, deleteLintSetting } from './settings';
+export type { LintSettingsTarget } from './settings';
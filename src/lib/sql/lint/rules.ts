@@ -0,0 +1,268 @@
+/**
+ * SQL Lint Rules
+ *
+ * Each rule inspects the parsed statement rather than the raw text, so
+ * keywords inside string literals, comments and quoted identifiers never
+ * trigger a finding. Tokens are only used to place findings in the editor.
+ */
+
+import type { AST } from 'node-sql-parser';
+import type { SQLToken } from '../tokenizer';
+import type { LintFinding, LintRule, LintRuleId } from './types';
+
+// Loosely typed view of node-sql-parser's AST nodes
+type ASTNode = { type?: unknown; [key: string]: unknown };
+
+const LITERAL_TYPES = new Set(['number', 'bool', 'single_quote_string', 'double_quote_string', 'string', 'null']);
+const COMPARISON_OPERATORS = new Set(['=', '!=', '<>', '<', '<=', '>', '>=', 'LIKE', 'ILIKE', 'IN', 'BETWEEN']);
+const LIKE_OPERATORS = new Set(['LIKE', 'ILIKE', 'NOT LIKE', 'NOT ILIKE']);
+const OR_OPERATOR = new Set(['OR']);
+const EQUALS_OPERATOR = new Set(['=']);
+
+function isNode(value: unknown): value is ASTNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Visits every node below the given one, including subqueries
+ */
+function walk(node: unknown, visit: (node: ASTNode) => void): void {
+  if (Array.isArray(node)) {
+    node.forEach((child) => walk(child, visit));
+    return;
+  }
+  if (!isNode(node)) return;
+  visit(node);
+  Object.values(node).forEach((child) => walk(child, visit));
+}
+
+function findNodes(node: unknown, predicate: (node: ASTNode) => boolean): ASTNode[] {
+  const found: ASTNode[] = [];
+  walk(node, (child) => {
+    if (predicate(child)) found.push(child);
+  });
+  return found;
+}
+
+/**
+ * SELECTs of a statement, including subqueries and UNION branches
+ */
+function selectNodes(ast: AST): ASTNode[] {
+  return findNodes(ast, (node) => node.type === 'select' && Array.isArray(node.columns));
+}
+
+function isBinary(node: unknown, operators: Set<string>): node is ASTNode {
+  return isNode(node) && node.type === 'binary_expr' && operators.has(String(node.operator).toUpperCase());
+}
+
+function containsColumn(node: unknown): boolean {
+  return findNodes(node, (child) => child.type === 'column_ref').length > 0;
+}
+
+function functionName(node: ASTNode): string | null {
+  const name = node.name;
+  if (typeof name === 'string') return name;
+  if (isNode(name) && Array.isArray(name.name)) {
+    const last = name.name[name.name.length - 1];
+    return isNode(last) && typeof last.value === 'string' ? last.value : null;
+  }
+  return null;
+}
+
+/**
+ * Position of the first token matching the word (or a symbol such as `*`),
+ * searching from the first token matching `after` when given
+ */
+function locate(tokens: SQLToken[], word: string, after?: string): Pick<LintFinding, 'offset' | 'length'> {
+  let from = 0;
+  if (after) {
+    from = tokens.findIndex((t) => t.value.toUpperCase() === after);
+    if (from === -1) return {};
+  }
+  const token = tokens.slice(from).find((t) => t.value.toUpperCase() === word);
+  return token ? { offset: token.start, length: token.end - token.start } : {};
+}
+
+function statementRule(
+  id: LintRuleId,
+  type: string,
+  keyword: string,
+  message: string,
+  description: string,
+  condition: (node: ASTNode) => boolean = () => true
+): LintRule {
+  return {
+    id,
+    description,
+    category: 'security',
+    defaultSeverity: 'warning',
+    detect: ({ ast, tokens }) =>
+      (ast as unknown as ASTNode).type === type && condition(ast as unknown as ASTNode)
+        ? [{ message, ...locate(tokens, keyword) }]
+        : [],
+  };
+}
+
+export const LINT_RULES: LintRule[] = [
+  statementRule(
+    'drop',
+    'drop',
+    'DROP',
+    'DROP statement detected - this will permanently delete data',
+    'DROP of a table, view, index or database'
+  ),
+  statementRule(
+    'truncate',
+    'truncate',
+    'TRUNCATE',
+    'TRUNCATE statement detected - this will delete all rows',
+    'TRUNCATE of a table'
+  ),
+  statementRule(
+    'delete-without-where',
+    'delete',
+    'DELETE',
+    'DELETE without WHERE clause - this will delete all rows',
+    'DELETE without a WHERE clause',
+    (node) => !node.where
+  ),
+  statementRule(
+    'update-without-where',
+    'update',
+    'UPDATE',
+    'UPDATE without WHERE clause - this will update all rows',
+    'UPDATE without a WHERE clause',
+    (node) => !node.where
+  ),
+  {
+    id: 'injection-pattern',
+    description: 'Always-true comparison of two literals in an OR, as in injected `OR 1=1`',
+    category: 'security',
+    defaultSeverity: 'warning',
+    detect: ({ ast, tokens }) => {
+      const tautologies = findNodes(ast, (node) => isBinary(node, OR_OPERATOR)).filter((node) =>
+        [node.left, node.right].some(
+          (side) =>
+            isBinary(side, EQUALS_OPERATOR) &&
+            isNode(side.left) &&
+            isNode(side.right) &&
+            LITERAL_TYPES.has(String(side.left.type)) &&
+            LITERAL_TYPES.has(String(side.right.type)) &&
+            String(side.left.value) === String(side.right.value)
+        )
+      );
+      return tautologies.length > 0
+        ? [{ message: 'Potential SQL injection pattern detected', ...locate(tokens, 'OR', 'WHERE') }]
+        : [];
+    },
+  },
+  {
+    id: 'select-star',
+    description: 'SELECT * instead of an explicit column list',
+    category: 'performance',
+    defaultSeverity: 'info',
+    detect: ({ ast, tokens }) => {
+      const star = selectNodes(ast).some((select) =>
+        (select.columns as unknown[]).some(
+          (column) => isNode(column) && isNode(column.expr) && column.expr.type === 'column_ref' && column.expr.column === '*'
+        )
+      );
+      return star
+        ? [{ message: 'SELECT * detected - consider selecting only needed columns', ...locate(tokens, '*', 'SELECT') }]
+        : [];
+    },
+  },
+  {
+    id: 'missing-limit',
+    description: 'Top-level SELECT from a table without LIMIT or TOP, unless it only aggregates',
+    category: 'performance',
+    defaultSeverity: 'info',
+    detect: ({ ast, tokens }) => {
+      // UNION branches share the limit of the last one
+      let select: ASTNode | undefined = ast as unknown as ASTNode;
+      if (select.type !== 'select' || !Array.isArray(select.from) || select.from.length === 0) return [];
+      // Aggregates without GROUP BY return a single row
+      const aggregateOnly = !select.groupby && (select.columns as unknown[]).every(
+        (column) => isNode(column) && isNode(column.expr) && column.expr.type === 'aggr_func'
+      );
+      if (aggregateOnly) return [];
+      while (select) {
+        const limit = select.limit as { value?: unknown[] } | null;
+        if (select.top || (limit?.value && limit.value.length > 0) || select.fetch) return [];
+        select = isNode(select._next) ? select._next : undefined;
+      }
+      return [{ message: 'Query without LIMIT - consider adding a limit for large tables', ...locate(tokens, 'SELECT') }];
+    },
+  },
+  {
+    id: 'leading-wildcard',
+    description: 'LIKE pattern starting with %, which cannot use an index',
+    category: 'performance',
+    defaultSeverity: 'info',
+    detect: ({ ast, tokens }) => {
+      const leading = findNodes(ast, (node) => isBinary(node, LIKE_OPERATORS)).some(
+        (node) => isNode(node.right) && typeof node.right.value === 'string' && node.right.value.startsWith('%')
+      );
+      return leading
+        ? [{ message: 'LIKE with leading wildcard may prevent index usage', ...locate(tokens, 'LIKE') }]
+        : [];
+    },
+  },
+  {
+    id: 'or-in-where',
+    description: 'OR between conditions of a WHERE clause',
+    category: 'performance',
+    defaultSeverity: 'info',
+    detect: ({ ast, tokens }) => {
+      const or = selectNodes(ast).some((select) => findNodes(select.where, (node) => isBinary(node, OR_OPERATOR)).length > 0);
+      return or
+        ? [{ message: 'OR in WHERE clause may prevent optimal index usage - consider UNION', ...locate(tokens, 'OR', 'WHERE') }]
+        : [];
+    },
+  },
+  {
+    id: 'function-in-where',
+    description: 'Function applied to a column in a WHERE comparison',
+    category: 'performance',
+    defaultSeverity: 'info',
+    detect: ({ ast, tokens }) => {
+      for (const select of selectNodes(ast)) {
+        for (const comparison of findNodes(select.where, (node) => isBinary(node, COMPARISON_OPERATORS))) {
+          const call = [comparison.left, comparison.right].find(
+            (side): side is ASTNode => isNode(side) && side.type === 'function' && containsColumn(side.args)
+          );
+          const name = call && functionName(call);
+          if (name) {
+            return [{ message: 'Function on column in WHERE clause may prevent index usage', ...locate(tokens, name.toUpperCase(), 'WHERE') }];
+          }
+        }
+      }
+      return [];
+    },
+  },
+  {
+    id: 'cross-join-without-condition',
+    description: 'Comma or CROSS JOIN without a join condition or WHERE clause',
+    category: 'performance',
+    defaultSeverity: 'warning',
+    detect: ({ ast, tokens }) => {
+      const cartesian = selectNodes(ast).some(
+        (select) =>
+          Array.isArray(select.from) &&
+          !select.where &&
+          select.from.slice(1).some((table) => isNode(table) && !table.on && !table.using)
+      );
+      return cartesian
+        ? [{ message: 'Join without a condition returns every combination of rows', ...locate(tokens, 'FROM') }]
+        : [];
+    },
+  },
+];
+
+export function getLintRule(id: string): LintRule | undefined {
+  return LINT_RULES.find((rule) => rule.id === id);
+}
+
+export function isLintRuleId(value: unknown): value is LintRuleId {
+  return typeof value === 'string' && LINT_RULES.some((rule) => rule.id === value);
+}
@@ -0,0 +1,108 @@
+/**
+ * SQL Lint Settings
+ *
+ * Severity overrides stored in `sql_lint_settings`. Global settings apply to
+ * everyone, role settings to members of the role and data source settings to
+ * every query against that source; the most specific scope wins, and among
+ * a user's roles the strictest severity wins.
+ */
+
+import { getDb } from '@/lib/db/config';
+import { v4 as uuidv4 } from 'uuid';
+import type { SQLLintSetting } from '@/types/database';
+import type { LintRuleId, LintScope, LintSettings, LintSeverity } from './types';
+
+const SEVERITY_ORDER: LintSeverity[] = ['off', 'info', 'warning', 'error'];
+
+export interface LintSettingsTarget {
+  dataSourceId?: string;
+  // Role names of the user, as carried by the session
+  roles?: string[];
+}
+
+export async function getLintSettings(target: LintSettingsTarget): Promise<LintSettings> {
+  const db = getDb();
+
+  const roleIds: string[] = target.roles?.length
+    ? await db('roles').whereIn('name', target.roles).pluck('id')
+    : [];
+
+  const rows = await db<SQLLintSetting>('sql_lint_settings').where((query) => {
+    query.where('scope', 'global');
+    if (roleIds.length > 0) {
+      query.orWhere((q) => q.where('scope', 'role').whereIn('scope_id', roleIds));
+    }
+    if (target.dataSourceId) {
+      query.orWhere((q) => q.where('scope', 'data_source').where('scope_id', target.dataSourceId!));
+    }
+  });
+
+  const settings: LintSettings = {};
+  for (const scope of ['global', 'role', 'data_source'] as LintScope[]) {
+    const scoped: LintSettings = {};
+    for (const row of rows.filter((r) => r.scope === scope)) {
+      const ruleId = row.rule_id as LintRuleId;
+      const current = scoped[ruleId];
+      if (!current || SEVERITY_ORDER.indexOf(row.severity) > SEVERITY_ORDER.indexOf(current)) {
+        scoped[ruleId] = row.severity;
+      }
+    }
+    Object.assign(settings, scoped);
+  }
+
+  return settings;
+}
+
+export async function listLintSettings(filter: { scope?: LintScope; scopeId?: string } = {}): Promise<SQLLintSetting[]> {
+  const db = getDb();
+  const query = db<SQLLintSetting>('sql_lint_settings').orderBy(['scope', 'scope_id', 'rule_id']);
+  if (filter.scope) query.where('scope', filter.scope);
+  if (filter.scopeId) query.where('scope_id', filter.scopeId);
+  return query;
+}
+
+/**
+ * Creates or replaces the severity of a rule for one scope
+ */
+export async function saveLintSetting(setting: {
+  ruleId: LintRuleId;
+  scope: LintScope;
+  scopeId?: string;
+  severity: LintSeverity;
+  userId: string;
+}): Promise<SQLLintSetting> {
+  const db = getDb();
+  const scopeId = setting.scope === 'global' ? null : setting.scopeId ?? null;
+
+  const existing = await db<SQLLintSetting>('sql_lint_settings')
+    .where({ rule_id: setting.ruleId, scope: setting.scope })
+    .where((query) => (scopeId ? query.where('scope_id', scopeId) : query.whereNull('scope_id')))
+    .first();
+
+  if (existing) {
+    await db('sql_lint_settings')
+      .where('id', existing.id)
+      .update({ severity: setting.severity, updated_at: new Date().toISOString() });
+    return (await db<SQLLintSetting>('sql_lint_settings').where('id', existing.id).first())!;
+  }
+
+  const id = uuidv4();
+  await db<SQLLintSetting>('sql_lint_settings').insert({
+    id,
+    rule_id: setting.ruleId,
+    scope: setting.scope,
+    scope_id: scopeId ?? undefined,
+    severity: setting.severity,
+    created_by: setting.userId,
+  });
+  return (await db<SQLLintSetting>('sql_lint_settings').where('id', id).first())!;
+}
+
+export async function deleteLintSetting(id: string): Promise<SQLLintSetting | undefined> {
+  const db = getDb();
+  const existing = await db<SQLLintSetting>('sql_lint_settings').where('id', id).first();
+  if (existing) {
+    await db('sql_lint_settings').where('id', id).delete();
+  }
+  return existing;
+}
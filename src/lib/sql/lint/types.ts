@@ -0,0 +1,51 @@
+/**
+ * SQL Lint Types
+ */
+
+import type { AST } from 'node-sql-parser';
+import type { SQLToken } from '../tokenizer';
+
+export type LintRuleId =
+  | 'drop'
+  | 'truncate'
+  | 'delete-without-where'
+  | 'update-without-where'
+  | 'injection-pattern'
+  | 'select-star'
+  | 'missing-limit'
+  | 'leading-wildcard'
+  | 'or-in-where'
+  | 'function-in-where'
+  | 'cross-join-without-condition';
+
+// 'error' findings block execution in the SQL editor
+export type LintSeverity = 'off' | 'info' | 'warning' | 'error';
+
+export type LintCategory = 'performance' | 'security' | 'style';
+
+// Scope of a configured severity; data source settings win over role
+// settings, which win over global ones
+export type LintScope = 'global' | 'role' | 'data_source';
+
+export interface LintStatement {
+  ast: AST;
+  // Significant tokens of the statement, for placing findings in the text
+  tokens: SQLToken[];
+}
+
+export interface LintFinding {
+  message: string;
+  offset?: number;
+  length?: number;
+}
+
+export interface LintRule {
+  id: LintRuleId;
+  description: string;
+  category: LintCategory;
+  defaultSeverity: Exclude<LintSeverity, 'off'>;
+  detect(statement: LintStatement): LintFinding[];
+}
+
+// Effective severity per rule; rules not listed use their default
+export type LintSettings = Partial<Record<LintRuleId, LintSeverity>>;
@@ -0,0 +1,165 @@
+/**
+ * Dialect-aware SQL pagination
+ *
+ * Rewrites the outermost SELECT of a query so the database returns a single
+ * page of rows. The query shape comes from the node-sql-parser AST, with a
+ * tokenizer fallback for SQL the parser does not understand.
+ */
+
+import type { AST, Select } from 'node-sql-parser';
+import { parseSQL } from './validator';
+import { isSignificantToken, tokenizeSQL } from './tokenizer';
+import type { DatabaseClientType } from '@/types/database';
+
+export interface PaginatedSQL {
+  sql: string;
+  // Rows requested from the database: one more than the page size so the
+  // caller can tell whether another page exists
+  fetchLimit: number;
+  // False when the statement cannot be paginated (e.g. SHOW, EXPLAIN); the
+  // caller should trim the result to the page size itself
+  applied: boolean;
+}
+
+interface OuterSelectShape {
+  hasLimit: boolean;
+  hasOrderBy: boolean;
+  hasWith: boolean;
+}
+
+const PAGED_ALIAS = 'paged_query';
+
+/**
+ * Removes trailing semicolons and comments so clauses can be appended safely
+ */
+export function stripTrailingTerminators(sql: string): string {
+  const tokens = tokenizeSQL(sql);
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const token = tokens[i];
+    if (isSignificantToken(token) && token.type !== 'semicolon') {
+      return sql.slice(0, token.end);
+    }
+  }
+  return '';
+}
+
+function hasLimitValue(select: Select): boolean {
+  const limit = select.limit as (Select['limit'] & { fetch?: unknown; offset?: unknown }) | null;
+  if (!limit) return false;
+  return (limit.value?.length ?? 0) > 0 || !!limit.fetch || !!limit.offset;
+}
+
+function shapeFromAST(ast: AST | AST[]): OuterSelectShape | null {
+  if (Array.isArray(ast)) {
+    if (ast.length !== 1) return null;
+    ast = ast[0];
+  }
+  if (ast.type !== 'select') return null;
+
+  // For set operations the trailing ORDER BY / LIMIT is attached to the last
+  // member of the chain (or to `_orderby` / `_limit` when parenthesised)
+  let last: Select = ast;
+  while (last._next) {
+    last = last._next;
+  }
+
+  const top = (ast as Select & { top?: unknown }).top;
+
+  return {
+    hasLimit: !!top || hasLimitValue(last) || (ast._limit?.value?.length ?? 0) > 0,
+    hasOrderBy: !!last.orderby?.length || !!ast._orderby?.length,
+    hasWith: !!ast.with?.length,
+  };
+}
+
+function shapeFromTokens(sql: string): OuterSelectShape | null {
+  const tokens = tokenizeSQL(sql).filter(isSignificantToken);
+  const first = tokens[0]?.value.toUpperCase();
+  if (first !== 'SELECT' && first !== 'WITH') return null;
+
+  let depth = 0;
+  const shape: OuterSelectShape = { hasLimit: false, hasOrderBy: false, hasWith: first === 'WITH' };
+
+  for (const token of tokens) {
+    if (token.value === '(') depth++;
+    else if (token.value === ')') depth--;
+    else if (depth === 0 && token.type === 'identifier') {
+      const word = token.value.toUpperCase();
+      if (['LIMIT', 'FETCH', 'TOP', 'OFFSET'].includes(word)) shape.hasLimit = true;
+      if (word === 'ORDER') shape.hasOrderBy = true;
+    }
+  }
+
+  return shape;
+}
+
+function analyzeOuterSelect(sql: string, clientType: DatabaseClientType): OuterSelectShape | null {
+  try {
+    return shapeFromAST(parseSQL(sql, clientType));
+  } catch {
+    return shapeFromTokens(sql);
+  }
+}
+
+function offsetFetch(limit: number, offset: number): string {
+  return `OFFSET ${offset} ROWS FETCH NEXT ${limit} ROWS ONLY`;
+}
+
+/**
+ * Rewrites a SELECT so the database returns `limit + 1` rows starting at
+ * `offset`. Queries without their own outer limit get a pagination clause
+ * appended; queries that already limit themselves are wrapped in a subquery
+ * so the user's limit is respected and paged within.
+ */
+export function paginateSQL(
+  sql: string,
+  clientType: DatabaseClientType,
+  limit: number,
+  offset: number
+): PaginatedSQL {
+  const body = stripTrailingTerminators(sql);
+  const fetchLimit = limit + 1;
+  const shape = analyzeOuterSelect(body, clientType);
+
+  if (!shape) {
+    return { sql: body, fetchLimit, applied: false };
+  }
+
+  switch (clientType) {
+    case 'mssql':
+      if (!shape.hasLimit) {
+        const orderBy = shape.hasOrderBy ? '' : '\nORDER BY (SELECT NULL)';
+        return { sql: `${body}${orderBy}\n${offsetFetch(fetchLimit, offset)}`, fetchLimit, applied: true };
+      }
+      // A CTE cannot be nested inside a derived table on SQL Server
+      if (shape.hasWith) {
+        return { sql: body, fetchLimit, applied: false };
+      }
+      return {
+        sql: `SELECT * FROM (\n${body}\n) AS ${PAGED_ALIAS}\nORDER BY (SELECT NULL)\n${offsetFetch(fetchLimit, offset)}`,
+        fetchLimit,
+        applied: true,
+      };
+
+    case 'oracledb':
+      if (!shape.hasLimit) {
+        return { sql: `${body}\n${offsetFetch(fetchLimit, offset)}`, fetchLimit, applied: true };
+      }
+      // Oracle does not accept AS before a table alias
+      return {
+        sql: `SELECT * FROM (\n${body}\n) ${PAGED_ALIAS}\n${offsetFetch(fetchLimit, offset)}`,
+        fetchLimit,
+        applied: true,
+      };
+
+    default:
+      if (!shape.hasLimit) {
+        return { sql: `${body}\nLIMIT ${fetchLimit} OFFSET ${offset}`, fetchLimit, applied: true };
+      }
+      return {
+        sql: `SELECT * FROM (\n${body}\n) AS ${PAGED_ALIAS}\nLIMIT ${fetchLimit} OFFSET ${offset}`,
+        fetchLimit,
+        applied: true,
+      };
+  }
+}
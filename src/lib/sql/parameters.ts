@@ -0,0 +1,223 @@
+/**
+ * Named Query Parameters
+ *
+ * Parses `:name` placeholders from SQL, validates supplied values against a
+ * saved query's parameter schema and compiles the SQL into positional Knex
+ * bindings so values are never concatenated into the query text.
+ */
+
+import type { Knex } from 'knex';
+import { tokenizeSQL } from './tokenizer';
+import type { QueryParameter } from '@/types/database';
+
+export type ParameterValues = Record<string, unknown>;
+
+export interface ParameterError {
+  parameter: string;
+  message: string;
+}
+
+export interface ResolvedParameters {
+  values: ParameterValues;
+  errors: ParameterError[];
+}
+
+export interface BoundSQL {
+  sql: string;
+  bindings: Knex.Value[];
+}
+
+const PARAMETER_TYPES: QueryParameter['type'][] = ['string', 'number', 'boolean', 'date', 'datetime'];
+
+/**
+ * Returns the distinct placeholder names in the order they first appear
+ */
+export function extractParameterNames(sql: string): string[] {
+  const names: string[] = [];
+  for (const token of tokenizeSQL(sql)) {
+    if (token.type === 'parameter') {
+      const name = token.value.slice(1);
+      if (!names.includes(name)) {
+        names.push(name);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Normalizes a parameter schema from a request body or the
+ * `saved_queries.parameters_schema` column into a list of definitions
+ */
+export function parseParametersSchema(schema: unknown): QueryParameter[] {
+  let parsed = schema;
+  if (typeof schema === 'string') {
+    try {
+      parsed = JSON.parse(schema);
+    } catch {
+      return [];
+    }
+  }
+
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  return parsed
+    .filter((p): p is QueryParameter =>
+      !!p && typeof p === 'object' && typeof (p as QueryParameter).name === 'string'
+    )
+    .map((p) => ({
+      name: p.name,
+      type: PARAMETER_TYPES.includes(p.type) ? p.type : 'string',
+      label: p.label,
+      defaultValue: p.defaultValue,
+      required: p.required ?? true,
+      options: Array.isArray(p.options) ? p.options : undefined,
+    }));
+}
+
+/**
+ * Builds a schema covering every placeholder in the SQL, keeping existing
+ * definitions and adding required string parameters for unknown names
+ */
+export function buildParametersSchema(
+  sql: string,
+  definitions: QueryParameter[] = []
+): QueryParameter[] {
+  return extractParameterNames(sql).map(
+    (name) =>
+      definitions.find((d) => d.name === name) || { name, type: 'string', required: true }
+  );
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function coerceValue(
+  definition: QueryParameter,
+  value: unknown
+): { value?: unknown; error?: string } {
+  switch (definition.type) {
+    case 'number': {
+      const num = typeof value === 'number' ? value : Number(String(value).trim());
+      if (!Number.isFinite(num)) {
+        return { error: 'must be a number' };
+      }
+      return { value: num };
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value };
+      const normalized = String(value).trim().toLowerCase();
+      if (['true', '1', 'yes'].includes(normalized)) return { value: true };
+      if (['false', '0', 'no'].includes(normalized)) return { value: false };
+      return { error: 'must be true or false' };
+    }
+
+    case 'date': {
+      const str = String(value).trim();
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(str) || isNaN(Date.parse(str))) {
+        return { error: 'must be a date in YYYY-MM-DD format' };
+      }
+      return { value: str };
+    }
+
+    case 'datetime': {
+      const timestamp = value instanceof Date ? value.getTime() : Date.parse(String(value));
+      if (isNaN(timestamp)) {
+        return { error: 'must be a valid date and time' };
+      }
+      return { value: new Date(timestamp).toISOString() };
+    }
+
+    default:
+      if (typeof value === 'object') {
+        return { error: 'must be a text value' };
+      }
+      return { value: String(value) };
+  }
+}
+
+/**
+ * Validates supplied values for every placeholder in the SQL against the
+ * parameter definitions (type, required, options and default values)
+ */
+export function resolveParameters(
+  sql: string,
+  definitions: QueryParameter[],
+  values: ParameterValues = {}
+): ResolvedParameters {
+  const resolved: ParameterValues = {};
+  const errors: ParameterError[] = [];
+
+  for (const definition of buildParametersSchema(sql, definitions)) {
+    const label = definition.label || definition.name;
+    let value = values[definition.name];
+
+    if (isMissing(value)) {
+      value = definition.defaultValue;
+    }
+
+    if (isMissing(value)) {
+      if (definition.required !== false) {
+        errors.push({ parameter: definition.name, message: `${label} is required` });
+      } else {
+        resolved[definition.name] = null;
+      }
+      continue;
+    }
+
+    const coerced = coerceValue(definition, value);
+    if (coerced.error) {
+      errors.push({ parameter: definition.name, message: `${label} ${coerced.error}` });
+      continue;
+    }
+
+    if (
+      definition.options?.length &&
+      !definition.options.some((option) => String(option.value) === String(coerced.value))
+    ) {
+      errors.push({
+        parameter: definition.name,
+        message: `${label} must be one of: ${definition.options.map((o) => o.label).join(', ')}`,
+      });
+      continue;
+    }
+
+    resolved[definition.name] = coerced.value;
+  }
+
+  return { values: resolved, errors };
+}
+
+/**
+ * Replaces each `:name` placeholder with a positional `?` binding. Literal
+ * question marks are escaped so Knex does not treat them as bindings; SQL
+ * without placeholders is returned untouched with no bindings.
+ */
+export function bindParameters(sql: string, values: ParameterValues): BoundSQL {
+  const tokens = tokenizeSQL(sql);
+  if (!tokens.some((token) => token.type === 'parameter')) {
+    return { sql, bindings: [] };
+  }
+
+  const bindings: Knex.Value[] = [];
+  let boundSQL = '';
+
+  for (const token of tokens) {
+    if (token.type === 'parameter') {
+      const name = token.value.slice(1);
+      if (!(name in values)) {
+        throw new Error(`No value supplied for parameter :${name}`);
+      }
+      bindings.push(values[name] as Knex.Value);
+      boundSQL += '?';
+    } else {
+      boundSQL += token.value.replace(/\?/g, '\\?');
+    }
+  }
+
+  return { sql: boundSQL, bindings };
+}
@@ -0,0 +1,122 @@
+/**
+ * SQL Editor Query History
+ *
+ * Records every SQL editor execution (successful, failed or cancelled) with
+ * the full SQL text and parameters, so users can find, re-open and re-run
+ * past queries. Recording failures are logged and never fail the execution.
+ */
+
+import { getDb } from '@/lib/db/config';
+import type { QueryHistoryEntry, QueryHistoryStatus, QueryParameter } from '@/types/database';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface QueryHistoryRecord {
+  userId: string;
+  dataSourceId?: string;
+  savedQueryId?: string;
+  executionId?: string;
+  sql: string;
+  parameters?: Record<string, unknown>;
+  parametersSchema?: QueryParameter[];
+  status: QueryHistoryStatus;
+  errorMessage?: string;
+  rowCount?: number;
+  durationMs?: number;
+  isStreamed?: boolean;
+}
+
+export interface QueryHistorySearchOptions {
+  userId?: string;
+  dataSourceId?: string;
+  status?: QueryHistoryStatus;
+  // Matched against the SQL text
+  search?: string;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface QueryHistorySearchResult {
+  items: QueryHistoryEntry[];
+  total: number;
+}
+
+export async function recordQueryHistory(record: QueryHistoryRecord): Promise<void> {
+  try {
+    const db = getDb();
+
+    await db<QueryHistoryEntry>('query_history').insert({
+      id: uuidv4(),
+      user_id: record.userId,
+      data_source_id: record.dataSourceId,
+      saved_query_id: record.savedQueryId,
+      execution_id: record.executionId,
+      sql_text: record.sql,
+      parameters:
+        record.parameters && Object.keys(record.parameters).length > 0
+          ? JSON.stringify(record.parameters)
+          : undefined,
+      parameters_schema:
+        record.parametersSchema && record.parametersSchema.length > 0
+          ? JSON.stringify(record.parametersSchema)
+          : undefined,
+      status: record.status,
+      error_message: record.errorMessage?.substring(0, 4000),
+      row_count: record.rowCount,
+      duration_ms: record.durationMs,
+      is_streamed: record.isStreamed ?? false,
+    });
+  } catch (error) {
+    console.error('Failed to record query history:', error);
+  }
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+export async function searchQueryHistory(
+  options: QueryHistorySearchOptions
+): Promise<QueryHistorySearchResult> {
+  const db = getDb();
+
+  let query = db<QueryHistoryEntry>('query_history');
+
+  if (options.userId) {
+    query = query.where('user_id', options.userId);
+  }
+  if (options.dataSourceId) {
+    query = query.where('data_source_id', options.dataSourceId);
+  }
+  if (options.status) {
+    query = query.where('status', options.status);
+  }
+  if (options.search) {
+    query = query.whereRaw("sql_text LIKE ? ESCAPE '\\'", [`%${escapeLike(options.search)}%`]);
+  }
+  // created_at is stored as 'YYYY-MM-DD HH:MM:SS', which does not compare
+  // as text with ISO strings
+  if (options.startDate) {
+    query = query.whereRaw('datetime(created_at) >= datetime(?)', [options.startDate.toISOString()]);
+  }
+  if (options.endDate) {
+    query = query.whereRaw('datetime(created_at) <= datetime(?)', [options.endDate.toISOString()]);
+  }
+
+  const countResult = await query.clone().count('* as count').first();
+  const total = Number((countResult as { count?: string })?.count || 0);
+
+  const pageSize = options.pageSize || 20;
+  const items = await query
+    .orderBy('created_at', 'desc')
+    .limit(pageSize)
+    .offset((options.page || 0) * pageSize);
+
+  return { items, total };
+}
+
+export async function getQueryHistoryEntry(id: string): Promise<QueryHistoryEntry | undefined> {
+  const db = getDb();
+  return db<QueryHistoryEntry>('query_history').where('id', id).first();
+}
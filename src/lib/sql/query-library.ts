@@ -0,0 +1,165 @@
+/**
+ * Saved Query Library
+ *
+ * Folders, tags and search for saved queries. Folders nest without limit;
+ * deleting one moves its queries and subfolders up to its parent. Tags are
+ * free-form and stored lowercase.
+ */
+
+import type { Knex } from 'knex';
+import { getDb } from '@/lib/db/config';
+import type { QueryFolder, SavedQuery, SavedQueryTag, SavedQueryWithTags } from '@/types/database';
+
+const MAX_TAG_LENGTH = 50;
+
+export interface SavedQuerySearchOptions {
+  // Every word must appear in the name, description or SQL
+  search?: string;
+  dataSourceId?: string;
+  ownerId?: string;
+  // Queries carrying all of the tags
+  tags?: string[];
+  isValidated?: boolean;
+  folderId?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface SavedQuerySearchResult {
+  items: SavedQueryWithTags[];
+  total: number;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Trimmed, lowercase and deduplicated tags, or null when the value is not a
+ * list of tags
+ */
+export function normalizeTags(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  const tags = new Set<string>();
+  for (const item of value) {
+    if (typeof item !== 'string') return null;
+    const tag = item.trim().toLowerCase();
+    if (tag.length > MAX_TAG_LENGTH) return null;
+    if (tag) tags.add(tag);
+  }
+  return Array.from(tags).sort();
+}
+
+/**
+ * Replaces the tags of a saved query
+ */
+export async function setQueryTags(db: Knex, savedQueryId: string, tags: string[]): Promise<void> {
+  await db('saved_query_tags').where('saved_query_id', savedQueryId).delete();
+  if (tags.length > 0) {
+    await db<SavedQueryTag>('saved_query_tags').insert(tags.map((tag) => ({ saved_query_id: savedQueryId, tag })));
+  }
+}
+
+export async function withTags(queries: SavedQuery[]): Promise<SavedQueryWithTags[]> {
+  if (queries.length === 0) return [];
+  const rows = await getDb()<SavedQueryTag>('saved_query_tags')
+    .whereIn('saved_query_id', queries.map((q) => q.id))
+    .orderBy('tag');
+
+  const tags = new Map<string, string[]>();
+  for (const row of rows) {
+    tags.set(row.saved_query_id, [...(tags.get(row.saved_query_id) ?? []), row.tag]);
+  }
+  return queries.map((query) => ({ ...query, tags: tags.get(query.id) ?? [] }));
+}
+
+/**
+ * Tags in use on saved queries, with how many queries carry each
+ */
+export async function listTags(): Promise<{ tag: string; count: number }[]> {
+  const rows = await getDb()('saved_query_tags')
+    .join('saved_queries', 'saved_queries.id', 'saved_query_tags.saved_query_id')
+    .where('saved_queries.is_deleted', false)
+    .groupBy('saved_query_tags.tag')
+    .orderBy('saved_query_tags.tag')
+    .select('saved_query_tags.tag as tag')
+    .count('* as count');
+  return rows.map((row) => ({ tag: String(row.tag), count: Number(row.count) }));
+}
+
+export async function searchSavedQueries(options: SavedQuerySearchOptions): Promise<SavedQuerySearchResult> {
+  const db = getDb();
+
+  let query = db<SavedQuery>('saved_queries').where('is_deleted', false);
+
+  for (const word of options.search?.split(/\s+/).filter(Boolean) ?? []) {
+    const pattern = `%${escapeLike(word)}%`;
+    query = query.where((q) =>
+      q
+        .whereRaw("name LIKE ? ESCAPE '\\'", [pattern])
+        .orWhereRaw("description LIKE ? ESCAPE '\\'", [pattern])
+        .orWhereRaw("sql_content LIKE ? ESCAPE '\\'", [pattern])
+    );
+  }
+  if (options.dataSourceId) {
+    query = query.where('data_source_id', options.dataSourceId);
+  }
+  if (options.ownerId) {
+    query = query.where('created_by', options.ownerId);
+  }
+  if (options.isValidated !== undefined) {
+    query = query.where('is_validated', options.isValidated);
+  }
+  if (options.folderId) {
+    query = query.where('folder_id', options.folderId);
+  }
+  for (const tag of options.tags ?? []) {
+    query = query.whereExists(
+      db('saved_query_tags')
+        .whereRaw('saved_query_tags.saved_query_id = saved_queries.id')
+        .where('saved_query_tags.tag', tag.toLowerCase())
+    );
+  }
+
+  const countResult = await query.clone().count('* as count').first();
+  const total = Number((countResult as { count?: string })?.count || 0);
+
+  const pageSize = options.pageSize || 20;
+  const items = await query
+    .orderBy('name')
+    .limit(pageSize)
+    .offset((options.page || 0) * pageSize);
+
+  return { items: await withTags(items), total };
+}
+
+export async function listFolders(): Promise<QueryFolder[]> {
+  return getDb()<QueryFolder>('query_folders').orderBy('name');
+}
+
+/**
+ * Whether making `parentId` the parent of the folder would put the folder
+ * inside itself
+ */
+export async function wouldCreateCycle(folderId: string, parentId: string | null): Promise<boolean> {
+  const db = getDb();
+  let current = parentId;
+  while (current) {
+    if (current === folderId) return true;
+    const folder = await db<QueryFolder>('query_folders').where('id', current).first();
+    current = folder?.parent_id ?? null;
+  }
+  return false;
+}
+
+/**
+ * Deletes a folder, moving its queries and subfolders to its parent
+ */
+export async function deleteFolder(folder: QueryFolder): Promise<void> {
+  const parentId = folder.parent_id ?? null;
+  await getDb().transaction(async (trx) => {
+    await trx('saved_queries').where('folder_id', folder.id).update({ folder_id: parentId });
+    await trx('query_folders').where('parent_id', folder.id).update({ parent_id: parentId });
+    await trx('query_folders').where('id', folder.id).delete();
+  });
+}
@@ -0,0 +1,192 @@
+/**
+ * Saved Query Versions
+ *
+ * Every create, update and restore of a saved query writes a snapshot to
+ * `saved_query_versions`, so a bad edit can be compared against earlier
+ * definitions and rolled back. Restoring copies an old snapshot forward as a
+ * new version; history is never rewritten.
+ */
+
+import type { Knex } from 'knex';
+import { getDb } from '@/lib/db/config';
+import { validateSQL } from './validator';
+import { parseParametersSchema } from './parameters';
+import type { DatabaseClientType, QueryParameter, SavedQuery, SavedQueryVersion } from '@/types/database';
+import type { ParameterSchemaChange, SavedQueryVersionDiff, SQLDiffLine } from '@/types/api';
+import { v4 as uuidv4 } from 'uuid';
+
+// Above this many line pairs the diff falls back to replacing the whole text
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Validates SQL for storage on the saved query and its version
+ */
+export function validateQueryContent(
+  sql: string,
+  clientType: DatabaseClientType | string
+): Pick<SavedQuery, 'is_validated' | 'validation_result'> {
+  const result = validateSQL(sql, clientType);
+  return {
+    is_validated: result.isValid,
+    validation_result: JSON.stringify({
+      isValid: result.isValid,
+      errors: result.errors,
+      warnings: result.warnings,
+    }),
+  };
+}
+
+/**
+ * Snapshots the current state of a saved query as its next version. Pass the
+ * transaction the query was written in so both commit together.
+ */
+export async function recordQueryVersion(
+  db: Knex,
+  query: SavedQuery,
+  userId: string | undefined,
+  changeSummary?: string
+): Promise<SavedQueryVersion> {
+  const latest = await db<SavedQueryVersion>('saved_query_versions')
+    .where('saved_query_id', query.id)
+    .max('version_number as max')
+    .first();
+
+  const version = {
+    id: uuidv4(),
+    saved_query_id: query.id,
+    version_number: Number((latest as { max?: number } | undefined)?.max || 0) + 1,
+    name: query.name,
+    description: query.description,
+    data_source_id: query.data_source_id,
+    sql_content: query.sql_content,
+    parameters_schema: query.parameters_schema,
+    is_validated: query.is_validated,
+    validation_result: query.validation_result,
+    change_summary: changeSummary,
+    created_by: userId,
+    created_at: new Date().toISOString(),
+  };
+
+  await db<SavedQueryVersion>('saved_query_versions').insert(version);
+  return version;
+}
+
+export interface SavedQueryVersionWithAuthor extends SavedQueryVersion {
+  author_name?: string;
+  author_email?: string;
+}
+
+/**
+ * Lists a query's versions, newest first, with the author of each
+ */
+export async function listQueryVersions(queryId: string): Promise<SavedQueryVersionWithAuthor[]> {
+  const db = getDb();
+  return db('saved_query_versions')
+    .leftJoin('users', 'saved_query_versions.created_by', 'users.id')
+    .where('saved_query_versions.saved_query_id', queryId)
+    .orderBy('saved_query_versions.version_number', 'desc')
+    .select('saved_query_versions.*', 'users.display_name as author_name', 'users.email as author_email');
+}
+
+export async function getQueryVersion(
+  queryId: string,
+  versionNumber: number
+): Promise<SavedQueryVersion | undefined> {
+  const db = getDb();
+  return db<SavedQueryVersion>('saved_query_versions')
+    .where('saved_query_id', queryId)
+    .where('version_number', versionNumber)
+    .first();
+}
+
+/**
+ * Line diff of two SQL texts using the longest common subsequence
+ */
+export function diffLines(before: string, after: string): SQLDiffLine[] {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((content, i): SQLDiffLine => ({ type: 'removed', content, oldLine: i + 1 })),
+      ...b.map((content, i): SQLDiffLine => ({ type: 'added', content, newLine: i + 1 })),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: SQLDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'unchanged', content: a[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', content: a[i], oldLine: i + 1 });
+      i++;
+    } else {
+      lines.push({ type: 'added', content: b[j], newLine: j + 1 });
+      j++;
+    }
+  }
+  for (; i < a.length; i++) lines.push({ type: 'removed', content: a[i], oldLine: i + 1 });
+  for (; j < b.length; j++) lines.push({ type: 'added', content: b[j], newLine: j + 1 });
+
+  return lines;
+}
+
+const PARAMETER_FIELDS: (keyof QueryParameter)[] = ['type', 'label', 'defaultValue', 'required', 'options'];
+
+/**
+ * Compares parameter definitions by name
+ */
+export function diffParameterSchemas(before: unknown, after: unknown): ParameterSchemaChange[] {
+  const oldParams = new Map(parseParametersSchema(before).map((p) => [p.name, p]));
+  const newParams = new Map(parseParametersSchema(after).map((p) => [p.name, p]));
+  const changes: ParameterSchemaChange[] = [];
+
+  for (const [name, param] of Array.from(oldParams)) {
+    const next = newParams.get(name);
+    if (!next) {
+      changes.push({ name, change: 'removed', before: param });
+      continue;
+    }
+    const fields = PARAMETER_FIELDS.filter(
+      (field) => JSON.stringify(param[field]) !== JSON.stringify(next[field])
+    );
+    if (fields.length > 0) {
+      changes.push({ name, change: 'changed', before: param, after: next, fields });
+    }
+  }
+
+  for (const [name, param] of Array.from(newParams)) {
+    if (!oldParams.has(name)) {
+      changes.push({ name, change: 'added', after: param });
+    }
+  }
+
+  return changes;
+}
+
+export function diffQueryVersions(from: SavedQueryVersion, to: SavedQueryVersion): SavedQueryVersionDiff {
+  const fields = (['name', 'description', 'data_source_id'] as const).filter(
+    (field) => (from[field] ?? '') !== (to[field] ?? '')
+  );
+
+  return {
+    from,
+    to,
+    sqlChanged: from.sql_content !== to.sql_content,
+    sql: diffLines(from.sql_content, to.sql_content),
+    parameters: diffParameterSchemas(from.parameters_schema, to.parameters_schema),
+    fields,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * SQL Editor Quick Fixes
+ *
+ * Text edits that resolve validator warnings, offered as code actions on the
+ * editor's diagnostics. Offsets refer to the current editor text.
+ */
+
+import { findStatementAt } from './tokenizer';
+import { findTable, findTableReferences, statementTokens } from './completion';
+import type { DatabaseClientType } from '@/types/database';
+import type { SchemaInfo, TableInfo, ViewInfo } from '@/types/api';
+
+export interface SQLTextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SQLQuickFix {
+  title: string;
+  edits: SQLTextEdit[];
+  isPreferred?: boolean;
+}
+
+export interface QuickFixOptions {
+  clientType?: DatabaseClientType | string;
+  schema?: SchemaInfo | null;
+}
+
+// Row limit added by the "add LIMIT" fix
+export const QUICK_FIX_ROW_LIMIT = 100;
+
+const PLAIN_IDENTIFIER = /^[a-z_][a-z0-9_]*$/;
+
+function quoteIdentifier(name: string, clientType?: string): string {
+  if (PLAIN_IDENTIFIER.test(name)) return name;
+  if (clientType === 'mysql') return `\`${name.replace(/`/g, '``')}\``;
+  if (clientType === 'mssql') return `[${name.replace(/]/g, ']]')}]`;
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Caps the statement at the offset with the dialect's row limit clause
+ */
+export function buildAddLimitFix(sql: string, offset: number, clientType?: string): SQLQuickFix | null {
+  const statement = findStatementAt(sql, offset);
+  if (!statement) return null;
+
+  if (clientType === 'mssql') {
+    // TOP goes after SELECT (and DISTINCT)
+    const tokens = statementTokens(sql, statement.start);
+    const select = tokens.findIndex((t) => t.value.toUpperCase() === 'SELECT');
+    if (select === -1) return null;
+    const anchor = tokens[select + 1]?.value.toUpperCase() === 'DISTINCT' ? tokens[select + 1] : tokens[select];
+    return {
+      title: `Add TOP ${QUICK_FIX_ROW_LIMIT}`,
+      edits: [{ start: anchor.end, end: anchor.end, text: ` TOP ${QUICK_FIX_ROW_LIMIT}` }],
+      isPreferred: true,
+    };
+  }
+
+  const clause = clientType === 'oracledb'
+    ? `FETCH FIRST ${QUICK_FIX_ROW_LIMIT} ROWS ONLY`
+    : `LIMIT ${QUICK_FIX_ROW_LIMIT}`;
+  return {
+    title: `Add ${clause}`,
+    edits: [{ start: statement.end, end: statement.end, text: `\n${clause}` }],
+    isPreferred: true,
+  };
+}
+
+/**
+ * Replaces the `*` of the SELECT at the offset with the columns of the
+ * tables it reads. Returns null when a table is not in the schema.
+ */
+export function buildExpandStarFix(sql: string, offset: number, options: QuickFixOptions): SQLQuickFix | null {
+  if (!options.schema) return null;
+  const schema = options.schema;
+
+  const tokens = statementTokens(sql, offset);
+  const star = tokens.find((t) => t.start >= offset && t.value === '*');
+  if (!star) return null;
+
+  const references = findTableReferences(tokens);
+  const tables = references.map((r) => findTable(schema, r.name, r.schema));
+  if (references.length === 0 || tables.some((t) => !t || t.columns.length === 0)) return null;
+
+  // Columns are qualified when more than one table or an alias is involved
+  const qualify = references.length > 1 || !!references[0].alias;
+  const columns = (tables as (TableInfo | ViewInfo)[]).flatMap((table, i) => {
+    const qualifier = references[i].alias ?? references[i].name;
+    return table.columns.map((column) => {
+      const name = quoteIdentifier(column.name, options.clientType);
+      return qualify ? `${quoteIdentifier(qualifier, options.clientType)}.${name}` : name;
+    });
+  });
+
+  return {
+    title: 'Replace SELECT * with explicit columns',
+    edits: [{ start: star.start, end: star.end, text: columns.join(', ') }],
+  };
+}
+
+/**
+ * Replaces an unknown or ambiguous name with each of the validator's suggestions
+ */
+export function buildSuggestionFixes(offset: number, length: number, suggestions: string[] = []): SQLQuickFix[] {
+  return suggestions.map((suggestion, i) => ({
+    title: `Change to '${suggestion}'`,
+    edits: [{ start: offset, end: offset + length, text: suggestion }],
+    isPreferred: i === 0,
+  }));
+}
+
+export function buildFormatFix(sql: string, formattedSQL: string | undefined): SQLQuickFix | null {
+  if (!formattedSQL || formattedSQL === sql) return null;
+  return {
+    title: 'Apply formatted SQL',
+    edits: [{ start: 0, end: sql.length, text: formattedSQL }],
+  };
+}
+
+/**
+ * Fixes for a validator warning, by its code, at the warning's offset
+ */
+export function getQuickFixes(
+  sql: string,
+  code: string,
+  offset: number,
+  options: QuickFixOptions
+): SQLQuickFix[] {
+  let fix: SQLQuickFix | null = null;
+  switch (code) {
+    case 'missing-limit':
+      fix = buildAddLimitFix(sql, offset, options.clientType);
+      break;
+    case 'select-star':
+      fix = buildExpandStarFix(sql, offset, options);
+      break;
+  }
+  return fix ? [fix] : [];
+}
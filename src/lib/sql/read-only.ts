@@ -0,0 +1,261 @@
+/**
+ * Read-only Query Enforcement
+ *
+ * Classifies SQL by walking the node-sql-parser AST so data-modifying
+ * statements are rejected wherever they appear (CTE bodies, subqueries,
+ * EXPLAIN targets), and runs accepted queries inside a read-only
+ * transaction where the driver supports one.
+ */
+
+import type { Knex } from 'knex';
+import { parseSQL } from './validator';
+import { isSignificantToken, tokenizeSQL } from './tokenizer';
+import type { DatabaseClientType } from '@/types/database';
+
+export interface ReadOnlyClassification {
+  readOnly: boolean;
+  // Why the query was rejected; undefined when it is read-only
+  reason?: string;
+  statementCount: number;
+  // 'ast' when the parser understood the SQL, 'tokens' for the fallback scan
+  method: 'ast' | 'tokens';
+}
+
+// Top-level statement types that only read data
+const READ_STATEMENTS = new Set(['select', 'show', 'desc', 'explain']);
+
+// AST node types that modify data, schema, permissions or session state
+const MODIFYING_NODES = new Set([
+  'insert',
+  'replace',
+  'update',
+  'delete',
+  'merge',
+  'create',
+  'drop',
+  'alter',
+  'truncate',
+  'rename',
+  'grant',
+  'revoke',
+  'lock',
+  'unlock',
+  'call',
+  'exec',
+  'execute',
+  'set',
+  'use',
+  'transaction',
+  'load_data',
+]);
+
+// Leading keywords accepted by the fallback scan
+const READ_KEYWORDS = new Set(['SELECT', 'WITH', 'EXPLAIN', 'SHOW', 'DESCRIBE', 'DESC', 'VALUES']);
+
+// Keywords that are never part of a read-only query
+const MODIFYING_KEYWORDS = new Set([
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'MERGE',
+  'UPSERT',
+  'INTO',
+  'CREATE',
+  'DROP',
+  'ALTER',
+  'TRUNCATE',
+  'RENAME',
+  'GRANT',
+  'REVOKE',
+  'CALL',
+  'EXEC',
+  'EXECUTE',
+  'COPY',
+  'LOCK',
+  'VACUUM',
+  'REINDEX',
+  'ATTACH',
+  'DETACH',
+  'PRAGMA',
+]);
+
+function findModifyingNode(node: unknown, seen = new Set<unknown>()): string | null {
+  if (!node || typeof node !== 'object' || seen.has(node)) return null;
+  seen.add(node);
+
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findModifyingNode(item, seen);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  const record = node as Record<string, unknown>;
+
+  if (typeof record.type === 'string' && MODIFYING_NODES.has(record.type)) {
+    return `${record.type.toUpperCase()} statements are not allowed`;
+  }
+
+  // `into.position` is only set for SELECT ... INTO, which writes a table or file
+  const into = record.into as { position?: unknown } | null | undefined;
+  if (into && typeof into === 'object' && into.position) {
+    return 'SELECT ... INTO is not allowed';
+  }
+
+  if (record.locking_read) {
+    return 'Locking reads (FOR UPDATE / FOR SHARE) are not allowed';
+  }
+
+  for (const value of Object.values(record)) {
+    const found = findModifyingNode(value, seen);
+    if (found) return found;
+  }
+
+  return null;
+}
+
+function classifyFromTokens(sql: string): ReadOnlyClassification {
+  const tokens = tokenizeSQL(sql).filter(isSignificantToken);
+
+  // Split on semicolons, ignoring empty statements such as a trailing `;`
+  const statements: typeof tokens[] = [[]];
+  for (const token of tokens) {
+    if (token.type === 'semicolon') statements.push([]);
+    else statements[statements.length - 1].push(token);
+  }
+  const nonEmpty = statements.filter((s) => s.length > 0);
+
+  if (nonEmpty.length === 0) {
+    return { readOnly: false, reason: 'No SQL statement found', statementCount: 0, method: 'tokens' };
+  }
+
+  if (nonEmpty.length > 1) {
+    return {
+      readOnly: false,
+      reason: 'Multiple statements are not allowed',
+      statementCount: nonEmpty.length,
+      method: 'tokens',
+    };
+  }
+
+  const statement = nonEmpty[0];
+  const first = statement[0].value.toUpperCase();
+  if (statement[0].type !== 'identifier' || !READ_KEYWORDS.has(first)) {
+    return {
+      readOnly: false,
+      reason: `${first} statements are not allowed`,
+      statementCount: 1,
+      method: 'tokens',
+    };
+  }
+
+  for (let i = 1; i < statement.length; i++) {
+    const token = statement[i];
+    // Qualified names such as `audit.update` are identifiers, not keywords
+    if (token.type !== 'identifier' || statement[i - 1].value === '.') continue;
+
+    const word = token.value.toUpperCase();
+    if (MODIFYING_KEYWORDS.has(word)) {
+      return {
+        readOnly: false,
+        reason: `${word} is not allowed in a read-only query`,
+        statementCount: 1,
+        method: 'tokens',
+      };
+    }
+  }
+
+  return { readOnly: true, statementCount: 1, method: 'tokens' };
+}
+
+/**
+ * Determines whether SQL is a single statement that only reads data.
+ * SQL the parser cannot handle falls back to a conservative token scan
+ * that rejects any data-modifying keyword outside strings and comments.
+ */
+export function classifyQuery(sql: string, dialect: string = 'pg'): ReadOnlyClassification {
+  let ast;
+  try {
+    ast = parseSQL(sql, dialect);
+  } catch {
+    return classifyFromTokens(sql);
+  }
+
+  const statements = Array.isArray(ast) ? ast : [ast];
+
+  if (statements.length === 0) {
+    return { readOnly: false, reason: 'No SQL statement found', statementCount: 0, method: 'ast' };
+  }
+
+  if (statements.length > 1) {
+    return {
+      readOnly: false,
+      reason: 'Multiple statements are not allowed',
+      statementCount: statements.length,
+      method: 'ast',
+    };
+  }
+
+  const statement = statements[0];
+  if (!READ_STATEMENTS.has(statement.type)) {
+    return {
+      readOnly: false,
+      reason: `${statement.type.toUpperCase()} statements are not allowed`,
+      statementCount: 1,
+      method: 'ast',
+    };
+  }
+
+  const reason = findModifyingNode(statement);
+  if (reason) {
+    return { readOnly: false, reason, statementCount: 1, method: 'ast' };
+  }
+
+  return { readOnly: true, statementCount: 1, method: 'ast' };
+}
+
+export function isReadOnlyQuery(sql: string, dialect: string = 'pg'): boolean {
+  return classifyQuery(sql, dialect).readOnly;
+}
+
+/**
+ * Runs a query inside a read-only transaction so the database rejects any
+ * write the classifier could not see (e.g. a function with side effects).
+ *
+ * - PostgreSQL / MySQL: `SET TRANSACTION READ ONLY` (Knex `readOnly` option)
+ * - Oracle: `SET TRANSACTION READ ONLY` as the first statement
+ * - SQLite: `PRAGMA query_only`, reset before the connection returns to the pool
+ * - DuckDB: database files are opened read-only by the DuckDB client
+ * - SQL Server has no read-only transaction mode; the classifier is the only guard
+ */
+export async function runReadOnly<T>(
+  connection: Knex,
+  clientType: DatabaseClientType,
+  execute: (trx: Knex.Transaction) => Promise<T>
+): Promise<T> {
+  switch (clientType) {
+    case 'pg':
+    case 'mysql':
+      return connection.transaction(execute, { readOnly: true });
+
+    case 'oracledb':
+      return connection.transaction(async (trx) => {
+        await trx.raw('SET TRANSACTION READ ONLY');
+        return execute(trx);
+      });
+
+    case 'sqlite3':
+      return connection.transaction(async (trx) => {
+        await trx.raw('PRAGMA query_only = ON');
+        try {
+          return await execute(trx);
+        } finally {
+          await trx.raw('PRAGMA query_only = OFF');
+        }
+      });
+
+    default:
+      return connection.transaction(execute);
+  }
+}
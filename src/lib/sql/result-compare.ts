@@ -0,0 +1,415 @@
+/**
+ * Result Comparison
+ *
+ * Runs two read-only queries - ad-hoc SQL or saved query versions - with the
+ * same parameters and diffs their result sets. Rows are matched on the key
+ * columns the user picks (or on the whole row when none are picked) and
+ * reported as added, removed or changed, with the changed cells of each row.
+ */
+
+import { getDb } from '@/lib/db/config';
+import { getConnection } from '@/lib/db/connection-manager';
+import { paginationConfig } from '@/lib/config/pagination';
+import { bindParameters, parseParametersSchema, resolveParameters } from './parameters';
+import { paginateSQL } from './pagination';
+import { classifyQuery } from './read-only';
+import { lintQuery } from './validator';
+import { getBlockingFindings, getLintSettings } from './lint';
+import { runStatement, splitStatements } from './statements';
+import { recordQueryHistory } from './query-history';
+import { getQueryVersion } from './query-versions';
+import {
+  isExecutionCancelled,
+  QueryCancelledError,
+  registerExecution,
+  unregisterExecution,
+} from './execution-registry';
+import type { DataSource, QueryParameter, SavedQuery } from '@/types/database';
+import type {
+  ColumnInfo,
+  ResultCellChange,
+  ResultCompareSide,
+  ResultCompareSource,
+  ResultComparison,
+  ResultDiffRow,
+} from '@/types/api';
+
+export const DEFAULT_COMPARE_MAX_ROWS = 1000;
+export const MAX_COMPARE_MAX_ROWS = 10000;
+
+type Row = Record<string, unknown>;
+
+export class ResultComparisonError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public status: number = 400,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ResultComparisonError';
+  }
+}
+
+/**
+ * Comparable form of a cell: dates as ISO strings, binary as hex and
+ * JSON values as their text
+ */
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'bigint') return value.toString();
+  if (Buffer.isBuffer(value)) return value.toString('hex');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+/**
+ * Numbers compare numerically, also against numeric strings since drivers
+ * return DECIMAL and BIGINT columns as text. Two strings compare exactly, so
+ * codes such as '007' and '7' stay different.
+ */
+function compareCells(before: unknown, after: unknown, tolerance: number): { equal: boolean; delta?: number } {
+  const a = normalizeValue(before);
+  const b = normalizeValue(after);
+  if (typeof a === 'number' || typeof b === 'number') {
+    const x = toNumber(a);
+    const y = toNumber(b);
+    if (x !== null && y !== null) {
+      const delta = y - x;
+      return { equal: Math.abs(delta) <= tolerance, delta };
+    }
+  }
+  return { equal: a === b };
+}
+
+function keyOf(row: Row, keyColumns: string[]): string {
+  return JSON.stringify(
+    keyColumns.map((column) => {
+      const value = normalizeValue(row[column]);
+      // 1 and '1' identify the same row across drivers
+      return typeof value === 'number' ? String(value) : value;
+    })
+  );
+}
+
+function groupByKey(rows: Row[], keyColumns: string[]): Map<string, Row[]> {
+  const groups = new Map<string, Row[]>();
+  for (const row of rows) {
+    const key = keyOf(row, keyColumns);
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+  return groups;
+}
+
+function pick(row: Row, columns: string[]): Row {
+  return Object.fromEntries(columns.map((column) => [column, row[column] ?? null]));
+}
+
+/**
+ * Diffs two result sets. With key columns each key must identify one row on
+ * either side; without them rows are matched on all shared columns, and
+ * repeated rows are matched one for one.
+ */
+export function compareResults(
+  base: { columns: ColumnInfo[]; rows: Row[] },
+  target: { columns: ColumnInfo[]; rows: Row[] },
+  options: { keyColumns?: string[]; tolerance?: number; maxRows?: number } = {}
+): ResultComparison {
+  const baseColumns = base.columns.map((column) => column.name);
+  const targetColumns = target.columns.map((column) => column.name);
+  const sharedColumns = baseColumns.filter((column) => targetColumns.includes(column));
+  const addedColumns = targetColumns.filter((column) => !baseColumns.includes(column));
+  const removedColumns = baseColumns.filter((column) => !targetColumns.includes(column));
+  const requestedKeys = options.keyColumns ?? [];
+  const tolerance = options.tolerance ?? 0;
+  const maxRows = options.maxRows ?? DEFAULT_COMPARE_MAX_ROWS;
+
+  const missing = requestedKeys.filter((column) => !sharedColumns.includes(column));
+  if (missing.length > 0) {
+    throw new ResultComparisonError(
+      'INVALID_INPUT',
+      `Key columns must be returned by both queries: ${missing.join(', ')}`,
+      400,
+      { missingKeyColumns: missing }
+    );
+  }
+
+  const keyColumns = requestedKeys.length > 0 ? requestedKeys : sharedColumns;
+  const valueColumns = sharedColumns.filter((column) => !keyColumns.includes(column));
+  const baseGroups = groupByKey(base.rows, keyColumns);
+  const targetGroups = groupByKey(target.rows, keyColumns);
+
+  if (requestedKeys.length > 0) {
+    for (const [side, groups] of [['first', baseGroups], ['second', targetGroups]] as const) {
+      const duplicates = Array.from(groups.values()).filter((group) => group.length > 1);
+      if (duplicates.length > 0) {
+        throw new ResultComparisonError(
+          'INVALID_INPUT',
+          `The key columns do not identify rows uniquely: ${duplicates.length} key(s) repeat in the ${side} result`,
+          400,
+          { duplicateKeys: duplicates.slice(0, 10).map((group) => pick(group[0], keyColumns)) }
+        );
+      }
+    }
+  }
+
+  const summary = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  const rows: ResultDiffRow[] = [];
+  const report = (row: ResultDiffRow) => {
+    summary[row.status]++;
+    if (rows.length < maxRows) rows.push(row);
+  };
+
+  Array.from(baseGroups.entries()).forEach(([key, baseRows]) => {
+    const targetRows = targetGroups.get(key) ?? [];
+    baseRows.forEach((baseRow, i) => {
+      const targetRow = targetRows[i];
+      if (!targetRow) {
+        report({ status: 'removed', key: pick(baseRow, keyColumns), base: baseRow });
+        return;
+      }
+      const changes: ResultCellChange[] = [];
+      for (const column of valueColumns) {
+        const { equal, delta } = compareCells(baseRow[column], targetRow[column], tolerance);
+        if (!equal) {
+          changes.push({ column, before: baseRow[column] ?? null, after: targetRow[column] ?? null, ...(delta !== undefined && { delta }) });
+        }
+      }
+      if (changes.length > 0) {
+        report({ status: 'changed', key: pick(baseRow, keyColumns), base: baseRow, target: targetRow, changes });
+      } else {
+        summary.unchanged++;
+      }
+    });
+    targetRows.slice(baseRows.length).forEach((targetRow) => {
+      report({ status: 'added', key: pick(targetRow, keyColumns), target: targetRow });
+    });
+  });
+
+  Array.from(targetGroups.entries()).forEach(([key, targetRows]) => {
+    if (baseGroups.has(key)) return;
+    targetRows.forEach((targetRow) => {
+      report({ status: 'added', key: pick(targetRow, keyColumns), target: targetRow });
+    });
+  });
+
+  const differing = summary.added + summary.removed + summary.changed;
+  return {
+    keyColumns,
+    addedColumns,
+    removedColumns,
+    summary,
+    identical: differing === 0 && addedColumns.length === 0 && removedColumns.length === 0,
+    rows,
+    rowsTruncated: differing > rows.length,
+  };
+}
+
+export interface ComparisonContext {
+  userId: string;
+  userEmail: string;
+  // Role names, for the lint rules that block execution
+  roles: string[];
+  parameters: Record<string, unknown>;
+  // Parameter definitions for ad-hoc SQL; saved queries use their own
+  parametersSchema: QueryParameter[];
+  executionId: string;
+  timeout: number;
+}
+
+interface ResolvedSource {
+  label: string;
+  sql: string;
+  dataSourceId: string;
+  savedQueryId?: string;
+  parameterDefinitions: QueryParameter[];
+}
+
+async function resolveSource(source: ResultCompareSource, context: ComparisonContext): Promise<ResolvedSource> {
+  if ('savedQueryId' in source) {
+    const query = await getDb()<SavedQuery>('saved_queries')
+      .where('id', source.savedQueryId)
+      .where('is_deleted', false)
+      .first();
+    if (!query) {
+      throw new ResultComparisonError('NOT_FOUND', 'Saved query not found', 404);
+    }
+    if (source.version === undefined) {
+      return {
+        label: source.label || `${query.name} (current)`,
+        sql: query.sql_content,
+        dataSourceId: query.data_source_id,
+        savedQueryId: query.id,
+        parameterDefinitions: parseParametersSchema(query.parameters_schema),
+      };
+    }
+    const version = await getQueryVersion(query.id, source.version);
+    if (!version) {
+      throw new ResultComparisonError('NOT_FOUND', `Version ${source.version} of "${query.name}" not found`, 404);
+    }
+    return {
+      label: source.label || `${query.name} v${version.version_number}`,
+      sql: version.sql_content,
+      dataSourceId: version.data_source_id || query.data_source_id,
+      savedQueryId: query.id,
+      parameterDefinitions: parseParametersSchema(version.parameters_schema),
+    };
+  }
+
+  if (typeof source.sql !== 'string' || !source.sql.trim() || typeof source.dataSourceId !== 'string' || !source.dataSourceId) {
+    throw new ResultComparisonError('INVALID_INPUT', 'Each side needs either a savedQueryId or sql and a dataSourceId');
+  }
+  return {
+    label: source.label || 'SQL',
+    sql: source.sql,
+    dataSourceId: source.dataSourceId,
+    parameterDefinitions: context.parametersSchema,
+  };
+}
+
+/**
+ * Runs one side of a comparison under the same checks as the SQL editor:
+ * single read-only statement, no blocking lint findings, valid parameters.
+ * Fetches at most paginationConfig.maxCompareRows rows (the MAX_COMPARE_ROWS
+ * setting), independent of the `maxRows` differing rows a comparison returns.
+ */
+export async function runComparisonSide(
+  source: ResultCompareSource,
+  context: ComparisonContext
+): Promise<ResultCompareSide & { rows: Row[] }> {
+  const resolved = await resolveSource(source, context);
+  const { sql, dataSourceId } = resolved;
+
+  const dataSource = await getDb()<DataSource>('data_sources')
+    .where('id', dataSourceId)
+    .where('is_active', true)
+    .first();
+  if (!dataSource) {
+    throw new ResultComparisonError('NOT_FOUND', `Data source of "${resolved.label}" not found`, 404);
+  }
+
+  const parameters = resolveParameters(sql, resolved.parameterDefinitions, context.parameters);
+  if (parameters.errors.length > 0) {
+    throw new ResultComparisonError(
+      'INVALID_PARAMETERS',
+      `${resolved.label}: ${parameters.errors.map((e) => e.message).join('; ')}`,
+      400,
+      { errors: parameters.errors }
+    );
+  }
+
+  const lintSettings = await getLintSettings({ dataSourceId, roles: context.roles });
+  const blocking = getBlockingFindings(lintQuery(sql, dataSource.client_type, lintSettings));
+  if (blocking.length > 0) {
+    throw new ResultComparisonError(
+      'LINT_BLOCKED',
+      `${resolved.label}: query blocked by SQL lint rules: ${blocking.map((f) => f.message).join('; ')}`,
+      403,
+      { findings: blocking }
+    );
+  }
+
+  if (splitStatements(sql, dataSource.client_type).length > 1) {
+    throw new ResultComparisonError('INVALID_INPUT', `${resolved.label}: only a single statement can be compared`);
+  }
+
+  const classification = classifyQuery(sql, dataSource.client_type);
+  if (!classification.readOnly) {
+    throw new ResultComparisonError(
+      'FORBIDDEN',
+      `${resolved.label}: only read-only queries can be compared: ${classification.reason}`,
+      403,
+      { reason: classification.reason }
+    );
+  }
+
+  const limit = paginationConfig.maxCompareRows;
+  const connection = await getConnection(dataSource);
+  const bound = bindParameters(paginateSQL(sql, dataSource.client_type, limit, 0).sql, parameters.values);
+  const historyRecord = {
+    userId: context.userId,
+    dataSourceId,
+    savedQueryId: resolved.savedQueryId,
+    executionId: context.executionId,
+    sql,
+    parameters: parameters.values,
+    parametersSchema: resolved.parameterDefinitions,
+  };
+
+  const registered = registerExecution(
+    {
+      executionId: context.executionId,
+      userId: context.userId,
+      userEmail: context.userEmail,
+      dataSourceId,
+      dataSourceName: dataSource.name,
+      clientType: dataSource.client_type,
+      sql: sql.substring(0, 2000),
+    },
+    connection
+  );
+  if (!registered) {
+    throw new ResultComparisonError('CONFLICT', `Execution ${context.executionId} is already running`, 409);
+  }
+  const execution = { userId: context.userId, executionId: context.executionId };
+
+  const startTime = Date.now();
+  try {
+    const result = await runStatement(connection, dataSource.client_type, bound, {
+      execution,
+      timeout: context.timeout,
+      limit,
+    });
+    // better-sqlite3 cannot be interrupted; a cancelled statement's result is discarded
+    if (isExecutionCancelled(execution)) {
+      throw new QueryCancelledError(context.executionId);
+    }
+
+    await recordQueryHistory({
+      ...historyRecord,
+      status: 'success',
+      rowCount: result.rows.length,
+      durationMs: result.executionTime,
+    });
+
+    return {
+      label: resolved.label,
+      dataSourceId,
+      sql,
+      columns: result.columns,
+      rows: result.rows,
+      rowCount: result.rows.length,
+      executionTime: result.executionTime,
+      truncated: result.hasMore,
+    };
+  } catch (error) {
+    const cancelled = error instanceof QueryCancelledError || isExecutionCancelled(execution);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await recordQueryHistory({
+      ...historyRecord,
+      status: cancelled ? 'cancelled' : 'error',
+      errorMessage: cancelled ? 'Query was cancelled' : message,
+      durationMs: Date.now() - startTime,
+    });
+    throw cancelled
+      ? new ResultComparisonError('QUERY_CANCELLED', 'Comparison was cancelled', 409, { executionId: context.executionId })
+      : new ResultComparisonError('EXECUTION_ERROR', `${resolved.label}: ${message}`, 500);
+  } finally {
+    unregisterExecution(execution);
+  }
+}
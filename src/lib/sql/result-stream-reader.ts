@@ -0,0 +1,42 @@
+/**
+ * Client-side reader for NDJSON query result streams
+ */
+
+import type { SQLStreamMessage } from '@/types/api';
+
+/**
+ * Reads an NDJSON response body line by line, calling `onMessage` for each
+ * message as soon as it arrives
+ */
+export async function readResultStream(
+  response: Response,
+  onMessage: (message: SQLStreamMessage) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+
+    const lines = buffered.split('\n');
+    // The last element is an incomplete line (or empty after a newline)
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) {
+        onMessage(JSON.parse(line) as SQLStreamMessage);
+      }
+    }
+
+    if (done) break;
+  }
+
+  if (buffered.trim()) {
+    onMessage(JSON.parse(buffered) as SQLStreamMessage);
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Streaming Query Results
+ *
+ * Runs a query with Knex `.stream()` and emits the rows as NDJSON: a
+ * `columns` line with the first batch, `rows` lines in batches and a
+ * final `end` (or `error`) line. The read-only transaction stays open for the
+ * lifetime of the stream and the execution is registered so it can be
+ * cancelled like a paged query.
+ *
+ * Driver notes: Knex streams PostgreSQL through `pg-query-stream`;
+ * better-sqlite3 materialises the result before Knex streams it, so the row
+ * cap is pushed into the SQL.
+ */
+
+import type { Knex } from 'knex';
+import { runReadOnly } from './read-only';
+import { describeQueryColumns, describeSQLiteColumns, inferColumns, mergeInferredTypes } from './column-metadata';
+import {
+  attachBackend,
+  cancelExecution,
+  isExecutionCancelled,
+  QueryCancelledError,
+  unregisterExecution,
+  type ExecutionRef,
+} from './execution-registry';
+import type { DatabaseClientType } from '@/types/database';
+import type { ApiError, SQLStreamMessage } from '@/types/api';
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+const BATCH_SIZE = 500;
+
+export interface ResultStreamSummary {
+  rowCount: number;
+  executionTime: number;
+  truncated: boolean;
+}
+
+export interface ResultStreamOptions {
+  connection: Knex;
+  clientType: DatabaseClientType;
+  sql: string;
+  bindings: Knex.Value[];
+  // Already registered with the execution registry; unregistered on completion
+  execution: ExecutionRef;
+  // Rows to send before reporting the result as truncated
+  rowLimit: number;
+  timeout: number;
+  onComplete?: (summary: ResultStreamSummary) => Promise<void>;
+  // Called with the error sent to the client when the query fails or is cancelled
+  onError?: (error: ApiError, summary: ResultStreamSummary) => Promise<void>;
+}
+
+/**
+ * Creates an NDJSON response body for a query. Reading pauses the database
+ * stream when the client falls behind, and aborting the request cancels the
+ * query.
+ */
+export function createResultStream(options: ResultStreamOptions): ReadableStream<Uint8Array> {
+  const { connection, clientType, sql, bindings, execution, rowLimit, timeout } = options;
+  const { executionId } = execution;
+  const encoder = new TextEncoder();
+
+  // Resolved by `pull` when the consumer is ready for more data
+  let resumeReading: (() => void) | null = null;
+  let consumerGone = false;
+
+  return new ReadableStream<Uint8Array>(
+    {
+      start(controller) {
+        const send = (message: SQLStreamMessage) => {
+          if (consumerGone) return;
+          controller.enqueue(encoder.encode(JSON.stringify(message) + '\n'));
+        };
+        const waitForConsumer = async () => {
+          while (!consumerGone && (controller.desiredSize ?? 1) <= 0) {
+            await new Promise<void>((resolve) => {
+              resumeReading = resolve;
+            });
+          }
+        };
+
+        // Runs in the background: `pull` is only called once `start` returns,
+        // and the pump waits on `pull` when the client falls behind
+        const pump = async () => {
+          const startTime = Date.now();
+          let rowCount = 0;
+          let truncated = false;
+          let timedOut = false;
+
+          // Streams cannot use Knex `.timeout()`, so time out through the cancel path
+          const timer = setTimeout(() => {
+            timedOut = true;
+            cancelExecution(execution).catch((error) =>
+              console.error('Failed to cancel timed out query:', error)
+            );
+          }, timeout);
+
+          try {
+            await runReadOnly(connection, clientType, async (trx) => {
+              await attachBackend(execution, trx);
+              const query = bindings.length > 0 ? trx.raw(sql, bindings) : trx.raw(sql);
+
+              // Streams carry no column metadata, so describe the columns up
+              // front; drivers whose metadata Knex drops infer from the first batch
+              const described = clientType === 'sqlite3'
+                ? await describeSQLiteColumns(trx, query.toSQL().sql)
+                : await describeQueryColumns(trx, clientType, sql, bindings);
+              let columnsSent = false;
+              let batch: Record<string, unknown>[] = [];
+
+              const flush = () => {
+                if (!columnsSent) {
+                  send({ type: 'columns', columns: mergeInferredTypes(described ?? inferColumns(batch), batch) });
+                  columnsSent = true;
+                }
+                if (batch.length > 0) {
+                  send({ type: 'rows', rows: batch });
+                  batch = [];
+                }
+              };
+
+              for await (const row of query.stream()) {
+                if (isExecutionCancelled(execution)) {
+                  throw new QueryCancelledError(executionId);
+                }
+                if (rowCount >= rowLimit) {
+                  truncated = true;
+                  break;
+                }
+
+                batch.push(row);
+                rowCount++;
+                if (batch.length >= BATCH_SIZE) {
+                  flush();
+                  await waitForConsumer();
+                }
+              }
+
+              flush();
+            });
+
+            const summary = { rowCount, executionTime: Date.now() - startTime, truncated };
+            await options.onComplete?.(summary);
+            send({ type: 'end', executionId, ...summary });
+          } catch (error) {
+            const cancelled = error instanceof QueryCancelledError || isExecutionCancelled(execution);
+            const streamError: ApiError = cancelled
+              ? {
+                  code: timedOut ? 'QUERY_TIMEOUT' : 'QUERY_CANCELLED',
+                  message: timedOut ? `Query timed out after ${timeout}ms` : 'Query was cancelled',
+                  details: { executionId },
+                }
+              : {
+                  code: 'EXECUTION_ERROR',
+                  message: error instanceof Error ? error.message : 'Unknown error',
+                };
+            send({ type: 'error', error: streamError });
+            await options
+              .onError?.(streamError, { rowCount, executionTime: Date.now() - startTime, truncated })
+              .catch((hookError) => console.error('Stream error handler failed:', hookError));
+          } finally {
+            clearTimeout(timer);
+            unregisterExecution(execution);
+            if (!consumerGone) {
+              controller.close();
+            }
+          }
+        };
+
+        void pump();
+      },
+
+      pull() {
+        resumeReading?.();
+        resumeReading = null;
+      },
+
+      async cancel() {
+        // The client disconnected or aborted the request
+        consumerGone = true;
+        await cancelExecution(execution);
+        resumeReading?.();
+        resumeReading = null;
+      },
+    },
+    { highWaterMark: 4 }
+  );
+}
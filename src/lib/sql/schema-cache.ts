@@ -0,0 +1,491 @@
+/**
+ * Introspected Schema Cache
+ *
+ * Each data source's tables and views are persisted in
+ * `schema_cache_objects` with a fingerprint of their columns, taken from a
+ * single catalog listing query (see listSchemaObjects). Keys, indexes and
+ * comments are introspected per table the first time they are asked for.
+ *
+ * A cache checked more than SCHEMA_CACHE_TTL seconds ago is still served
+ * while a `schema:refresh` job lists the catalog again; only objects whose
+ * fingerprint changed are re-introspected. Caches are built for the data
+ * source's `updated_at`, so editing its connection rebuilds it. Dialects
+ * without a listing query are introspected in full on each refresh.
+ * Each new fingerprint is snapshotted for drift detection (see schema-drift).
+ */
+
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from '@/lib/db/config';
+import { getConnection } from '@/lib/db/connection-manager';
+import { addJob } from '@/lib/queue';
+import { introspectSchema, listSchemaObjects, type SchemaObjectListing } from './schema-introspection';
+import { recordSchemaSnapshot } from './schema-drift';
+import type { DataSource, SchemaCacheEntry, SchemaCacheObject } from '@/types/database';
+import type {
+  ColumnSchema,
+  SchemaCacheStatus,
+  SchemaInfo,
+  SchemaListing,
+  SchemaObjectRef,
+  SchemaRefreshResult,
+  TableInfo,
+  ViewInfo,
+} from '@/types/api';
+
+export interface CachedSchema {
+  schema: SchemaInfo;
+  logs: string[];
+  cachedAt: number;
+}
+
+// Listings with more columns than this leave them out; the schema browser
+// loads them per table
+const LISTING_COLUMN_LIMIT = 5000;
+// How long to wait for Redis before refreshing in this process instead
+const ENQUEUE_TIMEOUT_MS = 2000;
+const INSERT_BATCH_SIZE = 100;
+
+function getTtlMs(): number {
+  const ttl = parseInt(process.env.SCHEMA_CACHE_TTL || '', 10);
+  return (isNaN(ttl) || ttl < 0 ? 300 : ttl) * 1000;
+}
+
+// Schemas assembled for SQL validation, keyed by the cache's updated_at
+const assembled = new Map<string, { stamp: string; schema: SchemaInfo }>();
+// Refreshes in flight in this process, shared by concurrent callers
+const pending = new Map<string, Promise<SchemaCacheEntry>>();
+// When this process last asked for a background refresh of each data source
+const requested = new Map<string, number>();
+
+type SchemaObject = TableInfo | ViewInfo;
+
+function objectKey(name: string, schema?: string | null): string {
+  return `${schema ?? ''}.${name}`;
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function parseJSON<T>(value: string | null | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms} ms`)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Introspected details where loaded, else the listed columns. MySQL and
+ * SQLite views are introspected without columns, so those keep the listed ones.
+ */
+function toSchemaObject(row: SchemaCacheObject): SchemaObject {
+  const columns = parseJSON<ColumnSchema[]>(row.columns, []);
+  const details = parseJSON<SchemaObject | null>(row.details, null);
+  const listed = {
+    name: row.name,
+    schema: row.schema_name || undefined,
+    columnCount: row.column_count,
+    columnsLoaded: details !== null,
+  };
+  if (!details) return { ...listed, columns };
+  return { ...details, ...listed, columns: details.columns.length > 0 ? details.columns : columns };
+}
+
+function toSchemaInfo(rows: SchemaCacheObject[]): SchemaInfo {
+  return {
+    tables: rows.filter((row) => row.kind === 'table').map(toSchemaObject) as TableInfo[],
+    views: rows.filter((row) => row.kind === 'view').map(toSchemaObject) as ViewInfo[],
+  };
+}
+
+function toStatus(entry: SchemaCacheEntry): SchemaCacheStatus {
+  return {
+    status: entry.status,
+    fingerprint: entry.fingerprint ?? null,
+    refreshedAt: entry.refreshed_at ?? null,
+    changedAt: entry.changed_at ?? null,
+    error: entry.error || undefined,
+  };
+}
+
+/**
+ * Stores introspected details of listed objects; the rest are ignored
+ */
+async function storeDetails(dataSourceId: string, objects: SchemaObject[]): Promise<void> {
+  const db = getDb();
+  const loadedAt = new Date().toISOString();
+  await db.transaction(async (trx) => {
+    for (const object of objects) {
+      await trx<SchemaCacheObject>('schema_cache_objects')
+        .where({ data_source_id: dataSourceId, schema_name: object.schema ?? '', name: object.name })
+        .update({ details: JSON.stringify(object), loaded_at: loadedAt });
+    }
+    await trx<SchemaCacheEntry>('schema_cache').where('data_source_id', dataSourceId).update({ updated_at: loadedAt });
+  });
+}
+
+async function runRefresh(dataSource: DataSource, force: boolean): Promise<SchemaCacheEntry> {
+  const db = getDb();
+  const startedAt = new Date().toISOString();
+  const existing = await db<SchemaCacheEntry>('schema_cache').where('data_source_id', dataSource.id).first();
+  // A cache built for an earlier connection is discarded
+  const rebuild = !existing || existing.version !== dataSource.updated_at;
+
+  await db<SchemaCacheEntry>('schema_cache')
+    .insert({
+      data_source_id: dataSource.id,
+      version: existing?.version ?? dataSource.updated_at,
+      status: 'refreshing',
+      updated_at: startedAt,
+    })
+    .onConflict('data_source_id')
+    .merge(['status', 'updated_at']);
+
+  const logs: string[] = [];
+  const addLog = (message: string) => {
+    logs.push(`[${new Date().toISOString()}] ${message}`);
+  };
+
+  try {
+    const connection = await getConnection(dataSource);
+    const details = new Map<string, SchemaObject>();
+    const addDetails = (schema: SchemaInfo) => {
+      for (const object of [...schema.tables, ...schema.views]) {
+        details.set(objectKey(object.name, object.schema), object);
+      }
+    };
+
+    let listing = await listSchemaObjects(connection, dataSource.client_type);
+    if (listing) {
+      addLog(`Listed ${listing.length} tables and views`);
+    } else {
+      const introspected = await introspectSchema(connection, dataSource.client_type);
+      logs.push(...introspected.logs);
+      addDetails(introspected.schema);
+      listing = [
+        ...introspected.schema.tables.map((t): SchemaObjectListing => ({ ...t, kind: 'table' })),
+        ...introspected.schema.views.map((v): SchemaObjectListing => ({ ...v, kind: 'view' })),
+      ];
+    }
+
+    const stored = rebuild
+      ? []
+      : await db<SchemaCacheObject>('schema_cache_objects')
+          .where('data_source_id', dataSource.id)
+          .select('id', 'schema_name', 'name', 'kind', 'fingerprint', 'loaded_at');
+    const storedByKey = new Map(stored.map((row) => [objectKey(row.name, row.schema_name || undefined), row]));
+
+    const listed = listing.map((object) => ({
+      ...object,
+      key: objectKey(object.name, object.schema),
+      fingerprint: hash(JSON.stringify(object.columns.map((c) => [c.name, c.type, c.nullable]))),
+    }));
+    const listedKeys = new Set(listed.map((object) => object.key));
+    const fingerprint = hash(
+      listed
+        .map((object) => `${object.key}:${object.kind}:${object.fingerprint}`)
+        .sort()
+        .join('\n')
+    );
+
+    const isChanged = (object: (typeof listed)[number]) => {
+      const row = storedByKey.get(object.key);
+      return !!row && (row.fingerprint !== object.fingerprint || row.kind !== object.kind);
+    };
+    const added = listed.filter((object) => !storedByKey.has(object.key));
+    const changed = listed.filter(isChanged);
+    const removed = stored.filter((row) => !listedKeys.has(objectKey(row.name, row.schema_name || undefined)));
+
+    // Objects whose details were loaded are kept loaded
+    const reload = listed.filter(
+      (object) => storedByKey.get(object.key)?.loaded_at && (force || isChanged(object)) && !details.has(object.key)
+    );
+    if (reload.length > 0) {
+      addLog(`Introspecting ${reload.length} loaded tables and views`);
+      const introspected = await introspectSchema(connection, dataSource.client_type, {
+        objects: reload.map((object) => ({ name: object.name, schema: object.schema })),
+      });
+      logs.push(...introspected.logs);
+      addDetails(introspected.schema);
+    }
+
+    const unchanged = !rebuild && existing?.fingerprint === fingerprint;
+    addLog(
+      unchanged
+        ? 'Schema unchanged'
+        : `Schema changed: ${added.length} added, ${changed.length} changed, ${removed.length} removed`
+    );
+
+    const finishedAt = new Date().toISOString();
+    await db.transaction(async (trx) => {
+      if (rebuild) {
+        await trx('schema_cache_objects').where('data_source_id', dataSource.id).delete();
+      }
+      if (removed.length > 0) {
+        await trx('schema_cache_objects').whereIn('id', removed.map((row) => row.id)).delete();
+      }
+
+      const toRow = (object: (typeof listed)[number]) => {
+        const introspected = details.get(object.key);
+        return {
+          kind: object.kind,
+          fingerprint: object.fingerprint,
+          column_count: object.columns.length,
+          columns: JSON.stringify(object.columns),
+          details: introspected ? JSON.stringify(introspected) : null,
+          loaded_at: introspected ? finishedAt : null,
+        };
+      };
+
+      const inserts = added.map((object) => ({
+        id: uuidv4(),
+        data_source_id: dataSource.id,
+        schema_name: object.schema ?? '',
+        name: object.name,
+        ...toRow(object),
+      }));
+      for (let i = 0; i < inserts.length; i += INSERT_BATCH_SIZE) {
+        await trx('schema_cache_objects').insert(inserts.slice(i, i + INSERT_BATCH_SIZE));
+      }
+
+      // Changed objects lose stale details; unchanged ones only take new ones
+      for (const object of listed) {
+        const row = storedByKey.get(object.key);
+        if (!row || (!isChanged(object) && !details.has(object.key))) continue;
+        await trx('schema_cache_objects').where('id', row.id).update(toRow(object));
+      }
+
+      await trx<SchemaCacheEntry>('schema_cache')
+        .where('data_source_id', dataSource.id)
+        .update({
+          version: dataSource.updated_at,
+          fingerprint,
+          status: 'ready',
+          error: null,
+          logs: JSON.stringify(logs),
+          refreshed_at: finishedAt,
+          ...(unchanged ? {} : { changed_at: finishedAt }),
+          updated_at: finishedAt,
+        });
+    });
+
+    // Drift alerts must not fail the refresh that feeds them
+    try {
+      await recordSchemaSnapshot(dataSource.id, fingerprint, {
+        tables: listed.filter((object) => object.kind === 'table'),
+        views: listed.filter((object) => object.kind === 'view'),
+      });
+    } catch (error) {
+      console.error('Failed to record schema snapshot:', error);
+    }
+
+    return (await db<SchemaCacheEntry>('schema_cache').where('data_source_id', dataSource.id).first())!;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    addLog(`ERROR: Schema refresh failed: ${message}`);
+    await db<SchemaCacheEntry>('schema_cache')
+      .where('data_source_id', dataSource.id)
+      .update({ status: 'failed', error: message, logs: JSON.stringify(logs), updated_at: new Date().toISOString() });
+    throw error;
+  }
+}
+
+/**
+ * Lists the data source's catalog and brings the persisted cache up to
+ * date: new objects are stored, dropped ones removed and changed ones
+ * re-introspected if their details were loaded. `force` re-introspects every
+ * loaded object, for key and index changes that leave the columns alone.
+ * Runs in the `schema:refresh` job, or directly when no cache exists yet.
+ */
+export async function refreshSchemaCache(
+  dataSource: DataSource,
+  options: { force?: boolean } = {}
+): Promise<SchemaCacheEntry> {
+  const inFlight = pending.get(dataSource.id);
+  if (inFlight) return inFlight;
+
+  const refresh = runRefresh(dataSource, options.force ?? false);
+  pending.set(dataSource.id, refresh);
+  try {
+    return await refresh;
+  } finally {
+    pending.delete(dataSource.id);
+  }
+}
+
+/**
+ * Queues a `schema:refresh` job. Without a reachable queue the refresh runs
+ * in this process, in the background.
+ */
+export async function requestSchemaRefresh(
+  dataSource: DataSource,
+  options: { force?: boolean; userId?: string } = {}
+): Promise<SchemaRefreshResult> {
+  requested.set(dataSource.id, Date.now());
+  try {
+    const job = await withTimeout(
+      addJob({ type: 'schema:refresh', dataSourceId: dataSource.id, userId: options.userId, force: options.force }),
+      ENQUEUE_TIMEOUT_MS
+    );
+    return { queued: true, jobId: job.id };
+  } catch (error) {
+    console.warn('Schema refresh could not be queued, refreshing in process:', error instanceof Error ? error.message : error);
+    refreshSchemaCache(dataSource, { force: options.force }).catch((refreshError) => {
+      console.error('Schema refresh failed:', refreshError);
+    });
+    return { queued: false };
+  }
+}
+
+/**
+ * The current cache entry, built first if missing or made for an earlier
+ * connection. An expired entry is returned as is while a refresh is requested.
+ */
+async function loadCache(dataSource: DataSource): Promise<SchemaCacheEntry> {
+  const entry = await getDb()<SchemaCacheEntry>('schema_cache').where('data_source_id', dataSource.id).first();
+  if (!entry || entry.version !== dataSource.updated_at || !entry.refreshed_at) {
+    return refreshSchemaCache(dataSource);
+  }
+
+  const ttl = getTtlMs();
+  const lastRequested = requested.get(dataSource.id) ?? 0;
+  if (Date.now() - Date.parse(entry.refreshed_at) >= ttl && Date.now() - lastRequested >= ttl) {
+    requestSchemaRefresh(dataSource).catch(() => undefined);
+  }
+  return entry;
+}
+
+/**
+ * Tables and views for the schema browser. Columns are included while the
+ * schema has at most LISTING_COLUMN_LIMIT of them; otherwise each object only
+ * carries its `columnCount` and is loaded with getSchemaObject. `refresh`
+ * refreshes the cache first, re-introspecting loaded objects.
+ */
+export async function getSchemaListing(
+  dataSource: DataSource,
+  options: { refresh?: boolean } = {}
+): Promise<SchemaListing> {
+  const entry = options.refresh
+    ? await refreshSchemaCache(dataSource, { force: true })
+    : await loadCache(dataSource);
+
+  const db = getDb();
+  const rows = await db<SchemaCacheObject>('schema_cache_objects')
+    .where('data_source_id', dataSource.id)
+    .orderBy([{ column: 'name' }, { column: 'schema_name' }])
+    .select('schema_name', 'name', 'kind', 'column_count');
+  const columnTotal = rows.reduce((sum, row) => sum + row.column_count, 0);
+
+  let schema: SchemaInfo;
+  if (columnTotal <= LISTING_COLUMN_LIMIT) {
+    schema = toSchemaInfo(
+      await db<SchemaCacheObject>('schema_cache_objects')
+        .where('data_source_id', dataSource.id)
+        .orderBy([{ column: 'name' }, { column: 'schema_name' }])
+    );
+  } else {
+    const toListed = (row: Pick<SchemaCacheObject, 'schema_name' | 'name' | 'column_count'>) => ({
+      name: row.name,
+      schema: row.schema_name || undefined,
+      columns: [],
+      columnCount: row.column_count,
+      columnsLoaded: false,
+    });
+    schema = {
+      tables: rows.filter((row) => row.kind === 'table').map(toListed),
+      views: rows.filter((row) => row.kind === 'view').map(toListed),
+    };
+  }
+
+  return { ...schema, logs: parseJSON<string[]>(entry.logs, []), cache: toStatus(entry) };
+}
+
+/**
+ * One table or view with its columns, keys and indexes, introspected on
+ * first use. Null when the object is not in the cached listing.
+ */
+export async function getSchemaObject(dataSource: DataSource, ref: SchemaObjectRef): Promise<SchemaObject | null> {
+  await loadCache(dataSource);
+
+  const db = getDb();
+  const find = () =>
+    db<SchemaCacheObject>('schema_cache_objects')
+      .where({ data_source_id: dataSource.id, schema_name: ref.schema ?? '', name: ref.name })
+      .first();
+
+  const row = await find();
+  if (!row) return null;
+  if (row.details) return toSchemaObject(row);
+
+  const connection = await getConnection(dataSource);
+  const { schema } = await introspectSchema(connection, dataSource.client_type, {
+    objects: [{ name: row.name, schema: row.schema_name || undefined }],
+  });
+  // Dialects introspected in bulk return every object, all of which are kept
+  await storeDetails(dataSource.id, [...schema.tables, ...schema.views]);
+
+  const loaded = await find();
+  return loaded ? toSchemaObject(loaded) : null;
+}
+
+/**
+ * Every table and view with its columns, for resolving names in SQL
+ * validation. Objects not introspected yet have the listed columns only.
+ */
+export async function getSchemaInfo(dataSource: DataSource, options: { refresh?: boolean } = {}): Promise<CachedSchema> {
+  const entry = options.refresh
+    ? await refreshSchemaCache(dataSource, { force: true })
+    : await loadCache(dataSource);
+
+  let cached = assembled.get(dataSource.id);
+  if (!cached || cached.stamp !== entry.updated_at) {
+    const rows = await getDb()<SchemaCacheObject>('schema_cache_objects')
+      .where('data_source_id', dataSource.id)
+      .orderBy([{ column: 'name' }, { column: 'schema_name' }]);
+    cached = { stamp: entry.updated_at, schema: toSchemaInfo(rows) };
+    assembled.set(dataSource.id, cached);
+  }
+
+  return {
+    schema: cached.schema,
+    logs: parseJSON<string[]>(entry.logs, []),
+    cachedAt: Date.parse(entry.refreshed_at ?? entry.updated_at),
+  };
+}
+
+/**
+ * Drops the persisted cache, so the next request lists the catalog again
+ */
+export async function invalidateSchemaInfo(dataSourceId?: string): Promise<void> {
+  const db = getDb();
+  if (dataSourceId) {
+    await db('schema_cache_objects').where('data_source_id', dataSourceId).delete();
+    await db('schema_cache').where('data_source_id', dataSourceId).delete();
+    assembled.delete(dataSourceId);
+    requested.delete(dataSourceId);
+  } else {
+    await db('schema_cache_objects').delete();
+    await db('schema_cache').delete();
+    assembled.clear();
+    requested.clear();
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * Schema Drift Detection
+ *
+ * Each schema cache refresh that finds a new fingerprint stores a snapshot
+ * of the data source's tables, views and columns in `schema_snapshots`,
+ * along with its differences from the previous snapshot. Drift is what
+ * changed since the last acknowledged snapshot: saved queries still reading
+ * a dropped table or column are flagged, with the reports, charts and
+ * dashboards built on them. The first snapshot is the baseline and is
+ * acknowledged when it is taken.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from '@/lib/db/config';
+import { extractColumns, extractTableReferences, type TableReference } from './validator';
+import type { DatabaseClientType, DataSource, SavedQuery, SchemaSnapshot } from '@/types/database';
+import type {
+  ColumnSchema,
+  SchemaColumnChange,
+  SchemaDriftImpact,
+  SchemaDriftReport,
+  SchemaDriftSummary,
+  SchemaInfo,
+  SchemaObjectChange,
+} from '@/types/api';
+
+// Snapshots kept per data source; the last acknowledged one is always kept
+const SNAPSHOT_LIMIT = 50;
+
+// Schema an unqualified table name resolves to, where the dialect has a fixed
+// default; elsewhere (Oracle's current user) an unqualified name matches any schema
+const DEFAULT_SCHEMAS: Partial<Record<DatabaseClientType, string>> = {
+  pg: 'public',
+  mssql: 'dbo',
+  duckdb: 'main',
+};
+
+interface SnapshotObject {
+  name: string;
+  schema?: string;
+  kind: 'table' | 'view';
+  columns: ColumnSchema[];
+}
+
+function objectKey(name: string, schema?: string): string {
+  return `${schema ?? ''}.${name}`;
+}
+
+function parseJSON<T>(value: string | null | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+// Only names, types and nullability are compared, so keys and comments are left out
+function toSnapshotSchema(schema: SchemaInfo): SchemaInfo {
+  const compact = <T extends { name: string; schema?: string; columns: ColumnSchema[] }>(object: T) => ({
+    name: object.name,
+    ...(object.schema ? { schema: object.schema } : {}),
+    columns: object.columns.map((c) => ({ name: c.name, type: c.type, nullable: c.nullable })),
+  });
+  return { tables: schema.tables.map(compact), views: schema.views.map(compact) };
+}
+
+function listObjects(schema: SchemaInfo): Map<string, SnapshotObject> {
+  const objects = [
+    ...schema.tables.map((t): SnapshotObject => ({ ...t, kind: 'table' })),
+    ...schema.views.map((v): SnapshotObject => ({ ...v, kind: 'view' })),
+  ];
+  return new Map(objects.map((object) => [objectKey(object.name, object.schema), object]));
+}
+
+function diffColumns(previous: ColumnSchema[], current: ColumnSchema[]): SchemaColumnChange[] {
+  const before = new Map(previous.map((c) => [c.name, c]));
+  const after = new Map(current.map((c) => [c.name, c]));
+  const changes: SchemaColumnChange[] = [];
+
+  for (const column of current) {
+    const old = before.get(column.name);
+    if (!old) {
+      changes.push({ name: column.name, change: 'added', type: column.type });
+    } else if (old.type !== column.type) {
+      changes.push({ name: column.name, change: 'type_changed', type: column.type, previousType: old.type });
+    }
+  }
+  for (const column of previous) {
+    if (!after.has(column.name)) {
+      changes.push({ name: column.name, change: 'removed', type: column.type });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Tables and views added, removed or changed between two schemas. A renamed
+ * table or column shows up as one removed and another added.
+ */
+export function diffSchemas(previous: SchemaInfo, current: SchemaInfo): SchemaObjectChange[] {
+  const before = listObjects(previous);
+  const after = listObjects(current);
+  const changes: SchemaObjectChange[] = [];
+
+  after.forEach((object, key) => {
+    const old = before.get(key);
+    const base = { name: object.name, ...(object.schema ? { schema: object.schema } : {}), kind: object.kind };
+    if (!old) {
+      changes.push({ ...base, change: 'added', columns: [] });
+      return;
+    }
+    const columns = diffColumns(old.columns, object.columns);
+    if (columns.length > 0 || old.kind !== object.kind) {
+      changes.push({ ...base, change: 'changed', columns });
+    }
+  });
+  before.forEach((object, key) => {
+    if (after.has(key)) return;
+    changes.push({
+      name: object.name,
+      ...(object.schema ? { schema: object.schema } : {}),
+      kind: object.kind,
+      change: 'removed',
+      columns: [],
+    });
+  });
+
+  return changes.sort((a, b) =>
+    objectKey(a.name, a.schema).localeCompare(objectKey(b.name, b.schema))
+  );
+}
+
+async function pruneSnapshots(dataSourceId: string): Promise<void> {
+  const db = getDb();
+  const oldest = await db<SchemaSnapshot>('schema_snapshots')
+    .where('data_source_id', dataSourceId)
+    .orderBy('created_at', 'desc')
+    .offset(SNAPSHOT_LIMIT)
+    .first('created_at');
+  if (!oldest) return;
+
+  const baseline = await db<SchemaSnapshot>('schema_snapshots')
+    .where('data_source_id', dataSourceId)
+    .whereNotNull('acknowledged_at')
+    .orderBy('created_at', 'desc')
+    .first('created_at');
+
+  const query = db<SchemaSnapshot>('schema_snapshots')
+    .where('data_source_id', dataSourceId)
+    .where('created_at', '<=', oldest.created_at);
+  if (baseline) query.where('created_at', '<', baseline.created_at);
+  await query.delete();
+}
+
+/**
+ * Stores a snapshot of the data source's schema unless the latest one has
+ * the same fingerprint. Returns the new snapshot, if any.
+ */
+export async function recordSchemaSnapshot(
+  dataSourceId: string,
+  fingerprint: string,
+  schema: SchemaInfo
+): Promise<SchemaSnapshot | null> {
+  const db = getDb();
+  const latest = await db<SchemaSnapshot>('schema_snapshots')
+    .where('data_source_id', dataSourceId)
+    .orderBy('created_at', 'desc')
+    .first();
+  if (latest?.fingerprint === fingerprint) return null;
+
+  const current = toSnapshotSchema(schema);
+  const diff = latest ? diffSchemas(parseJSON<SchemaInfo>(latest.schema, { tables: [], views: [] }), current) : null;
+  const now = new Date().toISOString();
+  const snapshot: SchemaSnapshot = {
+    id: uuidv4(),
+    data_source_id: dataSourceId,
+    fingerprint,
+    schema: JSON.stringify(current),
+    diff: diff ? JSON.stringify(diff) : null,
+    acknowledged_at: latest ? null : now,
+    created_at: now,
+  };
+  await db<SchemaSnapshot>('schema_snapshots').insert(snapshot);
+  await pruneSnapshots(dataSourceId);
+  return snapshot;
+}
+
+/**
+ * Saved queries of the data source that read a removed table, or a removed
+ * column of a table they read, followed by the reports and charts built on
+ * them and the dashboards showing those. Tables and columns are matched by
+ * name, case-insensitively, and by schema where the snapshot has one: an
+ * unqualified table is taken to be in the dialect's default schema. Queries
+ * that do not parse are skipped.
+ */
+export async function findSchemaDriftImpact(
+  dataSource: DataSource,
+  changes: SchemaObjectChange[]
+): Promise<SchemaDriftImpact> {
+  const impact: SchemaDriftImpact = { queries: [], reports: [], charts: [], dashboards: [] };
+
+  const removals = changes
+    .map((change) => ({
+      change,
+      label: change.schema ? `${change.schema}.${change.name}` : change.name,
+      removedColumns: change.columns.filter((column) => column.change === 'removed'),
+    }))
+    .filter(({ change, removedColumns }) => change.change === 'removed' || removedColumns.length > 0);
+  if (removals.length === 0) return impact;
+
+  const defaultSchema = DEFAULT_SCHEMAS[dataSource.client_type]?.toLowerCase();
+  const readsObject = (table: TableReference, change: SchemaObjectChange) => {
+    if (table.name.toLowerCase() !== change.name.toLowerCase()) return false;
+    if (!change.schema) return true;
+    const schema = table.schema?.toLowerCase() ?? defaultSchema;
+    return schema === undefined || schema === change.schema.toLowerCase();
+  };
+
+  const db = getDb();
+  const queries = await db<SavedQuery>('saved_queries')
+    .where('data_source_id', dataSource.id)
+    .where('is_deleted', false)
+    .select('id', 'name', 'sql_content')
+    .orderBy('name');
+
+  for (const query of queries) {
+    const tables = extractTableReferences(query.sql_content, dataSource.client_type);
+    if (tables.length === 0) continue;
+    const columns = new Set(extractColumns(query.sql_content, dataSource.client_type).map((c) => c.toLowerCase()));
+
+    const references: string[] = [];
+    for (const { change, label, removedColumns } of removals) {
+      if (!tables.some((table) => readsObject(table, change))) continue;
+      if (change.change === 'removed') {
+        references.push(label);
+        continue;
+      }
+      for (const column of removedColumns) {
+        if (columns.has(column.name.toLowerCase())) references.push(`${label}.${column.name}`);
+      }
+    }
+    if (references.length > 0) {
+      impact.queries.push({ id: query.id, name: query.name, references });
+    }
+  }
+  if (impact.queries.length === 0) return impact;
+
+  const queryIds = impact.queries.map((q) => q.id);
+  const [reports, charts] = await Promise.all([
+    db('report_definitions')
+      .whereIn('saved_query_id', queryIds)
+      .where('is_deleted', false)
+      .select('id', 'name', 'saved_query_id')
+      .orderBy('name'),
+    db('chart_definitions')
+      .whereIn('saved_query_id', queryIds)
+      .where('is_deleted', false)
+      .select('id', 'name', 'saved_query_id')
+      .orderBy('name'),
+  ]);
+  impact.reports = reports.map((r) => ({ id: r.id, name: r.name, savedQueryId: r.saved_query_id }));
+  impact.charts = charts.map((c) => ({ id: c.id, name: c.name, savedQueryId: c.saved_query_id }));
+
+  const reportIds = impact.reports.map((r) => r.id);
+  const chartIds = impact.charts.map((c) => c.id);
+  if (reportIds.length > 0 || chartIds.length > 0) {
+    impact.dashboards = await db('dashboard_layouts')
+      .join('dashboard_widgets', 'dashboard_widgets.dashboard_id', 'dashboard_layouts.id')
+      .where('dashboard_layouts.is_deleted', false)
+      .where((builder) => {
+        builder.whereIn('dashboard_widgets.report_id', reportIds).orWhereIn('dashboard_widgets.chart_id', chartIds);
+      })
+      .distinct('dashboard_layouts.id', 'dashboard_layouts.name')
+      .orderBy('dashboard_layouts.name');
+  }
+
+  return impact;
+}
+
+/**
+ * Changes to the data source's schema since the last acknowledged snapshot
+ * and what they break, with its recent snapshots
+ */
+export async function getSchemaDrift(dataSource: DataSource): Promise<SchemaDriftReport> {
+  const db = getDb();
+  const snapshots = await db<SchemaSnapshot>('schema_snapshots')
+    .where('data_source_id', dataSource.id)
+    .orderBy('created_at', 'desc')
+    .select('id', 'fingerprint', 'diff', 'acknowledged_at', 'created_at');
+
+  const report: SchemaDriftReport = {
+    dataSourceId: dataSource.id,
+    changes: [],
+    detectedAt: null,
+    impact: { queries: [], reports: [], charts: [], dashboards: [] },
+    snapshots: snapshots.map((snapshot) => ({
+      id: snapshot.id,
+      fingerprint: snapshot.fingerprint,
+      changeCount: parseJSON<SchemaObjectChange[]>(snapshot.diff, []).length,
+      createdAt: snapshot.created_at,
+      acknowledgedAt: snapshot.acknowledged_at ?? null,
+    })),
+  };
+
+  // Drift is measured from the latest acknowledged snapshot, so objects
+  // dropped and then restored since do not count
+  const baselineIndex = snapshots.findIndex((snapshot) => snapshot.acknowledged_at);
+  if (baselineIndex <= 0) return report;
+
+  const [baseline, latest] = await Promise.all(
+    [snapshots[baselineIndex].id, snapshots[0].id].map((id) =>
+      db<SchemaSnapshot>('schema_snapshots').where('id', id).first('schema')
+    )
+  );
+  report.changes = diffSchemas(
+    parseJSON<SchemaInfo>(baseline?.schema, { tables: [], views: [] }),
+    parseJSON<SchemaInfo>(latest?.schema, { tables: [], views: [] })
+  );
+  if (report.changes.length === 0) return report;
+
+  report.detectedAt = snapshots[baselineIndex - 1].created_at;
+  report.impact = await findSchemaDriftImpact(dataSource, report.changes);
+  return report;
+}
+
+/**
+ * Data sources with unacknowledged schema changes
+ */
+export async function getSchemaDriftSummaries(): Promise<SchemaDriftSummary[]> {
+  const db = getDb();
+  const dataSources = await db<DataSource>('data_sources')
+    .where('is_deleted', false)
+    .whereIn(
+      'id',
+      db<SchemaSnapshot>('schema_snapshots').whereNull('acknowledged_at').distinct('data_source_id')
+    );
+
+  const summaries: SchemaDriftSummary[] = [];
+  for (const dataSource of dataSources) {
+    const drift = await getSchemaDrift(dataSource);
+    if (drift.changes.length === 0 || !drift.detectedAt) continue;
+    summaries.push({
+      dataSourceId: dataSource.id,
+      changeCount: drift.changes.length,
+      affectedQueries: drift.impact.queries.length,
+      detectedAt: drift.detectedAt,
+    });
+  }
+  return summaries;
+}
+
+/**
+ * Accepts the data source's current schema as the new baseline. Returns the
+ * number of snapshots acknowledged.
+ */
+export async function acknowledgeSchemaDrift(dataSourceId: string, userId: string): Promise<number> {
+  return getDb()<SchemaSnapshot>('schema_snapshots')
+    .where('data_source_id', dataSourceId)
+    .whereNull('acknowledged_at')
+    .update({ acknowledged_at: new Date().toISOString(), acknowledged_by: userId });
+}
@@ -1,12 +1,33 @@
 import type { Knex } from 'knex';
-import type { SchemaInfo, TableInfo, ViewInfo, ColumnSchema, ForeignKeyInfo, IndexInfo } from '@/types/api';
+import type {
+  SchemaInfo,
+  SchemaObjectRef,
+  TableInfo,
+  ViewInfo,
+  ColumnSchema,
+  ForeignKeyInfo,
+  IndexInfo,
+} from '@/types/api';
 
 interface IntrospectionResult {
   schema: SchemaInfo;
   logs: string[];
 }
 
-export async function introspectSchema(connection: Knex, dialect: string): Promise<IntrospectionResult> {
+// Decides which listed tables and views get their per-table queries
+type ObjectFilter = (name: string, schema?: string) => boolean;
+
+/**
+ * Introspects the data source's tables and views. With `objects`, the
+ * dialects that query each table separately (PostgreSQL, MySQL, SQLite and
+ * SQL Server) only introspect those; the ones that read the whole catalog in
+ * a few queries (Oracle, DuckDB) still return everything.
+ */
+export async function introspectSchema(
+  connection: Knex,
+  dialect: string,
+  options: { objects?: SchemaObjectRef[] } = {}
+): Promise<IntrospectionResult> {
   const logs: string[] = [];
 
   const addLog = (message: string) => {
@@ -14,7 +35,12 @@ export async function introspectSchema(connection: Knex, dialect: string): Promi
     console.log(message);
   };
 
-  const result = await introspectSchemaInternal(connection, dialect, addLog);
+  const { objects } = options;
+  const include: ObjectFilter = objects
+    ? (name, schema) => objects.some((o) => o.name === name && (o.schema ?? null) === (schema ?? null))
+    : () => true;
+
+  const result = await introspectSchemaInternal(connection, dialect, addLog, include);
 
   return {
     schema: result,
@@ -22,22 +48,143 @@ export async function introspectSchema(connection: Knex, dialect: string): Promi
   };
 }
 
-async function introspectSchemaInternal(connection: Knex, dialect: string, addLog: (msg: string) => void): Promise<SchemaInfo> {
+// A table or view with its columns, from one catalog query for all objects
+export interface SchemaObjectListing extends SchemaObjectRef {
+  kind: 'table' | 'view';
+  columns: ColumnSchema[];
+}
+
+interface ListedColumnRow {
+  schema_name?: string | null;
+  table_name: string;
+  table_type: string;
+  column_name: string;
+  data_type: string;
+  is_nullable: string;
+}
+
+// information_schema listing; `where` scopes it to the dialect's user schemas
+const informationSchemaListing = (where: string, withSchema = true) => `
+  SELECT
+    ${withSchema ? 'c.table_schema AS schema_name,' : ''}
+    c.table_name AS table_name,
+    t.table_type AS table_type,
+    c.column_name AS column_name,
+    c.data_type AS data_type,
+    c.is_nullable AS is_nullable
+  FROM information_schema.columns c
+  JOIN information_schema.tables t
+    ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+  WHERE ${where}
+  AND t.table_type IN ('BASE TABLE', 'VIEW')
+  ORDER BY c.table_schema, c.table_name, c.ordinal_position
+`;
+
+const LISTING_QUERIES: Record<string, string> = {
+  pg: informationSchemaListing(`c.table_schema NOT IN ('information_schema', 'pg_catalog')`),
+  mysql: informationSchemaListing('c.table_schema = DATABASE()', false),
+  mssql: informationSchemaListing(`c.table_schema NOT IN ('INFORMATION_SCHEMA', 'sys')`),
+  duckdb: informationSchemaListing(
+    `c.table_catalog = current_database() AND c.table_schema NOT IN ('information_schema', 'pg_catalog')`
+  ),
+  sqlite3: `
+    SELECT
+      m.name AS table_name,
+      m.type AS table_type,
+      p.name AS column_name,
+      p.type AS data_type,
+      CASE WHEN p."notnull" = 0 THEN 'YES' ELSE 'NO' END AS is_nullable
+    FROM sqlite_master m
+    JOIN pragma_table_info(m.name) p
+    WHERE m.type IN ('table', 'view')
+    AND m.name NOT LIKE 'sqlite_%'
+    ORDER BY m.name, p.cid
+  `,
+  oracledb: `
+    SELECT
+      c.owner AS "schema_name",
+      c.table_name AS "table_name",
+      o.object_type AS "table_type",
+      c.column_name AS "column_name",
+      c.data_type AS "data_type",
+      CASE c.nullable WHEN 'Y' THEN 'YES' ELSE 'NO' END AS "is_nullable"
+    FROM all_tab_columns c
+    JOIN all_objects o
+      ON o.owner = c.owner AND o.object_name = c.table_name AND o.object_type IN ('TABLE', 'VIEW')
+    WHERE c.owner = SYS_CONTEXT('USERENV', 'CURRENT_SCHEMA')
+    AND c.table_name NOT LIKE 'BIN$%'
+    ORDER BY c.table_name, c.column_id
+  `,
+};
+
+/**
+ * Lists every table and view with its column names and types in a single
+ * catalog query, cheap enough to run on each schema cache check. Schema names
+ * match the ones `introspectSchema` reports. Returns null for dialects
+ * without a listing query.
+ */
+export async function listSchemaObjects(connection: Knex, dialect: string): Promise<SchemaObjectListing[] | null> {
+  const sql = LISTING_QUERIES[dialect];
+  if (!sql) return null;
+
+  const result = await connection.raw(sql);
+  // pg and DuckDB return { rows }, mysql [rows, fields], the others the rows
+  const rows: ListedColumnRow[] = Array.isArray(result)
+    ? (Array.isArray(result[0]) ? result[0] : result)
+    : result?.rows ?? [];
+
+  const objects = new Map<string, SchemaObjectListing>();
+  for (const row of rows) {
+    const schema = row.schema_name ?? undefined;
+    const key = `${schema ?? ''}.${row.table_name}`;
+    let object = objects.get(key);
+    if (!object) {
+      object = {
+        name: row.table_name,
+        schema,
+        kind: /view/i.test(row.table_type) ? 'view' : 'table',
+        columns: [],
+      };
+      objects.set(key, object);
+    }
+    object.columns.push({
+      name: row.column_name,
+      type: row.data_type,
+      nullable: row.is_nullable === 'YES',
+    });
+  }
+  return Array.from(objects.values());
+}
+
+async function introspectSchemaInternal(
+  connection: Knex,
+  dialect: string,
+  addLog: (msg: string) => void,
+  include: ObjectFilter
+): Promise<SchemaInfo> {
   switch (dialect) {
     case 'pg':
-      return introspectPostgres(connection, addLog);
+      return introspectPostgres(connection, addLog, include);
     case 'mysql':
-      return introspectMySQL(connection, addLog);
+      return introspectMySQL(connection, addLog, include);
     case 'sqlite3':
-      return introspectSQLite(connection, addLog);
+      return introspectSQLite(connection, addLog, include);
     case 'mssql':
-      return introspectMSSQL(connection, addLog);
+      return introspectMSSQL(connection, addLog, include);
+    case 'oracledb':
+      return introspectOracle(connection, addLog);
+    case 'duckdb':
+      return introspectDuckDB(connection, addLog);
     default:
       return introspectGeneric(connection, addLog);
   }
 }
 
-async function introspectPostgres(connection: Knex, addLog: (msg: string) => void): Promise<SchemaInfo> {
+async function introspectPostgres(
+  connection: Knex,
+  addLog: (msg: string) => void,
+  include: ObjectFilter
+): Promise<SchemaInfo> {
   // Get tables
   const tables = await connection.raw(`
     SELECT table_name, table_schema
@@ -55,8 +202,12 @@ async function introspectPostgres(connection: Knex, addLog: (msg: string) => voi
     ORDER BY table_name
   `);
 
+  type PostgresObjectRow = { table_name: string; table_schema: string };
+  const tableRows = tables.rows.filter((t: PostgresObjectRow) => include(t.table_name, t.table_schema));
+  const viewRows = views.rows.filter((v: PostgresObjectRow) => include(v.table_name, v.table_schema));
+
   const tableInfos: TableInfo[] = await Promise.all(
-    tables.rows.map(async (t: { table_name: string; table_schema: string }) => {
+    tableRows.map(async (t: { table_name: string; table_schema: string }) => {
       const columns = await getPostgresColumns(connection, t.table_schema, t.table_name);
       const primaryKey = await getPostgresPrimaryKey(connection, t.table_schema, t.table_name);
       const foreignKeys = await getPostgresForeignKeys(connection, t.table_schema, t.table_name);
@@ -74,7 +225,7 @@ async function introspectPostgres(connection: Knex, addLog: (msg: string) => voi
   );
 
   const viewInfos: ViewInfo[] = await Promise.all(
-    views.rows.map(async (v: { table_name: string; table_schema: string; view_definition: string }) => {
+    viewRows.map(async (v: { table_name: string; table_schema: string; view_definition: string }) => {
       const columns = await getPostgresColumns(connection, v.table_schema, v.table_name);
       return {
         name: v.table_name,
@@ -95,14 +246,20 @@ async function getPostgresColumns(
 ): Promise<ColumnSchema[]> {
   const result = await connection.raw(`
     SELECT
-      column_name,
-      data_type,
-      is_nullable,
-      column_default,
-      character_maximum_length
-    FROM information_schema.columns
-    WHERE table_schema = ? AND table_name = ?
-    ORDER BY ordinal_position
+      c.column_name,
+      c.data_type,
+      c.is_nullable,
+      c.column_default,
+      c.character_maximum_length,
+      d.description AS column_comment
+    FROM information_schema.columns c
+    LEFT JOIN pg_catalog.pg_attribute a
+      ON a.attrelid = format('%I.%I', c.table_schema, c.table_name)::regclass
+      AND a.attname = c.column_name
+    LEFT JOIN pg_catalog.pg_description d
+      ON d.objoid = a.attrelid AND d.objsubid = a.attnum
+    WHERE c.table_schema = ? AND c.table_name = ?
+    ORDER BY c.ordinal_position
   `, [schema, table]);
 
   return result.rows.map((c: {
@@ -111,6 +268,7 @@ async function getPostgresColumns(
     is_nullable: string;
     column_default: string | null;
     character_maximum_length: number | null;
+    column_comment: string | null;
   }) => ({
     name: c.column_name,
     type: c.character_maximum_length
@@ -118,6 +276,7 @@ async function getPostgresColumns(
       : c.data_type,
     nullable: c.is_nullable === 'YES',
     defaultValue: c.column_default,
+    comment: c.column_comment || undefined,
   }));
 }
 
@@ -203,7 +362,11 @@ async function getPostgresIndexes(
   }));
 }
 
-async function introspectMySQL(connection: Knex, addLog: (msg: string) => void): Promise<SchemaInfo> {
+async function introspectMySQL(
+  connection: Knex,
+  addLog: (msg: string) => void,
+  include: ObjectFilter
+): Promise<SchemaInfo> {
   const tables = await connection.raw(`
     SELECT table_name
     FROM information_schema.tables
@@ -218,11 +381,13 @@ async function introspectMySQL(connection: Knex, addLog: (msg: string) => void):
   `);
 
   const tableInfos: TableInfo[] = await Promise.all(
-    tables[0].map(async (t: { table_name: string }) => {
+    tables[0].filter((t: { table_name: string }) => include(t.table_name)).map(async (t: { table_name: string }) => {
       const columns = await getMySQLColumns(connection, t.table_name);
+      const foreignKeys = await getMySQLForeignKeys(connection, t.table_name);
       return {
         name: t.table_name,
         columns,
+        foreignKeys,
       };
     })
   );
@@ -237,23 +402,52 @@ async function introspectMySQL(connection: Knex, addLog: (msg: string) => void):
 }
 
 async function getMySQLColumns(connection: Knex, table: string): Promise<ColumnSchema[]> {
-  const result = await connection.raw(`DESCRIBE ??`, [table]);
+  const result = await connection.raw(`SHOW FULL COLUMNS FROM ??`, [table]);
   return result[0].map((c: {
     Field: string;
     Type: string;
     Null: string;
     Default: string | null;
     Key: string;
+    Comment: string;
   }) => ({
     name: c.Field,
     type: c.Type,
     nullable: c.Null === 'YES',
     defaultValue: c.Default,
     isPrimaryKey: c.Key === 'PRI',
+    comment: c.Comment || undefined,
   }));
 }
 
-async function introspectSQLite(connection: Knex, addLog: (msg: string) => void): Promise<SchemaInfo> {
+async function getMySQLForeignKeys(connection: Knex, table: string): Promise<ForeignKeyInfo[]> {
+  const result = await connection.raw(`
+    SELECT
+      column_name AS column_name,
+      referenced_table_name AS referenced_table,
+      referenced_column_name AS referenced_column
+    FROM information_schema.key_column_usage
+    WHERE table_schema = DATABASE()
+    AND table_name = ?
+    AND referenced_table_name IS NOT NULL
+  `, [table]);
+
+  return result[0].map((r: {
+    column_name: string;
+    referenced_table: string;
+    referenced_column: string;
+  }) => ({
+    column: r.column_name,
+    referencedTable: r.referenced_table,
+    referencedColumn: r.referenced_column,
+  }));
+}
+
+async function introspectSQLite(
+  connection: Knex,
+  addLog: (msg: string) => void,
+  include: ObjectFilter
+): Promise<SchemaInfo> {
   addLog('Starting SQLite schema introspection');
 
   // First, check if we can query the database at all
@@ -333,13 +527,15 @@ async function introspectSQLite(connection: Knex, addLog: (msg: string) => void)
   addLog(`Found ${viewList.length} views`);
 
   const tableInfos: TableInfo[] = await Promise.all(
-    tableList.map(async (t: { name: string } | any) => {
+    tableList.filter((t) => include(typeof t === 'string' ? t : t.name)).map(async (t: { name: string } | any) => {
       const tableName = typeof t === 'string' ? t : t.name;
       addLog(`Processing table: ${tableName}`);
       const columns = await getSQLiteColumns(connection, tableName, addLog);
+      const foreignKeys = await getSQLiteForeignKeys(connection, tableName);
       return {
         name: tableName,
         columns,
+        foreignKeys,
       };
     })
   );
@@ -387,7 +583,27 @@ async function getSQLiteColumns(connection: Knex, table: string, addLog: (msg: s
   }));
 }
 
-async function introspectMSSQL(connection: Knex, addLog: (msg: string) => void): Promise<SchemaInfo> {
+async function getSQLiteForeignKeys(connection: Knex, table: string): Promise<ForeignKeyInfo[]> {
+  const result = await connection.raw(`PRAGMA foreign_key_list(??)`, [table]);
+  const rows: { table: string; from: string; to: string | null }[] = Array.isArray(result)
+    ? result
+    : result?.rows ?? [];
+
+  // `to` is null when the key references the parent's primary key implicitly
+  return rows
+    .filter((r) => r.to)
+    .map((r) => ({
+      column: r.from,
+      referencedTable: r.table,
+      referencedColumn: r.to as string,
+    }));
+}
+
+async function introspectMSSQL(
+  connection: Knex,
+  addLog: (msg: string) => void,
+  include: ObjectFilter
+): Promise<SchemaInfo> {
   const tables = await connection.raw(`
     SELECT table_name, table_schema
     FROM information_schema.tables
@@ -401,8 +617,12 @@ async function introspectMSSQL(connection: Knex, addLog: (msg: string) => void):
     ORDER BY table_name
   `);
 
+  const tableRows = tables.filter((t: { table_name: string; table_schema: string }) =>
+    include(t.table_name, t.table_schema)
+  );
+
   const tableInfos: TableInfo[] = await Promise.all(
-    tables.map(async (t: { table_name: string; table_schema: string }) => {
+    tableRows.map(async (t: { table_name: string; table_schema: string }) => {
       const columns = await getMSSQLColumns(connection, t.table_schema, t.table_name);
       return {
         name: t.table_name,
@@ -459,6 +679,292 @@ async function getMSSQLColumns(
   }));
 }
 
+interface OracleColumnRow {
+  table_name: string;
+  column_name: string;
+  data_type: string;
+  char_length: number | null;
+  data_precision: number | null;
+  data_scale: number | null;
+  nullable: string;
+  data_default: string | null;
+  comments: string | null;
+}
+
+interface OracleKeyRow {
+  table_name: string;
+  constraint_name: string;
+  constraint_type: string;
+  column_name: string;
+  referenced_table: string | null;
+  referenced_column: string | null;
+}
+
+interface OracleIndexRow {
+  table_name: string;
+  index_name: string;
+  uniqueness: string;
+  column_name: string;
+}
+
+// Oracle reports lengths and precision separately from the type name
+function formatOracleType(c: OracleColumnRow): string {
+  if (['VARCHAR2', 'NVARCHAR2', 'CHAR', 'NCHAR', 'RAW'].includes(c.data_type) && c.char_length) {
+    return `${c.data_type}(${c.char_length})`;
+  }
+  if (c.data_type === 'NUMBER' && c.data_precision !== null) {
+    return c.data_scale ? `NUMBER(${c.data_precision},${c.data_scale})` : `NUMBER(${c.data_precision})`;
+  }
+  return c.data_type;
+}
+
+/**
+ * Reads the schema of the session's CURRENT_SCHEMA (the connected user
+ * unless changed) from the ALL_* dictionary views, one query per view rather
+ * than per table, since the dictionary views are slow to query
+ */
+async function introspectOracle(connection: Knex, addLog: (msg: string) => void): Promise<SchemaInfo> {
+  const [{ owner }] = await connection.raw(`SELECT SYS_CONTEXT('USERENV', 'CURRENT_SCHEMA') AS "owner" FROM DUAL`);
+  addLog(`Introspecting Oracle schema ${owner}`);
+
+  const tables: { table_name: string }[] = await connection.raw(`
+    SELECT table_name AS "table_name"
+    FROM all_tables
+    WHERE owner = ?
+    AND dropped = 'NO'
+    AND nested = 'NO'
+    AND secondary = 'N'
+    AND (iot_type IS NULL OR iot_type = 'IOT')
+    ORDER BY table_name
+  `, [owner]);
+
+  const views: { view_name: string; text: string | null }[] = await connection.raw(`
+    SELECT view_name AS "view_name", text AS "text"
+    FROM all_views
+    WHERE owner = ?
+    ORDER BY view_name
+  `, [owner]);
+
+  const columns: OracleColumnRow[] = await connection.raw(`
+    SELECT
+      c.table_name AS "table_name",
+      c.column_name AS "column_name",
+      c.data_type AS "data_type",
+      c.char_length AS "char_length",
+      c.data_precision AS "data_precision",
+      c.data_scale AS "data_scale",
+      c.nullable AS "nullable",
+      c.data_default AS "data_default",
+      cc.comments AS "comments"
+    FROM all_tab_columns c
+    LEFT JOIN all_col_comments cc
+      ON cc.owner = c.owner AND cc.table_name = c.table_name AND cc.column_name = c.column_name
+    WHERE c.owner = ?
+    ORDER BY c.table_name, c.column_id
+  `, [owner]);
+
+  // Primary and foreign keys; a foreign key column is matched to the
+  // referenced key column at the same position
+  const keys: OracleKeyRow[] = await connection.raw(`
+    SELECT
+      c.table_name AS "table_name",
+      c.constraint_name AS "constraint_name",
+      c.constraint_type AS "constraint_type",
+      col.column_name AS "column_name",
+      rc.table_name AS "referenced_table",
+      rcol.column_name AS "referenced_column"
+    FROM all_constraints c
+    JOIN all_cons_columns col
+      ON col.owner = c.owner AND col.constraint_name = c.constraint_name AND col.table_name = c.table_name
+    LEFT JOIN all_constraints rc
+      ON rc.owner = c.r_owner AND rc.constraint_name = c.r_constraint_name
+    LEFT JOIN all_cons_columns rcol
+      ON rcol.owner = rc.owner AND rcol.constraint_name = rc.constraint_name AND rcol.position = col.position
+    WHERE c.owner = ?
+    AND c.constraint_type IN ('P', 'R')
+    ORDER BY c.table_name, c.constraint_name, col.position
+  `, [owner]);
+
+  // Indexes other than the ones backing primary keys, as for PostgreSQL
+  const indexes: OracleIndexRow[] = await connection.raw(`
+    SELECT
+      i.table_name AS "table_name",
+      i.index_name AS "index_name",
+      i.uniqueness AS "uniqueness",
+      ic.column_name AS "column_name"
+    FROM all_indexes i
+    JOIN all_ind_columns ic
+      ON ic.index_owner = i.owner AND ic.index_name = i.index_name
+    WHERE i.table_owner = ?
+    AND NOT EXISTS (
+      SELECT 1 FROM all_constraints pk
+      WHERE pk.owner = i.table_owner
+      AND pk.index_name = i.index_name
+      AND pk.constraint_type = 'P'
+    )
+    ORDER BY i.table_name, i.index_name, ic.column_position
+  `, [owner]);
+
+  addLog(`Found ${tables.length} Oracle tables and ${views.length} views`);
+
+  const toColumns = (table: string, primaryKey: string[] = []): ColumnSchema[] =>
+    columns
+      .filter((c) => c.table_name === table)
+      .map((c) => ({
+        name: c.column_name,
+        type: formatOracleType(c),
+        nullable: c.nullable === 'Y',
+        defaultValue: c.data_default?.trim() || null,
+        isPrimaryKey: primaryKey.includes(c.column_name),
+        comment: c.comments || undefined,
+      }));
+
+  const tableInfos: TableInfo[] = tables.map((t) => {
+    const tableKeys = keys.filter((k) => k.table_name === t.table_name);
+    const primaryKey = tableKeys.filter((k) => k.constraint_type === 'P').map((k) => k.column_name);
+    const foreignKeys: ForeignKeyInfo[] = tableKeys
+      .filter((k) => k.constraint_type === 'R' && k.referenced_table)
+      .map((k) => ({
+        column: k.column_name,
+        referencedTable: k.referenced_table!,
+        referencedColumn: k.referenced_column ?? k.column_name,
+      }));
+
+    const tableIndexes = new Map<string, IndexInfo>();
+    for (const row of indexes.filter((i) => i.table_name === t.table_name)) {
+      const index = tableIndexes.get(row.index_name) ?? { name: row.index_name, columns: [], unique: row.uniqueness === 'UNIQUE' };
+      index.columns.push(row.column_name);
+      tableIndexes.set(row.index_name, index);
+    }
+
+    return {
+      name: t.table_name,
+      schema: owner,
+      columns: toColumns(t.table_name, primaryKey),
+      primaryKey: primaryKey.length > 0 ? primaryKey : undefined,
+      foreignKeys,
+      indexes: Array.from(tableIndexes.values()),
+    };
+  });
+
+  const viewInfos: ViewInfo[] = views.map((v) => ({
+    name: v.view_name,
+    schema: owner,
+    columns: toColumns(v.view_name),
+    definition: v.text ?? undefined,
+  }));
+
+  return { tables: tableInfos, views: viewInfos };
+}
+
+interface DuckDBColumnRow {
+  schema_name: string;
+  table_name: string;
+  column_name: string;
+  data_type: string;
+  is_nullable: boolean;
+  column_default: string | null;
+  comment: string | null;
+}
+
+interface DuckDBConstraintRow {
+  schema_name: string;
+  table_name: string;
+  constraint_type: string;
+  constraint_column_names: string[];
+  referenced_table: string | null;
+  referenced_column_names: string[] | null;
+}
+
+/**
+ * DuckDB's catalog functions return every table, view, column and key of the
+ * current database in one query each
+ */
+async function introspectDuckDB(connection: Knex, addLog: (msg: string) => void): Promise<SchemaInfo> {
+  const tables = await connection.raw(`
+    SELECT schema_name, table_name, comment
+    FROM duckdb_tables()
+    WHERE database_name = current_database() AND NOT internal
+    ORDER BY schema_name, table_name
+  `);
+
+  const views = await connection.raw(`
+    SELECT schema_name, view_name, sql
+    FROM duckdb_views()
+    WHERE database_name = current_database() AND NOT internal
+    ORDER BY schema_name, view_name
+  `);
+
+  const columns = await connection.raw(`
+    SELECT schema_name, table_name, column_name, data_type, is_nullable, column_default, comment
+    FROM duckdb_columns()
+    WHERE database_name = current_database() AND NOT internal
+    ORDER BY schema_name, table_name, column_index
+  `);
+
+  const constraints = await connection.raw(`
+    SELECT schema_name, table_name, constraint_type, constraint_column_names,
+      referenced_table, referenced_column_names
+    FROM duckdb_constraints()
+    WHERE database_name = current_database()
+    AND constraint_type IN ('PRIMARY KEY', 'FOREIGN KEY')
+  `);
+
+  addLog(`Found ${tables.rows.length} DuckDB tables and ${views.rows.length} views`);
+
+  const key = (schema: string, table: string) => `${schema}.${table}`;
+  const columnsByTable = new Map<string, DuckDBColumnRow[]>();
+  for (const c of columns.rows as DuckDBColumnRow[]) {
+    const list = columnsByTable.get(key(c.schema_name, c.table_name)) ?? [];
+    list.push(c);
+    columnsByTable.set(key(c.schema_name, c.table_name), list);
+  }
+  const constraintRows = constraints.rows as DuckDBConstraintRow[];
+
+  const toColumns = (schema: string, table: string, primaryKey: string[] = []): ColumnSchema[] =>
+    (columnsByTable.get(key(schema, table)) ?? []).map((c) => ({
+      name: c.column_name,
+      type: c.data_type,
+      nullable: c.is_nullable,
+      defaultValue: c.column_default,
+      isPrimaryKey: primaryKey.includes(c.column_name),
+      comment: c.comment || undefined,
+    }));
+
+  const tableInfos: TableInfo[] = tables.rows.map((t: { schema_name: string; table_name: string }) => {
+    const tableConstraints = constraintRows.filter(
+      (c) => c.schema_name === t.schema_name && c.table_name === t.table_name
+    );
+    const primaryKey = tableConstraints.find((c) => c.constraint_type === 'PRIMARY KEY')?.constraint_column_names ?? [];
+    const foreignKeys: ForeignKeyInfo[] = tableConstraints
+      .filter((c) => c.constraint_type === 'FOREIGN KEY' && c.referenced_table)
+      .flatMap((c) =>
+        c.constraint_column_names.map((column, i) => ({
+          column,
+          referencedTable: c.referenced_table!,
+          referencedColumn: c.referenced_column_names?.[i] ?? column,
+        }))
+      );
+
+    return {
+      name: t.table_name,
+      schema: t.schema_name,
+      columns: toColumns(t.schema_name, t.table_name, primaryKey),
+      primaryKey: primaryKey.length > 0 ? primaryKey : undefined,
+      foreignKeys,
+    };
+  });
+
+  const viewInfos: ViewInfo[] = views.rows.map((v: { schema_name: string; view_name: string; sql: string }) => ({
+    name: v.view_name,
+    schema: v.schema_name,
+    columns: toColumns(v.schema_name, v.view_name),
+    definition: v.sql,
+  }));
+
+  return { tables: tableInfos, views: viewInfos };
+}
+
 async function introspectGeneric(connection: Knex, addLog: (msg: string) => void): Promise<SchemaInfo> {
   // Basic fallback for unknown databases
   return { tables: [], views: [] };
@@ -0,0 +1,489 @@
+/**
+ * Semantic SQL Validation
+ *
+ * Resolves the table and column references of parsed statements against the
+ * introspected schema of the data source and reports unknown names (with
+ * "did you mean" suggestions), ambiguous unqualified columns and comparisons
+ * between values of obviously incompatible types.
+ *
+ * References are resolved scope by scope: a subquery sees its own tables
+ * first and then those of the enclosing queries. Derived tables, CTEs and
+ * catalog tables have no known columns, so columns that could come from them
+ * are never reported.
+ */
+
+import type { AST } from 'node-sql-parser';
+import { groupStatementTokens, type SQLToken } from './tokenizer';
+import { categorizeColumnType } from './column-metadata';
+import type { SQLError, SQLWarning } from './validator';
+import type { ColumnCategory, ColumnSchema, SchemaInfo, TableInfo, ViewInfo } from '@/types/api';
+
+export type SemanticCode = 'unknown-table' | 'unknown-column' | 'ambiguous-column' | 'type-mismatch';
+
+export interface SemanticResult {
+  errors: SQLError[];
+  warnings: SQLWarning[];
+}
+
+// Loosely typed view of node-sql-parser's AST nodes
+type ASTNode = { type?: unknown; [key: string]: unknown };
+
+interface ScopeTable {
+  // Name as referenced in the query, and its alias
+  name: string;
+  alias?: string;
+  // Undefined for derived tables, CTEs and tables outside the introspected schema
+  table?: TableInfo | ViewInfo;
+}
+
+interface Scope {
+  tables: ScopeTable[];
+  // Output column aliases, usable in ORDER BY and friends
+  aliases: Set<string>;
+  parent?: Scope;
+}
+
+interface Comparison {
+  node: ASTNode;
+  scope: Scope;
+}
+
+const CATALOG_SCHEMAS = new Set(['information_schema', 'pg_catalog', 'sys', 'mysql', 'performance_schema']);
+const CATALOG_PREFIXES = /^(pg_|sqlite_|sys)/i;
+const COMPARISON_OPERATORS = new Set(['=', '!=', '<>', '<', '<=', '>', '>=']);
+const COMPARABLE: ColumnCategory[] = ['number', 'string', 'boolean', 'date', 'datetime'];
+
+function isNode(value: unknown): value is ASTNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function same(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+// Names come as plain strings or as { type, value } / { expr: { value } } nodes
+function nameOf(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (isNode(value)) {
+    if (typeof value.value === 'string') return value.value;
+    if (isNode(value.expr)) return nameOf(value.expr);
+  }
+  return null;
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * Up to three candidates close to the name, closest first
+ */
+export function suggestNames(name: string, candidates: string[]): string[] {
+  const target = name.toLowerCase();
+  const maxDistance = Math.max(1, Math.floor(target.length / 3));
+  return Array.from(new Set(candidates))
+    .map((candidate) => ({ candidate, distance: levenshtein(target, candidate.toLowerCase()) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(({ candidate }) => candidate);
+}
+
+function didYouMean(suggestions: string[]): string {
+  return suggestions.length > 0 ? `. Did you mean ${suggestions.map((s) => `'${s}'`).join(' or ')}?` : '';
+}
+
+/**
+ * Position of an identifier in the statement: `qualifier.name` when qualified,
+ * otherwise a bare `name` that is not part of a dotted path or a function call
+ */
+function findIdentifier(
+  tokens: SQLToken[],
+  name: string,
+  qualifier?: string,
+  part: 'name' | 'qualifier' = 'name'
+): { offset: number; length: number } | undefined {
+  const matches = (token: SQLToken | undefined, value: string) =>
+    !!token &&
+    (token.type === 'identifier' || token.type === 'quoted_identifier') &&
+    same(token.value.replace(/^["`[]|["`\]]$/g, ''), value);
+
+  for (let i = 0; i < tokens.length; i++) {
+    let token: SQLToken | undefined;
+    if (qualifier) {
+      if (matches(tokens[i], qualifier) && tokens[i + 1]?.value === '.' && matches(tokens[i + 2], name)) {
+        token = part === 'qualifier' ? tokens[i] : tokens[i + 2];
+      }
+    } else if (
+      matches(tokens[i], name) &&
+      tokens[i - 1]?.value !== '.' &&
+      tokens[i + 1]?.value !== '.' &&
+      tokens[i + 1]?.value !== '('
+    ) {
+      token = tokens[i];
+    }
+    if (token) return { offset: token.start, length: token.end - token.start };
+  }
+  return undefined;
+}
+
+function position(sql: string, offset: number): { line: number; column: number } {
+  const before = sql.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+class StatementAnalyzer {
+  private readonly cteNames = new Set<string>();
+  private readonly resolved = new Map<ASTNode, ColumnSchema>();
+  private readonly comparisons: Comparison[] = [];
+  private readonly reported = new Set<string>();
+
+  constructor(
+    private readonly sql: string,
+    private readonly tokens: SQLToken[],
+    private readonly schema: SchemaInfo,
+    private readonly result: SemanticResult
+  ) {}
+
+  run(ast: AST): void {
+    const statement = ast as unknown as ASTNode;
+
+    if (Array.isArray(statement.with)) {
+      for (const cte of statement.with) {
+        if (!isNode(cte)) continue;
+        const name = nameOf(cte.name);
+        if (name) this.cteNames.add(name.toLowerCase());
+        const inner = isNode(cte.stmt) && isNode(cte.stmt.ast) ? cte.stmt.ast : cte.stmt;
+        if (isNode(inner) && inner.type === 'select') this.analyzeSelect(inner);
+      }
+    }
+
+    if (statement.type === 'select') {
+      this.analyzeSelect(statement);
+    } else if (statement.type === 'update' || statement.type === 'delete') {
+      const scope = this.buildScope([statement.table, statement.from]);
+      this.collect([statement.set, statement.where], scope);
+    }
+
+    this.checkComparisons();
+  }
+
+  private analyzeSelect(select: ASTNode, parent?: Scope): void {
+    const from = Array.isArray(select.from) ? select.from : [];
+
+    // Derived tables cannot see the tables next to them
+    for (const entry of from) {
+      if (isNode(entry) && isNode(entry.expr) && isNode(entry.expr.ast)) {
+        this.analyzeSelect(entry.expr.ast, parent);
+      }
+    }
+
+    const scope = this.buildScope([from], parent);
+    for (const column of Array.isArray(select.columns) ? select.columns : []) {
+      const alias = isNode(column) ? nameOf(column.as) : null;
+      if (alias) scope.aliases.add(alias.toLowerCase());
+    }
+
+    this.collect(
+      [
+        select.columns,
+        from.map((entry) => (isNode(entry) ? entry.on : null)),
+        select.where,
+        select.groupby,
+        select.having,
+        select.orderby,
+      ],
+      scope
+    );
+
+    if (isNode(select._next)) {
+      this.analyzeSelect(select._next, parent);
+    }
+  }
+
+  private buildScope(sources: unknown[], parent?: Scope): Scope {
+    const scope: Scope = { tables: [], aliases: new Set(), parent };
+
+    for (const source of sources) {
+      for (const entry of Array.isArray(source) ? source : []) {
+        if (!isNode(entry)) continue;
+        const alias = nameOf(entry.as) ?? undefined;
+        const name = nameOf(entry.table);
+        if (!name) {
+          // Subquery or table function
+          scope.tables.push({ name: alias ?? '', alias });
+          continue;
+        }
+        if (scope.tables.some((t) => same(t.name, name) && t.alias === alias)) continue;
+        scope.tables.push({ name, alias, table: this.resolveTable(name, nameOf(entry.db) ?? undefined) });
+      }
+    }
+
+    return scope;
+  }
+
+  private resolveTable(name: string, schemaName?: string): TableInfo | ViewInfo | undefined {
+    if (!schemaName && this.cteNames.has(name.toLowerCase())) return undefined;
+
+    const matches = (t: TableInfo | ViewInfo) =>
+      same(t.name, name) && (!schemaName || !t.schema || same(t.schema, schemaName));
+    const table = this.schema.tables.find(matches) ?? this.schema.views.find(matches);
+    if (table) return table;
+
+    // Catalog tables and schemas that were not introspected are not checked
+    const knownSchema =
+      !schemaName || [...this.schema.tables, ...this.schema.views].some((t) => t.schema && same(t.schema, schemaName));
+    if (CATALOG_PREFIXES.test(name) || (schemaName && CATALOG_SCHEMAS.has(schemaName.toLowerCase())) || !knownSchema) {
+      return undefined;
+    }
+
+    const suggestions = suggestNames(name, [...this.schema.tables, ...this.schema.views].map((t) => t.name));
+    this.report('unknown-table', name, `Unknown table '${name}'${didYouMean(suggestions)}`, suggestions, () =>
+      schemaName ? findIdentifier(this.tokens, name, schemaName) : findIdentifier(this.tokens, name)
+    );
+    return undefined;
+  }
+
+  /**
+   * Collects column references and comparisons, handing subqueries to
+   * analyzeSelect with the current scope as their parent
+   */
+  private collect(node: unknown, scope: Scope): void {
+    if (Array.isArray(node)) {
+      node.forEach((child) => this.collect(child, scope));
+      return;
+    }
+    if (!isNode(node)) return;
+
+    if (node.type === 'select') {
+      this.analyzeSelect(node, scope);
+      return;
+    }
+    if (isNode(node.ast) && node.ast.type === 'select') {
+      this.analyzeSelect(node.ast, scope);
+      return;
+    }
+    if (node.type === 'column_ref') {
+      this.resolveColumn(node, scope);
+      return;
+    }
+    if (node.type === 'binary_expr' && COMPARISON_OPERATORS.has(String(node.operator))) {
+      this.comparisons.push({ node, scope });
+    }
+
+    Object.entries(node).forEach(([key, child]) => {
+      if (key !== 'loc') this.collect(child, scope);
+    });
+  }
+
+  private resolveColumn(ref: ASTNode, scope: Scope): void {
+    const name = nameOf(ref.column);
+    const qualifier = nameOf(ref.table) ?? undefined;
+    if (!name) return;
+
+    if (qualifier) {
+      const source = this.findQualifier(qualifier, scope);
+      if (!source) {
+        const candidates = this.scopeChain(scope).flatMap((s) => s.tables.map((t) => t.alias ?? t.name));
+        const suggestions = suggestNames(qualifier, candidates);
+        this.report(
+          'unknown-table',
+          `${qualifier}.`,
+          `Unknown table or alias '${qualifier}'${didYouMean(suggestions)}`,
+          suggestions,
+          () => findIdentifier(this.tokens, name, qualifier, 'qualifier')
+        );
+        return;
+      }
+      if (name === '*' || !source.table) return;
+
+      const column = source.table.columns.find((c) => same(c.name, name));
+      if (column) {
+        this.resolved.set(ref, column);
+        return;
+      }
+      const suggestions = suggestNames(name, source.table.columns.map((c) => c.name));
+      this.report(
+        'unknown-column',
+        `${qualifier}.${name}`,
+        `Column '${name}' does not exist on '${source.table.name}'${didYouMean(suggestions)}`,
+        suggestions,
+        () => findIdentifier(this.tokens, name, qualifier)
+      );
+      return;
+    }
+
+    if (name === '*') return;
+
+    for (const level of this.scopeChain(scope)) {
+      const owners = level.tables.filter((t) => t.table?.columns.some((c) => same(c.name, name)));
+      if (owners.length === 1) {
+        this.resolved.set(ref, owners[0].table!.columns.find((c) => same(c.name, name))!);
+        return;
+      }
+      if (owners.length > 1) {
+        const sources = owners.map((t) => t.alias ?? t.name);
+        this.report(
+          'ambiguous-column',
+          name,
+          `Column '${name}' is ambiguous; it exists on ${sources.map((s) => `'${s}'`).join(', ')}`,
+          sources.map((s) => `${s}.${name}`),
+          () => findIdentifier(this.tokens, name)
+        );
+        return;
+      }
+      if (level.aliases.has(name.toLowerCase())) return;
+      // The column may come from a table whose columns are unknown
+      if (level.tables.some((t) => !t.table)) return;
+    }
+
+    const candidates = this.scopeChain(scope).flatMap((s) => s.tables.flatMap((t) => t.table?.columns.map((c) => c.name) ?? []));
+    // Without any table in scope there is nothing to resolve against (e.g. SELECT 1 AS x)
+    if (candidates.length === 0) return;
+
+    const suggestions = suggestNames(name, candidates);
+    this.report(
+      'unknown-column',
+      name,
+      `Unknown column '${name}'${didYouMean(suggestions)}`,
+      suggestions,
+      () => findIdentifier(this.tokens, name)
+    );
+  }
+
+  private scopeChain(scope: Scope): Scope[] {
+    const chain: Scope[] = [];
+    for (let s: Scope | undefined = scope; s; s = s.parent) chain.push(s);
+    return chain;
+  }
+
+  private findQualifier(qualifier: string, scope: Scope): ScopeTable | undefined {
+    for (const level of this.scopeChain(scope)) {
+      const match =
+        level.tables.find((t) => t.alias && same(t.alias, qualifier)) ??
+        level.tables.find((t) => !t.alias && same(t.name, qualifier));
+      if (match) return match;
+    }
+    return undefined;
+  }
+
+  private checkComparisons(): void {
+    for (const { node } of this.comparisons) {
+      const left = this.describe(node.left);
+      const right = this.describe(node.right);
+      if (!left || !right || !(left.column || right.column)) continue;
+
+      const message = this.mismatch(left, right) ?? this.mismatch(right, left);
+      if (!message) continue;
+
+      const loc = node.loc as { start?: { offset: number }; end?: { offset: number } } | undefined;
+      const offset = loc?.start?.offset;
+      this.result.warnings.push({
+        message,
+        type: 'semantic',
+        code: 'type-mismatch',
+        ...(offset !== undefined
+          ? { ...position(this.sql, offset), offset, length: (loc?.end?.offset ?? offset + 1) - offset }
+          : {}),
+      });
+    }
+  }
+
+  private describe(side: unknown): { category: ColumnCategory; column?: string; literal?: unknown } | null {
+    if (!isNode(side)) return null;
+    if (side.type === 'column_ref') {
+      const column = this.resolved.get(side);
+      return column ? { category: categorizeColumnType(column.type), column: column.name } : null;
+    }
+    switch (side.type) {
+      case 'number':
+        return { category: 'number', literal: side.value };
+      case 'single_quote_string':
+      case 'string':
+        return { category: 'string', literal: side.value };
+      case 'bool':
+        return { category: 'boolean', literal: side.value };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Describes the mismatch when `a` is a column that `b` cannot sensibly be
+   * compared to; strings that look like numbers, dates or booleans are fine
+   */
+  private mismatch(
+    a: { category: ColumnCategory; column?: string },
+    b: { category: ColumnCategory; column?: string; literal?: unknown }
+  ): string | null {
+    if (!a.column || !COMPARABLE.includes(a.category) || !COMPARABLE.includes(b.category)) return null;
+    if (a.category === b.category) return null;
+
+    if (b.column) {
+      const dates = ['date', 'datetime'];
+      if (dates.includes(a.category) && dates.includes(b.category)) return null;
+      // Text columns commonly hold numbers or dates; only flag clearly different kinds
+      if (a.category === 'string' || b.category === 'string') return null;
+      return `Comparing ${a.category} column '${a.column}' with ${b.category} column '${b.column}'`;
+    }
+
+    const text = String(b.literal);
+    if (b.category === 'string') {
+      if (a.category === 'number' && /^\s*[-+]?\d+(\.\d+)?\s*$/.test(text)) return null;
+      if ((a.category === 'date' || a.category === 'datetime') && !isNaN(Date.parse(text))) return null;
+      if (a.category === 'boolean' && /^(t|f|true|false|y|n|yes|no|on|off|0|1)$/i.test(text)) return null;
+      return `Comparing ${a.category} column '${a.column}' with the text '${text}'`;
+    }
+    if (b.category === 'number' && a.category === 'boolean' && /^[01]$/.test(text)) return null;
+    if (b.category === 'boolean' && a.category === 'number') return null;
+    return `Comparing ${a.category} column '${a.column}' with the ${b.category} ${text}`;
+  }
+
+  /**
+   * Adds an error once per distinct reference, at its first occurrence
+   */
+  private report(
+    code: SemanticCode,
+    key: string,
+    message: string,
+    suggestions: string[],
+    locate: () => { offset: number; length: number } | undefined
+  ): void {
+    const id = `${code}:${key.toLowerCase()}`;
+    if (this.reported.has(id)) return;
+    this.reported.add(id);
+
+    const location = locate();
+    this.result.errors.push({
+      message,
+      code,
+      suggestions: suggestions.length > 0 ? suggestions : undefined,
+      ...(location ? { ...position(this.sql, location.offset), ...location } : {}),
+    });
+  }
+}
+
+/**
+ * Checks every statement of a parsed script against the schema. Schemas
+ * without tables (e.g. failed introspection) yield no findings.
+ */
+export function analyzeSemantics(sql: string, ast: AST | AST[], schema: SchemaInfo): SemanticResult {
+  const result: SemanticResult = { errors: [], warnings: [] };
+  if (schema.tables.length === 0 && schema.views.length === 0) return result;
+
+  const statements = Array.isArray(ast) ? ast : [ast];
+  const tokens = groupStatementTokens(sql, statements.length);
+  statements.forEach((statement, i) => new StatementAnalyzer(sql, tokens[i], schema, result).run(statement));
+
+  return result;
+}
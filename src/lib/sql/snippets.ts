@@ -0,0 +1,93 @@
+/**
+ * SQL Snippets
+ *
+ * Reusable SQL fragments stored in `sql_snippets`. Personal snippets are
+ * visible to their author, team snippets to the members of a role and global
+ * snippets to everyone; a snippet bound to a data source is only offered
+ * for that source. Global snippets and other users' snippets are managed by
+ * holders of `admin:sql_snippets`.
+ */
+
+import { getDb } from '@/lib/db/config';
+import { hasPermission, type SecurityContext } from '@/lib/auth/rbac';
+import type { SQLSnippet, SQLSnippetScope } from '@/types/database';
+
+export const SNIPPET_SCOPES: SQLSnippetScope[] = ['personal', 'team', 'global'];
+
+// Triggers are typed as a word in the editor
+const TRIGGER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function isSnippetScope(value: unknown): value is SQLSnippetScope {
+  return typeof value === 'string' && (SNIPPET_SCOPES as string[]).includes(value);
+}
+
+export function isValidTrigger(value: unknown): value is string {
+  return typeof value === 'string' && TRIGGER_PATTERN.test(value);
+}
+
+/**
+ * Ids of the roles the user belongs to, from the role names of the session
+ */
+export async function getRoleIds(roles: string[]): Promise<string[]> {
+  return roles.length > 0 ? getDb()('roles').whereIn('name', roles).pluck('id') : [];
+}
+
+/**
+ * Snippets visible to the user, limited to those usable with the data
+ * source when one is given
+ */
+export async function listSnippets(
+  context: SecurityContext,
+  filter: { dataSourceId?: string; search?: string } = {}
+): Promise<SQLSnippet[]> {
+  const roleIds = await getRoleIds(context.roles);
+
+  const query = getDb()<SQLSnippet>('sql_snippets')
+    .where((q) => {
+      q.where('scope', 'global').orWhere((personal) =>
+        personal.where('scope', 'personal').where('created_by', context.userId)
+      );
+      if (roleIds.length > 0) {
+        q.orWhere((team) => team.where('scope', 'team').whereIn('role_id', roleIds));
+      }
+    })
+    .orderBy('trigger');
+
+  if (filter.dataSourceId) {
+    query.where((q) => q.whereNull('data_source_id').orWhere('data_source_id', filter.dataSourceId!));
+  }
+  if (filter.search) {
+    const pattern = `%${filter.search}%`;
+    query.where((q) => q.where('name', 'like', pattern).orWhere('trigger', 'like', pattern));
+  }
+
+  return query;
+}
+
+export async function canViewSnippet(context: SecurityContext, snippet: SQLSnippet): Promise<boolean> {
+  switch (snippet.scope) {
+    case 'global':
+      return true;
+    case 'team':
+      return (await getRoleIds(context.roles)).includes(snippet.role_id ?? '');
+    default:
+      return snippet.created_by === context.userId;
+  }
+}
+
+/**
+ * Whether the user may create or change a snippet with the given scope and
+ * team; existing snippets also require being their author or an admin
+ */
+export async function canManageSnippet(
+  context: SecurityContext,
+  target: { scope: SQLSnippetScope; roleId?: string; createdBy?: string }
+): Promise<boolean> {
+  if (hasPermission(context, 'admin:sql_snippets')) return true;
+  if (target.scope === 'global') return false;
+  if (target.createdBy && target.createdBy !== context.userId) return false;
+  if (target.scope === 'team') {
+    return (await getRoleIds(context.roles)).includes(target.roleId ?? '');
+  }
+  return true;
+}
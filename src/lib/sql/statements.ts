@@ -0,0 +1,118 @@
+/**
+ * SQL Script Statements
+ *
+ * Splits SQL editor scripts into statements and runs a single statement in a
+ * read-only transaction, returning one page of rows with column metadata.
+ */
+
+import type { Knex } from 'knex';
+import { parseSQL } from './validator';
+import { splitStatementRanges, type SQLStatementRange } from './tokenizer';
+import { runReadOnly } from './read-only';
+import { attachBackend, type ExecutionRef } from './execution-registry';
+import {
+  describeSQLiteColumns,
+  inferColumns,
+  mergeInferredTypes,
+  normalizeQueryResult,
+} from './column-metadata';
+import type { BoundSQL } from './parameters';
+import type { DatabaseClientType } from '@/types/database';
+import type { ColumnInfo } from '@/types/api';
+
+export interface SQLStatement extends SQLStatementRange {
+  index: number;
+  sql: string;
+  // 1-based line of the script the statement starts on
+  line: number;
+}
+
+export interface StatementResult {
+  columns: ColumnInfo[];
+  rows: Record<string, unknown>[];
+  hasMore: boolean;
+  executionTime: number;
+}
+
+/**
+ * Splits a script into statements at top-level semicolons. When the validator
+ * parses the script into a different number of statements (for example a
+ * procedural block with inner semicolons) the script is kept whole, so the
+ * read-only classifier sees exactly what the parser sees.
+ */
+export function splitStatements(sql: string, dialect: string = 'pg'): SQLStatement[] {
+  const ranges = splitStatementRanges(sql);
+
+  if (ranges.length > 1) {
+    let parsedCount: number | null = null;
+    try {
+      const ast = parseSQL(sql, dialect);
+      parsedCount = Array.isArray(ast) ? ast.length : 1;
+    } catch {
+      // Unparseable scripts are split on tokens; each statement is then
+      // classified (and rejected if need be) on its own
+    }
+    if (parsedCount !== null && parsedCount !== ranges.length) {
+      const whole = { start: ranges[0].start, end: ranges[ranges.length - 1].end };
+      return [toStatement(sql, whole, 0)];
+    }
+  }
+
+  return ranges.map((range, index) => toStatement(sql, range, index));
+}
+
+function toStatement(sql: string, range: SQLStatementRange, index: number): SQLStatement {
+  return {
+    ...range,
+    index,
+    sql: sql.slice(range.start, range.end),
+    line: sql.slice(0, range.start).split('\n').length,
+  };
+}
+
+/**
+ * Runs one bound statement inside a read-only transaction and returns up to
+ * `limit` rows. The query is expected to fetch one extra row, which tells
+ * whether another page exists. Knex can only cancel timed-out queries
+ * server-side on PostgreSQL and MySQL. Pass the registered `execution` so
+ * the statement can be cancelled.
+ */
+export async function runStatement(
+  connection: Knex,
+  clientType: DatabaseClientType,
+  bound: BoundSQL,
+  options: { execution?: ExecutionRef; timeout: number; limit: number }
+): Promise<StatementResult> {
+  const startTime = Date.now();
+  const cancelOnTimeout = clientType === 'pg' || clientType === 'mysql';
+
+  const result = await runReadOnly(connection, clientType, async (trx) => {
+    if (options.execution) {
+      await attachBackend(options.execution, trx);
+    }
+    const query = bound.bindings.length > 0
+      ? trx.raw(bound.sql, bound.bindings)
+      : trx.raw(bound.sql);
+    if (clientType === 'sqlite3') {
+      // better-sqlite3 only exposes column metadata on the prepared statement
+      const columns = await describeSQLiteColumns(trx, query.toSQL().sql);
+      return { raw: await query, columns };
+    }
+    return { raw: await query.timeout(options.timeout, { cancel: cancelOnTimeout }), columns: undefined };
+  });
+
+  const executionTime = Date.now() - startTime;
+
+  // Extract rows and column metadata from the driver's result
+  const normalized = normalizeQueryResult(result.raw, clientType);
+  const hasMore = normalized.rows.length > options.limit;
+  const rows = normalized.rows.slice(0, options.limit);
+
+  // Drivers without metadata fall back to inspecting the returned values
+  const columns = mergeInferredTypes(
+    result.columns ?? normalized.columns ?? inferColumns(rows),
+    rows
+  );
+
+  return { columns, rows, hasMore, executionTime };
+}
@@ -0,0 +1,186 @@
+/**
+ * Lightweight SQL tokenizer
+ *
+ * Splits SQL text into tokens while respecting string literals, quoted
+ * identifiers and comments, so callers can safely find placeholders,
+ * statement boundaries and keywords without regex false positives.
+ */
+
+export type SQLTokenType =
+  | 'whitespace'
+  | 'comment'
+  | 'string'
+  | 'identifier'
+  | 'quoted_identifier'
+  | 'number'
+  | 'parameter'
+  | 'operator'
+  | 'punctuation'
+  | 'semicolon';
+
+export interface SQLToken {
+  type: SQLTokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const WORD_START = /[A-Za-z_\u0080-\uffff]/;
+const WORD_PART = /[A-Za-z0-9_$\u0080-\uffff]/;
+const DIGIT = /[0-9]/;
+const PUNCTUATION = new Set(['(', ')', ',', '.', '[', ']', '{', '}']);
+
+function readQuoted(sql: string, start: number, quote: string): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === quote) {
+      // Doubled quote is an escaped quote inside the literal
+      if (sql[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return sql.length;
+}
+
+function readDollarQuoted(sql: string, start: number): number | null {
+  const tagMatch = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(start));
+  if (!tagMatch) return null;
+  const tag = tagMatch[0];
+  const close = sql.indexOf(tag, start + tag.length);
+  return close === -1 ? sql.length : close + tag.length;
+}
+
+export function tokenizeSQL(sql: string): SQLToken[] {
+  const tokens: SQLToken[] = [];
+  let i = 0;
+
+  const push = (type: SQLTokenType, end: number) => {
+    tokens.push({ type, value: sql.slice(i, end), start: i, end });
+    i = end;
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      let end = i + 1;
+      while (end < sql.length && /\s/.test(sql[end])) end++;
+      push('whitespace', end);
+    } else if (ch === '-' && next === '-') {
+      const newline = sql.indexOf('\n', i);
+      push('comment', newline === -1 ? sql.length : newline);
+    } else if (ch === '/' && next === '*') {
+      const close = sql.indexOf('*/', i + 2);
+      push('comment', close === -1 ? sql.length : close + 2);
+    } else if (ch === "'") {
+      push('string', readQuoted(sql, i, "'"));
+    } else if (ch === '"' || ch === '`') {
+      push('quoted_identifier', readQuoted(sql, i, ch));
+    } else if (ch === '$' && (next === '$' || (next && WORD_START.test(next)))) {
+      const end = readDollarQuoted(sql, i);
+      if (end !== null) {
+        push('string', end);
+      } else {
+        push('operator', i + 1);
+      }
+    } else if (ch === ':' && next === ':') {
+      push('operator', i + 2);
+    } else if (ch === ':' && next && WORD_START.test(next)) {
+      let end = i + 2;
+      while (end < sql.length && WORD_PART.test(sql[end])) end++;
+      push('parameter', end);
+    } else if (ch === ';') {
+      push('semicolon', i + 1);
+    } else if (PUNCTUATION.has(ch)) {
+      push('punctuation', i + 1);
+    } else if (DIGIT.test(ch)) {
+      let end = i + 1;
+      while (end < sql.length && /[0-9.eE]/.test(sql[end])) end++;
+      push('number', end);
+    } else if (WORD_START.test(ch)) {
+      let end = i + 1;
+      while (end < sql.length && WORD_PART.test(sql[end])) end++;
+      push('identifier', end);
+    } else {
+      push('operator', i + 1);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Returns true for tokens that carry meaning for the database
+ */
+export function isSignificantToken(token: SQLToken): boolean {
+  return token.type !== 'whitespace' && token.type !== 'comment';
+}
+
+export interface SQLStatementRange {
+  // Offset of the statement's first significant character
+  start: number;
+  // Offset just past its last significant character, before any semicolon
+  end: number;
+}
+
+/**
+ * Splits a script at top-level semicolons. Leading comments, surrounding
+ * whitespace and the terminating semicolon are left out of each range, and
+ * empty statements are skipped.
+ */
+export function splitStatementRanges(sql: string): SQLStatementRange[] {
+  const ranges: SQLStatementRange[] = [];
+  let current: SQLStatementRange | null = null;
+
+  for (const token of tokenizeSQL(sql)) {
+    if (token.type === 'semicolon') {
+      if (current) ranges.push(current);
+      current = null;
+    } else if (isSignificantToken(token)) {
+      if (current) {
+        current.end = token.end;
+      } else {
+        current = { start: token.start, end: token.end };
+      }
+    }
+  }
+  if (current) ranges.push(current);
+
+  return ranges;
+}
+
+/**
+ * Finds the statement under the cursor: the last statement starting at or
+ * before the offset, so a cursor just after a semicolon stays on the
+ * statement it ends
+ */
+export function findStatementAt(sql: string, offset: number): SQLStatementRange | null {
+  const ranges = splitStatementRanges(sql);
+  let found: SQLStatementRange | null = ranges[0] ?? null;
+  for (const range of ranges) {
+    if (range.start > offset) break;
+    found = range;
+  }
+  return found;
+}
+
+/**
+ * Significant tokens of each of `count` parsed statements of a script. When
+ * the parser and the tokenizer disagree on the statement count, every
+ * statement gets the tokens of the whole script.
+ */
+export function groupStatementTokens(sql: string, count: number): SQLToken[][] {
+  const tokens = tokenizeSQL(sql).filter(isSignificantToken);
+  const ranges = splitStatementRanges(sql);
+
+  return Array.from({ length: count }, (_, i) =>
+    ranges.length === count
+      ? tokens.filter((t) => t.start >= ranges[i].start && t.end <= ranges[i].end)
+      : tokens
+  );
+}
@@ -1,5 +1,10 @@
-import { Parser } from 'node-sql-parser';
-import { format as formatSQL } from 'sql-formatter';
+import { Parser, type AST } from 'node-sql-parser';
+import { hasBlockingRules, lintSQL } from './lint/engine';
+import { analyzeSemantics, type SemanticCode } from './semantic';
+import { getDialect } from './dialects';
+import { formatSQLCode } from './formatter';
+import type { LintRuleId, LintSettings, LintSeverity } from './lint/types';
+import type { SchemaInfo, SQLFormatterPreferences } from '@/types/api';
 
 export interface SQLValidationResult {
   isValid: boolean;
@@ -14,78 +19,110 @@ export interface SQLError {
   line?: number;
   column?: number;
   offset?: number;
+  length?: number;
+  // Set for semantic errors, e.g. 'unknown-column'
+  code?: SemanticCode;
+  // "Did you mean" replacements for unknown or ambiguous names
+  suggestions?: string[];
 }
 
+export type SQLWarningCode = LintRuleId | SemanticCode;
+
 export interface SQLWarning {
   message: string;
   line?: number;
   column?: number;
-  type: 'performance' | 'security' | 'style';
+  offset?: number;
+  length?: number;
+  type: 'performance' | 'security' | 'style' | 'semantic';
+  code?: SQLWarningCode;
+  // Configured severity of the lint rule; 'error' blocks execution
+  severity?: Exclude<LintSeverity, 'off'>;
 }
 
-type SQLDialect = 'postgresql' | 'mysql' | 'transactsql' | 'sqlite' | 'bigquery';
+const parser = new Parser();
 
-const dialectMap: Record<string, SQLDialect> = {
-  pg: 'postgresql',
-  mysql: 'mysql',
-  mssql: 'transactsql',
-  sqlite3: 'sqlite',
-  oracledb: 'bigquery', // Closest approximation
-};
+export function parseSQL(sql: string, dialect: string = 'pg'): AST | AST[] {
+  return parser.astify(sql, { database: getDialect(dialect).parser });
+}
 
-const parser = new Parser();
+export interface SQLValidationOptions {
+  lintSettings?: LintSettings;
+  // Introspected schema of the data source; enables the semantic checks
+  schema?: SchemaInfo | null;
+  // The user's formatter preferences for `formattedSQL`
+  formatter?: SQLFormatterPreferences;
+}
 
 export function validateSQL(
   sql: string,
-  dialect: string = 'pg'
+  dialect: string = 'pg',
+  options: SQLValidationOptions = {}
 ): SQLValidationResult {
   const errors: SQLError[] = [];
   const warnings: SQLWarning[] = [];
   let ast: unknown = null;
   let formattedSQL: string | undefined;
 
-  const parserDialect = dialectMap[dialect] || 'postgresql';
+  const sqlDialect = getDialect(dialect);
 
   try {
-    // Parse the SQL to check syntax
-    ast = parser.astify(sql, { database: parserDialect });
-
-    // Try to format the SQL
-    try {
-      formattedSQL = formatSQL(sql, {
-        language: dialect === 'pg' ? 'postgresql' : dialect === 'mysql' ? 'mysql' : 'sql',
-        tabWidth: 2,
-        keywordCase: 'upper',
-      });
-    } catch {
-      // Formatting failed but SQL is valid
-    }
+    // Parse the SQL to check syntax. Locations place semantic findings on comparisons.
+    const parsed = parser.astify(sql, { database: sqlDialect.parser, parseOptions: { includeLocations: true } });
+    ast = parsed;
 
-    // Security warnings
-    checkSecurityIssues(sql, warnings);
+    formattedSQL = formatSQLCode(sql, dialect, options.formatter);
 
-    // Performance warnings
-    checkPerformanceIssues(sql, ast, warnings);
+    // Security and performance warnings from the lint rules
+    warnings.push(...lintSQL(sql, parsed, options.lintSettings));
+
+    // Unknown or ambiguous names make the query fail at execution time
+    if (options.schema) {
+      const semantic = analyzeSemantics(sql, parsed, options.schema);
+      errors.push(...semantic.errors);
+      warnings.push(...semantic.warnings);
+    }
 
     return {
-      isValid: true,
+      isValid: errors.length === 0,
       errors,
       warnings,
       ast,
       formattedSQL,
     };
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    // Errors from a borrowed grammar would be spurious; the database checks the syntax when the query runs
+    if (!sqlDialect.hasGrammar) {
+      return {
+        isValid: true,
+        errors,
+        warnings: [{ message: `${sqlDialect.label} syntax is only checked by the database when the query runs`, type: 'style' }],
+        formattedSQL: formatSQLCode(sql, dialect, options.formatter),
+      };
+    }
 
-    // Try to extract line/column information from the error
-    const lineMatch = errorMessage.match(/line\s+(\d+)/i);
-    const columnMatch = errorMessage.match(/column\s+(\d+)/i);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
-    errors.push({
-      message: errorMessage,
-      line: lineMatch ? parseInt(lineMatch[1], 10) : undefined,
-      column: columnMatch ? parseInt(columnMatch[1], 10) : undefined,
-    });
+    // Parser syntax errors carry the location; otherwise try the message
+    const location = (error as { location?: ParserLocation }).location;
+    if (location?.start) {
+      errors.push({
+        message: errorMessage,
+        line: location.start.line,
+        column: location.start.column,
+        offset: location.start.offset,
+        length: Math.max(1, (location.end?.offset ?? location.start.offset) - location.start.offset),
+      });
+    } else {
+      const lineMatch = errorMessage.match(/line\s+(\d+)/i);
+      const columnMatch = errorMessage.match(/column\s+(\d+)/i);
+
+      errors.push({
+        message: errorMessage,
+        line: lineMatch ? parseInt(lineMatch[1], 10) : undefined,
+        column: columnMatch ? parseInt(columnMatch[1], 10) : undefined,
+      });
+    }
 
     return {
       isValid: false,
@@ -95,115 +132,62 @@ export function validateSQL(
   }
 }
 
-function checkSecurityIssues(sql: string, warnings: SQLWarning[]): void {
-  const sqlUpper = sql.toUpperCase();
-
-  // Check for DROP statements
-  if (/\bDROP\s+(TABLE|DATABASE|INDEX|VIEW)\b/i.test(sql)) {
-    warnings.push({
-      message: 'DROP statement detected - this will permanently delete data',
-      type: 'security',
-    });
-  }
-
-  // Check for TRUNCATE statements
-  if (/\bTRUNCATE\b/i.test(sql)) {
-    warnings.push({
-      message: 'TRUNCATE statement detected - this will delete all rows',
-      type: 'security',
-    });
-  }
-
-  // Check for DELETE without WHERE
-  if (/\bDELETE\s+FROM\b/i.test(sql) && !/\bWHERE\b/i.test(sql)) {
-    warnings.push({
-      message: 'DELETE without WHERE clause - this will delete all rows',
-      type: 'security',
-    });
-  }
-
-  // Check for UPDATE without WHERE
-  if (/\bUPDATE\b/i.test(sql) && !/\bWHERE\b/i.test(sql)) {
-    warnings.push({
-      message: 'UPDATE without WHERE clause - this will update all rows',
-      type: 'security',
-    });
-  }
-
-  // Check for potential SQL injection patterns
-  if (/('|")\s*;\s*--/i.test(sql) || /'\s*OR\s+'?\d+'?\s*=\s*'?\d+/i.test(sql)) {
-    warnings.push({
-      message: 'Potential SQL injection pattern detected',
-      type: 'security',
-    });
+/**
+ * Lint findings of a query with the given settings. Rules cannot be checked
+ * on SQL the dialect grammar rejects, so when any rule blocks execution such
+ * SQL is blocked too rather than let through unchecked.
+ */
+export function lintQuery(sql: string, dialect: string = 'pg', lintSettings: LintSettings = {}): SQLWarning[] {
+  let ast: AST | AST[];
+  try {
+    ast = parseSQL(sql, dialect);
+  } catch {
+    if (!hasBlockingRules(lintSettings)) return [];
+    return [
+      {
+        message: 'The SQL could not be parsed, so the lint rules that block execution cannot be checked',
+        type: 'security',
+        severity: 'error',
+      },
+    ];
   }
+  return lintSQL(sql, ast, lintSettings);
 }
 
-function checkPerformanceIssues(
-  sql: string,
-  ast: unknown,
-  warnings: SQLWarning[]
-): void {
-  // Check for SELECT *
-  if (/\bSELECT\s+\*/i.test(sql)) {
-    warnings.push({
-      message: 'SELECT * detected - consider selecting only needed columns',
-      type: 'performance',
-    });
-  }
-
-  // Check for missing LIMIT
-  if (/\bSELECT\b/i.test(sql) && !/\bLIMIT\b/i.test(sql) && !/\bTOP\b/i.test(sql)) {
-    warnings.push({
-      message: 'Query without LIMIT - consider adding a limit for large tables',
-      type: 'performance',
-    });
-  }
-
-  // Check for LIKE with leading wildcard
-  if (/\bLIKE\s+['"]%/i.test(sql)) {
-    warnings.push({
-      message: 'LIKE with leading wildcard may prevent index usage',
-      type: 'performance',
-    });
-  }
-
-  // Check for OR in WHERE clause
-  if (/\bWHERE\b.*\bOR\b/i.test(sql)) {
-    warnings.push({
-      message: 'OR in WHERE clause may prevent optimal index usage - consider UNION',
-      type: 'performance',
-    });
-  }
-
-  // Check for functions on indexed columns
-  if (/\bWHERE\b.*\b(UPPER|LOWER|TRIM|SUBSTRING|CAST|CONVERT)\s*\(/i.test(sql)) {
-    warnings.push({
-      message: 'Function on column in WHERE clause may prevent index usage',
-      type: 'performance',
-    });
-  }
+interface ParserLocation {
+  start: { offset: number; line: number; column: number };
+  end?: { offset: number; line: number; column: number };
 }
 
-export function formatSQLCode(sql: string, dialect: string = 'pg'): string {
+export function extractTables(sql: string, dialect: string = 'pg'): string[] {
   try {
-    return formatSQL(sql, {
-      language: dialect === 'pg' ? 'postgresql' : dialect === 'mysql' ? 'mysql' : 'sql',
-      tabWidth: 2,
-      keywordCase: 'upper',
+    const tables = parser.tableList(sql, { database: getDialect(dialect).parser });
+    return tables.map((t: string) => {
+      const parts = t.split('::');
+      return parts[parts.length - 1];
     });
   } catch {
-    return sql;
+    return [];
   }
 }
 
-export function extractTables(sql: string, dialect: string = 'pg'): string[] {
+export interface TableReference {
+  name: string;
+  // Undefined when the query leaves the table unqualified
+  schema?: string;
+}
+
+/**
+ * Tables a query reads with the schema they were qualified with; for
+ * three-part names (`db.schema.table`) only the schema is kept
+ */
+export function extractTableReferences(sql: string, dialect: string = 'pg'): TableReference[] {
   try {
-    const parserDialect = dialectMap[dialect] || 'postgresql';
-    const tables = parser.tableList(sql, { database: parserDialect });
+    const tables = parser.tableList(sql, { database: getDialect(dialect).parser });
     return tables.map((t: string) => {
-      const parts = t.split('::');
-      return parts[parts.length - 1];
+      const [, qualifier, name] = t.split('::');
+      const schema = qualifier && qualifier !== 'null' ? qualifier.split('.').pop() : undefined;
+      return schema ? { name, schema } : { name };
     });
   } catch {
     return [];
@@ -212,8 +196,7 @@ export function extractTables(sql: string, dialect: string = 'pg'): string[] {
 
 export function extractColumns(sql: string, dialect: string = 'pg'): string[] {
   try {
-    const parserDialect = dialectMap[dialect] || 'postgresql';
-    const columns = parser.columnList(sql, { database: parserDialect });
+    const columns = parser.columnList(sql, { database: getDialect(dialect).parser });
     return columns.map((c: string) => {
       const parts = c.split('::');
       return parts[parts.length - 1];
@@ -222,14 +205,3 @@ export function extractColumns(sql: string, dialect: string = 'pg'): string[] {
     return [];
   }
 }
-
-export function isReadOnlyQuery(sql: string): boolean {
-  const sqlTrimmed = sql.trim().toUpperCase();
-  return (
-    sqlTrimmed.startsWith('SELECT') ||
-    sqlTrimmed.startsWith('WITH') ||
-    sqlTrimmed.startsWith('EXPLAIN') ||
-    sqlTrimmed.startsWith('SHOW') ||
-    sqlTrimmed.startsWith('DESCRIBE')
-  );
-}
@@ -1,5 +1,7 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { ColumnCategory } from '@/types/api';
+import type { FormatterDefinition, FormatterType } from '@/types/database';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -48,6 +50,73 @@ export function formatPercentage(value: number, decimals: number = 2): string {
   }).format(value / 100);
 }
 
+/**
+ * Formatter a report column or chart axis falls back to for a result
+ * column's category
+ */
+export function formatterForCategory(category?: ColumnCategory): FormatterType {
+  switch (category) {
+    case 'number':
+    case 'date':
+    case 'datetime':
+    case 'boolean':
+      return category;
+    default:
+      return 'text';
+  }
+}
+
+/**
+ * Formats a result value for display; values that do not fit the
+ * formatter are shown as they are
+ */
+export function formatValue(value: unknown, formatter: FormatterDefinition): string {
+  if (value === null || value === undefined) return '';
+  const options = formatter.options ?? {};
+  const decimals = options.decimals;
+
+  let text: string;
+  switch (formatter.type) {
+    case 'number':
+    case 'currency':
+    case 'percentage': {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (typeof value === 'boolean' || value === '' || isNaN(number)) return String(value);
+      if (formatter.type === 'currency') {
+        text = formatCurrency(number, options.currency);
+      } else if (formatter.type === 'percentage') {
+        text = formatPercentage(number, decimals);
+      } else {
+        text = formatNumber(
+          number,
+          decimals === undefined ? undefined : { minimumFractionDigits: decimals, maximumFractionDigits: decimals }
+        );
+      }
+      break;
+    }
+    case 'date':
+    case 'datetime': {
+      // Date-only strings would otherwise be read as UTC midnight
+      const date = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+        ? new Date(`${value}T00:00:00`)
+        : new Date(value as string | number | Date);
+      if (isNaN(date.getTime())) return String(value);
+      text = formatter.type === 'date' ? formatDate(date) : formatDateTime(date);
+      break;
+    }
+    case 'boolean': {
+      // SQLite and MySQL return booleans as 0 and 1
+      const truthy = value === true || value === 1 || value === '1' || value === 'true';
+      text = truthy ? options.trueLabel ?? 'Yes' : options.falseLabel ?? 'No';
+      break;
+    }
+    default:
+      text = typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : String(value);
+  }
+
+  return `${options.prefix ?? ''}${text}${options.suffix ?? ''}`;
+}
+
 export function generateId(): string {
   return crypto.randomUUID();
 }
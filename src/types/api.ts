@@ -6,8 +6,10 @@ import type {
   DataSource,
   JobDefinition,
   JobExecution,
+  QueryParameter,
   ReportDefinition,
   SavedQuery,
+  SavedQueryVersion,
   User,
 } from './database';
 
@@ -50,6 +52,10 @@ export interface SQLValidationRequest {
   sql: string;
   dialect?: string;
   dataSourceId?: string;
+  // Run EXPLAIN against the data source to populate estimatedCost
+  explain?: boolean;
+  parameters?: Record<string, unknown>;
+  parametersSchema?: unknown;
 }
 
 export interface SQLValidationResponse {
@@ -57,7 +63,9 @@ export interface SQLValidationResponse {
   errors: SQLError[];
   warnings: SQLWarning[];
   ast?: unknown;
+  formattedSQL?: string;
   estimatedCost?: QueryCost;
+  plan?: QueryPlan;
 }
 
 export interface SQLError {
@@ -65,13 +73,72 @@ export interface SQLError {
   line?: number;
   column?: number;
   offset?: number;
+  length?: number;
+  // Set for semantic errors, e.g. 'unknown-column'
+  code?: string;
+  // "Did you mean" replacements for unknown or ambiguous names
+  suggestions?: string[];
 }
 
 export interface SQLWarning {
   message: string;
   line?: number;
   column?: number;
-  type: 'performance' | 'security' | 'style';
+  offset?: number;
+  length?: number;
+  type: 'performance' | 'security' | 'style' | 'semantic';
+  // Identifies the check, e.g. 'select-star' or 'missing-limit'
+  code?: string;
+  // Configured severity of the lint rule; 'error' blocks execution
+  severity?: 'info' | 'warning' | 'error';
+}
+
+export interface SQLLintRuleInfo {
+  id: string;
+  description: string;
+  category: 'performance' | 'security' | 'style';
+  defaultSeverity: 'info' | 'warning' | 'error';
+}
+
+// Summary of a tab's last run, stored with the tab rather than its rows
+export interface SQLEditorTabResult {
+  executedAt: string;
+  rowCount?: number;
+  executionTime?: number;
+  columns?: string[];
+  truncated?: boolean;
+  error?: string;
+}
+
+// Fields of a tab the editor autosaves
+export interface SQLEditorTabChanges {
+  name?: string;
+  sqlContent?: string;
+  dataSourceId?: string | null;
+  savedQueryId?: string | null;
+  cursor?: { lineNumber: number; column: number } | null;
+  lastResult?: SQLEditorTabResult | null;
+  isActive?: boolean;
+}
+
+// A tab opened through its share link
+export interface SharedSQLEditorTab {
+  name: string;
+  sqlContent: string;
+  dataSourceId: string | null;
+  dataSourceName: string | null;
+  ownerName: string | null;
+  lastResult: SQLEditorTabResult | null;
+  updatedAt: string;
+}
+
+// Per-user SQL formatting, applied by the editor's format command
+export interface SQLFormatterPreferences {
+  keywordCase: 'upper' | 'lower' | 'preserve';
+  indentSize: number;
+  useTabs: boolean;
+  // sql-formatter only supports trailing commas; leading ones are rewritten
+  commaPosition: 'trailing' | 'leading';
 }
 
 export interface QueryCost {
@@ -80,37 +147,278 @@ export interface QueryCost {
   explanation?: string;
 }
 
+// EXPLAIN Plan Types
+export type QueryPlanFormat = 'postgres-json' | 'mysql-json' | 'sqlite-query-plan';
+
+export interface QueryPlanNode {
+  id: string;
+  operation: string;
+  relation?: string;
+  index?: string;
+  // Filter, join or index condition
+  condition?: string;
+  estimatedRows?: number;
+  // Cost as reported by the database, in its own units
+  estimatedCost?: number;
+  // Share of the plan's total cost spent in this node alone (0-1)
+  costShare?: number;
+  isSequentialScan: boolean;
+  isHighCost: boolean;
+  // Remaining scalar attributes of the original plan node
+  properties: Record<string, string | number | boolean | null>;
+  children: QueryPlanNode[];
+}
+
+export interface QueryPlan {
+  format: QueryPlanFormat;
+  nodes: QueryPlanNode[];
+  totalCost?: number;
+  estimatedRows?: number;
+  // Relations read by a full scan
+  sequentialScans: string[];
+  raw: unknown;
+}
+
+export interface SQLExplainRequest {
+  sql: string;
+  dataSourceId: string;
+  parameters?: Record<string, unknown>;
+  parametersSchema?: unknown;
+}
+
+export interface SQLExplainResponse {
+  plan: QueryPlan;
+  estimatedCost: QueryCost;
+}
+
 // SQL Execution Types
 export interface SQLExecutionRequest {
   sql: string;
   dataSourceId: string;
+  savedQueryId?: string;
   parameters?: Record<string, unknown>;
+  parametersSchema?: QueryParameter[];
   limit?: number;
   offset?: number;
   timeout?: number;
+  executionId?: string;
+  // Stream all rows as NDJSON instead of returning one page
+  stream?: boolean;
+  // Serve from / store in the result cache. Defaults to true for saved queries
+  useCache?: boolean;
+  // Skip the cached result but store the fresh one
+  refreshCache?: boolean;
 }
 
 export interface QueryPagination {
   limit: number;
   offset: number;
   hasMore: boolean;
+  total?: number;
+  serverSide?: boolean;
 }
 
 export interface SQLExecutionResponse {
+  executionId?: string;
   columns: ColumnInfo[];
   rows: Record<string, unknown>[];
   rowCount: number;
   executionTime: number;
   truncated?: boolean;
   pagination?: QueryPagination;
+  cache?: QueryCacheInfo;
+  // Per-statement results when the SQL was a script of several statements
+  statements?: SQLStatementResult[];
+}
+
+export interface SQLStatementResult {
+  index: number;
+  sql: string;
+  // 1-based line of the script the statement starts on
+  line: number;
+  // 'cancelled' for the running statement and those after it when the script is cancelled
+  status: 'success' | 'error' | 'cancelled';
+  columns: ColumnInfo[];
+  rows: Record<string, unknown>[];
+  rowCount: number;
+  executionTime: number;
+  truncated?: boolean;
+  error?: string;
+}
+
+// File import into a managed SQLite data source
+export type FileImportFormat = 'csv' | 'xlsx' | 'json' | 'ndjson' | 'parquet';
+
+// SQLite storage: integer and boolean as INTEGER, real as REAL, the rest as TEXT
+// (dates as YYYY-MM-DD, datetimes as ISO 8601)
+export type FileImportColumnType = 'integer' | 'real' | 'boolean' | 'date' | 'datetime' | 'text';
+
+// Whether an import creates the table, adds rows to it or drops and reloads it
+export type FileImportMode = 'create' | 'append' | 'replace';
+
+export interface FileImportColumn {
+  // Header in the file
+  source: string;
+  // Column name in the table
+  name: string;
+  type: FileImportColumnType;
+  include: boolean;
+}
+
+export interface FileImportPreview {
+  format: FileImportFormat;
+  fileName: string;
+  // Worksheets of an Excel file and the one previewed
+  sheets?: string[];
+  sheet?: string;
+  tableName: string;
+  columns: (FileImportColumn & { samples: unknown[] })[];
+  // First rows, keyed by source header
+  rows: Record<string, unknown>[];
+  rowCount: number;
+}
+
+export interface FileImportOptions {
+  sheet?: string;
+  tableName: string;
+  columns: FileImportColumn[];
+  mode: FileImportMode;
+  // Managed data source to import into; a new one is created when omitted
+  dataSourceId?: string;
+  dataSourceName?: string;
+  description?: string;
+}
+
+export interface FileImportResult {
+  dataSource: Omit<DataSource, 'connection_config'>;
+  createdDataSource: boolean;
+  tableName: string;
+  mode: FileImportMode;
+  rowCount: number;
+  // Columns an append added to the existing table
+  addedColumns: string[];
+  // Values that could not be converted to their column type and were stored as NULL
+  warnings: string[];
+}
+
+// One side of a result comparison: ad-hoc SQL, or a saved query at its
+// current or an earlier version
+export type ResultCompareSource =
+  | { sql: string; dataSourceId: string; label?: string }
+  | { savedQueryId: string; version?: number; label?: string };
+
+export interface ResultCompareRequest {
+  base: ResultCompareSource;
+  target: ResultCompareSource;
+  // Columns identifying a row on both sides; empty compares whole rows
+  keyColumns?: string[];
+  // Applied to both sides
+  parameters?: Record<string, unknown>;
+  parametersSchema?: QueryParameter[];
+  // Largest absolute difference at which two numbers still count as equal
+  tolerance?: number;
+  // Most differing rows returned (1-10000, default 1000); the summary always counts all of them
+  maxRows?: number;
+  // Per side, in milliseconds (1-300000, default 30000)
+  timeout?: number;
 }
 
+export interface ResultCompareSide {
+  label: string;
+  dataSourceId: string;
+  sql: string;
+  columns: ColumnInfo[];
+  rowCount: number;
+  executionTime: number;
+  // The side hit the MAX_COMPARE_ROWS setting (paginationConfig.maxCompareRows),
+  // so rows past it were not compared and the comparison is not identical
+  truncated: boolean;
+}
+
+export interface ResultCellChange {
+  column: string;
+  before: unknown;
+  after: unknown;
+  // after - before, for numeric cells
+  delta?: number;
+}
+
+export interface ResultDiffRow {
+  status: 'added' | 'removed' | 'changed';
+  key: Record<string, unknown>;
+  base?: Record<string, unknown>;
+  target?: Record<string, unknown>;
+  changes?: ResultCellChange[];
+}
+
+export interface ResultComparisonSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+}
+
+export interface ResultComparison {
+  keyColumns: string[];
+  // Columns present on only one side are listed here and left out of cell diffs
+  addedColumns: string[];
+  removedColumns: string[];
+  summary: ResultComparisonSummary;
+  // True when both sides returned the same columns and rows
+  identical: boolean;
+  rows: ResultDiffRow[];
+  // More differing rows exist than were returned
+  rowsTruncated: boolean;
+}
+
+export interface ResultCompareResponse extends ResultComparison {
+  base: ResultCompareSide;
+  target: ResultCompareSide;
+}
+
+export interface QueryCacheInfo {
+  // 'bypass' when caching was not used for this execution
+  status: 'hit' | 'miss' | 'bypass';
+  backend: 'memory' | 'redis' | 'none';
+  // Seconds the result is kept, for hits and stored misses
+  ttl?: number;
+  cachedAt?: string;
+  expiresAt?: string;
+}
+
+// Broad kind of a column's database type; report cells and chart axes are
+// formatted by it unless configured otherwise
+export type ColumnCategory =
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'time'
+  | 'json'
+  | 'binary'
+  | 'unknown';
+
 export interface ColumnInfo {
   name: string;
+  // Database type name reported by the driver (e.g. 'timestamptz', 'varchar')
   type: string;
+  category?: ColumnCategory;
+  // Undefined when unknown: pg reports none, SQLite only knows it for table
+  // columns, and inferred columns are only marked nullable once a null is seen
   nullable?: boolean;
+  // The type was guessed from the returned values because the driver gave no
+  // metadata; a column that is all NULL in those values stays 'unknown'
+  inferred?: boolean;
 }
 
+// One line of an NDJSON result stream (`stream: true` on SQL execution)
+export type SQLStreamMessage =
+  | { type: 'columns'; columns: ColumnInfo[] }
+  | { type: 'rows'; rows: Record<string, unknown>[] }
+  | { type: 'end'; executionId: string; rowCount: number; executionTime: number; truncated: boolean }
+  | { type: 'error'; error: ApiError };
+
 // Schema Introspection Types
 export interface SchemaInfo {
   tables: TableInfo[];
@@ -124,6 +432,9 @@ export interface TableInfo {
   primaryKey?: string[];
   foreignKeys?: ForeignKeyInfo[];
   indexes?: IndexInfo[];
+  // Schema listings: columns, keys and indexes are loaded per table unless set
+  columnCount?: number;
+  columnsLoaded?: boolean;
 }
 
 export interface ViewInfo {
@@ -131,6 +442,100 @@ export interface ViewInfo {
   schema?: string;
   columns: ColumnSchema[];
   definition?: string;
+  columnCount?: number;
+  columnsLoaded?: boolean;
+}
+
+export interface SchemaObjectRef {
+  name: string;
+  schema?: string;
+}
+
+export type SchemaCacheState = 'ready' | 'refreshing' | 'failed';
+
+// Persisted schema cache of a data source
+export interface SchemaCacheStatus {
+  status: SchemaCacheState;
+  // Hash of every table's and view's column names and types
+  fingerprint: string | null;
+  // When the catalog was last checked, and when the fingerprint last changed
+  refreshedAt: string | null;
+  changedAt: string | null;
+  error?: string;
+}
+
+// GET /api/sql/schema/[dataSourceId]
+export interface SchemaListing extends SchemaInfo {
+  logs: string[];
+  cache: SchemaCacheStatus;
+}
+
+// POST /api/sql/schema/[dataSourceId]/refresh
+export interface SchemaRefreshResult {
+  // False when the job queue is unavailable and the refresh runs in the server
+  queued: boolean;
+  jobId?: string;
+}
+
+export type SchemaChangeKind = 'added' | 'removed' | 'changed';
+
+export interface SchemaColumnChange {
+  name: string;
+  change: 'added' | 'removed' | 'type_changed';
+  // Type after the change, or before it for removed columns
+  type: string;
+  previousType?: string;
+}
+
+// A table or view that differs between two schema snapshots; renames show
+// up as one object or column removed and another added
+export interface SchemaObjectChange {
+  name: string;
+  schema?: string;
+  kind: 'table' | 'view';
+  change: SchemaChangeKind;
+  columns: SchemaColumnChange[]; // Only for changed objects
+}
+
+// Saved query reading a dropped table or column, and what it feeds
+export interface SchemaDriftQueryImpact {
+  id: string;
+  name: string;
+  // Removed tables and `table.column` references the query still uses
+  references: string[];
+}
+
+export interface SchemaDriftImpact {
+  queries: SchemaDriftQueryImpact[];
+  reports: { id: string; name: string; savedQueryId: string }[];
+  charts: { id: string; name: string; savedQueryId: string }[];
+  dashboards: { id: string; name: string }[];
+}
+
+export interface SchemaSnapshotSummary {
+  id: string;
+  fingerprint: string;
+  changeCount: number;
+  createdAt: string;
+  acknowledgedAt: string | null;
+}
+
+// GET /api/data-sources/[id]/schema-drift
+export interface SchemaDriftReport {
+  dataSourceId: string;
+  // Changes since the last acknowledged snapshot
+  changes: SchemaObjectChange[];
+  detectedAt: string | null;
+  impact: SchemaDriftImpact;
+  snapshots: SchemaSnapshotSummary[];
+}
+
+// GET /api/data-sources/schema-drift
+export interface SchemaDriftSummary {
+  dataSourceId: string;
+  changeCount: number;
+  affectedQueries: number;
+  detectedAt: string;
 }
 
 export interface ColumnSchema {
@@ -197,14 +602,48 @@ export interface CreateQueryRequest {
   description?: string;
   dataSourceId: string;
   sqlContent: string;
-  parametersSchema?: Record<string, unknown>;
+  parametersSchema?: QueryParameter[];
+  cacheTtl?: number | null;
 }
 
 export interface UpdateQueryRequest {
   name?: string;
   description?: string;
+  dataSourceId?: string;
   sqlContent?: string;
-  parametersSchema?: Record<string, unknown>;
+  parametersSchema?: QueryParameter[];
+  cacheTtl?: number | null;
+  // Stored with the version the update creates
+  changeSummary?: string;
+}
+
+export type SavedQueryVersionListResponse = ApiResponse<SavedQueryVersion[]>;
+
+export interface SQLDiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  content: string;
+  // 1-based line numbers in the old and new SQL
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface ParameterSchemaChange {
+  name: string;
+  change: 'added' | 'removed' | 'changed';
+  before?: QueryParameter;
+  after?: QueryParameter;
+  // Definition fields that differ, for 'changed'
+  fields?: string[];
+}
+
+export interface SavedQueryVersionDiff {
+  from: SavedQueryVersion;
+  to: SavedQueryVersion;
+  sqlChanged: boolean;
+  sql: SQLDiffLine[];
+  parameters: ParameterSchemaChange[];
+  // Other fields (name, description, data source) that differ
+  fields: string[];
 }
 
 // Report Types
@@ -30,7 +30,8 @@ export type DatabaseClientType =
   | 'mysql'
   | 'mssql'
   | 'sqlite3'
-  | 'oracledb';
+  | 'oracledb'
+  | 'duckdb';
 
 export interface DataSource {
   id: string;
@@ -51,6 +52,9 @@ export interface DataSourceConnectionConfig {
   user?: string;
   password?: string;
   filename?: string;
+  // SQLite file created by file import under data/uploads; imports may add or
+  // replace its tables
+  managed?: boolean;
   ssl?: boolean;
   pool?: {
     min: number;
@@ -68,9 +72,161 @@ export interface SavedQuery {
   parameters_schema?: string;
   is_validated: boolean;
   validation_result?: string;
+  // Result cache TTL in seconds; unset uses the default, 0 disables caching
+  cache_ttl?: number | null;
+  // Folder in the query library; unset at the top level
+  folder_id?: string | null;
   created_by?: string;
   created_at: string;
   updated_at: string;
+  is_deleted?: boolean;
+  deleted_at?: string;
+  deleted_by?: string;
+}
+
+// Saved query as returned by the API, with its tags
+export interface SavedQueryWithTags extends SavedQuery {
+  tags: string[];
+}
+
+export interface QueryFolder {
+  id: string;
+  name: string;
+  parent_id?: string | null;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedQueryTag {
+  saved_query_id: string;
+  tag: string;
+}
+
+export interface SavedQueryVersion {
+  id: string;
+  saved_query_id: string;
+  version_number: number;
+  name: string;
+  description?: string;
+  data_source_id?: string;
+  sql_content: string;
+  parameters_schema?: string; // JSON
+  is_validated: boolean;
+  validation_result?: string; // JSON
+  change_summary?: string;
+  created_by?: string;
+  created_at: string;
+}
+
+export type QueryHistoryStatus = 'success' | 'error' | 'cancelled';
+
+export interface QueryHistoryEntry {
+  id: string;
+  user_id: string;
+  data_source_id?: string;
+  saved_query_id?: string;
+  execution_id?: string;
+  sql_text: string;
+  parameters?: string; // JSON
+  parameters_schema?: string; // JSON
+  status: QueryHistoryStatus;
+  error_message?: string;
+  row_count?: number;
+  duration_ms?: number;
+  is_streamed: boolean;
+  created_at: string;
+}
+
+export interface SQLLintSetting {
+  id: string;
+  rule_id: string;
+  scope: 'global' | 'role' | 'data_source';
+  scope_id?: string;
+  severity: 'off' | 'info' | 'warning' | 'error';
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Teams are roles: team snippets are shared with the members of a role
+export type SQLSnippetScope = 'personal' | 'team' | 'global';
+
+export interface SQLSnippet {
+  id: string;
+  name: string;
+  trigger: string;
+  description?: string;
+  body: string;
+  scope: SQLSnippetScope;
+  role_id?: string;
+  data_source_id?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SQLEditorTab {
+  id: string;
+  user_id: string;
+  name: string;
+  sql_content: string;
+  data_source_id?: string | null;
+  saved_query_id?: string | null;
+  cursor_line?: number | null;
+  cursor_column?: number | null;
+  last_result?: string | null; // JSON, see SQLEditorTabResult
+  position: number;
+  is_active: boolean;
+  share_token?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SchemaCacheEntry {
+  data_source_id: string;
+  version: string; // Data source updated_at the cache was built for
+  fingerprint?: string | null;
+  status: 'ready' | 'refreshing' | 'failed';
+  error?: string | null;
+  logs?: string | null; // JSON array
+  refreshed_at?: string | null;
+  changed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SchemaCacheObject {
+  id: string;
+  data_source_id: string;
+  schema_name: string; // '' when the dialect reports none
+  name: string;
+  kind: 'table' | 'view';
+  fingerprint: string;
+  column_count: number;
+  columns: string; // JSON ColumnSchema[] from the catalog listing
+  details?: string | null; // JSON TableInfo or ViewInfo, once introspected
+  loaded_at?: string | null;
+}
+
+export interface SchemaSnapshot {
+  id: string;
+  data_source_id: string;
+  fingerprint: string;
+  schema: string; // JSON SchemaInfo with column names, types and nullability
+  diff?: string | null; // JSON SchemaObjectChange[] against the previous snapshot
+  acknowledged_at?: string | null;
+  acknowledged_by?: string | null;
+  created_at: string;
+}
+
+export interface UserPreference {
+  id: string;
+  user_id: string;
+  key: string;
+  value: string; // JSON
+  created_at: string;
+  updated_at: string;
 }
 
 export interface QueryParameter {
@@ -374,7 +530,11 @@ export type ResourceType =
   | 'job'
   | 'queue'
   | 'user'
-  | 'role';
+  | 'role'
+  | 'sql_lint_setting'
+  | 'sql_snippet'
+  | 'query_folder'
+  | 'sql_editor_tab';
 
 export type PermissionLevel = 'view' | 'edit' | 'execute' | 'admin';
 
@@ -396,9 +556,15 @@ export type AuditAction =
   | 'view'
   | 'export'
   | 'retry'
+  | 'cancel'
+  | 'restore'
   | 'pause'
   | 'resume'
-  | 'clean';
+  | 'clean'
+  | 'share'
+  | 'unshare'
+  | 'import'
+  | 'acknowledge';
 
 export interface AuditLog {
   id: string;